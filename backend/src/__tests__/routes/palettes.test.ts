@@ -176,6 +176,50 @@ describe('Palette Management API', () => {
     });
   });
 
+  describe('POST /api/palettes/import', () => {
+    const gpl = 'GIMP Palette\nName: Legacy Brand\n255 107 53\tSunset Orange\n44 62 80\tDeep Navy\n';
+
+    it('should import and save a palette file', async () => {
+      mockColorPaletteRepository.create.mockImplementation(async (data) => ({
+        ...mockPalette,
+        name: data.name,
+        prompt: data.prompt,
+        colors: data.colors,
+        accessibilityScore: data.accessibilityScore,
+      }));
+
+      const response = await request(app)
+        .post('/api/palettes/import')
+        .attach('file', Buffer.from(gpl), 'legacy.gpl');
+
+      expect(response.status).toBe(201);
+      expect(response.body.importedFormat).toBe('gpl');
+      expect(response.body.name).toBe('Legacy Brand');
+      expect(response.body.colors).toHaveLength(2);
+      expect(response.body.colors[0].name).toBe('Sunset Orange');
+      expect(mockColorPaletteRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Legacy Brand', userId: null })
+      );
+    });
+
+    it('should require a file', async () => {
+      const response = await request(app)
+        .post('/api/palettes/import');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('No palette file provided');
+    });
+
+    it('should reject unsupported file extensions', async () => {
+      const response = await request(app)
+        .post('/api/palettes/import')
+        .attach('file', Buffer.from('hello'), 'notes.txt');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid file type');
+    });
+  });
+
   describe('DELETE /api/palettes/:id', () => {
     it('should delete an existing palette', async () => {
       mockColorPaletteRepository.findById.mockResolvedValue(mockPalette);
@@ -230,6 +274,29 @@ describe('Palette Management API', () => {
     });
   });
 
+  describe('GET /api/palettes/:id/scales', () => {
+    it('should return an 11-step shade scale for each color', async () => {
+      mockColorPaletteRepository.findById.mockResolvedValue(mockPalette);
+
+      const response = await request(app)
+        .get(`/api/palettes/${mockPaletteId}/scales`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.paletteId).toBe(mockPaletteId);
+      expect(response.body.scales).toHaveLength(1);
+      expect(response.body.scales[0].name).toBe('Sunset Orange');
+      expect(Object.keys(response.body.scales[0].shades)).toHaveLength(11);
+      expect(response.body.scales[0].shades[response.body.scales[0].anchor]).toBe('#FF6B35');
+    });
+
+    it('should reject invalid scale options', async () => {
+      const response = await request(app)
+        .get(`/api/palettes/${mockPaletteId}/scales?endChroma=2`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('PUT /api/palettes/:id', () => {
     const updateData = {
       name: 'Updated Palette Name',
@@ -88,6 +88,8 @@ describe('ExportService', () => {
       expect(result.content).toContain(':root {');
       expect(result.content).toContain('--color-sunset-orange: #FF6B35;');
       expect(result.content).toContain('--color-sunset-orange-rgb: 255, 107, 53;');
+      expect(result.content).toContain('--color-sunset-orange-400: #FF6B35;');
+      expect(result.content).toMatch(/--color-sunset-orange-950: #[0-9A-F]{6};/);
       expect(result.content).toContain('.bg-sunset-orange { background-color: #FF6B35; }');
       expect(result.content).toContain('.text-sunset-orange { color: #FF6B35; }');
       expect(result.content).toContain('/* Sunset Vibes Color Palette */');
@@ -105,6 +107,7 @@ describe('ExportService', () => {
       // Check SCSS content
       expect(result.content).toContain('$sunset-orange: #FF6B35;');
       expect(result.content).toContain('$sunset-orange-rgb: 255, 107, 53;');
+      expect(result.content).toMatch(/\$sunset-orange-50: #[0-9A-F]{6};/);
       expect(result.content).toContain('$colors: (');
       expect(result.content).toContain('@mixin bg-color($color-name)');
       expect(result.content).toContain('// Sunset Vibes Color Palette');
@@ -120,7 +123,7 @@ describe('ExportService', () => {
       expect(result.mimeType).toBe('application/json');
       
       // Parse and validate JSON
-      const jsonData = JSON.parse(result.content);
+      const jsonData = JSON.parse(result.content as string);
       expect(jsonData.name).toBe('Sunset Vibes');
       expect(jsonData.prompt).toBe('A warm sunset palette with orange and pink tones');
       expect(jsonData.colors).toHaveLength(3);
@@ -148,6 +151,7 @@ describe('ExportService', () => {
       expect(result.content).toContain("DEFAULT: '#FF6B35'");
       expect(result.content).toContain("50: '#"); // Light shade
       expect(result.content).toContain("900: '#"); // Dark shade
+      expect(result.content).toContain("950: '#");
     });
   });
 
@@ -160,7 +164,7 @@ describe('ExportService', () => {
       expect(result.mimeType).toBe('application/json');
       
       // Parse and validate Sketch JSON
-      const sketchData = JSON.parse(result.content);
+      const sketchData = JSON.parse(result.content as string);
       expect(sketchData.compatibleVersion).toBe('3');
       expect(sketchData.colors).toHaveLength(3);
       expect(sketchData.colors[0].name).toBe('Sunset Orange');
@@ -179,7 +183,7 @@ describe('ExportService', () => {
       expect(result.mimeType).toBe('application/json');
       
       // Parse and validate Figma JSON
-      const figmaData = JSON.parse(result.content);
+      const figmaData = JSON.parse(result.content as string);
       expect(figmaData.name).toBe('Sunset Vibes');
       expect(figmaData.colors).toHaveLength(3);
       expect(figmaData.colors[0].name).toBe('Sunset Orange');
@@ -189,21 +193,132 @@ describe('ExportService', () => {
     });
   });
 
+  describe('Design Tokens Export', () => {
+    it('should generate DTCG tokens grouped by category', async () => {
+      const result = await exportService.exportPalette(mockPalette, 'dtcg');
+
+      expect(result.format).toBe('dtcg');
+      expect(result.filename).toBe('sunset-vibes.tokens.json');
+      expect(result.mimeType).toBe('application/json');
+
+      const tokens = JSON.parse(result.content as string);
+      expect(Object.keys(tokens)).toEqual(['$description', 'primary', 'secondary', 'neutral', 'shades']);
+      expect(tokens.primary['sunset-orange']).toEqual({
+        $value: '#FF6B35',
+        $type: 'color',
+        $description: 'Primary brand color for headers and CTAs',
+      });
+      expect(tokens.neutral['deep-navy'].$value).toBe('#2C3E50');
+
+      // Shade scales alias the base token at the step nearest its lightness
+      const shades = tokens.shades.primary['sunset-orange'];
+      expect(Object.keys(shades)).toHaveLength(11);
+      expect(shades['400'].$value).toBe('{primary.sunset-orange}');
+      expect(shades['50']).toEqual({ $value: expect.stringMatching(/^#[0-9A-F]{6}$/), $type: 'color' });
+    });
+
+    it('should keep token names unique within a category', async () => {
+      const duplicatePalette = {
+        ...mockPalette,
+        colors: [mockPalette.colors[0], { ...mockPalette.colors[0], hex: '#E85A2A', usage: '' }],
+      };
+
+      const result = await exportService.exportPalette(duplicatePalette, 'dtcg');
+      const tokens = JSON.parse(result.content as string);
+
+      expect(Object.keys(tokens.primary)).toEqual(['sunset-orange', 'sunset-orange-2']);
+      expect(tokens.primary['sunset-orange-2']).toEqual({ $value: '#E85A2A', $type: 'color' });
+    });
+  });
+
+  describe('Color Rationale', () => {
+    const reasonedPalette: ColorPaletteData = {
+      ...mockPalette,
+      explanation: 'Warm tones anchored by a deep navy',
+      colors: [
+        { ...mockPalette.colors[0], rationale: 'Echoes the low sun.', psychology: ['warmth', 'energy'] },
+        mockPalette.colors[1],
+      ],
+    };
+
+    it('should include rationale and psychology in JSON exports', async () => {
+      const result = await exportService.exportPalette(reasonedPalette, 'json');
+      const jsonData = JSON.parse(result.content as string);
+
+      expect(jsonData.explanation).toBe('Warm tones anchored by a deep navy');
+      expect(jsonData.colors[0].description).toBe('Echoes the low sun. Primary brand color for headers and CTAs');
+      expect(jsonData.colors[0].psychology).toEqual(['warmth', 'energy']);
+      expect(jsonData.colors[1].description).toBe('Secondary accents and highlights');
+    });
+
+    it('should use the rationale in design token descriptions', async () => {
+      const dtcg = JSON.parse((await exportService.exportPalette(reasonedPalette, 'dtcg')).content as string);
+      const styleDictionary = JSON.parse((await exportService.exportPalette(reasonedPalette, 'style-dictionary')).content as string);
+
+      expect(dtcg.primary['sunset-orange'].$description).toBe('Echoes the low sun. Primary brand color for headers and CTAs');
+      expect(styleDictionary.color.primary['sunset-orange'].comment).toBe('Echoes the low sun. Primary brand color for headers and CTAs');
+    });
+  });
+
+  describe('Style Dictionary Export', () => {
+    it('should generate Style Dictionary source tokens', async () => {
+      const result = await exportService.exportPalette(mockPalette, 'style-dictionary');
+
+      expect(result.format).toBe('style-dictionary');
+      expect(result.filename).toBe('sunset-vibes-style-dictionary.json');
+      expect(result.mimeType).toBe('application/json');
+
+      const tokens = JSON.parse(result.content as string);
+      expect(Object.keys(tokens.color)).toEqual(['primary', 'secondary', 'neutral', 'shades']);
+      expect(tokens.color.secondary['golden-hour']).toEqual({
+        value: '#F7931E',
+        comment: 'Secondary accents and highlights',
+      });
+      expect(Object.keys(tokens.color.shades.secondary['golden-hour'])).toHaveLength(11);
+    });
+  });
+
   describe('ASE Export', () => {
-    it('should generate Adobe Swatch Exchange format', async () => {
+    it('should generate binary Adobe Swatch Exchange format', async () => {
       const result = await exportService.exportPalette(mockPalette, 'ase');
 
       expect(result.format).toBe('ase');
       expect(result.filename).toBe('sunset-vibes.ase');
       expect(result.mimeType).toBe('application/octet-stream');
-      
-      // Check ASE content (text representation)
-      expect(result.content).toContain('Adobe Swatch Exchange Format');
-      expect(result.content).toContain('Palette: Sunset Vibes');
-      expect(result.content).toContain('Colors: 3');
-      expect(result.content).toContain('Name: Sunset Orange');
-      expect(result.content).toContain('Type: RGB');
-      expect(result.content).toContain('R: 1.000000'); // 255/255
+      expect(Buffer.isBuffer(result.content)).toBe(true);
+
+      const content = result.content as Buffer;
+
+      // Header: signature, version 1.0, block count (group start + 3 colors + group end)
+      expect(content.toString('ascii', 0, 4)).toBe('ASEF');
+      expect(content.readUInt16BE(4)).toBe(1);
+      expect(content.readUInt16BE(6)).toBe(0);
+      expect(content.readUInt32BE(8)).toBe(5);
+
+      // Group start block carrying the palette name in UTF-16BE
+      expect(content.readUInt16BE(12)).toBe(0xc001);
+      const groupLength = content.readUInt32BE(14);
+      expect(content.readUInt16BE(18)).toBe('Sunset Vibes'.length + 1);
+      const groupName = Buffer.from(content.subarray(20, 20 + 'Sunset Vibes'.length * 2)).swap16();
+      expect(groupName.toString('utf16le')).toBe('Sunset Vibes');
+
+      // First color entry
+      let offset = 18 + groupLength;
+      expect(content.readUInt16BE(offset)).toBe(0x0001);
+      offset += 6;
+      const nameUnits = content.readUInt16BE(offset);
+      expect(nameUnits).toBe('Sunset Orange'.length + 1);
+      offset += 2 + nameUnits * 2;
+      expect(content.toString('ascii', offset, offset + 4)).toBe('RGB ');
+      offset += 4;
+      expect(content.readFloatBE(offset)).toBeCloseTo(1, 5); // 255/255
+      expect(content.readFloatBE(offset + 4)).toBeCloseTo(107 / 255, 5);
+      expect(content.readFloatBE(offset + 8)).toBeCloseTo(53 / 255, 5);
+      expect(content.readUInt16BE(offset + 12)).toBe(0); // global swatch
+
+      // Trailing group end block has no body
+      expect(content.readUInt16BE(content.length - 6)).toBe(0xc002);
+      expect(content.readUInt32BE(content.length - 4)).toBe(0);
     });
   });
 
@@ -218,7 +333,7 @@ describe('ExportService', () => {
       const emptyPalette = { ...mockPalette, colors: [] };
       
       const result = await exportService.exportPalette(emptyPalette, 'json');
-      const jsonData = JSON.parse(result.content);
+      const jsonData = JSON.parse(result.content as string);
       
       expect(jsonData.colors).toHaveLength(0);
       expect(jsonData.metadata.totalColors).toBe(0);
@@ -248,7 +363,7 @@ describe('ExportService', () => {
   });
 
   describe('Color Utility Functions', () => {
-    it('should correctly lighten colors', async () => {
+    it('should generate shade scales for Tailwind', async () => {
       const result = await exportService.exportPalette(mockPalette, 'tailwind');
       
       // Check that lighter shades are generated
@@ -258,7 +373,7 @@ describe('ExportService', () => {
       // Verify the content is valid JavaScript
       expect(() => {
         // This would throw if the JavaScript is malformed
-        new Function(result.content.replace('module.exports = ', 'return '));
+        new Function((result.content as string).replace('module.exports = ', 'return '));
       }).not.toThrow();
     });
   });
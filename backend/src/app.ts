@@ -7,6 +7,9 @@ import { setupRoutes } from './routes';
 import { setupErrorHandling } from './middleware';
 import { validateEnvironment } from './utils/environment';
 import { databaseService } from './services/DatabaseService';
+import { getGenerationCache } from './services/GenerationCache';
+import { generationCacheRepository } from './repositories';
+import { loadGenerationCacheConfig } from './config/cache';
 import { logger } from './utils/logger';
 
 // Load environment variables
@@ -32,6 +35,11 @@ if (process.env.NODE_ENV !== 'test') {
 }
 logger.info('Database service initialized with logging');
 
+// Back the generation cache with the database when configured
+if (process.env.NODE_ENV !== 'test' && loadGenerationCacheConfig().persistent) {
+  getGenerationCache().setPersistentStore(generationCacheRepository);
+}
+
 // Setup middleware (includes security, CORS, logging, etc.)
 setupMiddleware(app);
 
@@ -0,0 +1,16 @@
+import { GenerationCacheConfig } from './types';
+import { getEnvVarAsBoolean, getEnvVarAsNumber } from '../utils/environment';
+
+/**
+ * Read generation cache settings from the environment. The cache is off under test so
+ * identical prompts across test cases always reach the provider.
+ */
+export function loadGenerationCacheConfig(): GenerationCacheConfig {
+  return {
+    enabled: getEnvVarAsBoolean('GENERATION_CACHE_ENABLED', process.env.NODE_ENV !== 'test'),
+    ttl: getEnvVarAsNumber('GENERATION_CACHE_TTL_MS', 60 * 60 * 1000),
+    max: getEnvVarAsNumber('GENERATION_CACHE_MAX', 500),
+    updateAgeOnGet: getEnvVarAsBoolean('GENERATION_CACHE_UPDATE_AGE_ON_GET', false),
+    persistent: getEnvVarAsBoolean('GENERATION_CACHE_PERSIST', false),
+  };
+}
@@ -1,4 +1,5 @@
 import { Config } from './types';
+import { loadPaletteProviderConfig } from './providers';
 
 export const productionConfig: Config = {
   port: parseInt(process.env.PORT || '3001', 10),
@@ -29,6 +30,7 @@ export const productionConfig: Config = {
       timeout: 30000,
       maxRetries: 3,
     },
+    providers: loadPaletteProviderConfig(),
   },
 
   security: {
@@ -0,0 +1,48 @@
+import { PaletteProviderConfig, PaletteProviderName } from './types';
+import { getEnvVar, getEnvVarAsNumber } from '../utils/environment';
+
+export const PALETTE_PROVIDER_NAMES: PaletteProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+
+// The mock provider only runs when listed explicitly, so real deployments never serve seeded palettes
+const DEFAULT_PROVIDER_ORDER: PaletteProviderName[] = ['gemini', 'openai-compatible'];
+
+/**
+ * Parse the comma-separated PALETTE_PROVIDERS list, defaulting to the real providers in order
+ */
+function parseProviderOrder(value: string | undefined): PaletteProviderName[] {
+  if (!value || !value.trim()) {
+    return [...DEFAULT_PROVIDER_ORDER];
+  }
+
+  return value.split(',').map(name => {
+    const trimmed = name.trim() as PaletteProviderName;
+    if (!PALETTE_PROVIDER_NAMES.includes(trimmed)) {
+      throw new Error(`Unknown palette provider "${trimmed}" in PALETTE_PROVIDERS (expected ${PALETTE_PROVIDER_NAMES.join(', ')})`);
+    }
+    return trimmed;
+  });
+}
+
+/**
+ * Read palette provider settings from the environment
+ */
+export function loadPaletteProviderConfig(): PaletteProviderConfig {
+  return {
+    order: parseProviderOrder(process.env.PALETTE_PROVIDERS),
+    gemini: {
+      apiKey: process.env.GEMINI_API_KEY,
+      model: getEnvVar('GEMINI_MODEL', 'gemini-1.5-flash'),
+      timeout: getEnvVarAsNumber('GEMINI_TIMEOUT_MS', 30000),
+    },
+    openaiCompatible: {
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: getEnvVar('OPENAI_COMPATIBLE_MODEL', 'llama3.1'),
+      timeout: getEnvVarAsNumber('OPENAI_COMPATIBLE_TIMEOUT_MS', 60000),
+    },
+    mock: {
+      seed: getEnvVarAsNumber('MOCK_PROVIDER_SEED', 0),
+      timeout: getEnvVarAsNumber('MOCK_PROVIDER_TIMEOUT_MS', 1000),
+    },
+  };
+}
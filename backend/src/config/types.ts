@@ -1,3 +1,34 @@
+import { CacheConfig } from '../types/api';
+
+export type PaletteProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface PaletteProviderConfig {
+  /** Providers tried in order until one returns a usable palette */
+  order: PaletteProviderName[];
+  gemini: {
+    apiKey?: string;
+    model: string;
+    timeout: number;
+  };
+  /** Any server speaking the OpenAI chat completions API, e.g. Ollama or llama.cpp */
+  openaiCompatible: {
+    baseURL?: string;
+    apiKey?: string;
+    model: string;
+    timeout: number;
+  };
+  mock: {
+    seed: number;
+    timeout: number;
+  };
+}
+
+export interface GenerationCacheConfig extends CacheConfig {
+  enabled: boolean;
+  /** Also keep entries in the database so they survive restarts and are shared between instances */
+  persistent: boolean;
+}
+
 export interface Config {
   port: number;
   nodeEnv: string;
@@ -27,6 +58,7 @@ export interface Config {
       timeout?: number;
       maxRetries?: number;
     };
+    providers?: PaletteProviderConfig;
   };
 
   security: {
@@ -6,8 +6,10 @@ export interface ColorPalette {
   userId: string | null;
   name: string;
   prompt: string | null;
+  explanation?: string | null;
   colors: any;
   accessibilityScore: any | null;
+  generationRecipe?: any | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,8 +17,10 @@ export interface ColorPalette {
 export interface CreateColorPaletteData {
   name: string;
   prompt: string;
+  explanation?: string;
   colors: any;
   accessibilityScore?: any;
+  generationRecipe?: any;
   userId?: string | null;
 }
 
@@ -50,6 +54,7 @@ export class ColorPaletteRepository {
         ...palette,
         colors: JSON.parse(palette.colors),
         accessibilityScore: palette.accessibilityScore ? JSON.parse(palette.accessibilityScore) : null,
+        generationRecipe: palette.generationRecipe ? JSON.parse(palette.generationRecipe) : null,
       };
     } catch (error) {
       logger.error('Failed to find palette by ID', { id, error });
@@ -82,8 +87,14 @@ export class ColorPaletteRepository {
         take: options.limit,
         skip: options.offset,
       });
-      
-      return palettes;
+
+      // Parse JSON fields
+      return palettes.map(palette => ({
+        ...palette,
+        colors: JSON.parse(palette.colors),
+        accessibilityScore: palette.accessibilityScore ? JSON.parse(palette.accessibilityScore) : null,
+        generationRecipe: palette.generationRecipe ? JSON.parse(palette.generationRecipe) : null,
+      }));
     } catch (error) {
       logger.error('Failed to find palettes by user ID', { options, error });
       throw error;
@@ -126,8 +137,10 @@ export class ColorPaletteRepository {
         data: {
           name: paletteData.name,
           prompt: paletteData.prompt,
+          explanation: paletteData.explanation || null,
           colors: JSON.stringify(paletteData.colors), // Serialize for SQLite
           accessibilityScore: paletteData.accessibilityScore ? JSON.stringify(paletteData.accessibilityScore) : null,
+          generationRecipe: paletteData.generationRecipe ? JSON.stringify(paletteData.generationRecipe) : null,
           userId: paletteData.userId || null,
         },
       });
@@ -137,6 +150,7 @@ export class ColorPaletteRepository {
         ...palette,
         colors: JSON.parse(palette.colors),
         accessibilityScore: palette.accessibilityScore ? JSON.parse(palette.accessibilityScore) : null,
+        generationRecipe: palette.generationRecipe ? JSON.parse(palette.generationRecipe) : null,
       };
 
       logger.info('Color palette created successfully', { paletteId: palette.id });
@@ -152,13 +166,29 @@ export class ColorPaletteRepository {
    */
   async update(id: string, updateData: Partial<CreateColorPaletteData>): Promise<ColorPalette | null> {
     try {
+      const { colors, accessibilityScore, generationRecipe, ...fields } = updateData;
       const palette = await this.prisma.colorPalette.update({
         where: { id },
-        data: updateData,
+        data: {
+          ...fields,
+          // Serialize for SQLite
+          ...(colors !== undefined && { colors: JSON.stringify(colors) }),
+          ...(accessibilityScore !== undefined && {
+            accessibilityScore: accessibilityScore ? JSON.stringify(accessibilityScore) : null,
+          }),
+          ...(generationRecipe !== undefined && {
+            generationRecipe: generationRecipe ? JSON.stringify(generationRecipe) : null,
+          }),
+        },
       });
 
       logger.info('Color palette updated successfully', { paletteId: id });
-      return palette;
+      return {
+        ...palette,
+        colors: JSON.parse(palette.colors),
+        accessibilityScore: palette.accessibilityScore ? JSON.parse(palette.accessibilityScore) : null,
+        generationRecipe: palette.generationRecipe ? JSON.parse(palette.generationRecipe) : null,
+      };
     } catch (error) {
       logger.error('Failed to update color palette', { id, updateData, error });
       throw error;
@@ -0,0 +1,87 @@
+import { databaseService } from '../services/DatabaseService';
+import { GenerationCacheStore } from '../services/GenerationCache';
+import { AIGenerationResult } from '../types/color';
+import { logger } from '../utils/logger';
+
+// Expired entries are only removed when read, so writes sweep out the rest at most this often
+const EXPIRED_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Persistent tier of the generation cache; results are stored as JSON strings
+ */
+export class GenerationCacheRepository implements GenerationCacheStore {
+  private lastSweep = 0;
+
+  private get prisma() {
+    return databaseService.getClient();
+  }
+
+  /**
+   * Find an unexpired cached result, removing it when it has expired
+   */
+  async get(key: string): Promise<AIGenerationResult | null> {
+    try {
+      const entry = await this.prisma.generationCacheEntry.findUnique({
+        where: { key },
+      });
+
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt.getTime() <= Date.now()) {
+        await this.prisma.generationCacheEntry.delete({ where: { key } });
+        return null;
+      }
+
+      return JSON.parse(entry.result);
+    } catch (error) {
+      logger.error('Failed to find cached generation', { key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace a cached result, deleting expired entries if none were deleted recently
+   */
+  async set(key: string, result: AIGenerationResult, expiresAt: Date): Promise<void> {
+    try {
+      const data = { result: JSON.stringify(result), expiresAt };
+      await this.prisma.generationCacheEntry.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    } catch (error) {
+      logger.error('Failed to store cached generation', { key, error });
+      throw error;
+    }
+
+    if (Date.now() - this.lastSweep >= EXPIRED_SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now();
+      // Already logged; a failed sweep does not fail the write
+      await this.deleteExpired().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Delete every expired entry
+   */
+  async deleteExpired(): Promise<number> {
+    try {
+      const { count } = await this.prisma.generationCacheEntry.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+      });
+
+      if (count > 0) {
+        logger.info('Expired cached generations deleted', { count });
+      }
+      return count;
+    } catch (error) {
+      logger.error('Failed to delete expired cached generations', { error });
+      throw error;
+    }
+  }
+}
+
+export const generationCacheRepository = new GenerationCacheRepository();
@@ -0,0 +1,63 @@
+// Tests for GenerationCacheRepository
+
+import { GenerationCacheRepository } from '../GenerationCacheRepository';
+import { AIGenerationResult } from '../../types/color';
+
+// Mock the database service
+const mockPrismaClient = {
+  generationCacheEntry: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+};
+
+jest.mock('../../services/DatabaseService', () => ({
+  databaseService: {
+    getClient: () => mockPrismaClient,
+  },
+}));
+
+jest.mock('../../utils/logger');
+
+const result = { colors: [], explanation: '', confidence: 1, processingTime: 0, model: 'mock/seed-0' } as AIGenerationResult;
+
+describe('GenerationCacheRepository', () => {
+  let repository: GenerationCacheRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    repository = new GenerationCacheRepository();
+    mockPrismaClient.generationCacheEntry.deleteMany.mockResolvedValue({ count: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('set', () => {
+    it('should delete expired entries on the first write and then every ten minutes', async () => {
+      const expiresAt = new Date('2026-01-01T01:00:00Z');
+
+      await repository.set('a', result, expiresAt);
+      await repository.set('b', result, expiresAt);
+      jest.advanceTimersByTime(10 * 60 * 1000);
+      await repository.set('c', result, expiresAt);
+
+      expect(mockPrismaClient.generationCacheEntry.upsert).toHaveBeenCalledTimes(3);
+      expect(mockPrismaClient.generationCacheEntry.deleteMany).toHaveBeenCalledTimes(2);
+      expect(mockPrismaClient.generationCacheEntry.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: new Date('2026-01-01T00:10:00Z') } },
+      });
+    });
+
+    it('should store the entry even when deleting expired entries fails', async () => {
+      mockPrismaClient.generationCacheEntry.deleteMany.mockRejectedValueOnce(new Error('Database locked'));
+
+      await expect(repository.set('a', result, new Date('2026-01-01T01:00:00Z'))).resolves.toBeUndefined();
+      expect(mockPrismaClient.generationCacheEntry.upsert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 // Repository exports
 
 export { UserRepository, userRepository } from './UserRepository';
-export { ColorPaletteRepository, colorPaletteRepository } from './ColorPaletteRepository';
\ No newline at end of file
+export { ColorPaletteRepository, colorPaletteRepository } from './ColorPaletteRepository';
+export { GenerationCacheRepository, generationCacheRepository } from './GenerationCacheRepository';
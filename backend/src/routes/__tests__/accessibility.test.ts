@@ -0,0 +1,128 @@
+// Tests for accessibility endpoints
+
+import request from 'supertest';
+import express from 'express';
+import accessibilityRouter from '../accessibility';
+
+jest.mock('../../utils/logger');
+
+describe('Accessibility Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/accessibility', accessibilityRouter);
+  });
+
+  describe('POST /api/accessibility/simulate', () => {
+    it('should return simulated palettes for every type', async () => {
+      const response = await request(app)
+        .post('/api/accessibility/simulate')
+        .send({ colors: ['#FF0000', '#00ff00'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const { simulations } = response.body.data;
+      expect(simulations.map((simulation: any) => simulation.type)).toEqual([
+        'protanopia',
+        'deuteranopia',
+        'tritanopia',
+        'protanomaly',
+        'deuteranomaly',
+        'tritanomaly',
+        'achromatopsia',
+      ]);
+      expect(simulations[0]).toEqual({
+        type: 'protanopia',
+        severity: 1,
+        colors: [
+          { original: '#FF0000', simulated: '#6D5F00' },
+          { original: '#00FF00', simulated: '#FFE500' },
+        ],
+      });
+      expect(simulations[3].severity).toBe(0.5);
+    });
+
+    it('should apply severity to the requested anomalous types', async () => {
+      const response = await request(app)
+        .post('/api/accessibility/simulate')
+        .send({ colors: ['#FF0000'], severity: 1, types: ['protanomaly'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.simulations).toHaveLength(1);
+      expect(response.body.data.simulations[0].colors[0].simulated).toBe('#6D5F00');
+    });
+
+    it('should reject invalid requests', async () => {
+      const invalidBodies = [
+        {},
+        { colors: ['red'] },
+        { colors: ['#FF0000'], severity: 2 },
+        { colors: ['#FF0000'], types: ['monochromacy'] },
+      ];
+
+      for (const body of invalidBodies) {
+        const response = await request(app).post('/api/accessibility/simulate').send(body);
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+
+  describe('POST /api/accessibility/fix', () => {
+    it('should return a before/after diff that passes every pairing', async () => {
+      const response = await request(app)
+        .post('/api/accessibility/fix')
+        .send({
+          colors: ['#3B82F6', '#FFFFFF', '#F59E0B'],
+          pairings: [
+            { foreground: 0, background: 1 },
+            { foreground: 2, background: 1 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const result = response.body.data;
+      expect(result.solved).toBe(true);
+      expect(result.targetRatio).toBe(4.5);
+      expect(result.colors).toHaveLength(3);
+      expect(result.colors[0]).toMatchObject({ index: 0, before: '#3B82F6', changed: true, locked: false });
+      expect(result.pairings.every((pairing: any) => pairing.ratioAfter >= 4.5)).toBe(true);
+    });
+
+    it('should keep locked colors unchanged', async () => {
+      const response = await request(app)
+        .post('/api/accessibility/fix')
+        .send({
+          colors: ['#777777', '#888888'],
+          pairings: [{ foreground: 0, background: 1 }],
+          level: 'AA',
+          textSize: 'large',
+          lockedColors: [1],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.targetRatio).toBe(3);
+      expect(response.body.data.colors[1]).toMatchObject({ after: '#888888', changed: false, locked: true });
+      expect(response.body.data.solved).toBe(true);
+    });
+
+    it('should reject invalid requests', async () => {
+      const invalidBodies = [
+        { colors: ['#FFFFFF', '#000000'] },
+        { colors: ['#FFFFFF', '#000000'], pairings: [{ foreground: 0, background: 2 }] },
+        { colors: ['#FFFFFF', '#000000'], pairings: [{ foreground: 1, background: 1 }] },
+        { colors: ['#FFFFFF', '#000000'], pairings: [{ foreground: 0, background: 1 }], lockedColors: [5] },
+        { colors: ['#FFFFFF', '#000000'], pairings: [{ foreground: 0, background: 1 }], level: 'A' },
+      ];
+
+      for (const body of invalidBodies) {
+        const response = await request(app).post('/api/accessibility/fix').send(body);
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+});
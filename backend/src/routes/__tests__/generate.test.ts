@@ -0,0 +1,399 @@
+// Tests for streaming generation endpoints
+
+import request from 'supertest';
+import express from 'express';
+import { promises as fs } from 'fs';
+
+jest.mock('../../utils/logger');
+jest.mock('../../middleware/security', () => ({
+  generationRateLimit: (req: any, res: any, next: any) => next(),
+  uploadRateLimit: (req: any, res: any, next: any) => next(),
+}));
+jest.mock('../../services/DatabaseService', () => ({ databaseService: {} }));
+jest.mock('../../services/ImageProcessingService', () => ({ ImageProcessingService: jest.fn() }));
+jest.mock('../../repositories', () => ({
+  userRepository: {
+    findOrCreateBySessionId: jest.fn(),
+  },
+  colorPaletteRepository: {
+    create: jest.fn(async (data: any) => ({
+      ...data,
+      id: 'palette-1',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    })),
+  },
+}));
+
+// Generate offline with the seeded mock provider
+process.env.PALETTE_PROVIDERS = 'mock';
+
+import generateRouter from '../generate';
+import { errorHandler } from '../../middleware/errorHandler';
+import { colorPaletteRepository } from '../../repositories';
+import { ImageProcessingService } from '../../services/ImageProcessingService';
+import { ValidationError } from '../../types/api';
+
+// Uploads are written to disk by multer, so deleting them is real
+const imageProcessing = {
+  processImage: jest.fn(),
+  processMoodBoard: jest.fn(),
+  deleteTempFile: jest.fn((filePath: string) => fs.rm(filePath, { force: true })),
+};
+(ImageProcessingService as unknown as jest.Mock).mockImplementation(() => imageProcessing);
+
+interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+function parseEvents(body: string): ServerSentEvent[] {
+  return body
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+      const lines = block.split('\n');
+      const event = lines.find(line => line.startsWith('event: '))!.slice('event: '.length);
+      const data = lines.find(line => line.startsWith('data: '))!.slice('data: '.length);
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+describe('Generate Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/generate', generateRouter);
+    app.use(errorHandler);
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/generate/text/stream', () => {
+    it('should stream each pipeline stage before the saved palette', async () => {
+      const response = await request(app)
+        .post('/api/generate/text/stream')
+        .send({ prompt: 'calm ocean spa', options: { colorCount: 4 } });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseEvents(response.text);
+      const stages = events.filter(event => event.event === 'progress').map(event => event.data.stage);
+      expect(stages).toEqual(['context', 'colors', 'harmony', 'accessibility', 'names', 'saved']);
+
+      const complete = events[events.length - 1];
+      expect(complete.event).toBe('complete');
+      expect(complete.data.success).toBe(true);
+      expect(complete.data.data.id).toBe('palette-1');
+      expect(complete.data.model).toBe('mock/seed-0');
+      expect(complete.data.data.colors).toHaveLength(4);
+      expect(colorPaletteRepository.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include the palette so far in color stages', async () => {
+      const response = await request(app)
+        .post('/api/generate/text/stream')
+        .send({ prompt: 'forest cabin retreat', options: { colorCount: 5 } });
+
+      const events = parseEvents(response.text);
+      ['colors', 'harmony', 'accessibility', 'names'].forEach(stage => {
+        const progress = events.find(event => event.data.stage === stage)!;
+        expect(progress.data.colors.length).toBeGreaterThan(0);
+        progress.data.colors.forEach((color: any) => {
+          expect(color.hex).toMatch(/^#[0-9A-F]{6}$/);
+        });
+      });
+
+      const names = events.find(event => event.data.stage === 'names')!;
+      const complete = events.find(event => event.event === 'complete')!;
+      expect(complete.data.data.colors).toEqual(names.data.colors);
+    });
+
+    it('should reject invalid requests before streaming', async () => {
+      const response = await request(app)
+        .post('/api/generate/text/stream')
+        .send({ prompt: 'hi' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should reject variants, which are not streamed', async () => {
+      const response = await request(app)
+        .post('/api/generate/text/stream')
+        .send({ prompt: 'calm ocean spa', options: { variants: 3 } });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should report failures as an error event', async () => {
+      (colorPaletteRepository.create as jest.Mock).mockRejectedValueOnce(new Error('database unavailable'));
+
+      const response = await request(app)
+        .post('/api/generate/text/stream')
+        .send({ prompt: 'calm ocean spa' });
+
+      const events = parseEvents(response.text);
+      const error = events[events.length - 1];
+      expect(error.event).toBe('error');
+      expect(error.data.message).toBe('database unavailable');
+    });
+  });
+
+  describe('POST /api/generate/text', () => {
+    it('should return ranked, distinct variants without saving them', async () => {
+      const response = await request(app)
+        .post('/api/generate/text')
+        .send({ prompt: 'calm ocean spa', options: { variants: 4, colorCount: 5 } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.requested).toBe(4);
+
+      const { variants } = response.body.data;
+      expect(variants.length).toBeGreaterThan(1);
+      expect(variants.length).toBeLessThanOrEqual(4);
+      expect(new Set(variants.map((variant: any) => variant.harmonyType)).size).toBe(variants.length);
+      for (let i = 1; i < variants.length; i++) {
+        expect(variants[i - 1].score).toBeGreaterThanOrEqual(variants[i].score);
+      }
+      expect(colorPaletteRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/generate/text/stream', () => {
+    it('should read the prompt and options from the query string', async () => {
+      const response = await request(app)
+        .get('/api/generate/text/stream')
+        .query({ prompt: 'sunset beach bar', colorCount: '3', includeNeutrals: 'false' });
+
+      expect(response.status).toBe(200);
+
+      const events = parseEvents(response.text);
+      const complete = events[events.length - 1];
+      expect(complete.event).toBe('complete');
+      expect(complete.data.data.colors).toHaveLength(3);
+    });
+
+    it('should read JSON-encoded color options from the query string', async () => {
+      const response = await request(app)
+        .get('/api/generate/text/stream')
+        .query({
+          prompt: 'sunset beach bar',
+          colorCount: '4',
+          seed: '42',
+          lockedColors: JSON.stringify([{ hex: '#1D3557', position: 1 }]),
+          exclude: JSON.stringify({ colors: [{ hex: '#FF0000' }] }),
+        });
+
+      expect(response.status).toBe(200);
+
+      const events = parseEvents(response.text);
+      const complete = events[events.length - 1];
+      expect(complete.event).toBe('complete');
+      expect(complete.data.data.colors[1].hex).toBe('#1D3557');
+      expect(complete.data.data.generationRecipe.seed).toBe(42);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const response = await request(app)
+        .get('/api/generate/text/stream')
+        .query({ prompt: 'sunset beach bar', colorCount: '20' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject locked colors outside the palette', async () => {
+      const response = await request(app)
+        .get('/api/generate/text/stream')
+        .query({
+          prompt: 'sunset beach bar',
+          colorCount: '3',
+          lockedColors: JSON.stringify([{ hex: '#1D3557', position: 5 }]),
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('outside a 3-color palette');
+    });
+  });
+
+  describe('POST /api/generate/analyze-prompt', () => {
+    it('should return the parsed context without generating', async () => {
+      const response = await request(app)
+        .post('/api/generate/analyze-prompt')
+        .send({ prompt: 'Five calm colors for a spa with teal and #F4A261, no red' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.mood).toBe('calm');
+      expect(response.body.data.colorCountHint).toBe(5);
+      expect(response.body.data.namedColors.map((color: any) => color.hex)).toEqual(['#008080', '#F4A261']);
+      expect(response.body.data.negations).toEqual([{ term: 'red', kind: 'color', hex: '#FF0000' }]);
+      expect(colorPaletteRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid prompts', async () => {
+      const response = await request(app)
+        .post('/api/generate/analyze-prompt')
+        .send({ prompt: 'hi' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/generate/from-source', () => {
+    it('should build and save a palette from a stylesheet', async () => {
+      const css = `
+        :root { --brand: #E63946; --ink: #1D3557; }
+        body { background: #F1FAEE; color: var(--ink); }
+        .button { background: var(--brand); }
+        .button:hover { background: #E63947; }
+      `;
+
+      const response = await request(app)
+        .post('/api/generate/from-source')
+        .field('colorCount', '3')
+        .attach('file', Buffer.from(css), 'brand.css');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.colors.map((color: any) => [color.hex, color.category])).toEqual([
+        ['#E63946', 'primary'],
+        ['#1D3557', 'secondary'],
+        ['#F1FAEE', 'neutral'],
+      ]);
+      expect(response.body.data.sourceMetadata).toMatchObject({ format: 'css', colorsFound: 4 });
+      expect(response.body.data.sourceMetadata.clusters[0].members).toEqual(['#E63946', '#E63947']);
+      expect(colorPaletteRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Palette from brand.css',
+      }));
+    });
+
+    it('should require a file', async () => {
+      const response = await request(app)
+        .post('/api/generate/from-source')
+        .field('colorCount', '3');
+
+      expect(response.status).toBe(400);
+      expect(colorPaletteRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/generate/image', () => {
+    it('should return 400 when the selection leaves nothing to extract', async () => {
+      imageProcessing.processImage.mockRejectedValueOnce(
+        new ValidationError('No pixels left to extract colors from; the selected area is empty or only background')
+      );
+
+      const response = await request(app)
+        .post('/api/generate/image')
+        .field('options', JSON.stringify({ excludeBackground: true }))
+        .attach('image', Buffer.from('a'), 'white.png');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('No pixels left');
+      expect(imageProcessing.deleteTempFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('POST /api/generate/moodboard', () => {
+    const merged = (hex: string, coverage: number, image: number) => ({
+      hex,
+      coverage,
+      sources: [{ image, coverage: 100, share: 100 }],
+    });
+
+    it('should build one palette from every image and clean up the uploads', async () => {
+      imageProcessing.processMoodBoard.mockResolvedValueOnce({
+        images: [
+          { processedImagePath: 'temp/a.jpeg', originalSize: { width: 10, height: 10 }, colorCoverage: [], warnings: [] },
+          {
+            processedImagePath: 'temp/b.jpeg',
+            originalSize: { width: 10, height: 10 },
+            colorCoverage: [],
+            warnings: ['CMYK image detected'],
+          },
+        ],
+        colors: [merged('#264653', 75, 1), merged('#e9c46a', 25, 0)],
+        colorPalette: [{ hex: '#264653' }, { hex: '#E9C46A' }],
+        replacedColors: [],
+      });
+
+      const response = await request(app)
+        .post('/api/generate/moodboard')
+        .field('options', JSON.stringify({ colorCount: 4 }))
+        .field('weights', JSON.stringify([1, 3]))
+        .attach('images', Buffer.from('a'), 'beach.jpg')
+        .attach('images', Buffer.from('b'), 'forest.jpg');
+
+      expect(response.status).toBe(200);
+      expect(imageProcessing.processMoodBoard).toHaveBeenCalledWith(
+        [expect.objectContaining({ weight: 1 }), expect.objectContaining({ weight: 3 })],
+        expect.objectContaining({ colorCount: 4 })
+      );
+      expect(response.body.data.colors).toHaveLength(4);
+      // The merged colors are the palette, named and checked for accessibility
+      expect(response.body.data.colors.slice(0, 2).map((color: any) => color.hex)).toEqual(['#264653', '#E9C46A']);
+      expect(response.body.data.colors[0].name).toBeTruthy();
+      expect(response.body.data.colors[0].accessibility.contrastWithWhite).toBeGreaterThan(1);
+      expect(response.body.data.moodBoard.colors[0].sources).toEqual([{ image: 1, coverage: 100, share: 100 }]);
+      expect(response.body.data.moodBoard.images.map((image: any) => [image.name, image.weight])).toEqual([
+        ['beach.jpg', 1],
+        ['forest.jpg', 3],
+      ]);
+      expect(response.body.warnings).toEqual(['forest.jpg: CMYK image detected']);
+      // Two uploads and two processed images
+      expect(imageProcessing.deleteTempFile).toHaveBeenCalledTimes(4);
+      expect(colorPaletteRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Mood board from 2 images',
+      }));
+    });
+
+    it('should require one weight per image', async () => {
+      const response = await request(app)
+        .post('/api/generate/moodboard')
+        .field('weights', JSON.stringify([1, 2, 3]))
+        .attach('images', Buffer.from('a'), 'beach.jpg');
+
+      expect(response.status).toBe(400);
+      expect(imageProcessing.processMoodBoard).not.toHaveBeenCalled();
+      expect(imageProcessing.deleteTempFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should also be reachable as several images on /api/generate/image', async () => {
+      imageProcessing.processMoodBoard.mockResolvedValueOnce({
+        images: [
+          { processedImagePath: 'temp/a.jpeg', originalSize: { width: 10, height: 10 }, colorCoverage: [], warnings: [] },
+          { processedImagePath: 'temp/b.jpeg', originalSize: { width: 10, height: 10 }, colorCoverage: [], warnings: [] },
+        ],
+        colors: [merged('#264653', 50, 0), merged('#e9c46a', 30, 1), merged('#2a9d8f', 20, 1)],
+        colorPalette: [{ hex: '#264653' }, { hex: '#E9C46A' }, { hex: '#2A9D8F' }],
+        replacedColors: [],
+      });
+
+      const response = await request(app)
+        .post('/api/generate/image')
+        .field('options', JSON.stringify({ colorCount: 3 }))
+        .attach('images', Buffer.from('a'), 'beach.jpg')
+        .attach('images', Buffer.from('b'), 'forest.jpg');
+
+      expect(response.status).toBe(200);
+      expect(imageProcessing.processImage).not.toHaveBeenCalled();
+      expect(response.body.data.colors.map((color: any) => color.hex)).toEqual(['#264653', '#E9C46A', '#2A9D8F']);
+      expect(response.body.data.moodBoard.images).toHaveLength(2);
+    });
+
+    it('should reject per-image options with several images on /api/generate/image', async () => {
+      const response = await request(app)
+        .post('/api/generate/image')
+        .field('options', JSON.stringify({ accentSlot: true }))
+        .attach('images', Buffer.from('a'), 'beach.jpg')
+        .attach('images', Buffer.from('b'), 'forest.jpg');
+
+      expect(response.status).toBe(400);
+      expect(imageProcessing.processMoodBoard).not.toHaveBeenCalled();
+      expect(imageProcessing.deleteTempFile).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+// Tests for mounting the route modules
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger');
+jest.mock('../../services/DatabaseService', () => ({ databaseService: {} }));
+jest.mock('../../services/ImageProcessingService', () => ({ ImageProcessingService: jest.fn() }));
+jest.mock('../../repositories', () => ({
+  userRepository: {},
+  colorPaletteRepository: {
+    create: jest.fn(async (data: any) => ({ ...data, id: 'palette-1' })),
+  },
+}));
+
+// Generate offline with the seeded mock provider
+process.env.PALETTE_PROVIDERS = 'mock';
+
+import { setupRoutes } from '..';
+
+describe('setupRoutes', () => {
+  it('should mount the full generation router', async () => {
+    const app = express();
+    app.use(express.json());
+    setupRoutes(app);
+
+    const response = await request(app)
+      .post('/api/generate/text/stream')
+      .send({ prompt: 'calm ocean spa', options: { colorCount: 4 } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.text).toContain('event: complete');
+  });
+});
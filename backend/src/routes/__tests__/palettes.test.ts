@@ -0,0 +1,212 @@
+// Tests for palette routes
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger');
+jest.mock('../../repositories', () => ({
+  userRepository: {
+    findById: jest.fn(async (id: string) => ({ id })),
+  },
+  colorPaletteRepository: {
+    findById: jest.fn(),
+    findByUserId: jest.fn(),
+    countByUserId: jest.fn(),
+    update: jest.fn(async (id: string, data: any) => ({ id, ...data })),
+  },
+}));
+
+// Generate offline with the seeded mock provider
+process.env.PALETTE_PROVIDERS = 'mock';
+
+import palettesRouter from '../palettes';
+import { colorPaletteRepository } from '../../repositories';
+import { getContrastRatio, getDeltaE } from '../../utils/colorConversion';
+import { ColorGenerationService } from '../../services/ColorGenerationService';
+import { MockPaletteProvider } from '../../services/providers';
+
+const paletteId = '0b6c4c4e-3c1a-4b8e-9a57-2f3e6a1f9d10';
+
+const color = (hex: string, name: string, category: string) => ({
+  hex,
+  rgb: { r: 0, g: 0, b: 0 },
+  hsl: { h: 0, s: 0, l: 0 },
+  name,
+  category,
+  usage: `${name} usage`,
+  accessibility: { contrastWithWhite: 0, contrastWithBlack: 0, wcagLevel: 'FAIL' },
+});
+
+const palette = {
+  id: paletteId,
+  name: 'Harbor',
+  prompt: 'calm harbor at dawn',
+  colors: [
+    color('#1E3A8A', 'Navy', 'primary'),
+    color('#0EA5E9', 'Sky', 'secondary'),
+    color('#F59E0B', 'Amber', 'accent'),
+  ],
+};
+
+describe('Palette Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/palettes', palettesRouter);
+    jest.clearAllMocks();
+    (colorPaletteRepository.findById as jest.Mock).mockResolvedValue(palette);
+  });
+
+  describe('GET /api/palettes/history/:userId', () => {
+    it('should include the generation recipe so palettes can be replayed', async () => {
+      const recipe = { pipelineVersion: 1, prompt: palette.prompt, provider: 'mock', model: 'mock/seed-0', seed: 42 };
+      (colorPaletteRepository.findByUserId as jest.Mock).mockResolvedValue([
+        { ...palette, generationRecipe: recipe },
+        { ...palette, id: 'imported', generationRecipe: null },
+      ]);
+      (colorPaletteRepository.countByUserId as jest.Mock).mockResolvedValue(2);
+
+      const response = await request(app).get('/api/palettes/history/6f1c2b3a-4d5e-4f60-8a7b-9c0d1e2f3a4b');
+
+      expect(response.status).toBe(200);
+      expect(response.body.palettes[0].generationRecipe).toEqual(recipe);
+      expect(response.body.palettes[0].thumbnail).toEqual(['#1E3A8A', '#0EA5E9', '#F59E0B']);
+      expect(response.body.palettes[1].generationRecipe).toBeNull();
+    });
+  });
+
+  describe('POST /api/palettes/:id/colors/:index/regenerate', () => {
+    it('should suggest distinct alternatives that keep the slot category', async () => {
+      const response = await request(app)
+        .post(`/api/palettes/${paletteId}/colors/2/regenerate`)
+        .send({ count: 4 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.index).toBe(2);
+      expect(response.body.current.hex).toBe('#F59E0B');
+      expect(response.body.model).toBe('mock/seed-0');
+      expect(response.body.alternatives).toHaveLength(4);
+
+      const hexes: string[] = response.body.alternatives.map((alternative: any) => alternative.hex);
+      response.body.alternatives.forEach((alternative: any) => {
+        expect(alternative.hex).toMatch(/^#[0-9A-F]{6}$/);
+        expect(alternative.category).toBe('accent');
+        expect(alternative.accessibility.contrastWithWhite).toBeGreaterThan(0);
+        palette.colors.forEach(existing => {
+          expect(getDeltaE(existing.hex, alternative.hex)).toBeGreaterThanOrEqual(8);
+        });
+      });
+      expect(new Set(hexes).size).toBe(4);
+    });
+
+    it('should keep the pairings the current color reads well in', async () => {
+      const response = await request(app)
+        .post(`/api/palettes/${paletteId}/colors/2/regenerate`)
+        .send({ count: 4 });
+
+      // Amber reads as text on navy, so its alternatives must too
+      expect(getContrastRatio('#F59E0B', '#1E3A8A')).toBeGreaterThanOrEqual(4.5);
+      response.body.alternatives.forEach((alternative: any) => {
+        expect(getContrastRatio(alternative.hex, '#1E3A8A')).toBeGreaterThanOrEqual(4.5);
+      });
+    });
+
+    it('should follow the harmony type the palette was generated with', async () => {
+      const spy = jest.spyOn(ColorGenerationService.prototype, 'generateSlotAlternatives');
+      (colorPaletteRepository.findById as jest.Mock).mockResolvedValueOnce({
+        ...palette,
+        generationRecipe: { options: { harmonyType: 'triadic', accessibilityLevel: 'AA' } },
+      });
+
+      const response = await request(app)
+        .post(`/api/palettes/${paletteId}/colors/1/regenerate`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(spy).toHaveBeenCalledWith(palette.colors, 1, expect.objectContaining({ harmonyType: 'triadic' }));
+      spy.mockRestore();
+    });
+
+    it('should reject an index outside the palette', async () => {
+      const response = await request(app)
+        .post(`/api/palettes/${paletteId}/colors/3/regenerate`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('outside a 3-color palette');
+    });
+
+    it('should return 404 for an unknown palette', async () => {
+      (colorPaletteRepository.findById as jest.Mock).mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .post(`/api/palettes/${paletteId}/colors/0/regenerate`)
+        .send({});
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/palettes/:id', () => {
+    it('should rescore the palette when its colors change', async () => {
+      const colors = [color('#000000', 'Black', 'primary'), color('#FFFFFF', 'White', 'secondary')];
+
+      const response = await request(app)
+        .put(`/api/palettes/${paletteId}`)
+        .send({ colors });
+
+      expect(response.status).toBe(200);
+      // Each color on white and black, and the pair
+      expect(response.body.accessibilityScore).toMatchObject({ passedChecks: 3, totalChecks: 5 });
+      expect(colorPaletteRepository.update).toHaveBeenCalledWith(paletteId, expect.objectContaining({
+        colors,
+        accessibilityScore: expect.objectContaining({ passedChecks: 3 }),
+      }));
+    });
+  });
+
+  describe('GET /api/palettes/:id', () => {
+    it('should return the explanation and per-color rationale', async () => {
+      (colorPaletteRepository.findById as jest.Mock).mockResolvedValueOnce({
+        ...palette,
+        explanation: 'Harbor blues with an amber signal light',
+        colors: [{ ...palette.colors[0], rationale: 'Deep water at dawn.', psychology: ['trust'] }, ...palette.colors.slice(1)],
+      });
+
+      const response = await request(app).get(`/api/palettes/${paletteId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.explanation).toBe('Harbor blues with an amber signal light');
+      expect(response.body.colors[0]).toMatchObject({ rationale: 'Deep water at dawn.', psychology: ['trust'] });
+    });
+  });
+
+  describe('POST /api/palettes/:id/replay', () => {
+    it('should reproduce a palette generated with the mock provider', async () => {
+      const service = new ColorGenerationService([new MockPaletteProvider({ seed: 0, timeout: 1000 })]);
+      const generated = await service.generateFromText('calm harbor at dawn', { colorCount: 5, seed: 42 });
+      (colorPaletteRepository.findById as jest.Mock).mockResolvedValueOnce({
+        ...palette,
+        colors: generated.colors,
+        generationRecipe: generated.recipe,
+      });
+
+      const response = await request(app).post(`/api/palettes/${paletteId}/replay`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.identical).toBe(true);
+      expect(response.body.colors).toEqual(generated.colors);
+      expect(response.body.recipe.seed).toBe(42);
+      expect(response.body.warnings).toEqual([]);
+    });
+
+    it('should reject palettes saved without a recipe', async () => {
+      const response = await request(app).post(`/api/palettes/${paletteId}/replay`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('no generation recipe');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+// Accessibility analysis routes
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import rateLimit from 'express-rate-limit';
+import { accessibilityService } from '../services/AccessibilityService';
+import { COLOR_BLINDNESS_TYPES, DEFAULT_CVD_SEVERITY } from '../utils/colorVision';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../types/api';
+import { ColorBlindnessType } from '../types/color';
+
+const router = Router();
+
+// Rate limiting for accessibility operations
+const accessibilityRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // Limit each IP to 100 requests per windowMs
+  message: 'Too many accessibility requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Apply rate limiting to all accessibility routes
+router.use(accessibilityRateLimit);
+
+// Validation schemas
+const HexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Colors must be 6-digit HEX values');
+
+const SimulateSchema = z.object({
+  colors: z.array(HexColorSchema).min(1).max(20),
+  severity: z.number().min(0).max(1).optional().default(DEFAULT_CVD_SEVERITY),
+  types: z.array(z.enum(COLOR_BLINDNESS_TYPES as [ColorBlindnessType, ...ColorBlindnessType[]])).min(1).optional(),
+});
+
+const FixSchema = z.object({
+  colors: z.array(HexColorSchema).min(2).max(20),
+  pairings: z.array(z.object({
+    foreground: z.number().int().min(0),
+    background: z.number().int().min(0),
+  })).min(1).max(100),
+  level: z.enum(['AA', 'AAA']).optional().default('AA'),
+  textSize: z.enum(['normal', 'large']).optional().default('normal'),
+  lockedColors: z.array(z.number().int().min(0)).optional().default([]),
+}).superRefine((data, ctx) => {
+  const inRange = (index: number) => index < data.colors.length;
+
+  data.pairings.forEach((pairing, i) => {
+    if (!inRange(pairing.foreground) || !inRange(pairing.background)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pairings', i], message: `Pairing ${i} refers to a color that does not exist` });
+    } else if (pairing.foreground === pairing.background) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pairings', i], message: `Pairing ${i} uses the same color as foreground and background` });
+    }
+  });
+
+  if (!data.lockedColors.every(inRange)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lockedColors'], message: 'Locked colors must be indices into colors' });
+  }
+});
+
+const ANOMALOUS_TYPES: ColorBlindnessType[] = ['protanomaly', 'deuteranomaly', 'tritanomaly'];
+
+/**
+ * POST /api/accessibility/simulate
+ * Simulate a set of colors under each color vision deficiency
+ */
+router.post('/simulate', (req: Request, res: Response) => {
+  try {
+    const validation = SimulateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Invalid simulation request: ' + validation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const { colors, severity, types = COLOR_BLINDNESS_TYPES } = validation.data;
+
+    const simulations = types.map(type => ({
+      type,
+      // Dichromacies and achromatopsia are always simulated at full severity
+      severity: ANOMALOUS_TYPES.includes(type) ? severity : 1,
+      colors: colors.map(hex => ({
+        original: hex.toUpperCase(),
+        simulated: accessibilityService.simulateColorBlindness(hex, type, severity),
+      })),
+    }));
+
+    logger.info('Color vision simulation completed', {
+      colorCount: colors.length,
+      types: types.length,
+      severity,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        simulations,
+      },
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to simulate color vision deficiencies', { error: errorMessage });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to simulate color vision deficiencies' });
+  }
+});
+
+/**
+ * POST /api/accessibility/fix
+ * Adjust a palette with the smallest total ΔE so every foreground/background pairing meets a WCAG target
+ */
+router.post('/fix', (req: Request, res: Response) => {
+  try {
+    const validation = FixSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Invalid fix request: ' + validation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const { colors, pairings, level, textSize, lockedColors } = validation.data;
+    const result = accessibilityService.fixContrast(colors, pairings, { level, textSize, lockedColors });
+
+    logger.info('Contrast fix completed', {
+      colorCount: colors.length,
+      pairingCount: pairings.length,
+      level,
+      textSize,
+      solved: result.solved,
+      changedColors: result.colors.filter(color => color.changed).length,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to fix palette contrast', { error: errorMessage });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to fix palette contrast' });
+  }
+});
+
+export default router;
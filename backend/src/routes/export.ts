@@ -24,7 +24,7 @@ router.use(exportRateLimit);
 // Validation schemas
 const ExportParamsSchema = z.object({
   id: z.string().uuid('Invalid palette ID format'),
-  format: z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind'] as const),
+  format: z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind', 'dtcg', 'style-dictionary'] as const),
 });
 
 const ExportQuerySchema = z.object({
@@ -70,6 +70,7 @@ router.get('/:id/:format', async (req: Request, res: Response) => {
       id: palette.id,
       name: palette.name,
       prompt: palette.prompt || undefined,
+      explanation: palette.explanation || undefined,
       colors: palette.colors,
       accessibilityScore: palette.accessibilityScore,
       userId: palette.userId || undefined,
@@ -95,7 +96,7 @@ router.get('/:id/:format', async (req: Request, res: Response) => {
         data: {
           format: exportData.format,
           filename: exportData.filename,
-          content: exportData.content,
+          ...serializeExportContent(exportData.content),
           mimeType: exportData.mimeType,
           size: exportData.content.length,
         },
@@ -105,14 +106,9 @@ router.get('/:id/:format', async (req: Request, res: Response) => {
     // Set appropriate headers for download
     res.setHeader('Content-Type', exportData.mimeType);
     res.setHeader('Content-Disposition', `attachment; filename="${exportData.filename}"`);
-    res.setHeader('Content-Length', Buffer.byteLength(exportData.content, 'utf8'));
+    res.setHeader('Content-Length', Buffer.byteLength(exportData.content));
 
-    // For binary formats, we might need to handle differently
-    if (format === 'ase') {
-      res.setHeader('Content-Type', 'application/octet-stream');
-    }
-
-    // Send the file content
+    // Send the file content (binary formats such as ASE are sent as a raw Buffer)
     res.send(exportData.content);
 
   } catch (error) {
@@ -198,6 +194,22 @@ router.get('/formats', async (req: Request, res: Response) => {
         extension: '.json',
         features: ['Design Tokens', 'Figma Compatible', 'Team Libraries'],
       },
+      {
+        format: 'dtcg',
+        name: 'Design Tokens (DTCG)',
+        description: 'W3C Design Tokens Community Group format',
+        mimeType: 'application/json',
+        extension: '.tokens.json',
+        features: ['Design Tokens', 'Grouped by Category', 'Usage Descriptions'],
+      },
+      {
+        format: 'style-dictionary',
+        name: 'Style Dictionary',
+        description: 'Style Dictionary token source file',
+        mimeType: 'application/json',
+        extension: '.json',
+        features: ['Style Dictionary', 'Multi-platform Builds', 'Usage Comments'],
+      },
     ];
 
     res.json({
@@ -223,7 +235,7 @@ router.post('/batch', async (req: Request, res: Response) => {
   try {
     const BatchExportSchema = z.object({
       paletteIds: z.array(z.string().uuid()).min(1).max(10), // Limit to 10 palettes
-      formats: z.array(z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind'] as const)).min(1),
+      formats: z.array(z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind', 'dtcg', 'style-dictionary'] as const)).min(1),
       zipFile: z.boolean().optional().default(false),
     });
 
@@ -254,6 +266,7 @@ router.post('/batch', async (req: Request, res: Response) => {
         id: palette.id,
         name: palette.name,
         prompt: palette.prompt || undefined,
+        explanation: palette.explanation || undefined,
         colors: palette.colors,
         accessibilityScore: palette.accessibilityScore,
         userId: palette.userId || undefined,
@@ -270,7 +283,7 @@ router.post('/batch', async (req: Request, res: Response) => {
             paletteName: palette.name,
             format,
             filename: exportData.filename,
-            content: exportData.content,
+            ...serializeExportContent(exportData.content),
             mimeType: exportData.mimeType,
             size: exportData.content.length,
           });
@@ -312,4 +325,16 @@ router.post('/batch', async (req: Request, res: Response) => {
   }
 });
 
+// Helper functions
+
+/**
+ * Prepare export content for a JSON response, base64-encoding binary formats
+ */
+function serializeExportContent(content: string | Buffer): { content: string; encoding: 'utf8' | 'base64' } {
+  if (Buffer.isBuffer(content)) {
+    return { content: content.toString('base64'), encoding: 'base64' };
+  }
+  return { content, encoding: 'utf8' };
+}
+
 export default router;
\ No newline at end of file
@@ -1,14 +1,27 @@
 // Color generation routes
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import multer from 'multer';
+import path from 'path';
 import { generationRateLimit, uploadRateLimit } from '../middleware/security';
 import { validateBody } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
-import { TextGenerationRequestSchema, ImageGenerationRequestSchema } from '../utils/validation';
+import {
+  TextGenerationRequestSchema,
+  TextGenerationStreamQuerySchema,
+  ImageGenerationRequestSchema,
+  MoodBoardGenerationRequestSchema,
+  MAX_MOOD_BOARD_IMAGES,
+  SourceGenerationRequestSchema,
+  PromptAnalysisRequestSchema
+} from '../utils/validation';
+import { AIGenerationResult, AIGenerationVariantsResult, GenerationOptions } from '../types/color';
+import { GenerationCancelledError, ValidationError } from '../types/api';
 import { logger } from '../utils/logger';
 import { ColorGenerationService } from '../services/ColorGenerationService';
 import { ImageProcessingService } from '../services/ImageProcessingService';
+import { promptAnalyzer } from '../services/PromptAnalyzer';
+import { sourcePaletteService } from '../services/SourcePaletteService';
 import { AccessibilityService } from '../services/AccessibilityService';
 import { userRepository, colorPaletteRepository } from '../repositories';
 import { databaseService } from '../services/DatabaseService';
@@ -55,6 +68,22 @@ const upload = multer({
   },
 });
 
+// Brand source files are small text files, so they are kept in memory for parsing
+const sourceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedExtensions = ['.css', '.scss', '.svg', '.html', '.htm'];
+    if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Supported extensions: ${allowedExtensions.join(', ')}`));
+    }
+  },
+});
+
 const router = Router();
 
 /**
@@ -75,61 +104,22 @@ router.post(
     });
 
     try {
+      // Candidate palettes are returned for comparison; the chosen one is saved via /api/palettes/save
+      if (req.body.options?.variants) {
+        const variantsResult = await getColorGenerationService().generateVariantsFromText(
+          req.body.prompt,
+          req.body.options
+        );
+        return res.json(buildVariantsResponse(req.body, variantsResult));
+      }
+
       // Generate colors using AI service
       const generationResult = await getColorGenerationService().generateFromText(
         req.body.prompt,
         req.body.options || {}
       );
 
-      // Find or create user if userId is provided
-      let user = null;
-      if (req.body.userId) {
-        user = await userRepository.findOrCreateBySessionId(req.body.userId);
-      }
-
-      // Generate palette name from prompt
-      const paletteName = generatePaletteName(req.body.prompt);
-
-      // Calculate accessibility score using proper service
-      const accessibilityScore = getAccessibilityService().calculateAccessibilityScore(generationResult.colors);
-
-      // Save palette to database
-      const savedPalette = await colorPaletteRepository.create({
-        userId: user?.id,
-        name: paletteName,
-        prompt: req.body.prompt,
-        colors: generationResult.colors,
-        accessibilityScore,
-      });
-
-      const processingTime = Date.now() - startTime;
-
-      // Log memory usage for monitoring
-      const memUsage = process.memoryUsage();
-      logger.debug('Memory usage after generation', {
-        path: req.path,
-        rss: `${Math.round(memUsage.rss / 1024 / 1024)}MB`,
-        heapUsed: `${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`,
-        heapTotal: `${Math.round(memUsage.heapTotal / 1024 / 1024)}MB`,
-      });
-
-      res.json({
-        success: true,
-        data: {
-          id: savedPalette.id,
-          name: savedPalette.name,
-          prompt: savedPalette.prompt,
-          colors: generationResult.colors,
-          accessibilityScore: savedPalette.accessibilityScore,
-          createdAt: savedPalette.createdAt,
-          updatedAt: savedPalette.updatedAt,
-          userId: savedPalette.userId,
-        },
-        processingTime,
-        explanation: generationResult.explanation,
-        model: generationResult.model,
-        confidence: generationResult.confidence,
-      });
+      res.json(await saveTextGeneration(req, req.body, generationResult, startTime));
     } catch (error) {
       logger.error('Text generation failed:', error);
       
@@ -144,18 +134,83 @@ router.post(
   })
 );
 
+/**
+ * POST /api/generate/text/stream
+ * Generate a color palette from a text prompt, streaming each pipeline stage as Server-Sent Events
+ */
+router.post(
+  '/text/stream',
+  generationRateLimit,
+  validateBody(TextGenerationRequestSchema),
+  asyncHandler(async (req, res) => {
+    if (req.body.options?.variants) {
+      throw new ValidationError('Invalid stream request: variants are only supported by POST /api/generate/text');
+    }
+    await streamTextGeneration(req, res, req.body);
+  })
+);
+
+/**
+ * GET /api/generate/text/stream
+ * EventSource-friendly variant taking the prompt and options as query parameters
+ */
+router.get(
+  '/text/stream',
+  generationRateLimit,
+  asyncHandler(async (req, res) => {
+    const validation = TextGenerationStreamQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw new ValidationError('Invalid stream request: ' + validation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const { prompt, userId, ...options } = validation.data;
+    await streamTextGeneration(req, res, { prompt, userId, options });
+  })
+);
+
+/**
+ * POST /api/generate/analyze-prompt
+ * Report what the prompt analyzer understood, without generating anything
+ */
+router.post(
+  '/analyze-prompt',
+  validateBody(PromptAnalysisRequestSchema),
+  asyncHandler(async (req, res) => {
+    res.json({
+      success: true,
+      data: promptAnalyzer.analyze(req.body.prompt),
+    });
+  })
+);
+
 /**
  * POST /api/generate/image
- * Generate color palette from uploaded image
+ * Generate color palette from uploaded image, optionally only from regions or a mask of it.
+ * Several files uploaded as `images` are merged into one palette, as for a mood board.
  */
 router.post(
   '/image',
   uploadRateLimit,
-  upload.single('image'),
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'images', maxCount: MAX_MOOD_BOARD_IMAGES },
+    { name: 'mask', maxCount: 1 },
+  ]),
   validateBody(ImageGenerationRequestSchema),
   asyncHandler(async (req, res) => {
     const startTime = Date.now();
-    const uploadedFile = (req as any).file;
+    const files = (req as any).files as Record<string, Express.Multer.File[]> | undefined;
+    const uploadedFile = files?.image?.[0];
+    const maskFile = files?.mask?.[0];
+
+    if (files?.images?.length) {
+      const options = req.body.options || {};
+      if (uploadedFile || maskFile || options.regions?.length || options.accentSlot) {
+        await Promise.all(Object.values(files).flat().map(file => getImageProcessingService().deleteTempFile(file.path)));
+        throw new ValidationError('Regions, masks and the accent slot apply to a single image; send either image or images');
+      }
+      return generateMoodBoard(req, res, files.images);
+    }
     
     logger.info('Image generation request', {
       userId: req.body.userId,
@@ -163,6 +218,7 @@ router.post(
       hasFile: !!uploadedFile,
       fileName: uploadedFile?.originalname,
       fileSize: uploadedFile?.size,
+      hasMask: !!maskFile,
     });
 
     try {
@@ -182,13 +238,32 @@ router.post(
           maxWidth: 1920,
           maxHeight: 1080,
           quality: 85,
+          algorithm: req.body.options?.algorithm || 'kmeans',
+          regions: req.body.options?.regions || [],
+          maskPath: maskFile?.path || '',
+          excludeBackground: req.body.options?.excludeBackground || false,
+          saliency: req.body.options?.saliency || false,
+          accentSlot: req.body.options?.accentSlot || false,
+          exclude: req.body.options?.exclude,
         }
       );
 
-      // Generate enhanced palette using AI service
+      // Keep the accent slot's color as the last palette color, unless that position is already locked
+      const generationOptions: Partial<GenerationOptions> = { ...(req.body.options || {}) };
+      const lockedColors = generationOptions.lockedColors || [];
+      const accentIndex = imageResult.colorCoverage.findIndex(color => color.accent);
+      const lastPosition = (generationOptions.colorCount || 5) - 1;
+      if (accentIndex !== -1 && !lockedColors.some(color => color.position === lastPosition)) {
+        generationOptions.lockedColors = [
+          ...lockedColors,
+          { hex: imageResult.colorPalette[accentIndex].hex, position: lastPosition, category: 'accent' },
+        ];
+      }
+
+      // Generate enhanced palette using AI service, from extracted colors with exclusions already applied
       const generationResult = await getColorGenerationService().generateFromDominantColors(
-        imageResult.dominantColors.map(color => `#${color.r.toString(16).padStart(2, '0')}${color.g.toString(16).padStart(2, '0')}${color.b.toString(16).padStart(2, '0')}`),
-        req.body.options || {}
+        imageResult.colorPalette.map(color => color.hex),
+        generationOptions
       );
 
       // Find or create user if userId is provided
@@ -201,7 +276,10 @@ router.post(
       const paletteName = `Palette from ${uploadedFile.originalname || 'uploaded image'}`;
 
       // Calculate accessibility score using proper service
-      const accessibilityScore = getAccessibilityService().calculateAccessibilityScore(generationResult.colors);
+      const accessibilityScore = getAccessibilityService().calculateAccessibilityScore(
+        generationResult.colors,
+        req.body.options?.contrastModel
+      );
 
       // Save palette to database
       const savedPalette = await colorPaletteRepository.create({
@@ -212,8 +290,11 @@ router.post(
         accessibilityScore,
       });
 
-      // Clean up uploaded file
+      // Clean up uploaded files
       await getImageProcessingService().deleteTempFile(uploadedFile.path);
+      if (maskFile) {
+        await getImageProcessingService().deleteTempFile(maskFile.path);
+      }
       if (imageResult.processedImagePath !== uploadedFile.path) {
         await getImageProcessingService().deleteTempFile(imageResult.processedImagePath);
       }
@@ -236,24 +317,40 @@ router.post(
             processedSize: imageResult.processedSize,
             format: imageResult.format,
             dominantColorCount: imageResult.dominantColors.length,
+            algorithm: imageResult.algorithm,
+            colorCoverage: imageResult.colorCoverage,
+            selectedArea: imageResult.selectedArea,
+            backgroundArea: imageResult.backgroundArea,
+            colorSpace: imageResult.colorSpace,
+            iccProfile: imageResult.iccProfile,
+            gamutClipped: imageResult.gamutClipped,
+            clippedArea: imageResult.clippedArea,
           },
         },
         processingTime,
         explanation: generationResult.explanation,
         model: generationResult.model,
         confidence: generationResult.confidence,
+        replacedColors: [...imageResult.replacedColors, ...(generationResult.replacedColors || [])],
+        warnings: imageResult.warnings,
       });
     } catch (error) {
       logger.error('Image generation failed:', error);
       
-      // Clean up uploaded file on error
-      if (uploadedFile) {
+      // Clean up uploaded files on error
+      for (const file of [uploadedFile, maskFile]) {
+        if (!file) continue;
         try {
-          await getImageProcessingService().deleteTempFile(uploadedFile.path);
+          await getImageProcessingService().deleteTempFile(file.path);
         } catch (cleanupError) {
           logger.warn('Failed to clean up uploaded file:', cleanupError);
         }
       }
+
+      // Problems with the request, such as an empty selection, are client errors
+      if (error instanceof ValidationError) {
+        throw error;
+      }
       
       // Return error response
       res.status(500).json({
@@ -266,6 +363,381 @@ router.post(
   })
 );
 
+/**
+ * POST /api/generate/moodboard
+ * Generate one color palette from several reference images, each counted by its weight
+ */
+router.post(
+  '/moodboard',
+  uploadRateLimit,
+  upload.array('images', MAX_MOOD_BOARD_IMAGES),
+  validateBody(MoodBoardGenerationRequestSchema),
+  asyncHandler(async (req, res) => {
+    await generateMoodBoard(req, res, (req.files as Express.Multer.File[] | undefined) || []);
+  })
+);
+
+/**
+ * POST /api/generate/from-source
+ * Generate a palette from the colors declared in an uploaded stylesheet, SVG logo or HTML page
+ */
+router.post(
+  '/from-source',
+  uploadRateLimit,
+  sourceUpload.single('file'),
+  validateBody(SourceGenerationRequestSchema),
+  asyncHandler(async (req, res) => {
+    const startTime = Date.now();
+    const uploadedFile = req.file;
+
+    if (!uploadedFile) {
+      throw new ValidationError('No source file provided');
+    }
+
+    logger.info('Source generation request', {
+      userId: req.body.userId,
+      fileName: uploadedFile.originalname,
+      fileSize: uploadedFile.size,
+      format: req.body.format,
+    });
+
+    const { palette, format, clusters, colorsFound, warnings } = await sourcePaletteService.extractPalette(
+      uploadedFile.buffer,
+      uploadedFile.originalname,
+      {
+        format: req.body.format,
+        colorCount: req.body.colorCount,
+        contrastModel: req.body.contrastModel,
+      }
+    );
+
+    // Find or create user if userId is provided
+    let user = null;
+    if (req.body.userId) {
+      user = await userRepository.findOrCreateBySessionId(req.body.userId);
+    }
+
+    const savedPalette = await colorPaletteRepository.create({
+      userId: user?.id,
+      name: palette.name,
+      prompt: palette.prompt!,
+      explanation: palette.explanation,
+      colors: palette.colors,
+      accessibilityScore: palette.accessibilityScore,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        id: savedPalette.id,
+        name: savedPalette.name,
+        prompt: savedPalette.prompt,
+        colors: palette.colors,
+        accessibilityScore: savedPalette.accessibilityScore,
+        createdAt: savedPalette.createdAt,
+        updatedAt: savedPalette.updatedAt,
+        userId: savedPalette.userId,
+        sourceMetadata: {
+          format,
+          colorsFound,
+          clusters,
+        },
+      },
+      processingTime: Date.now() - startTime,
+      explanation: palette.explanation,
+      model: 'source-extraction',
+      warnings,
+    });
+  })
+);
+
+/**
+ * Build one palette from several uploaded images, each counted by its weight; shared by
+ * POST /api/generate/moodboard and POST /api/generate/image with an `images` field
+ */
+async function generateMoodBoard(req: Request, res: Response, uploadedFiles: Express.Multer.File[]): Promise<void> {
+  const startTime = Date.now();
+  const weights: number[] | undefined = req.body.weights;
+
+  logger.info('Mood board generation request', {
+    userId: req.body.userId,
+    options: req.body.options,
+    imageCount: uploadedFiles.length,
+    weights,
+  });
+
+  const imageProcessing = getImageProcessingService();
+  const deleteUploads = () => Promise.all(uploadedFiles.map(file => imageProcessing.deleteTempFile(file.path)));
+
+  if (uploadedFiles.length === 0) {
+    throw new ValidationError('No image files provided');
+  }
+  if (weights && weights.length !== uploadedFiles.length) {
+    await deleteUploads();
+    throw new ValidationError(`Expected one weight per image: got ${weights.length} for ${uploadedFiles.length} images`);
+  }
+
+  let moodBoard;
+  try {
+    moodBoard = await imageProcessing.processMoodBoard(
+      uploadedFiles.map((file, index) => ({ imagePath: file.path, weight: weights?.[index] })),
+      {
+        colorCount: req.body.options?.colorCount || 5,
+        maxWidth: 1920,
+        maxHeight: 1080,
+        quality: 85,
+        algorithm: req.body.options?.algorithm || 'kmeans',
+        excludeBackground: req.body.options?.excludeBackground || false,
+        saliency: req.body.options?.saliency || false,
+        exclude: req.body.options?.exclude,
+      }
+    );
+  } finally {
+    await deleteUploads();
+  }
+
+  // Only the extracted colors are needed from here on
+  for (const image of moodBoard.images) {
+    if (!uploadedFiles.some(file => file.path === image.processedImagePath)) {
+      await imageProcessing.deleteTempFile(image.processedImagePath);
+    }
+  }
+
+  // The merged colors are the palette, with exclusions already applied
+  const generationResult = await getColorGenerationService().generateFromExtractedColors(
+    moodBoard.colorPalette.map(color => color.hex),
+    req.body.options || {}
+  );
+
+  // Find or create user if userId is provided
+  let user = null;
+  if (req.body.userId) {
+    user = await userRepository.findOrCreateBySessionId(req.body.userId);
+  }
+
+  const names = uploadedFiles.map(file => file.originalname);
+  const accessibilityScore = getAccessibilityService().calculateAccessibilityScore(
+    generationResult.colors,
+    req.body.options?.contrastModel
+  );
+
+  const savedPalette = await colorPaletteRepository.create({
+    userId: user?.id,
+    name: `Mood board from ${uploadedFiles.length} images`,
+    prompt: `Colors extracted from images: ${names.join(', ')}`,
+    colors: generationResult.colors,
+    accessibilityScore,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      id: savedPalette.id,
+      name: savedPalette.name,
+      prompt: savedPalette.prompt,
+      colors: generationResult.colors,
+      accessibilityScore: savedPalette.accessibilityScore,
+      createdAt: savedPalette.createdAt,
+      updatedAt: savedPalette.updatedAt,
+      userId: savedPalette.userId,
+      moodBoard: {
+        colors: moodBoard.colors,
+        images: moodBoard.images.map((image, index) => ({
+          name: names[index],
+          weight: weights?.[index] ?? 1,
+          originalSize: image.originalSize,
+          format: image.format,
+          colorCoverage: image.colorCoverage,
+          selectedArea: image.selectedArea,
+          backgroundArea: image.backgroundArea,
+          colorSpace: image.colorSpace,
+          gamutClipped: image.gamutClipped,
+        })),
+      },
+    },
+    processingTime: Date.now() - startTime,
+    explanation: generationResult.explanation,
+    model: generationResult.model,
+    confidence: generationResult.confidence,
+    replacedColors: [...moodBoard.replacedColors, ...(generationResult.replacedColors || [])],
+    warnings: moodBoard.images.flatMap((image, index) => image.warnings.map(warning => `${names[index]}: ${warning}`)),
+  });
+}
+
+interface TextGenerationBody {
+  prompt: string;
+  userId?: string;
+  options?: Partial<GenerationOptions>;
+}
+
+/**
+ * Save a text generation result and build the response body shared by the blocking and streaming endpoints
+ */
+async function saveTextGeneration(
+  req: Request,
+  body: TextGenerationBody,
+  generationResult: AIGenerationResult,
+  startTime: number
+) {
+  // Find or create user if userId is provided
+  let user = null;
+  if (body.userId) {
+    user = await userRepository.findOrCreateBySessionId(body.userId);
+  }
+
+  // Generate palette name from prompt
+  const paletteName = generatePaletteName(body.prompt);
+
+  // Calculate accessibility score using proper service
+  const accessibilityScore = getAccessibilityService().calculateAccessibilityScore(
+    generationResult.colors,
+    body.options?.contrastModel
+  );
+
+  // Save palette to database
+  const savedPalette = await colorPaletteRepository.create({
+    userId: user?.id,
+    name: paletteName,
+    prompt: body.prompt,
+    explanation: generationResult.explanation,
+    colors: generationResult.colors,
+    accessibilityScore,
+    generationRecipe: generationResult.recipe,
+  });
+
+  const processingTime = Date.now() - startTime;
+
+  // Log memory usage for monitoring
+  const memUsage = process.memoryUsage();
+  logger.debug('Memory usage after generation', {
+    path: req.path,
+    rss: `${Math.round(memUsage.rss / 1024 / 1024)}MB`,
+    heapUsed: `${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`,
+    heapTotal: `${Math.round(memUsage.heapTotal / 1024 / 1024)}MB`,
+  });
+
+  return {
+    success: true,
+    data: {
+      id: savedPalette.id,
+      name: savedPalette.name,
+      prompt: savedPalette.prompt,
+      colors: generationResult.colors,
+      accessibilityScore: savedPalette.accessibilityScore,
+      generationRecipe: savedPalette.generationRecipe,
+      createdAt: savedPalette.createdAt,
+      updatedAt: savedPalette.updatedAt,
+      userId: savedPalette.userId,
+    },
+    processingTime,
+    explanation: generationResult.explanation,
+    model: generationResult.model,
+    confidence: generationResult.confidence,
+    attempts: generationResult.attempts,
+    replacedColors: generationResult.replacedColors,
+    cached: generationResult.cached ?? false,
+  };
+}
+
+/**
+ * Build the response for a multi-variant request; variants are not saved until one is chosen
+ */
+function buildVariantsResponse(body: TextGenerationBody, result: AIGenerationVariantsResult) {
+  return {
+    success: true,
+    data: {
+      name: generatePaletteName(body.prompt),
+      prompt: body.prompt,
+      requested: result.requested,
+      variants: result.variants.map(variant => ({
+        colors: variant.colors,
+        accessibilityScore: variant.accessibilityScore,
+        harmonyType: variant.harmonyType,
+        score: variant.score,
+        confidence: variant.confidence,
+        explanation: variant.explanation,
+        model: variant.model,
+        recipe: variant.recipe,
+        attempts: variant.attempts,
+        replacedColors: variant.replacedColors,
+        cached: variant.cached ?? false,
+      })),
+    },
+    processingTime: result.processingTime,
+  };
+}
+
+/**
+ * Run text generation while writing `progress`, `complete` and `error` Server-Sent Events.
+ * Closing the connection cancels generation, and a cancelled palette is never saved.
+ */
+async function streamTextGeneration(req: Request, res: Response, body: TextGenerationBody): Promise<void> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+
+  logger.info('Streaming text generation request', {
+    prompt: body.prompt,
+    userId: body.userId,
+    options: body.options,
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering so events arrive immediately
+  });
+
+  // The response closes before it has ended only when the client goes away
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded && !controller.signal.aborted) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const generationResult = await getColorGenerationService().generateFromText(
+      body.prompt,
+      body.options || {},
+      {
+        signal: controller.signal,
+        onProgress: event => send('progress', event),
+      }
+    );
+
+    if (controller.signal.aborted) {
+      throw new GenerationCancelledError();
+    }
+
+    const response = await saveTextGeneration(req, body, generationResult, startTime);
+    send('progress', { stage: 'saved', colors: response.data.colors });
+    send('complete', response);
+  } catch (error) {
+    if (error instanceof GenerationCancelledError) {
+      logger.info('Streaming text generation cancelled by client', {
+        prompt: body.prompt,
+        processingTime: `${Date.now() - startTime}ms`,
+      });
+    } else {
+      logger.error('Streaming text generation failed:', error);
+      send('error', {
+        success: false,
+        error: 'Color generation failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        processingTime: Date.now() - startTime,
+      });
+    }
+  } finally {
+    res.end();
+  }
+}
+
 /**
  * Helper function to generate palette name from prompt
  */
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { getGenerationCache } from '../services/GenerationCache';
 
 const router = Router();
 
@@ -17,7 +18,8 @@ router.get('/health', (req, res) => {
       database: 'connected', // This would check actual DB connection in real implementation
       ai: {
         openai: process.env.OPENAI_API_KEY ? 'configured' : 'not configured',
-        gemini: process.env.GEMINI_API_KEY ? 'configured' : 'not configured'
+        gemini: process.env.GEMINI_API_KEY ? 'configured' : 'not configured',
+        openaiCompatible: process.env.OPENAI_COMPATIBLE_BASE_URL ? 'configured' : 'not configured'
       }
     }
   };
@@ -45,8 +47,10 @@ router.get('/health/detailed', async (req, res) => {
         database: 'connected', // Would check actual DB connection
         ai: {
           openai: process.env.OPENAI_API_KEY ? 'configured' : 'not configured',
-          gemini: process.env.GEMINI_API_KEY ? 'configured' : 'not configured'
-        }
+          gemini: process.env.GEMINI_API_KEY ? 'configured' : 'not configured',
+          openaiCompatible: process.env.OPENAI_COMPATIBLE_BASE_URL ? 'configured' : 'not configured'
+        },
+        generationCache: getGenerationCache().getStats()
       }
     };
 
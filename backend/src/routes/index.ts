@@ -1,9 +1,10 @@
 // Routes setup
 
 import express from 'express';
-import generateRoutes from './generate-simple';
+import generateRoutes from './generate';
 import paletteRoutes from './palettes';
 import exportRoutes from './export';
+import accessibilityRoutes from './accessibility';
 import logsRoutes from './logs';
 import healthRoutes from './health';
 
@@ -22,5 +23,6 @@ export function setupRoutes(app: express.Application): void {
   app.use('/api/generate', generateRoutes);
   app.use('/api/palettes', paletteRoutes);
   app.use('/api/export', exportRoutes);
+  app.use('/api/accessibility', accessibilityRoutes);
   app.use('/api/logs', logsRoutes);
 }
\ No newline at end of file
@@ -1,12 +1,39 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import multer from 'multer';
+import path from 'path';
 import rateLimit from 'express-rate-limit';
 import { colorPaletteRepository, userRepository } from '../repositories';
+import { paletteImportService } from '../services/PaletteImportService';
+import { ColorGenerationService } from '../services/ColorGenerationService';
+import { AccessibilityService } from '../services/AccessibilityService';
+import { generateShadeScale } from '../utils/colorConversion';
+import { GenerationRecipeSchema } from '../utils/validation';
 import { logger } from '../utils/logger';
 import { ValidationError, NotFoundError } from '../types/api';
+import { AccessibilityScore, ColorData, GenerationRecipe } from '../types/color';
 
 const router = Router();
 
+// Created on first use so provider configuration is read after the environment is loaded
+let colorGenerationService: ColorGenerationService;
+
+function getColorGenerationService(): ColorGenerationService {
+  if (!colorGenerationService) {
+    colorGenerationService = new ColorGenerationService();
+  }
+  return colorGenerationService;
+}
+
+let accessibilityService: AccessibilityService;
+
+function getAccessibilityService(): AccessibilityService {
+  if (!accessibilityService) {
+    accessibilityService = new AccessibilityService();
+  }
+  return accessibilityService;
+}
+
 // Rate limiting for palette operations
 const paletteRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -19,10 +46,27 @@ const paletteRateLimit = rateLimit({
 // Apply rate limiting to all palette routes
 router.use(paletteRateLimit);
 
+// Palette files are small, so uploads are kept in memory for parsing
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedExtensions = ['.ase', '.aco', '.gpl', '.css', '.json'];
+    if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Supported extensions: ${allowedExtensions.join(', ')}`));
+    }
+  },
+});
+
 // Validation schemas
 const SavePaletteSchema = z.object({
   name: z.string().min(1).max(255),
   prompt: z.string().min(1).max(1000),
+  explanation: z.string().max(2000).optional(),
   colors: z.array(z.object({
     hex: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
     rgb: z.object({
@@ -38,6 +82,9 @@ const SavePaletteSchema = z.object({
     name: z.string(),
     category: z.enum(['primary', 'secondary', 'accent', 'neutral']),
     usage: z.string(),
+    rationale: z.string().max(300).optional(),
+    psychology: z.array(z.string().max(50)).max(6).optional(),
+    suggestedUsage: z.string().max(200).optional(),
     accessibility: z.object({
       contrastWithWhite: z.number(),
       contrastWithBlack: z.number(),
@@ -58,9 +105,30 @@ const SavePaletteSchema = z.object({
     colorBlindnessCompatible: z.boolean(),
     recommendations: z.array(z.string()),
   }).optional(),
+  generationRecipe: GenerationRecipeSchema.optional(),
   userId: z.string().uuid().optional(),
 });
 
+const ImportPaletteSchema = z.object({
+  format: z.enum(['ase', 'gpl', 'aco', 'css', 'json', 'figma', 'sketch']).optional(),
+  name: z.string().min(1).max(255).optional(),
+  userId: z.string().uuid().optional(),
+});
+
+const ShadeScaleQuerySchema = z.object({
+  lightest: z.coerce.number().min(0).max(1).optional(),
+  darkest: z.coerce.number().min(0).max(1).optional(),
+  endChroma: z.coerce.number().min(0).max(1).optional(),
+  chromaEasing: z.coerce.number().positive().max(10).optional(),
+});
+
+const RegenerateColorSchema = z.object({
+  count: z.number().int().min(1).max(8).default(3),
+  harmonyType: z.enum(['complementary', 'triadic', 'analogous', 'monochromatic', 'tetradic']).optional(),
+  accessibilityLevel: z.enum(['AA', 'AAA']).optional(),
+  contrastModel: z.enum(['wcag2', 'apca']).optional(),
+});
+
 const HistoryQuerySchema = z.object({
   page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
   limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
@@ -137,8 +205,10 @@ router.get('/history/:userId', async (req: Request, res: Response) => {
         id: palette.id,
         name: palette.name,
         prompt: palette.prompt,
+        explanation: palette.explanation,
         colors: palette.colors,
         accessibilityScore: palette.accessibilityScore,
+        generationRecipe: palette.generationRecipe,
         createdAt: palette.createdAt,
         updatedAt: palette.updatedAt,
         thumbnail: generatePaletteThumbnail(palette.colors),
@@ -216,8 +286,10 @@ router.post('/save', async (req: Request, res: Response) => {
     const savedPalette = await colorPaletteRepository.create({
       name: paletteName,
       prompt: paletteData.prompt,
+      explanation: paletteData.explanation,
       colors: paletteData.colors,
       accessibilityScore: paletteData.accessibilityScore,
+      generationRecipe: paletteData.generationRecipe,
       userId: userId || null,
     });
 
@@ -231,8 +303,10 @@ router.post('/save', async (req: Request, res: Response) => {
       id: savedPalette.id,
       name: savedPalette.name,
       prompt: savedPalette.prompt,
+      explanation: savedPalette.explanation,
       colors: savedPalette.colors,
       accessibilityScore: savedPalette.accessibilityScore,
+      generationRecipe: savedPalette.generationRecipe,
       createdAt: savedPalette.createdAt,
       updatedAt: savedPalette.updatedAt,
     });
@@ -251,6 +325,99 @@ router.post('/save', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/palettes/import
+ * Import a palette from an ASE, GPL, ACO, CSS or JSON (ChromaGen, Figma, Sketch) file
+ */
+router.post('/import', (req: Request, res: Response, next) => {
+  importUpload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      const message = error instanceof Error ? error.message : 'File upload failed';
+      logger.warn('Palette import upload rejected', { error: message });
+      return res.status(400).json({ error: message });
+    }
+    next();
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const file = req.file;
+    if (!file) {
+      throw new ValidationError('No palette file provided');
+    }
+
+    const validation = ImportPaletteSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Invalid import options: ' + validation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const { format, name, userId } = validation.data;
+
+    logger.info('Importing palette', {
+      filename: file.originalname,
+      size: file.size,
+      format,
+      userId,
+    });
+
+    const { palette, format: importedFormat, warnings } = await paletteImportService.importPalette(
+      file.buffer,
+      file.originalname,
+      format
+    );
+
+    // Create or find user if userId is provided
+    if (userId) {
+      const user = await userRepository.findById(userId);
+      if (!user) {
+        await userRepository.create({
+          id: userId,
+          sessionId: `session_${userId}`,
+        });
+      }
+    }
+
+    const savedPalette = await colorPaletteRepository.create({
+      name: name || palette.name,
+      prompt: palette.prompt || `Imported from ${file.originalname}`,
+      colors: palette.colors,
+      accessibilityScore: palette.accessibilityScore,
+      userId: userId || null,
+    });
+
+    logger.info('Palette imported successfully', {
+      paletteId: savedPalette.id,
+      format: importedFormat,
+      colorCount: palette.colors.length,
+      warningCount: warnings.length,
+    });
+
+    res.status(201).json({
+      id: savedPalette.id,
+      name: savedPalette.name,
+      prompt: savedPalette.prompt,
+      colors: savedPalette.colors,
+      accessibilityScore: savedPalette.accessibilityScore,
+      createdAt: savedPalette.createdAt,
+      updatedAt: savedPalette.updatedAt,
+      importedFormat,
+      warnings,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to import palette', {
+      filename: req.file?.originalname,
+      error: errorMessage,
+    });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to import palette' });
+  }
+});
+
 /**
  * DELETE /api/palettes/:id
  * Delete a specific palette
@@ -324,8 +491,10 @@ router.get('/:id', async (req: Request, res: Response) => {
       id: palette.id,
       name: palette.name,
       prompt: palette.prompt,
+      explanation: palette.explanation,
       colors: palette.colors,
       accessibilityScore: palette.accessibilityScore,
+      generationRecipe: palette.generationRecipe,
       createdAt: palette.createdAt,
       updatedAt: palette.updatedAt,
     });
@@ -349,6 +518,202 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/palettes/:id/scales
+ * Generate OKLCH shade scales (50-950) for every color in a palette
+ */
+router.get('/:id/scales', async (req: Request, res: Response) => {
+  try {
+    const paletteId = req.params.id;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(paletteId).success) {
+      throw new ValidationError('Invalid palette ID format');
+    }
+
+    const queryValidation = ShadeScaleQuerySchema.safeParse(req.query);
+    if (!queryValidation.success) {
+      throw new ValidationError('Invalid query parameters: ' + queryValidation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const palette = await colorPaletteRepository.findById(paletteId);
+    if (!palette) {
+      throw new NotFoundError('Palette not found');
+    }
+
+    let scales;
+    try {
+      scales = (palette.colors as ColorData[]).map(color => ({
+        name: color.name,
+        hex: color.hex,
+        category: color.category,
+        ...generateShadeScale(color.hex, queryValidation.data),
+      }));
+    } catch (error) {
+      // Option combinations the schema can't check alone, e.g. darkest above the default lightest
+      throw new ValidationError(error instanceof Error ? error.message : 'Invalid shade scale options');
+    }
+
+    logger.info('Palette shade scales generated', { paletteId, colorCount: scales.length });
+
+    res.json({
+      paletteId: palette.id,
+      name: palette.name,
+      scales,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to generate palette shade scales', {
+      paletteId: req.params.id,
+      error: errorMessage,
+    });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to generate shade scales' });
+  }
+});
+
+/**
+ * POST /api/palettes/:id/colors/:index/regenerate
+ * Suggest alternatives for one color of a palette without changing the saved palette
+ */
+router.post('/:id/colors/:index/regenerate', async (req: Request, res: Response) => {
+  try {
+    const paletteId = req.params.id;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(paletteId).success) {
+      throw new ValidationError('Invalid palette ID format');
+    }
+
+    const indexValidation = z.coerce.number().int().min(0).safeParse(req.params.index);
+    if (!indexValidation.success) {
+      throw new ValidationError('Invalid color index');
+    }
+    const index = indexValidation.data;
+
+    const validation = RegenerateColorSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new ValidationError('Invalid regenerate request: ' + validation.error.errors.map(e => e.message).join(', '));
+    }
+
+    const palette = await colorPaletteRepository.findById(paletteId);
+    if (!palette) {
+      throw new NotFoundError('Palette not found');
+    }
+
+    const colors = palette.colors as ColorData[];
+    if (index >= colors.length) {
+      throw new ValidationError(`Color index ${index} is outside a ${colors.length}-color palette`);
+    }
+
+    logger.info('Regenerating palette color', { paletteId, index, count: validation.data.count });
+
+    // Options not given follow the ones the palette was generated with
+    const recipe = palette.generationRecipe as GenerationRecipe | null | undefined;
+    const result = await getColorGenerationService().generateSlotAlternatives(colors, index, {
+      ...validation.data,
+      harmonyType: validation.data.harmonyType || recipe?.options.harmonyType,
+      accessibilityLevel: validation.data.accessibilityLevel || recipe?.options.accessibilityLevel,
+      contrastModel: validation.data.contrastModel || recipe?.options.contrastModel,
+      prompt: palette.prompt || undefined,
+    });
+
+    res.json({
+      paletteId: palette.id,
+      index,
+      current: colors[index],
+      alternatives: result.alternatives,
+      explanation: result.explanation,
+      model: result.model,
+      processingTime: result.processingTime,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to regenerate palette color', {
+      paletteId: req.params.id,
+      index: req.params.index,
+      error: errorMessage,
+    });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to regenerate color' });
+  }
+});
+
+/**
+ * POST /api/palettes/:id/replay
+ * Re-run the generation recipe recorded with a palette; the replayed palette is not saved
+ */
+router.post('/:id/replay', async (req: Request, res: Response) => {
+  try {
+    const paletteId = req.params.id;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(paletteId).success) {
+      throw new ValidationError('Invalid palette ID format');
+    }
+
+    const palette = await colorPaletteRepository.findById(paletteId);
+    if (!palette) {
+      throw new NotFoundError('Palette not found');
+    }
+
+    if (!palette.generationRecipe) {
+      throw new ValidationError('Palette has no generation recipe to replay');
+    }
+    const recipe = palette.generationRecipe as GenerationRecipe;
+
+    logger.info('Replaying palette generation', { paletteId, provider: recipe.provider, seed: recipe.seed });
+
+    const result = await getColorGenerationService().replayRecipe(recipe);
+
+    res.json({
+      paletteId: palette.id,
+      colors: result.colors,
+      explanation: result.explanation,
+      model: result.model,
+      recipe: result.recipe,
+      identical: JSON.stringify(result.colors) === JSON.stringify(palette.colors),
+      warnings: result.warnings,
+      processingTime: result.processingTime,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to replay palette generation', {
+      paletteId: req.params.id,
+      error: errorMessage,
+    });
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to replay palette generation' });
+  }
+});
+
 /**
  * PUT /api/palettes/:id
  * Update an existing palette
@@ -362,8 +727,8 @@ router.put('/:id', async (req: Request, res: Response) => {
       throw new ValidationError('Invalid palette ID format');
     }
 
-    // Validate request body (partial update)
-    const UpdatePaletteSchema = SavePaletteSchema.partial().omit({ userId: true });
+    // Validate request body (partial update); the recorded recipe cannot be edited
+    const UpdatePaletteSchema = SavePaletteSchema.partial().omit({ userId: true, generationRecipe: true });
     const validation = UpdatePaletteSchema.safeParse(req.body);
     if (!validation.success) {
       throw new ValidationError('Invalid update data: ' + validation.error.errors.map(e => e.message).join(', '));
@@ -377,8 +742,19 @@ router.put('/:id', async (req: Request, res: Response) => {
       throw new NotFoundError('Palette not found');
     }
 
+    // Rescore changed colors so the saved score always describes the saved colors
+    const updates = validation.data.colors
+      ? {
+        ...validation.data,
+        accessibilityScore: getAccessibilityService().calculateAccessibilityScore(
+          validation.data.colors as ColorData[],
+          (existingPalette.accessibilityScore as AccessibilityScore | null)?.contrastModel
+        ),
+      }
+      : validation.data;
+
     // Update the palette
-    const updatedPalette = await colorPaletteRepository.update(paletteId, validation.data);
+    const updatedPalette = await colorPaletteRepository.update(paletteId, updates);
 
     logger.info('Palette updated successfully', { paletteId });
 
@@ -386,6 +762,7 @@ router.put('/:id', async (req: Request, res: Response) => {
       id: updatedPalette!.id,
       name: updatedPalette!.name,
       prompt: updatedPalette!.prompt,
+      explanation: updatedPalette!.explanation,
       colors: updatedPalette!.colors,
       accessibilityScore: updatedPalette!.accessibilityScore,
       createdAt: updatedPalette!.createdAt,
@@ -4,25 +4,37 @@ import {
     ColorData,
     AccessibilityScore,
     ContrastRatio,
-    ColorBlindnessType
+    ColorBlindnessType,
+    ContrastModel,
+    ContrastPairing,
+    ContrastFixOptions,
+    ContrastFixResult
 } from '../types/color';
 import {
     hexToRgb,
     getRelativeLuminance,
     getContrastRatio,
-    getWCAGLevel
+    getWCAGLevel,
+    getDeltaE
 } from '../utils/colorConversion';
+import { calculateAPCAContrast, getAPCAFontRecommendation, getAPCALevel, APCA_LEVEL_THRESHOLDS } from '../utils/apca';
+import { simulateCVDHex } from '../utils/colorVision';
+import { solveContrast } from '../utils/contrastSolver';
 import { logger } from '../utils/logger';
 
+// Simulated colors closer than this CIEDE2000 difference are hard to tell apart at a glance
+const MIN_DISTINGUISHABLE_DELTA_E = 10;
+
 export class AccessibilityService {
     /**
      * Calculate comprehensive accessibility score for a color palette
+     * Levels are graded by WCAG 2 contrast ratios or, for 'apca', by APCA Lc values
      */
-    public calculateAccessibilityScore(colors: ColorData[]): AccessibilityScore {
+    public calculateAccessibilityScore(colors: ColorData[], contrastModel: ContrastModel = 'wcag2'): AccessibilityScore {
         const startTime = Date.now();
 
         try {
-            const contrastRatios = this.calculateAllContrastRatios(colors);
+            const contrastRatios = this.calculateAllContrastRatios(colors, contrastModel);
             const colorBlindnessCompatible = this.checkColorBlindnessCompatibility(colors);
             const recommendations = this.generateAccessibilityRecommendations(colors, contrastRatios);
 
@@ -38,12 +50,14 @@ export class AccessibilityService {
                 recommendations,
                 passedChecks,
                 totalChecks,
+                contrastModel,
             };
 
             const processingTime = Date.now() - startTime;
             logger.debug('Accessibility score calculated', {
                 colorCount: colors.length,
                 overallScore: score.overallScore,
+                contrastModel,
                 passedChecks,
                 totalChecks,
                 processingTime: `${processingTime}ms`,
@@ -59,48 +73,43 @@ export class AccessibilityService {
     /**
      * Calculate contrast ratios between all color combinations
      */
-    private calculateAllContrastRatios(colors: ColorData[]): ContrastRatio[] {
+    private calculateAllContrastRatios(colors: ColorData[], contrastModel: ContrastModel): ContrastRatio[] {
         const ratios: ContrastRatio[] = [];
 
         // Test each color against white and black backgrounds
         colors.forEach(color => {
-            const whiteRatio = getContrastRatio(color.hex, '#FFFFFF');
-            const blackRatio = getContrastRatio(color.hex, '#000000');
-
-            ratios.push({
-                color1: color.hex,
-                color2: '#FFFFFF',
-                ratio: whiteRatio,
-                level: getWCAGLevel(whiteRatio),
-                isTextReadable: whiteRatio >= 4.5,
-            });
-
-            ratios.push({
-                color1: color.hex,
-                color2: '#000000',
-                ratio: blackRatio,
-                level: getWCAGLevel(blackRatio),
-                isTextReadable: blackRatio >= 4.5,
-            });
+            ratios.push(this.calculateContrast(color.hex, '#FFFFFF', contrastModel));
+            ratios.push(this.calculateContrast(color.hex, '#000000', contrastModel));
         });
 
         // Test color combinations within the palette
         for (let i = 0; i < colors.length; i++) {
             for (let j = i + 1; j < colors.length; j++) {
-                const ratio = getContrastRatio(colors[i].hex, colors[j].hex);
-                ratios.push({
-                    color1: colors[i].hex,
-                    color2: colors[j].hex,
-                    ratio,
-                    level: getWCAGLevel(ratio),
-                    isTextReadable: ratio >= 4.5,
-                });
+                ratios.push(this.calculateContrast(colors[i].hex, colors[j].hex, contrastModel));
             }
         }
 
         return ratios;
     }
 
+    /**
+     * Calculate WCAG 2 and APCA contrast for one pair, with color1 as text on color2
+     */
+    public calculateContrast(color1: string, color2: string, contrastModel: ContrastModel = 'wcag2'): ContrastRatio {
+        const ratio = getContrastRatio(color1, color2);
+        const apcaLc = Math.round(calculateAPCAContrast(color1, color2) * 10) / 10;
+
+        return {
+            color1,
+            color2,
+            ratio,
+            level: contrastModel === 'apca' ? getAPCALevel(apcaLc) : getWCAGLevel(ratio),
+            isTextReadable: contrastModel === 'apca' ? Math.abs(apcaLc) >= APCA_LEVEL_THRESHOLDS.AA : ratio >= 4.5,
+            apcaLc,
+            apcaRecommendation: getAPCAFontRecommendation(apcaLc),
+        };
+    }
+
     /**
      * Check if the palette is compatible with color blindness
      */
@@ -117,7 +126,7 @@ export class AccessibilityService {
                     const distance = this.calculateColorDistance(simulatedColors[i], simulatedColors[j]);
 
                     // If colors are too similar (distance < threshold), palette is not compatible
-                    if (distance < 30) { // Threshold for distinguishability
+                    if (distance < MIN_DISTINGUISHABLE_DELTA_E) {
                         logger.debug('Color blindness compatibility issue detected', {
                             type,
                             color1: colors[i].hex,
@@ -137,61 +146,35 @@ export class AccessibilityService {
 
     /**
      * Simulate color blindness for a given color
+     * Severity (0-1) applies to the anomalous trichromacies (protanomaly, deuteranomaly, tritanomaly)
      */
-    public simulateColorBlindness(hex: string, type: ColorBlindnessType): string {
-        const rgb = hexToRgb(hex);
-        let r = rgb.r / 255;
-        let g = rgb.g / 255;
-        let b = rgb.b / 255;
-
-        // Apply color blindness transformation matrices
-        switch (type) {
-            case 'protanopia': // Red-blind
-                r = 0.567 * r + 0.433 * g;
-                g = 0.558 * r + 0.442 * g;
-                b = 0.242 * g + 0.758 * b;
-                break;
-
-            case 'deuteranopia': // Green-blind
-                r = 0.625 * r + 0.375 * g;
-                g = 0.7 * r + 0.3 * g;
-                b = 0.3 * g + 0.7 * b;
-                break;
-
-            case 'tritanopia': // Blue-blind
-                r = 0.95 * r + 0.05 * g;
-                g = 0.433 * g + 0.567 * b;
-                b = 0.475 * g + 0.525 * b;
-                break;
-
-            case 'achromatopsia': // Complete color blindness (grayscale)
-                const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = g = b = gray;
-                break;
-        }
+    public simulateColorBlindness(hex: string, type: ColorBlindnessType, severity?: number): string {
+        return simulateCVDHex(hex, type, severity);
+    }
 
-        // Convert back to hex
-        const newRgb = {
-            r: Math.round(Math.max(0, Math.min(255, r * 255))),
-            g: Math.round(Math.max(0, Math.min(255, g * 255))),
-            b: Math.round(Math.max(0, Math.min(255, b * 255))),
-        };
+    /**
+     * Find the smallest palette change (total ΔE) that makes every pairing meet a WCAG contrast target
+     */
+    public fixContrast(colors: string[], pairings: ContrastPairing[], options: ContrastFixOptions): ContrastFixResult {
+        const startTime = Date.now();
+        const result = solveContrast(colors, pairings, options);
+
+        logger.debug('Contrast fix calculated', {
+            colorCount: colors.length,
+            pairingCount: pairings.length,
+            solved: result.solved,
+            totalDeltaE: result.totalDeltaE,
+            processingTime: `${Date.now() - startTime}ms`,
+        });
 
-        return `#${newRgb.r.toString(16).padStart(2, '0')}${newRgb.g.toString(16).padStart(2, '0')}${newRgb.b.toString(16).padStart(2, '0')}`;
+        return result;
     }
 
     /**
-     * Calculate color distance in RGB space
+     * Calculate perceptual color distance (CIEDE2000 ΔE)
      */
     private calculateColorDistance(hex1: string, hex2: string): number {
-        const rgb1 = hexToRgb(hex1);
-        const rgb2 = hexToRgb(hex2);
-
-        return Math.sqrt(
-            Math.pow(rgb1.r - rgb2.r, 2) +
-            Math.pow(rgb1.g - rgb2.g, 2) +
-            Math.pow(rgb1.b - rgb2.b, 2)
-        );
+        return getDeltaE(hex1, hex2);
     }
 
     /**
@@ -282,9 +265,11 @@ export class AccessibilityService {
     /**
      * Get detailed accessibility analysis for a specific color
      */
-    public analyzeColorAccessibility(color: ColorData): {
+    public analyzeColorAccessibility(color: ColorData, contrastModel: ContrastModel = 'wcag2'): {
         contrastWithWhite: number;
         contrastWithBlack: number;
+        apcaLcOnWhite: number;
+        apcaLcOnBlack: number;
         wcagLevelWhite: 'AA' | 'AAA' | 'FAIL';
         wcagLevelBlack: 'AA' | 'AAA' | 'FAIL';
         luminance: number;
@@ -292,11 +277,13 @@ export class AccessibilityService {
     } {
         const rgb = hexToRgb(color.hex);
         const luminance = getRelativeLuminance(rgb);
-        const contrastWithWhite = getContrastRatio(color.hex, '#FFFFFF');
-        const contrastWithBlack = getContrastRatio(color.hex, '#000000');
+        const onWhite = this.calculateContrast(color.hex, '#FFFFFF', contrastModel);
+        const onBlack = this.calculateContrast(color.hex, '#000000', contrastModel);
 
-        const wcagLevelWhite = getWCAGLevel(contrastWithWhite);
-        const wcagLevelBlack = getWCAGLevel(contrastWithBlack);
+        const contrastWithWhite = onWhite.ratio;
+        const contrastWithBlack = onBlack.ratio;
+        const wcagLevelWhite = onWhite.level;
+        const wcagLevelBlack = onBlack.level;
 
         const recommendations: string[] = [];
 
@@ -317,6 +304,8 @@ export class AccessibilityService {
         return {
             contrastWithWhite,
             contrastWithBlack,
+            apcaLcOnWhite: onWhite.apcaLc as number,
+            apcaLcOnBlack: onBlack.apcaLc as number,
             wcagLevelWhite,
             wcagLevelBlack,
             luminance,
@@ -327,20 +316,25 @@ export class AccessibilityService {
     /**
      * Suggest color adjustments to improve accessibility
      */
-    public suggestColorAdjustments(color: ColorData, targetLevel: 'AA' | 'AAA' = 'AA'): {
+    public suggestColorAdjustments(
+        color: ColorData,
+        targetLevel: 'AA' | 'AAA' = 'AA',
+        contrastModel: ContrastModel = 'wcag2'
+    ): {
         lighterVersion: string;
         darkerVersion: string;
         adjustmentNeeded: boolean;
     } {
-        const currentAnalysis = this.analyzeColorAccessibility(color);
-        const targetRatio = targetLevel === 'AAA' ? 7 : 4.5;
+        const currentAnalysis = this.analyzeColorAccessibility(color, contrastModel);
+        const levelRank = { FAIL: 0, AA: 1, AAA: 2 };
+        const meetsTarget = (level: 'AA' | 'AAA' | 'FAIL') => levelRank[level] >= levelRank[targetLevel];
 
         let adjustmentNeeded = false;
         let lighterVersion = color.hex;
         let darkerVersion = color.hex;
 
         // If current color doesn't meet standards, suggest adjustments
-        if (currentAnalysis.contrastWithWhite < targetRatio && currentAnalysis.contrastWithBlack < targetRatio) {
+        if (!meetsTarget(currentAnalysis.wcagLevelWhite) && !meetsTarget(currentAnalysis.wcagLevelBlack)) {
             adjustmentNeeded = true;
 
             // Create lighter version
@@ -367,4 +361,7 @@ export class AccessibilityService {
             adjustmentNeeded,
         };
     }
-}
\ No newline at end of file
+}
+
+// Export singleton instance
+export const accessibilityService = new AccessibilityService();
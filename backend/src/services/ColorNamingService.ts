@@ -78,8 +78,9 @@ export class ColorNamingService {
 
   /**
    * Generate an enhanced name for a color based on its properties and context
+   * Pass a seeded `random` to pick the same contextual modifiers on every run
    */
-  public generateColorName(color: ColorData, context?: GenerationContext): string {
+  public generateColorName(color: ColorData, context?: GenerationContext, random: () => number = Math.random): string {
     const { hsl } = color;
     
     // Find the base color family
@@ -92,7 +93,7 @@ export class ColorNamingService {
     let baseName = this.selectBaseName(baseNames, hsl, context);
     
     // Add contextual modifiers
-    baseName = this.addContextualModifiers(baseName, hsl, context);
+    baseName = this.addContextualModifiers(baseName, hsl, context, random);
     
     // Add descriptive modifiers based on color properties
     baseName = this.addDescriptiveModifiers(baseName, hsl);
@@ -126,6 +127,32 @@ export class ColorNamingService {
     return usage;
   }
 
+  /**
+   * Explain a color's place in the palette when the model did not give a reason
+   */
+  public generateColorRationale(color: ColorData, context?: GenerationContext, harmonyType?: string): string {
+    const roles: Record<ColorData['category'], string> = {
+      primary: 'anchors the palette',
+      secondary: 'supports the primary color',
+      accent: 'adds emphasis and contrast',
+      neutral: 'gives text and backgrounds a quiet base',
+    };
+    const harmony = harmonyType ? ` within the ${harmonyType} harmony` : '';
+    const mood = context?.mood && context.mood !== 'neutral' ? ` and suits the ${context.mood} mood` : '';
+
+    return `This ${this.findColorFamily(color.hsl)} ${roles[color.category] || roles.accent}${harmony}${mood}.`;
+  }
+
+  /**
+   * Short list of the emotions a color tends to evoke
+   */
+  public getPsychologicalAssociations(hsl: { h: number; s: number; l: number }): string[] {
+    if (hsl.s < 15) {
+      return ['balance', 'neutrality', 'clarity'];
+    }
+    return this.getColorPsychology(hsl).emotions.slice(0, 3);
+  }
+
   /**
    * Find the color family (red, blue, green, etc.) for a given HSL color
    */
@@ -209,14 +236,15 @@ export class ColorNamingService {
   private addContextualModifiers(
     baseName: string, 
     hsl: { h: number; s: number; l: number }, 
-    context?: GenerationContext
+    context?: GenerationContext,
+    random: () => number = Math.random
   ): string {
     if (!context) return baseName;
     
     // Add mood-based modifiers
     if (context.mood && this.contextModifiers[context.mood]) {
       const modifiers = this.contextModifiers[context.mood];
-      const modifier = modifiers[Math.floor(Math.random() * modifiers.length)];
+      const modifier = modifiers[Math.floor(random() * modifiers.length)];
       return `${modifier} ${baseName}`;
     }
     
@@ -224,7 +252,7 @@ export class ColorNamingService {
     if (context.industry && this.industryColors[context.industry]) {
       const industryData = this.industryColors[context.industry];
       if (industryData.modifiers.length > 0) {
-        const modifier = industryData.modifiers[Math.floor(Math.random() * industryData.modifiers.length)];
+        const modifier = industryData.modifiers[Math.floor(random() * industryData.modifiers.length)];
         return `${modifier} ${baseName}`;
       }
     }
@@ -1,5 +1,7 @@
-import { ColorPaletteData, ExportFormat, ExportData } from '../types/color';
+import { ColorPaletteData, ColorData, ExportFormat, ExportData } from '../types/color';
 import { logger } from '../utils/logger';
+import { encodeASE } from '../utils/ase';
+import { generateShadeScale, SHADE_STEPS } from '../utils/colorConversion';
 
 export class ExportService {
   /**
@@ -13,7 +15,7 @@ export class ExportService {
         colorCount: palette.colors.length 
       });
 
-      let content: string;
+      let content: string | Buffer;
       let filename: string;
       let mimeType: string;
 
@@ -43,7 +45,6 @@ export class ExportService {
           break;
 
         case 'ase':
-          // Adobe Swatch Exchange format (binary)
           content = this.generateASE(palette);
           filename = `${this.sanitizeFilename(palette.name)}.ase`;
           mimeType = 'application/octet-stream';
@@ -61,6 +62,18 @@ export class ExportService {
           mimeType = 'application/json';
           break;
 
+        case 'dtcg':
+          content = this.generateDesignTokens(palette);
+          filename = `${this.sanitizeFilename(palette.name)}.tokens.json`;
+          mimeType = 'application/json';
+          break;
+
+        case 'style-dictionary':
+          content = this.generateStyleDictionary(palette);
+          filename = `${this.sanitizeFilename(palette.name)}-style-dictionary.json`;
+          mimeType = 'application/json';
+          break;
+
         default:
           throw new Error(`Unsupported export format: ${format}`);
       }
@@ -109,6 +122,16 @@ export class ExportService {
       css += `  --color-${varName}-rgb: ${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b};\n`;
     });
 
+    // Add shade scales
+    palette.colors.forEach((color) => {
+      const varName = this.toCSSVariableName(color.name);
+      const { shades } = generateShadeScale(color.hex);
+      css += `\n  /* ${color.name} shades */\n`;
+      SHADE_STEPS.forEach((step) => {
+        css += `  --color-${varName}-${step}: ${shades[step]};\n`;
+      });
+    });
+
     css += `}\n\n`;
 
     // Add utility classes
@@ -139,6 +162,15 @@ export class ExportService {
       scss += `$${varName}-rgb: ${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b};\n`;
     });
 
+    scss += `\n// Shade scales\n`;
+    palette.colors.forEach((color) => {
+      const varName = this.toSCSSVariableName(color.name);
+      const { shades } = generateShadeScale(color.hex);
+      SHADE_STEPS.forEach((step) => {
+        scss += `$${varName}-${step}: ${shades[step]};\n`;
+      });
+    });
+
     scss += `\n// Color map for easy iteration\n`;
     scss += `$colors: (\n`;
     palette.colors.forEach((color, index) => {
@@ -167,6 +199,7 @@ export class ExportService {
     const exportObject = {
       name: palette.name,
       prompt: palette.prompt,
+      ...(palette.explanation ? { explanation: palette.explanation } : {}),
       generatedAt: new Date().toISOString(),
       colors: palette.colors.map(color => ({
         name: color.name,
@@ -175,6 +208,8 @@ export class ExportService {
         hsl: color.hsl,
         category: color.category,
         usage: color.usage,
+        ...this.describeColor(color, 'description'),
+        ...(color.psychology?.length ? { psychology: color.psychology } : {}),
         accessibility: color.accessibility,
       })),
       accessibilityScore: palette.accessibilityScore,
@@ -207,16 +242,10 @@ export class ExportService {
       const colorName = this.toTailwindColorName(color.name);
       tailwind += `        '${colorName}': {\n`;
       tailwind += `          DEFAULT: '${color.hex}',\n`;
-      tailwind += `          50: '${this.lightenColor(color.hex, 0.9)}',\n`;
-      tailwind += `          100: '${this.lightenColor(color.hex, 0.8)}',\n`;
-      tailwind += `          200: '${this.lightenColor(color.hex, 0.6)}',\n`;
-      tailwind += `          300: '${this.lightenColor(color.hex, 0.4)}',\n`;
-      tailwind += `          400: '${this.lightenColor(color.hex, 0.2)}',\n`;
-      tailwind += `          500: '${color.hex}',\n`;
-      tailwind += `          600: '${this.darkenColor(color.hex, 0.1)}',\n`;
-      tailwind += `          700: '${this.darkenColor(color.hex, 0.2)}',\n`;
-      tailwind += `          800: '${this.darkenColor(color.hex, 0.3)}',\n`;
-      tailwind += `          900: '${this.darkenColor(color.hex, 0.4)}',\n`;
+      const { shades } = generateShadeScale(color.hex);
+      SHADE_STEPS.forEach((step) => {
+        tailwind += `          ${step}: '${shades[step]}',\n`;
+      });
       tailwind += `        },\n`;
     });
 
@@ -230,24 +259,23 @@ export class ExportService {
 
   /**
    * Generate Adobe Swatch Exchange (ASE) format
-   * Note: This is a simplified text representation, not binary ASE
+   * Colors are written as global RGB swatches inside a group named after the palette
    */
-  private generateASE(palette: ColorPaletteData): string {
-    let ase = `Adobe Swatch Exchange Format\n`;
-    ase += `Palette: ${palette.name}\n`;
-    ase += `Colors: ${palette.colors.length}\n\n`;
-
-    palette.colors.forEach((color, index) => {
-      ase += `Color ${index + 1}:\n`;
-      ase += `  Name: ${color.name}\n`;
-      ase += `  Type: RGB\n`;
-      ase += `  R: ${(color.rgb.r / 255).toFixed(6)}\n`;
-      ase += `  G: ${(color.rgb.g / 255).toFixed(6)}\n`;
-      ase += `  B: ${(color.rgb.b / 255).toFixed(6)}\n`;
-      ase += `  Usage: ${color.usage}\n\n`;
+  private generateASE(palette: ColorPaletteData): Buffer {
+    return encodeASE({
+      groups: [
+        {
+          name: palette.name,
+          swatches: palette.colors.map(color => ({
+            name: color.name,
+            model: 'RGB' as const,
+            values: [color.rgb.r / 255, color.rgb.g / 255, color.rgb.b / 255],
+            type: 'global' as const,
+          })),
+        },
+      ],
+      swatches: [],
     });
-
-    return ase;
   }
 
   /**
@@ -293,6 +321,108 @@ export class ExportService {
     return JSON.stringify(figmaPalette, null, 2);
   }
 
+  /**
+   * Generate W3C Design Tokens Community Group (DTCG) format
+   * Tokens are grouped by color category, e.g. `primary.sunset-orange`, with shade scales
+   * under `shades.primary.sunset-orange.50`; the base color's step aliases its token
+   */
+  private generateDesignTokens(palette: ColorPaletteData): string {
+    const tokens: Record<string, any> = {
+      $description: palette.prompt ? `${palette.name}: ${palette.prompt}` : palette.name,
+    };
+    const shades: Record<string, any> = {};
+
+    this.groupByCategory(palette).forEach((colors, category) => {
+      tokens[category] = {};
+      shades[category] = {};
+      colors.forEach(({ key, color }) => {
+        tokens[category][key] = {
+          $value: color.hex,
+          $type: 'color',
+          ...this.describeColor(color, '$description'),
+        };
+
+        const scale = generateShadeScale(color.hex);
+        shades[category][key] = {};
+        SHADE_STEPS.forEach((step) => {
+          shades[category][key][step] = {
+            $value: step === scale.anchor ? `{${category}.${key}}` : scale.shades[step],
+            $type: 'color',
+          };
+        });
+      });
+    });
+
+    if (palette.colors.length > 0) {
+      tokens.shades = shades;
+    }
+
+    return JSON.stringify(tokens, null, 2);
+  }
+
+  /**
+   * Generate Style Dictionary source format
+   * Follows the category/type/item layout, e.g. `color.primary.sunset-orange`,
+   * with shade scales under `color.shades.primary.sunset-orange.50`
+   */
+  private generateStyleDictionary(palette: ColorPaletteData): string {
+    const color: Record<string, any> = {};
+    const shades: Record<string, any> = {};
+
+    this.groupByCategory(palette).forEach((colors, category) => {
+      color[category] = {};
+      shades[category] = {};
+      colors.forEach(({ key, color: data }) => {
+        color[category][key] = {
+          value: data.hex,
+          ...this.describeColor(data, 'comment'),
+        };
+
+        const { shades: scale } = generateShadeScale(data.hex);
+        shades[category][key] = {};
+        SHADE_STEPS.forEach((step) => {
+          shades[category][key][step] = { value: scale[step] };
+        });
+      });
+    });
+
+    if (palette.colors.length > 0) {
+      color.shades = shades;
+    }
+
+    return JSON.stringify({ color }, null, 2);
+  }
+
+  /**
+   * Description field for a color, saying why it was chosen and then how to use it; empty when there is neither
+   */
+  private describeColor(color: ColorData, field: string): Record<string, string> {
+    const description = [color.rationale, color.usage].filter(Boolean).join(' ');
+    return description ? { [field]: description } : {};
+  }
+
+  /**
+   * Group colors by category in palette order, giving each a unique token key within its group
+   */
+  private groupByCategory(palette: ColorPaletteData): Map<string, { key: string; color: ColorData }[]> {
+    const groups = new Map<string, { key: string; color: ColorData }[]>();
+
+    palette.colors.forEach((color) => {
+      const group = groups.get(color.category) || [];
+      const base = this.toCSSVariableName(color.name) || 'color';
+      const taken = new Set(group.map(entry => entry.key));
+      let key = base;
+      for (let suffix = 2; taken.has(key); suffix++) {
+        key = `${base}-${suffix}`;
+      }
+
+      group.push({ key, color });
+      groups.set(color.category, group);
+    });
+
+    return groups;
+  }
+
   /**
    * Utility functions
    */
@@ -330,43 +460,6 @@ export class ExportService {
       .replace(/[^a-z0-9\s]/g, '')
       .replace(/\s+/g, '-');
   }
-
-  private lightenColor(hex: string, amount: number): string {
-    // Simple color lightening - convert to RGB, increase values, convert back
-    const rgb = this.hexToRgb(hex);
-    if (!rgb) return hex;
-
-    const r = Math.min(255, Math.round(rgb.r + (255 - rgb.r) * amount));
-    const g = Math.min(255, Math.round(rgb.g + (255 - rgb.g) * amount));
-    const b = Math.min(255, Math.round(rgb.b + (255 - rgb.b) * amount));
-
-    return this.rgbToHex(r, g, b);
-  }
-
-  private darkenColor(hex: string, amount: number): string {
-    // Simple color darkening - convert to RGB, decrease values, convert back
-    const rgb = this.hexToRgb(hex);
-    if (!rgb) return hex;
-
-    const r = Math.max(0, Math.round(rgb.r * (1 - amount)));
-    const g = Math.max(0, Math.round(rgb.g * (1 - amount)));
-    const b = Math.max(0, Math.round(rgb.b * (1 - amount)));
-
-    return this.rgbToHex(r, g, b);
-  }
-
-  private hexToRgb(hex: string): { r: number; g: number; b: number } | null {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16),
-    } : null;
-  }
-
-  private rgbToHex(r: number, g: number, b: number): string {
-    return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,237 @@
+// Cache for text generations
+//
+// Identical prompts with identical options and providers produce the same palette, so results
+// are kept in an in-process LRU with a TTL. An optional persistent store (the database) backs
+// the memory tier so entries survive restarts; its failures are logged and treated as misses.
+
+import { createHash } from 'crypto';
+import { AIGenerationResult, GenerationOptions } from '../types/color';
+import { GenerationCacheConfig } from '../config/types';
+import { loadGenerationCacheConfig } from '../config/cache';
+import { PaletteProvider } from './providers';
+import { logger } from '../utils/logger';
+
+/**
+ * Second cache tier shared between restarts and instances
+ */
+export interface GenerationCacheStore {
+  get(key: string): Promise<AIGenerationResult | null>;
+  set(key: string, result: AIGenerationResult, expiresAt: Date): Promise<void>;
+}
+
+export interface GenerationCacheStats {
+  enabled: boolean;
+  persistent: boolean;
+  size: number;
+  max: number;
+  ttl: number;
+  hits: number;
+  misses: number;
+  memoryHits: number;
+  persistentHits: number;
+  evictions: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  // Serialized so callers can never mutate a cached palette
+  value: string;
+  expiresAt: number;
+}
+
+// Options that change how a result is delivered rather than what is generated
+const KEY_EXCLUDED_OPTIONS: (keyof GenerationOptions)[] = ['noCache', 'variants'];
+
+/**
+ * Lowercase, trim and collapse whitespace so trivially different prompts share an entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so key order never changes the key
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cache key for a generation: the normalized prompt, the options that affect the palette
+ * (including the seed), the providers and models in fallback order and the pipeline version
+ */
+export function buildGenerationCacheKey(
+  prompt: string,
+  options: Partial<GenerationOptions>,
+  providers: PaletteProvider[],
+  pipelineVersion: number
+): string {
+  const keyOptions = { ...options };
+  for (const option of KEY_EXCLUDED_OPTIONS) {
+    delete keyOptions[option];
+  }
+
+  const material = canonicalize({
+    prompt: normalizePrompt(prompt),
+    options: keyOptions,
+    providers: providers.map(provider => `${provider.name}/${provider.model ?? ''}`),
+    pipelineVersion,
+  });
+
+  return createHash('sha256').update(material).digest('hex');
+}
+
+export class GenerationCache {
+  private readonly config: GenerationCacheConfig;
+  private readonly entries = new Map<string, CacheEntry>();
+  private store?: GenerationCacheStore;
+  private hits = 0;
+  private misses = 0;
+  private memoryHits = 0;
+  private persistentHits = 0;
+  private evictions = 0;
+
+  constructor(config: GenerationCacheConfig = loadGenerationCacheConfig()) {
+    this.config = config;
+  }
+
+  public get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Back the memory tier with a persistent store
+   */
+  public setPersistentStore(store: GenerationCacheStore | undefined): void {
+    this.store = store;
+  }
+
+  /**
+   * Look up a result, checking memory first and then the persistent store
+   */
+  public async get(key: string): Promise<AIGenerationResult | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert so the entry becomes the most recently used
+      this.entries.delete(key);
+      if (this.config.updateAgeOnGet) {
+        entry.expiresAt = Date.now() + this.config.ttl;
+      }
+      this.entries.set(key, entry);
+      this.hits++;
+      this.memoryHits++;
+      return JSON.parse(entry.value);
+    }
+    if (entry) {
+      this.entries.delete(key);
+    }
+
+    const stored = await this.getFromStore(key);
+    if (stored) {
+      this.remember(key, JSON.stringify(stored));
+      this.hits++;
+      this.persistentHits++;
+      return stored;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * Store a result in memory and, when configured, in the persistent store
+   */
+  public async set(key: string, result: AIGenerationResult): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const expiresAt = this.remember(key, JSON.stringify(result));
+
+    if (this.store) {
+      try {
+        await this.store.set(key, result, new Date(expiresAt));
+      } catch (error) {
+        logger.warn('Failed to persist cached generation', { error: error instanceof Error ? error.message : error });
+      }
+    }
+  }
+
+  /**
+   * Drop every in-memory entry; the persistent store expires its entries on its own
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public getStats(): GenerationCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.config.enabled,
+      persistent: !!this.store,
+      size: this.entries.size,
+      max: this.config.max,
+      ttl: this.config.ttl,
+      hits: this.hits,
+      misses: this.misses,
+      memoryHits: this.memoryHits,
+      persistentHits: this.persistentHits,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  private remember(key: string, value: string): number {
+    const expiresAt = Date.now() + this.config.ttl;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+
+    // Maps iterate in insertion order, so the first key is the least recently used
+    while (this.entries.size > this.config.max) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+
+    return expiresAt;
+  }
+
+  private async getFromStore(key: string): Promise<AIGenerationResult | null> {
+    if (!this.store) {
+      return null;
+    }
+
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      logger.warn('Failed to read cached generation', { error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+}
+
+let generationCache: GenerationCache | undefined;
+
+/**
+ * Process-wide cache, created on first use so the environment is loaded first
+ */
+export function getGenerationCache(): GenerationCache {
+  if (!generationCache) {
+    generationCache = new GenerationCache();
+  }
+  return generationCache;
+}
@@ -4,8 +4,26 @@ import sharp from 'sharp';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { RGB, ColorData, GenerationContext } from '../types/color';
-import { extractDominantColors, rgbToHex, rgbToHsl } from '../utils/colorConversion';
+import {
+  RGB,
+  ColorData,
+  GenerationContext,
+  ColorExclusions,
+  ExclusionReplacement,
+  ExtractedColor,
+  ExtractionAlgorithm,
+  ExtractionRegion,
+  MoodBoardColor,
+  SourceColorSpace,
+} from '../types/color';
+import { rgbToHex, rgbToHsl, rgbToLab, deltaE2000, hexToRgb } from '../utils/colorConversion';
+import { enforceColorExclusions } from '../utils/colorExclusions';
+import { countNearestPixels, quantizeColors } from '../utils/quantization';
+import { createRegionMask, detectBackground } from '../utils/imageRegions';
+import { computeSaliency, findSalientAccent } from '../utils/saliency';
+import { mergeImageColors } from '../utils/moodBoard';
+import { SrgbConversion, createSrgbConverter, identifyColorSpace, parseIccProfile } from '../utils/iccProfile';
+import { ValidationError } from '../types/api';
 import { AccessibilityService } from './AccessibilityService';
 import { ColorNamingService } from './ColorNamingService';
 import { logger } from '../utils/logger';
@@ -16,6 +34,40 @@ export interface ImageProcessingOptions {
   quality?: number;
   format?: 'jpeg' | 'png' | 'webp';
   colorCount?: number;
+  /** Quantizer used for extraction: 'kmeans' for dominant colors, 'median-cut' or 'octree' to keep accents */
+  algorithm?: ExtractionAlgorithm;
+  /** Only extract from pixels inside these regions; the whole image when empty */
+  regions?: ExtractionRegion[];
+  /** Grayscale or alpha mask image; only pixels where it is at least half opaque or white are used */
+  maskPath?: string;
+  /** Skip the plain background connected to the image border */
+  excludeBackground?: boolean;
+  /** Weight pixels by local contrast, chroma and closeness to the center before clustering */
+  saliency?: boolean;
+  /** Reserve the last color for the most salient hue the other colors missed */
+  accentSlot?: boolean;
+  /** Extracted colors that violate these are replaced with the closest allowed color */
+  exclude?: ColorExclusions;
+}
+
+interface PixelSample {
+  pixels: RGB[];
+  /** Saliency of each pixel (0-1), when saliency or the accent slot was requested */
+  saliency?: number[];
+  /** Percentage of the image's pixels used for extraction */
+  selectedArea: number;
+  /** Percentage of the image's pixels detected as background */
+  backgroundArea: number;
+  /** Percentage of the image's pixels outside the sRGB gamut, clipped when converting */
+  clippedArea: number;
+}
+
+interface ColorProfile {
+  colorSpace: SourceColorSpace;
+  /** Description of the embedded ICC profile */
+  iccProfile?: string;
+  /** Converter to sRGB, for RGB profiles other than sRGB that can be converted here */
+  convert?: (rgb: RGB) => SrgbConversion;
 }
 
 export interface ProcessedImageResult {
@@ -25,7 +77,43 @@ export interface ProcessedImageResult {
   format: string;
   fileSize: number;
   dominantColors: RGB[];
+  /** Extracted colors in the same order as dominantColors, with the share of the image each covers */
+  colorCoverage: ExtractedColor[];
+  algorithm: ExtractionAlgorithm;
+  /** Percentage of the image's pixels used for extraction after regions, mask and background removal */
+  selectedArea: number;
+  /** Percentage of the image's pixels detected as background, 0 unless excludeBackground is set */
+  backgroundArea: number;
+  /** Color space of the uploaded image; colors are extracted in sRGB */
+  colorSpace: SourceColorSpace;
+  /** Description of the image's embedded ICC profile, when it has one */
+  iccProfile?: string;
+  /** Whether some of the image's colors were outside the sRGB gamut and clipped to its edge */
+  gamutClipped: boolean;
+  /** Percentage of the image's pixels clipped to the sRGB gamut */
+  clippedArea: number;
   colorPalette: ColorData[];
+  /** Extracted colors replaced because they violated options.exclude */
+  replacedColors: ExclusionReplacement[];
+  /** Validation warnings about the image, such as a CMYK source */
+  warnings: string[];
+  processingTime: number;
+}
+
+export interface MoodBoardImage {
+  imagePath: string;
+  /** Relative importance of the image in the merged palette; 1 when omitted */
+  weight?: number;
+}
+
+export interface MoodBoardResult {
+  /** Each image's extraction, in upload order */
+  images: ProcessedImageResult[];
+  /** Colors merged across the images, largest share of the board first */
+  colors: MoodBoardColor[];
+  colorPalette: ColorData[];
+  /** Merged colors replaced because they violated options.exclude */
+  replacedColors: ExclusionReplacement[];
   processingTime: number;
 }
 
@@ -38,9 +126,13 @@ export interface ImageValidationResult {
     height: number;
     format: string;
     fileSize: number;
+    colorSpace: SourceColorSpace;
   };
 }
 
+// How many times a pixel of full saliency outweighs one of none when clustering
+const SALIENCY_BOOST = 20;
+
 export class ImageProcessingService {
   private accessibilityService: AccessibilityService;
   private colorNamingService: ColorNamingService;
@@ -56,6 +148,13 @@ export class ImageProcessingService {
     quality: 85,
     format: 'jpeg',
     colorCount: 5,
+    algorithm: 'kmeans',
+    regions: [],
+    maskPath: '',
+    excludeBackground: false,
+    saliency: false,
+    accentSlot: false,
+    exclude: {},
   };
 
   // File size limits (in bytes)
@@ -79,6 +178,7 @@ export class ImageProcessingService {
     options: Partial<ImageProcessingOptions> = {}
   ): Promise<ProcessedImageResult> {
     const startTime = Date.now();
+    let processedImagePath: string | undefined;
     
     try {
       logger.info('Starting image processing', {
@@ -95,13 +195,29 @@ export class ImageProcessingService {
       const finalOptions = { ...this.defaultOptions, ...options };
       
       // Process image (resize, optimize, convert format)
-      const processedImagePath = await this.optimizeImage(imagePath, finalOptions);
-      
-      // Extract dominant colors
-      const dominantColors = await this.extractDominantColors(processedImagePath, finalOptions.colorCount);
+      processedImagePath = await this.optimizeImage(imagePath, finalOptions);
+      
+      // Extract dominant colors from the selected pixels. Images in a profile converted here are
+      // sampled from the original without sharp's conversion, so clipped colors can be counted.
+      const colorProfile = await this.readColorProfile(imagePath);
+      const sample = await this.samplePixels(
+        colorProfile.convert ? imagePath : processedImagePath,
+        finalOptions,
+        colorProfile.convert
+      );
+      let colorCoverage = await this.extractDominantColors(
+        sample.pixels,
+        finalOptions.colorCount,
+        finalOptions.algorithm,
+        finalOptions.saliency ? sample.saliency : undefined
+      );
+      if (finalOptions.accentSlot && sample.saliency) {
+        colorCoverage = this.addAccentSlot(colorCoverage, sample.pixels, sample.saliency, finalOptions.colorCount);
+      }
+      const dominantColors = colorCoverage.map(color => color.rgb);
       
       // Convert to color palette
-      const colorPalette = await this.createColorPalette(dominantColors);
+      const { palette: colorPalette, replacedColors } = await this.createColorPalette(dominantColors, finalOptions.exclude);
       
       // Get processed image metadata
       const processedMetadata = await sharp(processedImagePath).metadata();
@@ -113,6 +229,12 @@ export class ImageProcessingService {
         originalPath: imagePath,
         processedPath: processedImagePath,
         dominantColorCount: dominantColors.length,
+        algorithm: finalOptions.algorithm,
+        saliency: finalOptions.saliency,
+        accentSlot: finalOptions.accentSlot,
+        colorSpace: colorProfile.colorSpace,
+        clippedArea: sample.clippedArea,
+        selectedArea: sample.selectedArea,
         paletteColorCount: colorPalette.length,
         processingTime: `${processingTime}ms`,
       });
@@ -130,15 +252,75 @@ export class ImageProcessingService {
         format: processedMetadata.format || finalOptions.format,
         fileSize: processedStats.size,
         dominantColors,
+        colorCoverage,
+        algorithm: finalOptions.algorithm,
+        selectedArea: sample.selectedArea,
+        backgroundArea: sample.backgroundArea,
+        colorSpace: colorProfile.colorSpace,
+        iccProfile: colorProfile.iccProfile,
+        gamutClipped: sample.clippedArea > 0,
+        clippedArea: sample.clippedArea,
         colorPalette,
+        replacedColors,
+        warnings: validation.warnings,
         processingTime,
       };
     } catch (error) {
       logger.error('Error processing image:', error);
+      if (processedImagePath) {
+        await this.deleteTempFile(processedImagePath);
+      }
+      // Problems with the request, such as an empty selection, are reported as they are
+      if (error instanceof ValidationError) {
+        throw error;
+      }
       throw new Error(`Image processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Extract colors from each image of a mood board and merge them into one palette, counting
+   * each image by its weight. Exclusions apply to the merged colors only.
+   */
+  public async processMoodBoard(
+    images: MoodBoardImage[],
+    options: Partial<ImageProcessingOptions> = {}
+  ): Promise<MoodBoardResult> {
+    const startTime = Date.now();
+    const { exclude, ...imageOptions } = options;
+    const colorCount = options.colorCount || this.defaultOptions.colorCount;
+
+    // One image at a time, so a large board does not hold every decoded image in memory at once
+    const results: ProcessedImageResult[] = [];
+    for (const [index, image] of images.entries()) {
+      try {
+        results.push(await this.processImage(image.imagePath, imageOptions));
+      } catch (error) {
+        await Promise.all(results.map(result => this.deleteTempFile(result.processedImagePath)));
+        const message = `Image ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        throw error instanceof ValidationError ? new ValidationError(message) : new Error(message);
+      }
+    }
+
+    const colors = mergeImageColors(
+      results.map((result, index) => ({ colors: result.colorCoverage, weight: images[index].weight ?? 1 })),
+      colorCount
+    );
+    const { palette: colorPalette, replacedColors } = await this.createColorPalette(
+      colors.map(color => color.rgb),
+      exclude
+    );
+
+    const processingTime = Date.now() - startTime;
+    logger.info('Mood board processing completed', {
+      imageCount: images.length,
+      mergedColorCount: colors.length,
+      processingTime: `${processingTime}ms`,
+    });
+
+    return { images: results, colors, colorPalette, replacedColors, processingTime };
+  }
+
   /**
    * Validate uploaded image file
    */
@@ -185,7 +367,10 @@ export class ImageProcessingService {
       }
       
       // Check color space
-      if (metadata.space && !['srgb', 'rgb', 'cmyk'].includes(metadata.space.toLowerCase())) {
+      const colorSpace = identifyColorSpace(metadata.icc ? parseIccProfile(metadata.icc) : null, metadata.space);
+      if (colorSpace === 'cmyk') {
+        warnings.push('CMYK image detected. Colors are converted to sRGB and may differ from the printed colors');
+      } else if (metadata.space && !['srgb', 'rgb'].includes(metadata.space.toLowerCase())) {
         warnings.push(`Unusual color space detected: ${metadata.space}. Colors may not be accurate`);
       }
       
@@ -198,6 +383,7 @@ export class ImageProcessingService {
           height: metadata.height,
           format: metadata.format || 'unknown',
           fileSize: stats.size,
+          colorSpace,
         } : undefined,
       };
     } catch (error) {
@@ -269,36 +455,147 @@ export class ImageProcessingService {
   }
 
   /**
-   * Extract dominant colors from processed image
+   * Read the image's color space from its ICC profile, with a converter to sRGB when the
+   * profile is an RGB one other than sRGB that can be converted here
    */
-  private async extractDominantColors(imagePath: string, colorCount: number): Promise<RGB[]> {
-    try {
-      // Get raw pixel data
-      const { data, info } = await sharp(imagePath)
-        .resize(200, 200, { fit: 'cover' }) // Resize for faster processing
-        .raw()
-        .toBuffer({ resolveWithObject: true });
-      
-      // Convert buffer to RGB array
-      const pixels: RGB[] = [];
-      for (let i = 0; i < data.length; i += info.channels) {
-        pixels.push({
-          r: data[i],
-          g: data[i + 1],
-          b: data[i + 2],
-        });
+  private async readColorProfile(imagePath: string): Promise<ColorProfile> {
+    const metadata = await sharp(imagePath).metadata();
+    const profile = metadata.icc ? parseIccProfile(metadata.icc) : null;
+    const colorSpace = identifyColorSpace(profile, metadata.space);
+    const convert = profile && colorSpace !== 'srgb' ? createSrgbConverter(profile) : null;
+
+    return {
+      colorSpace,
+      ...(profile?.description && { iccProfile: profile.description }),
+      ...(convert && { convert }),
+    };
+  }
+
+  /**
+   * Sample the processed image's pixels, keeping those inside the regions and mask and outside
+   * the detected background. With a converter, the image is read without its profile and each
+   * pixel converted to sRGB.
+   */
+  private async samplePixels(
+    imagePath: string,
+    options: Pick<ImageProcessingOptions, 'regions' | 'maskPath' | 'excludeBackground' | 'saliency' | 'accentSlot'> = {},
+    convert?: (rgb: RGB) => SrgbConversion
+  ): Promise<PixelSample> {
+    // Get raw pixel data, downsized for faster processing without cropping so coverage spans the whole image
+    const { data, info } = await sharp(imagePath, { ignoreIcc: !!convert })
+      .resize(200, 200, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+    const total = width * height;
+
+    let clippedPixels = 0;
+    if (convert) {
+      for (let offset = 0; offset < total * channels; offset += channels) {
+        const { rgb, clipped } = convert({ r: data[offset], g: data[offset + 1], b: data[offset + 2] });
+        data[offset] = rgb.r;
+        data[offset + 1] = rgb.g;
+        data[offset + 2] = rgb.b;
+        if (clipped && !(channels === 4 && data[offset + 3] < 128)) clippedPixels++;
       }
-      
-      // Extract dominant colors using k-means clustering
-      const dominantColors = extractDominantColors(pixels, colorCount);
+    }
+
+    const regionMask = options.regions?.length ? createRegionMask(width, height, options.regions) : null;
+    const alphaMask = options.maskPath ? await this.loadMask(options.maskPath, width, height) : null;
+    const background = options.excludeBackground ? detectBackground(data, width, height, channels) : null;
+    // Saliency is scored on the whole image so contrast with unselected surroundings still counts
+    const saliency = options.saliency || options.accentSlot ? computeSaliency(data, width, height, channels) : null;
+
+    // Convert buffer to RGB array, skipping mostly transparent and unselected pixels
+    const pixels: RGB[] = [];
+    const pixelSaliency: number[] = [];
+    for (let index = 0; index < total; index++) {
+      const offset = index * channels;
+      if (channels === 4 && data[offset + 3] < 128) continue;
+      if (regionMask && !regionMask[index]) continue;
+      if (alphaMask && alphaMask[index] < 128) continue;
+      if (background && background[index]) continue;
+      pixels.push({
+        r: data[offset],
+        g: data[offset + 1],
+        b: data[offset + 2],
+      });
+      if (saliency) {
+        pixelSaliency.push(saliency[index]);
+      }
+    }
+
+    if (pixels.length === 0) {
+      throw new ValidationError('No pixels left to extract colors from; the selected area is empty or only background');
+    }
+
+    const backgroundPixels = background ? background.reduce((sum, value) => sum + value, 0) : 0;
+    const sample: PixelSample = {
+      pixels,
+      saliency: saliency ? pixelSaliency : undefined,
+      selectedArea: Math.round((pixels.length / total) * 1000) / 10,
+      backgroundArea: Math.round((backgroundPixels / total) * 1000) / 10,
+      clippedArea: Math.round((clippedPixels / total) * 1000) / 10,
+    };
+
+    logger.debug('Image pixels sampled', {
+      imagePath,
+      regions: options.regions?.length || 0,
+      masked: !!alphaMask,
+      backgroundDetected: !!background,
+      selectedArea: sample.selectedArea,
+      backgroundArea: sample.backgroundArea,
+      convertedToSrgb: !!convert,
+      clippedArea: sample.clippedArea,
+    });
+
+    return sample;
+  }
+
+  /**
+   * Load a mask image at the sample size as one value per pixel: its alpha channel when it has
+   * one, otherwise its lightness
+   */
+  private async loadMask(maskPath: string, width: number, height: number): Promise<Uint8Array> {
+    const metadata = await sharp(maskPath).metadata();
+    const resized = sharp(maskPath).resize(width, height, { fit: 'fill' });
+    const { data } = await (metadata.hasAlpha ? resized.extractChannel('alpha') : resized.greyscale())
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return data;
+  }
+
+  /**
+   * Extract dominant colors from sampled pixels with the share of them each covers. With
+   * saliency, salient pixels count for more when clustering but coverage is still by pixel.
+   */
+  private async extractDominantColors(
+    pixels: RGB[],
+    colorCount: number,
+    algorithm: ExtractionAlgorithm,
+    saliency?: number[]
+  ): Promise<ExtractedColor[]> {
+    try {
+      const weights = saliency?.map(value => 1 + (SALIENCY_BOOST - 1) * value);
+      const quantized = quantizeColors(pixels, colorCount, algorithm, { weights });
+      const populations = weights
+        ? countNearestPixels(pixels, quantized.map(color => color.rgb))
+        : quantized.map(color => color.population);
+      const extracted = quantized.map(({ rgb }, index) => ({
+        hex: rgbToHex(rgb),
+        rgb,
+        coverage: Math.round((populations[index] / pixels.length) * 1000) / 10,
+      }));
       
       // Filter out colors that are too similar or too extreme
-      const filteredColors = this.filterColors(dominantColors);
+      const filteredColors = this.filterColors(extracted);
       
       logger.debug('Dominant color extraction completed', {
-        imagePath,
+        algorithm,
+        saliencyWeighted: !!weights,
+        sampledPixels: pixels.length,
         requestedColors: colorCount,
-        extractedColors: dominantColors.length,
+        extractedColors: extracted.length,
         filteredColors: filteredColors.length,
       });
       
@@ -310,31 +607,59 @@ export class ImageProcessingService {
   }
 
   /**
-   * Filter out similar or extreme colors
+   * Put the most salient hue missing from the extracted colors in the last slot, replacing the
+   * least important color when all slots are taken
    */
-  private filterColors(colors: RGB[]): RGB[] {
-    const filtered: RGB[] = [];
-    const minDistance = 30; // Minimum color distance
+  private addAccentSlot(
+    colors: ExtractedColor[],
+    pixels: RGB[],
+    saliency: number[],
+    colorCount: number
+  ): ExtractedColor[] {
+    const accent = findSalientAccent(pixels, saliency, colors.map(color => color.rgb));
+    if (!accent) {
+      return colors;
+    }
+
+    const kept = colors.slice(0, colorCount - 1);
+    logger.debug('Accent slot filled', {
+      accent: rgbToHex(accent.rgb),
+      replaced: colors.length > kept.length ? colors[colors.length - 1].hex : undefined,
+    });
+
+    return [
+      ...kept,
+      {
+        hex: rgbToHex(accent.rgb),
+        rgb: accent.rgb,
+        coverage: Math.round((accent.population / pixels.length) * 1000) / 10,
+        accent: true,
+      },
+    ];
+  }
+
+  /**
+   * Filter out similar or extreme colors, adding the coverage of similar colors to the one kept
+   */
+  private filterColors(colors: ExtractedColor[]): ExtractedColor[] {
+    const filtered: ExtractedColor[] = [];
+    const minDeltaE = 10; // Minimum CIEDE2000 difference between extracted colors
     
     for (const color of colors) {
       // Skip colors that are too dark or too light
-      const brightness = (color.r + color.g + color.b) / 3;
+      const brightness = (color.rgb.r + color.rgb.g + color.rgb.b) / 3;
       if (brightness < 20 || brightness > 235) {
         continue;
       }
       
-      // Skip colors that are too similar to existing ones
-      const isSimilar = filtered.some(existing => {
-        const distance = Math.sqrt(
-          Math.pow(color.r - existing.r, 2) +
-          Math.pow(color.g - existing.g, 2) +
-          Math.pow(color.b - existing.b, 2)
-        );
-        return distance < minDistance;
-      });
+      // Merge colors that are too similar to existing ones
+      const lab = rgbToLab(color.rgb);
+      const similar = filtered.find(existing => deltaE2000(lab, rgbToLab(existing.rgb)) < minDeltaE);
       
-      if (!isSimilar) {
-        filtered.push(color);
+      if (similar) {
+        similar.coverage = Math.round((similar.coverage + color.coverage) * 10) / 10;
+      } else {
+        filtered.push({ ...color });
       }
     }
     
@@ -342,14 +667,22 @@ export class ImageProcessingService {
   }
 
   /**
-   * Convert RGB colors to ColorData palette
+   * Convert RGB colors to ColorData palette, replacing colors that violate the exclusions
    */
-  private async createColorPalette(dominantColors: RGB[]): Promise<ColorData[]> {
+  private async createColorPalette(
+    dominantColors: RGB[],
+    exclude?: ColorExclusions
+  ): Promise<{ palette: ColorData[]; replacedColors: ExclusionReplacement[] }> {
     const palette: ColorData[] = [];
+    const { colors: allowedColors, replacements: replacedColors } = enforceColorExclusions(
+      dominantColors.map(rgb => ({ hex: rgbToHex(rgb) })),
+      exclude,
+      'extraction'
+    );
     
-    for (let i = 0; i < dominantColors.length; i++) {
-      const rgb = dominantColors[i];
-      const hex = rgbToHex(rgb);
+    for (let i = 0; i < allowedColors.length; i++) {
+      const hex = allowedColors[i].hex;
+      const rgb = hexToRgb(hex);
       const hsl = rgbToHsl(rgb);
       
       // Generate context for color naming
@@ -403,7 +736,7 @@ export class ImageProcessingService {
       palette.push(colorData);
     }
     
-    return palette;
+    return { palette, replacedColors };
   }
 
   /**
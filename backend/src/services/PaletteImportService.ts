@@ -0,0 +1,501 @@
+// Palette import service for bringing existing swatch files into ChromaGen
+
+import path from 'path';
+import { ColorData, ColorPaletteData, RGB } from '../types/color';
+import { ValidationError } from '../types/api';
+import { AccessibilityService } from './AccessibilityService';
+import { ColorNamingService } from './ColorNamingService';
+import { decodeASE, isASE } from '../utils/ase';
+import {
+  cmykToRgb,
+  hexToRgb,
+  hslToRgb,
+  isValidHexColor,
+  labD50ToRgb,
+  rgbToHex,
+  rgbToHsl,
+} from '../utils/colorConversion';
+import { logger } from '../utils/logger';
+
+export type ImportFormat = 'ase' | 'gpl' | 'aco' | 'css' | 'json' | 'figma' | 'sketch';
+
+export interface ImportResult {
+  format: ImportFormat;
+  palette: ColorPaletteData;
+  warnings: string[];
+}
+
+interface ParsedSwatch {
+  rgb: RGB;
+  name?: string;
+  category?: ColorData['category'];
+  usage?: string;
+}
+
+interface ParsedPalette {
+  name?: string;
+  prompt?: string;
+  swatches: ParsedSwatch[];
+  warnings: string[];
+}
+
+const CATEGORIES: ColorData['category'][] = ['primary', 'secondary', 'accent', 'neutral'];
+
+export class PaletteImportService {
+  private accessibilityService: AccessibilityService;
+  private colorNamingService: ColorNamingService;
+
+  // Keep imported palettes within what the history panel can reasonably display
+  private readonly maxColors = 100;
+
+  constructor() {
+    this.accessibilityService = new AccessibilityService();
+    this.colorNamingService = new ColorNamingService();
+  }
+
+  /**
+   * Import a palette file, auto-detecting its format unless one is given
+   */
+  async importPalette(buffer: Buffer, filename?: string, format?: ImportFormat): Promise<ImportResult> {
+    const detectedFormat = format || this.detectFormat(buffer, filename);
+
+    logger.info('Importing palette', {
+      filename,
+      format: detectedFormat,
+      size: buffer.length,
+    });
+
+    let parsed: ParsedPalette;
+    try {
+      parsed = this.parse(buffer, detectedFormat);
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new ValidationError(
+        `Failed to parse ${detectedFormat.toUpperCase()} file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (parsed.swatches.length === 0) {
+      throw new ValidationError(`No colors found in ${detectedFormat.toUpperCase()} file`);
+    }
+
+    const warnings = [...parsed.warnings];
+    let swatches = parsed.swatches;
+    if (swatches.length > this.maxColors) {
+      warnings.push(`Palette contained ${swatches.length} colors; only the first ${this.maxColors} were imported`);
+      swatches = swatches.slice(0, this.maxColors);
+    }
+
+    const colors = swatches.map((swatch, index) => this.toColorData(swatch, index, swatches.length));
+    const palette: ColorPaletteData = {
+      name: parsed.name || this.nameFromFilename(filename),
+      prompt: parsed.prompt || `Imported from ${filename || `${detectedFormat.toUpperCase()} file`}`,
+      colors,
+      accessibilityScore: this.accessibilityService.calculateAccessibilityScore(colors),
+    };
+
+    logger.info('Palette imported successfully', {
+      filename,
+      format: detectedFormat,
+      colorCount: colors.length,
+      warningCount: warnings.length,
+    });
+
+    return { format: detectedFormat, palette, warnings };
+  }
+
+  /**
+   * Detect the file format from its content, falling back to the file extension
+   */
+  public detectFormat(buffer: Buffer, filename?: string): ImportFormat {
+    if (isASE(buffer)) return 'ase';
+
+    const extension = filename ? path.extname(filename).toLowerCase() : '';
+    if (extension === '.aco') return 'aco';
+
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '').trim();
+    if (text.startsWith('GIMP Palette')) return 'gpl';
+
+    if (text.startsWith('{')) {
+      try {
+        return this.detectJSONFormat(JSON.parse(text));
+      } catch {
+        throw new ValidationError('File looks like JSON but could not be parsed');
+      }
+    }
+
+    if (extension === '.css' || /--[\w-]+\s*:/.test(text)) return 'css';
+
+    throw new ValidationError('Unrecognized palette file format. Supported formats: ASE, GPL, ACO, CSS, JSON');
+  }
+
+  private detectJSONFormat(data: any): ImportFormat {
+    const first = Array.isArray(data?.colors) ? data.colors[0] : undefined;
+
+    if (data?.compatibleVersion !== undefined || (first && typeof first.red === 'number')) return 'sketch';
+    if (first && typeof first.color === 'object') return 'figma';
+    return 'json';
+  }
+
+  private parse(buffer: Buffer, format: ImportFormat): ParsedPalette {
+    switch (format) {
+      case 'ase':
+        return this.parseASE(buffer);
+      case 'aco':
+        return this.parseACO(buffer);
+      case 'gpl':
+        return this.parseGPL(buffer.toString('utf8'));
+      case 'css':
+        return this.parseCSS(buffer.toString('utf8'));
+      case 'json':
+      case 'figma':
+      case 'sketch':
+        return this.parseJSON(JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, '')), format);
+      default:
+        throw new ValidationError(`Unsupported import format: ${format}`);
+    }
+  }
+
+  /**
+   * Parse Adobe Swatch Exchange files
+   */
+  private parseASE(buffer: Buffer): ParsedPalette {
+    const document = decodeASE(buffer);
+    const swatches = [...document.groups.flatMap(group => group.swatches), ...document.swatches];
+
+    return {
+      name: document.groups[0]?.name || undefined,
+      swatches: swatches.map(swatch => {
+        const [a, b, c, d] = swatch.values;
+        let rgb: RGB;
+
+        switch (swatch.model) {
+          case 'RGB':
+            rgb = { r: Math.round(a * 255), g: Math.round(b * 255), b: Math.round(c * 255) };
+            break;
+          case 'CMYK':
+            rgb = cmykToRgb(a, b, c, d);
+            break;
+          case 'LAB':
+            rgb = labD50ToRgb(a, b, c);
+            break;
+          case 'Gray':
+            rgb = { r: Math.round(a * 255), g: Math.round(a * 255), b: Math.round(a * 255) };
+            break;
+        }
+
+        return { rgb, name: swatch.name || undefined };
+      }),
+      warnings: [],
+    };
+  }
+
+  /**
+   * Parse Photoshop .aco files (version 1 section, with names from the version 2 section when present)
+   */
+  private parseACO(buffer: Buffer): ParsedPalette {
+    let offset = 0;
+
+    const readSection = (): ParsedPalette | null => {
+      if (offset + 4 > buffer.length) return null;
+
+      const version = buffer.readUInt16BE(offset);
+      const count = buffer.readUInt16BE(offset + 2);
+      offset += 4;
+      if (version !== 1 && version !== 2) {
+        throw new Error(`Unsupported ACO version: ${version}`);
+      }
+
+      const swatches: ParsedSwatch[] = [];
+      const warnings: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const space = buffer.readUInt16BE(offset);
+        const w = buffer.readUInt16BE(offset + 2);
+        const x = buffer.readUInt16BE(offset + 4);
+        const y = buffer.readUInt16BE(offset + 6);
+        const z = buffer.readUInt16BE(offset + 8);
+        offset += 10;
+
+        let name: string | undefined;
+        if (version === 2) {
+          const units = buffer.readUInt32BE(offset);
+          offset += 4;
+          name = Buffer.from(buffer.subarray(offset, offset + Math.max(0, units - 1) * 2)).swap16().toString('utf16le');
+          offset += units * 2;
+        }
+
+        const rgb = this.acoColorToRgb(space, w, x, y, z);
+        if (rgb) {
+          swatches.push({ rgb, name: name || undefined });
+        } else {
+          warnings.push(`Skipped swatch ${i + 1}: unsupported ACO color space ${space}`);
+        }
+      }
+
+      return { swatches, warnings };
+    };
+
+    const version1 = readSection();
+    if (!version1) {
+      throw new Error('File is too short to be an ACO palette');
+    }
+
+    // Version 2 repeats the same colors with names appended
+    const version2 = readSection();
+    return version2 && version2.swatches.length > 0 ? version2 : version1;
+  }
+
+  private acoColorToRgb(space: number, w: number, x: number, y: number, z: number): RGB | null {
+    switch (space) {
+      case 0: // RGB, 0-65535 per channel
+        return { r: Math.round(w / 257), g: Math.round(x / 257), b: Math.round(y / 257) };
+      case 1: // HSB
+        return hslFromHsb(w / 65535 * 360, x / 65535, y / 65535);
+      case 2: // CMYK, where 0 is 100% ink
+        return cmykToRgb(1 - w / 65535, 1 - x / 65535, 1 - y / 65535, 1 - z / 65535);
+      case 7: { // Lab (D50), L 0-10000 and signed a/b scaled by 100
+        const toSigned = (value: number) => (value > 0x7fff ? value - 0x10000 : value);
+        return labD50ToRgb(w / 100, toSigned(x) / 100, toSigned(y) / 100);
+      }
+      case 8: { // Grayscale, 0-10000 where 10000 is black
+        const gray = Math.round(255 * (1 - w / 10000));
+        return { r: gray, g: gray, b: gray };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse GIMP .gpl palettes
+   */
+  private parseGPL(text: string): ParsedPalette {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const swatches: ParsedSwatch[] = [];
+    const warnings: string[] = [];
+    let name: string | undefined;
+
+    lines.slice(1).forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) return;
+
+      const nameMatch = /^Name:\s*(.+)$/i.exec(line);
+      if (nameMatch) {
+        name = nameMatch[1].trim();
+        return;
+      }
+      if (/^Columns:/i.test(line)) return;
+
+      const colorMatch = /^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s*(.*)$/.exec(line);
+      if (!colorMatch) {
+        warnings.push(`Skipped unrecognized line ${index + 2}: "${line}"`);
+        return;
+      }
+
+      const [r, g, b] = colorMatch.slice(1, 4).map(value => Math.min(255, parseInt(value, 10)));
+      const swatchName = colorMatch[4].trim();
+      swatches.push({
+        rgb: { r, g, b },
+        // GIMP writes "Untitled" for unnamed swatches
+        name: swatchName && swatchName !== 'Untitled' ? swatchName : undefined,
+      });
+    });
+
+    return { name, swatches, warnings };
+  }
+
+  /**
+   * Parse CSS custom properties (e.g. the output of our CSS export)
+   */
+  private parseCSS(text: string): ParsedPalette {
+    const swatches: ParsedSwatch[] = [];
+    const warnings: string[] = [];
+    const declaration = /--([\w-]+)\s*:\s*([^;}]+)/g;
+    const seen = new Set<string>();
+    let match: RegExpExecArray | null;
+
+    while ((match = declaration.exec(text)) !== null) {
+      const property = match[1];
+      const rgb = parseCSSColorValue(match[2].trim());
+      if (!rgb) continue;
+
+      // Shade scale variables (--color-navy-50 ... -950) belong to a color already read
+      const shadeOf = /^(.+)-(?:50|[1-9]00|950)$/.exec(property);
+      if (shadeOf && seen.has(shadeOf[1])) continue;
+
+      const name = property
+        .replace(/^color-/, '')
+        .split('-')
+        .filter(Boolean)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+
+      if (seen.has(property)) {
+        warnings.push(`Duplicate custom property --${property} ignored`);
+        continue;
+      }
+      seen.add(property);
+      swatches.push({ rgb, name: name || undefined });
+    }
+
+    const titleMatch = /\/\*\s*(.+?)\s+Color Palette\s*\*\//.exec(text);
+    const promptMatch = /\/\*\s*Prompt:\s*(.+?)\s*\*\//.exec(text);
+
+    return {
+      name: titleMatch?.[1],
+      prompt: promptMatch && promptMatch[1] !== 'N/A' ? promptMatch[1] : undefined,
+      swatches,
+      warnings,
+    };
+  }
+
+  /**
+   * Parse ChromaGen JSON, Figma and Sketch exports
+   */
+  private parseJSON(data: any, format: ImportFormat): ParsedPalette {
+    if (!data || !Array.isArray(data.colors)) {
+      throw new Error('JSON palette must contain a "colors" array');
+    }
+
+    const warnings: string[] = [];
+    const swatches: ParsedSwatch[] = [];
+
+    data.colors.forEach((color: any, index: number) => {
+      let rgb: RGB | null = null;
+
+      if (format === 'sketch') {
+        rgb = unitToRgb(color?.red, color?.green, color?.blue);
+      } else if (format === 'figma') {
+        rgb = unitToRgb(color?.color?.r, color?.color?.g, color?.color?.b);
+      } else if (typeof color?.hex === 'string' && isValidHexColor(color.hex)) {
+        rgb = hexToRgb(color.hex);
+      }
+
+      if (!rgb) {
+        warnings.push(`Skipped color ${index + 1}: no valid color value`);
+        return;
+      }
+
+      swatches.push({
+        rgb,
+        name: typeof color.name === 'string' && color.name.trim() ? color.name.trim() : undefined,
+        category: CATEGORIES.includes(color.category) ? color.category : undefined,
+        usage: typeof color.usage === 'string'
+          ? color.usage
+          : typeof color.description === 'string' && color.description ? color.description : undefined,
+      });
+    });
+
+    return {
+      name: typeof data.name === 'string' ? data.name : undefined,
+      prompt: typeof data.prompt === 'string'
+        ? data.prompt
+        : typeof data.description === 'string' && data.description ? data.description : undefined,
+      swatches,
+      warnings,
+    };
+  }
+
+  /**
+   * Build full ColorData, generating names and usage only where the file had none
+   */
+  private toColorData(swatch: ParsedSwatch, index: number, total: number): ColorData {
+    const hex = rgbToHex(swatch.rgb).toUpperCase();
+    const rgb = hexToRgb(hex);
+    const category = swatch.category || this.determineColorCategory(index, total);
+
+    const color: ColorData = {
+      hex,
+      rgb,
+      hsl: rgbToHsl(rgb),
+      name: swatch.name || '',
+      category,
+      usage: swatch.usage || '',
+      accessibility: {
+        contrastWithWhite: 0,
+        contrastWithBlack: 0,
+        wcagLevel: 'FAIL',
+      },
+    };
+
+    const analysis = this.accessibilityService.analyzeColorAccessibility(color);
+    color.accessibility = {
+      contrastWithWhite: analysis.contrastWithWhite,
+      contrastWithBlack: analysis.contrastWithBlack,
+      wcagLevel: analysis.wcagLevelWhite !== 'FAIL' ? analysis.wcagLevelWhite : analysis.wcagLevelBlack,
+    };
+
+    if (!color.name) {
+      color.name = this.colorNamingService.generateColorName(color);
+    }
+    if (!color.usage) {
+      color.usage = this.colorNamingService.generateUsageRecommendation(color, undefined, index);
+    }
+
+    return color;
+  }
+
+  private determineColorCategory(index: number, totalColors: number): ColorData['category'] {
+    if (index === 0) return 'primary';
+    if (index < Math.ceil(totalColors / 2)) return 'secondary';
+    return 'accent';
+  }
+
+  private nameFromFilename(filename?: string): string {
+    if (!filename) return 'Imported Palette';
+
+    // Drop the suffixes our own exporter appends, e.g. "brand-sketch.json"
+    const base = path.basename(filename, path.extname(filename))
+      .replace(/[-_](sketch|figma)$/i, '')
+      .split(/[-_\s]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+
+    return base || 'Imported Palette';
+  }
+}
+
+/**
+ * Convert 0-1 channel values (Figma/Sketch) to RGB
+ */
+function unitToRgb(r: unknown, g: unknown, b: unknown): RGB | null {
+  if (typeof r !== 'number' || typeof g !== 'number' || typeof b !== 'number') return null;
+  const clamp = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  return { r: clamp(r), g: clamp(g), b: clamp(b) };
+}
+
+/**
+ * Convert HSB/HSV to RGB via HSL
+ */
+function hslFromHsb(h: number, s: number, v: number): RGB {
+  const l = v * (1 - s / 2);
+  const sl = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+  return hslToRgb({ h, s: sl * 100, l: l * 100 });
+}
+
+/**
+ * Parse a CSS color value (hex, rgb()/rgba(), hsl()/hsla())
+ */
+function parseCSSColorValue(value: string): RGB | null {
+  if (isValidHexColor(value)) {
+    return hexToRgb(value);
+  }
+
+  const rgbMatch = /^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})/i.exec(value);
+  if (rgbMatch) {
+    const [r, g, b] = rgbMatch.slice(1, 4).map(channel => Math.min(255, parseInt(channel, 10)));
+    return { r, g, b };
+  }
+
+  const hslMatch = /^hsla?\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/i.exec(value);
+  if (hslMatch) {
+    const [h, s, l] = hslMatch.slice(1, 4).map(Number);
+    return hslToRgb({ h: h % 360, s: Math.min(100, s), l: Math.min(100, l) });
+  }
+
+  return null;
+}
+
+// Export singleton instance
+export const paletteImportService = new PaletteImportService();
@@ -0,0 +1,374 @@
+// Local prompt analysis: mood, industry, audience, named colors, negations and color count
+
+import { GenerationContext, PromptAnalysisConfidence, PromptNamedColor, PromptNegation } from '../types/color';
+import { CSS_NAMED_COLORS } from '../utils/cssColors';
+import { hexToRgb, rgbToHex } from '../utils/colorConversion';
+
+interface LexiconEntry {
+  /** Terms that name the value outright */
+  direct: string[];
+  /** Looser terms that suggest it */
+  synonyms: string[];
+}
+
+type Lexicon = Record<string, LexiconEntry>;
+
+interface Token {
+  text: string;
+  kind: 'word' | 'hex' | 'break';
+}
+
+interface LexiconMatch {
+  value: string;
+  confidence: number;
+}
+
+const DIRECT_CONFIDENCE = 0.9;
+const SYNONYM_CONFIDENCE = 0.7;
+const SYNONYM_WEIGHT = 0.7;
+const HEX_CONFIDENCE = 0.95;
+const CSS_NAME_CONFIDENCE = 0.85;
+const NEGATION_CONFIDENCE = 0.8;
+const COLOR_COUNT_CONFIDENCE = 0.9;
+const MAX_COLOR_COUNT_HINT = 12;
+
+const MOODS: Lexicon = {
+  calm: { direct: ['calm', 'calming'], synonyms: ['serene', 'peaceful', 'relaxing', 'tranquil', 'soothing', 'zen', 'meditation'] },
+  energetic: { direct: ['energetic'], synonyms: ['energy', 'vibrant', 'dynamic', 'lively', 'exciting', 'active', 'sporty'] },
+  professional: { direct: ['professional'], synonyms: ['corporate', 'business', 'formal', 'serious'] },
+  playful: { direct: ['playful'], synonyms: ['fun', 'whimsical', 'cheerful', 'joyful', 'happy', 'quirky'] },
+  elegant: { direct: ['elegant'], synonyms: ['luxury', 'luxurious', 'sophisticated', 'classy', 'refined', 'premium'] },
+  bold: { direct: ['bold'], synonyms: ['striking', 'daring', 'strong', 'intense', 'powerful'] },
+  warm: { direct: ['warm'], synonyms: ['cozy', 'welcoming', 'inviting', 'sunny', 'autumn', 'autumnal'] },
+  cool: { direct: ['cool'], synonyms: ['icy', 'frosty', 'winter', 'crisp', 'fresh'] },
+};
+
+const INDUSTRIES: Lexicon = {
+  tech: { direct: ['tech'], synonyms: ['technology', 'software', 'saas', 'app', 'startup', 'digital', 'ai', 'developer', 'cloud'] },
+  healthcare: { direct: ['healthcare'], synonyms: ['health', 'medical', 'clinic', 'hospital', 'wellness', 'pharmacy', 'dental'] },
+  finance: { direct: ['finance'], synonyms: ['financial', 'bank', 'banking', 'fintech', 'investment', 'insurance', 'accounting'] },
+  education: { direct: ['education'], synonyms: ['school', 'learning', 'university', 'course', 'academy', 'tutoring', 'educational'] },
+  retail: { direct: ['retail'], synonyms: ['shop', 'store', 'ecommerce', 'fashion', 'boutique', 'clothing'] },
+  food: { direct: ['food'], synonyms: ['restaurant', 'cafe', 'coffee', 'bakery', 'kitchen', 'dining', 'recipe'] },
+  travel: { direct: ['travel'], synonyms: ['tourism', 'hotel', 'vacation', 'holiday', 'airline', 'adventure', 'resort'] },
+};
+
+const AUDIENCES: Lexicon = {
+  children: { direct: ['children'], synonyms: ['kids', 'kid', 'child', 'toddlers', 'baby', 'toy', 'toys'] },
+  teens: { direct: ['teens'], synonyms: ['teen', 'teenagers', 'youth', 'students', 'gen z'] },
+  adults: { direct: ['adults'], synonyms: ['adult', 'grown-ups', 'millennials', 'parents'] },
+  seniors: { direct: ['seniors'], synonyms: ['elderly', 'retirees', 'retired', 'aging'] },
+  professionals: { direct: ['professionals'], synonyms: ['executives', 'enterprise', 'b2b', 'businesses', 'teams'] },
+};
+
+const PERSONALITIES: Lexicon = {
+  modern: { direct: ['modern'], synonyms: ['contemporary', 'minimal', 'minimalist', 'sleek', 'clean'] },
+  traditional: { direct: ['traditional'], synonyms: ['classic', 'heritage', 'vintage', 'timeless', 'rustic'] },
+  innovative: { direct: ['innovative'], synonyms: ['futuristic', 'cutting-edge', 'pioneering', 'disruptive'] },
+  trustworthy: { direct: ['trustworthy'], synonyms: ['trust', 'trusted', 'secure', 'honest', 'safe'] },
+  creative: { direct: ['creative'], synonyms: ['artistic', 'imaginative', 'expressive', 'original'] },
+  reliable: { direct: ['reliable'], synonyms: ['dependable', 'stable', 'solid', 'consistent'] },
+};
+
+/** Words that open a negated list, e.g. "no", "avoid", "without" */
+const NEGATION_TRIGGERS = new Set([
+  'no', 'not', 'without', 'avoid', 'avoiding', 'exclude', 'excluding', 'except', 'skip', 'never', 'minus', "don't", 'dont',
+]);
+
+/** Qualities that can be negated on their own ("no neon", "avoid pastels") */
+const COLOR_DESCRIPTORS = new Set([
+  'neon', 'pastel', 'bright', 'dark', 'light', 'muted', 'saturated', 'desaturated', 'vivid', 'fluorescent',
+  'garish', 'dull', 'pale', 'loud', 'harsh', 'earthy', 'metallic', 'warm', 'cool',
+]);
+
+/** Words allowed inside a negated list without ending it */
+const NEGATION_FILLERS = new Set([
+  'and', 'or', 'nor', 'any', 'too', 'overly', 'very', 'the', 'a', 'an', 'use', 'using', 'want', 'include', 'including',
+  'color', 'colors', 'colour', 'colours', 'tone', 'tones', 'shade', 'shades', 'hue', 'hues',
+]);
+
+/** CSS names that are more often ordinary words in a prompt */
+const AMBIGUOUS_COLOR_NAMES = new Set(['peru']);
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const COUNT_PATTERN = new RegExp(
+  `\\b(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})[\\s-]+(?:[a-z]+\\s+)?(?:colou?rs?|shades|tones|hues|swatches)\\b` +
+  `|\\bpalette\\s+of\\s+(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})\\b`
+);
+
+/** Longest CSS name is three words ("light goldenrod yellow") */
+const MAX_COLOR_NAME_WORDS = 3;
+
+export class PromptAnalyzer {
+  /**
+   * Analyze a prompt without calling a model. Mood, industry and audience fall back to
+   * 'neutral' or 'general' with confidence 0 when nothing in the prompt points to them.
+   */
+  public analyze(prompt: string): GenerationContext {
+    const tokens = this.tokenize(prompt);
+    const { negations, negatedIndexes } = this.findNegations(tokens);
+    const words = tokens.map((token, index) => (negatedIndexes.has(index) || this.isNegated(tokens, index) ? '' : token.text));
+
+    const mood = this.matchLexicon(words, MOODS);
+    const industry = this.matchLexicon(words, INDUSTRIES);
+    const targetAudience = this.matchLexicon(words, AUDIENCES);
+    const personality = this.matchEveryValue(words, PERSONALITIES);
+    const namedColors = this.findNamedColors(tokens, negatedIndexes);
+    const colorCountHint = this.findColorCount(prompt);
+
+    const confidence: PromptAnalysisConfidence = {
+      mood: mood?.confidence ?? 0,
+      industry: industry?.confidence ?? 0,
+      targetAudience: targetAudience?.confidence ?? 0,
+      brandPersonality: personality.confidence,
+      namedColors: namedColors.length === 0
+        ? 0
+        : namedColors.some(color => color.source === 'hex') ? HEX_CONFIDENCE : CSS_NAME_CONFIDENCE,
+      negations: negations.length > 0 ? NEGATION_CONFIDENCE : 0,
+      colorCountHint: colorCountHint !== undefined ? COLOR_COUNT_CONFIDENCE : 0,
+    };
+
+    return {
+      prompt,
+      mood: mood?.value || 'neutral',
+      industry: industry?.value || 'general',
+      targetAudience: targetAudience?.value || 'general',
+      brandPersonality: personality.values,
+      namedColors,
+      negations,
+      ...(colorCountHint !== undefined && { colorCountHint }),
+      confidence,
+    };
+  }
+
+  private tokenize(prompt: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /#[0-9a-f]{6}\b|#[0-9a-f]{3}\b|[a-z0-9]+(?:['-][a-z0-9]+)*|[.;:!?]/gi;
+
+    for (const match of prompt.toLowerCase().matchAll(pattern)) {
+      const text = match[0];
+      if (text.startsWith('#')) {
+        tokens.push({ text, kind: 'hex' });
+      } else if (/^[.;:!?]$/.test(text)) {
+        tokens.push({ text, kind: 'break' });
+      } else {
+        tokens.push({ text: text.replace(/'s$/, ''), kind: 'word' });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Collect the colors and descriptors listed after each negation trigger. The list ends at
+   * sentence punctuation or the first word that is neither a color, a descriptor nor a filler.
+   */
+  private findNegations(tokens: Token[]): { negations: PromptNegation[]; negatedIndexes: Set<number> } {
+    const negations: PromptNegation[] = [];
+    const negatedIndexes = new Set<number>();
+    const seen = new Set<string>();
+
+    const add = (negation: PromptNegation) => {
+      if (!seen.has(negation.term)) {
+        seen.add(negation.term);
+        negations.push(negation);
+      }
+    };
+
+    for (let start = 0; start < tokens.length; start++) {
+      if (tokens[start].kind !== 'word' || !NEGATION_TRIGGERS.has(tokens[start].text)) {
+        continue;
+      }
+
+      let index = start + 1;
+      while (index < tokens.length && tokens[index].kind !== 'break') {
+        const token = tokens[index];
+
+        if (token.kind === 'hex') {
+          add({ term: token.text, kind: 'color', hex: this.normalizeHex(token.text) });
+          negatedIndexes.add(index);
+          index++;
+          continue;
+        }
+
+        const color = this.matchColorName(tokens, index);
+        if (color) {
+          add({ term: color.term, kind: 'color', hex: color.hex });
+          this.markNegated(negatedIndexes, index, color.length);
+          index += color.length;
+          continue;
+        }
+
+        // "no neon green" rules out that shade of green rather than every neon color
+        const described = COLOR_DESCRIPTORS.has(token.text) ? this.matchColorName(tokens, index + 1) : null;
+        if (described) {
+          add({ term: `${token.text} ${described.term}`, kind: 'color', hex: described.hex });
+          this.markNegated(negatedIndexes, index, described.length + 1);
+          index += described.length + 1;
+          continue;
+        }
+
+        const descriptor = this.singular(token.text);
+        if (COLOR_DESCRIPTORS.has(descriptor)) {
+          add({ term: descriptor, kind: 'descriptor' });
+          negatedIndexes.add(index);
+        } else if (!NEGATION_FILLERS.has(token.text)) {
+          break;
+        }
+        index++;
+      }
+    }
+
+    return { negations, negatedIndexes };
+  }
+
+  private markNegated(negatedIndexes: Set<number>, start: number, length: number): void {
+    for (let offset = 0; offset < length; offset++) {
+      negatedIndexes.add(start + offset);
+    }
+  }
+
+  /** A word directly after a negation trigger ("not playful") does not count toward the lexicons */
+  private isNegated(tokens: Token[], index: number): boolean {
+    return index > 0 && NEGATION_TRIGGERS.has(tokens[index - 1].text);
+  }
+
+  /**
+   * Match a CSS color name of one to three words starting at index, longest first, so
+   * "light blue" is lightblue rather than blue. Plurals ("reds") are accepted.
+   */
+  private matchColorName(tokens: Token[], index: number): { term: string; hex: string; length: number } | null {
+    for (let length = MAX_COLOR_NAME_WORDS; length >= 1; length--) {
+      const slice = tokens.slice(index, index + length);
+      if (slice.length < length || slice.some(token => token.kind !== 'word')) {
+        continue;
+      }
+
+      const words = slice.map(token => token.text);
+      const candidates = [words.join(''), this.singular(words.join(''))];
+      const name = candidates.find(candidate => CSS_NAMED_COLORS[candidate] && !AMBIGUOUS_COLOR_NAMES.has(candidate));
+      if (name) {
+        return { term: length > 1 ? words.join(' ') : name, hex: CSS_NAMED_COLORS[name], length };
+      }
+    }
+
+    return null;
+  }
+
+  private findNamedColors(tokens: Token[], negatedIndexes: Set<number>): PromptNamedColor[] {
+    const colors: PromptNamedColor[] = [];
+    const seen = new Set<string>();
+
+    for (let index = 0; index < tokens.length; index++) {
+      if (negatedIndexes.has(index)) {
+        continue;
+      }
+
+      const token = tokens[index];
+      if (token.kind === 'hex') {
+        const hex = this.normalizeHex(token.text);
+        if (!seen.has(hex)) {
+          seen.add(hex);
+          colors.push({ term: token.text, hex, source: 'hex' });
+        }
+        continue;
+      }
+
+      const color = token.kind === 'word' ? this.matchColorName(tokens, index) : null;
+      if (color) {
+        if (!seen.has(color.hex)) {
+          seen.add(color.hex);
+          colors.push({ term: color.term, hex: color.hex, source: 'css' });
+        }
+        index += color.length - 1;
+      }
+    }
+
+    return colors;
+  }
+
+  /**
+   * Pick the value with the most hits, direct terms counting more than synonyms. Confidence
+   * is scaled by the winner's share of all hits, so mixed signals score lower.
+   */
+  private matchLexicon(words: string[], lexicon: Lexicon): LexiconMatch | undefined {
+    let best: { value: string; score: number; direct: boolean } | undefined;
+    let total = 0;
+
+    for (const [value, entry] of Object.entries(lexicon)) {
+      const directHits = this.countHits(words, entry.direct);
+      const score = directHits + this.countHits(words, entry.synonyms) * SYNONYM_WEIGHT;
+      total += score;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { value, score, direct: directHits > 0 };
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+
+    const base = best.direct ? DIRECT_CONFIDENCE : SYNONYM_CONFIDENCE;
+    return { value: best.value, confidence: this.round(base * (best.score / total)) };
+  }
+
+  private matchEveryValue(words: string[], lexicon: Lexicon): { values: string[]; confidence: number } {
+    const values: string[] = [];
+    let direct = false;
+
+    for (const [value, entry] of Object.entries(lexicon)) {
+      const directHits = this.countHits(words, entry.direct);
+      if (directHits + this.countHits(words, entry.synonyms) > 0) {
+        values.push(value);
+        direct = direct || directHits > 0;
+      }
+    }
+
+    const confidence = values.length === 0 ? 0 : direct ? DIRECT_CONFIDENCE : SYNONYM_CONFIDENCE;
+    return { values, confidence };
+  }
+
+  /** Count whole-word (or whole-phrase) occurrences of the terms */
+  private countHits(words: string[], terms: string[]): number {
+    let hits = 0;
+
+    for (const term of terms) {
+      const parts = term.split(' ');
+      for (let index = 0; index + parts.length <= words.length; index++) {
+        if (parts.every((part, offset) => words[index + offset] === part)) {
+          hits++;
+        }
+      }
+    }
+
+    return hits;
+  }
+
+  private findColorCount(prompt: string): number | undefined {
+    const match = prompt.toLowerCase().match(COUNT_PATTERN);
+    if (!match) {
+      return undefined;
+    }
+
+    const raw = match[1] || match[2];
+    const count = NUMBER_WORDS[raw] ?? parseInt(raw, 10);
+    return count >= 1 && count <= MAX_COLOR_COUNT_HINT ? count : undefined;
+  }
+
+  private singular(word: string): string {
+    return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+  }
+
+  private normalizeHex(hex: string): string {
+    return rgbToHex(hexToRgb(hex)).toUpperCase();
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const promptAnalyzer = new PromptAnalyzer();
@@ -0,0 +1,208 @@
+// Palette extraction from brand source files (stylesheets, SVG logos, saved HTML pages)
+
+import path from 'path';
+import {
+  ColorData,
+  ColorPaletteData,
+  ContrastModel,
+  SourceColorCluster,
+  SourceFormat,
+} from '../types/color';
+import { ValidationError } from '../types/api';
+import { AccessibilityService } from './AccessibilityService';
+import { ColorNamingService } from './ColorNamingService';
+import { clusterSourceColors, extractSourceColors } from '../utils/sourceColors';
+import { hexToRgb, rgbToHsl, rgbToLab } from '../utils/colorConversion';
+import { createSeededRandom, hashString } from '../utils/random';
+import { logger } from '../utils/logger';
+
+export interface SourcePaletteOptions {
+  format?: SourceFormat;
+  /** Number of palette colors, taken from the most used clusters (default 5) */
+  colorCount?: number;
+  contrastModel?: ContrastModel;
+}
+
+export interface SourcePaletteResult {
+  format: SourceFormat;
+  palette: ColorPaletteData;
+  /** Every cluster found, heaviest first, including those not in the palette */
+  clusters: SourceColorCluster[];
+  /** Distinct colors found before clustering */
+  colorsFound: number;
+  warnings: string[];
+}
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  '.css': 'css',
+  '.scss': 'scss',
+  '.svg': 'svg',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+// CIELAB chroma below which a color is treated as a neutral; unlike HSL saturation this keeps
+// off-whites and tinted near-blacks such as #F1FAEE and #111827 neutral
+const NEUTRAL_CHROMA = 15;
+
+// Clusters reported beyond the palette, for showing what else the file uses
+const MAX_REPORTED_CLUSTERS = 24;
+
+export class SourcePaletteService {
+  private accessibilityService: AccessibilityService;
+  private colorNamingService: ColorNamingService;
+
+  constructor() {
+    this.accessibilityService = new AccessibilityService();
+    this.colorNamingService = new ColorNamingService();
+  }
+
+  /**
+   * Build a palette from the colors a source file declares, auto-detecting its format unless one is given
+   */
+  async extractPalette(buffer: Buffer, filename?: string, options: SourcePaletteOptions = {}): Promise<SourcePaletteResult> {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    if (text.includes('\u0000')) {
+      throw new ValidationError('Source file must be a text file (CSS, SCSS, SVG or HTML)');
+    }
+
+    const format = options.format || this.detectFormat(text, filename);
+    const colorCount = options.colorCount || 5;
+
+    logger.info('Extracting palette from source file', {
+      filename,
+      format,
+      size: buffer.length,
+      colorCount,
+    });
+
+    const usages = extractSourceColors(text, format);
+    if (usages.length === 0) {
+      throw new ValidationError(`No colors found in ${format.toUpperCase()} file`);
+    }
+
+    const clusters = clusterSourceColors(usages);
+    const selected = clusters.slice(0, colorCount);
+    const warnings: string[] = [];
+    if (clusters.length > colorCount) {
+      warnings.push(`Found ${clusters.length} distinct colors; kept the ${colorCount} most used`);
+    }
+    if (selected.length < colorCount) {
+      warnings.push(`Only ${selected.length} distinct ${selected.length === 1 ? 'color was' : 'colors were'} found`);
+    }
+
+    // The same file always gets the same names
+    const random = createSeededRandom(hashString(text));
+    const categories = this.assignCategories(selected);
+    const colors = selected.map((cluster, index) => this.toColorData(cluster, categories[index], index, random));
+
+    const displayName = filename ? path.basename(filename) : `${format.toUpperCase()} file`;
+    const palette: ColorPaletteData = {
+      name: `Palette from ${displayName}`,
+      prompt: `Colors extracted from ${displayName}`,
+      colors,
+      accessibilityScore: this.accessibilityService.calculateAccessibilityScore(colors, options.contrastModel),
+      explanation: `The ${colors.length} most used of ${clusters.length} distinct colors declared in ${displayName}, ` +
+        `weighted by ${format === 'svg' ? 'the area they cover' : 'how often and where they are used'}.`,
+    };
+
+    logger.info('Source palette extracted', {
+      filename,
+      format,
+      colorsFound: usages.length,
+      clusterCount: clusters.length,
+      colorCount: colors.length,
+    });
+
+    return {
+      format,
+      palette,
+      clusters: clusters.slice(0, MAX_REPORTED_CLUSTERS),
+      colorsFound: usages.length,
+      warnings,
+    };
+  }
+
+  /**
+   * Detect the format from the file extension, falling back to the content
+   */
+  public detectFormat(text: string, filename?: string): SourceFormat {
+    const extension = filename ? path.extname(filename).toLowerCase() : '';
+    if (EXTENSION_FORMATS[extension]) {
+      return EXTENSION_FORMATS[extension];
+    }
+
+    const start = text.trimStart().slice(0, 1000).toLowerCase();
+    if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(start)) return 'svg';
+    if (/<!doctype html|<html[\s>]|<head[\s>]|<body[\s>]/.test(start)) return 'html';
+    if (/(^|\n)\s*\$[\w-]+\s*:/.test(text)) return 'scss';
+    if (/[{;]/.test(text) && /:/.test(text)) return 'css';
+
+    throw new ValidationError('Unrecognized source file format. Supported formats: CSS, SCSS, SVG, HTML');
+  }
+
+  /**
+   * Chromatic colors become primary, secondary and then accents in order of use; near-grays are
+   * neutrals unless there is no chromatic color to be the primary
+   */
+  private assignCategories(clusters: SourceColorCluster[]): ColorData['category'][] {
+    const chromatic = clusters.map(cluster => {
+      const { a, b } = rgbToLab(hexToRgb(cluster.hex));
+      return Math.hypot(a, b) >= NEUTRAL_CHROMA;
+    });
+    const hasChromatic = chromatic.some(Boolean);
+    let rank = 0;
+
+    return clusters.map((_, index) => {
+      if (!hasChromatic) {
+        return index === 0 ? 'primary' : 'neutral';
+      }
+      if (!chromatic[index]) {
+        return 'neutral';
+      }
+      const category = rank === 0 ? 'primary' : rank === 1 ? 'secondary' : 'accent';
+      rank++;
+      return category;
+    });
+  }
+
+  /**
+   * Full ColorData with accessibility, a generated name and usage advice
+   */
+  private toColorData(
+    cluster: SourceColorCluster,
+    category: ColorData['category'],
+    index: number,
+    random: () => number
+  ): ColorData {
+    const rgb = hexToRgb(cluster.hex);
+    const color: ColorData = {
+      hex: cluster.hex,
+      rgb,
+      hsl: rgbToHsl(rgb),
+      name: '',
+      category,
+      usage: '',
+      accessibility: {
+        contrastWithWhite: 0,
+        contrastWithBlack: 0,
+        wcagLevel: 'FAIL',
+      },
+    };
+
+    const analysis = this.accessibilityService.analyzeColorAccessibility(color);
+    color.accessibility = {
+      contrastWithWhite: analysis.contrastWithWhite,
+      contrastWithBlack: analysis.contrastWithBlack,
+      wcagLevel: analysis.wcagLevelWhite !== 'FAIL' ? analysis.wcagLevelWhite : analysis.wcagLevelBlack,
+    };
+
+    color.name = this.colorNamingService.generateColorName(color, undefined, random);
+    color.usage = this.colorNamingService.generateUsageRecommendation(color, undefined, index);
+
+    return color;
+  }
+}
+
+// Export singleton instance
+export const sourcePaletteService = new SourcePaletteService();
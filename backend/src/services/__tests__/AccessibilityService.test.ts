@@ -335,6 +335,29 @@ describe('AccessibilityService', () => {
       expect(typeof score.colorBlindnessCompatible).toBe('boolean');
     });
 
+    it('should flag colors that are perceptually too close under simulation', () => {
+      const base: ColorData = {
+        hex: '#1E3A8A',
+        rgb: { r: 30, g: 58, b: 138 },
+        hsl: { h: 224, s: 64, l: 33 },
+        name: 'Navy',
+        category: 'primary',
+        usage: 'Headers',
+        accessibility: { contrastWithWhite: 10.4, contrastWithBlack: 2, wcagLevel: 'AAA' },
+      };
+      const nearDuplicate: ColorData = {
+        ...base,
+        hex: '#243F8F', // A barely lighter shade of the same navy
+        rgb: { r: 36, g: 63, b: 143 },
+        name: 'Slightly Lighter Navy',
+        category: 'secondary',
+      };
+
+      const score = accessibilityService.calculateAccessibilityScore([base, nearDuplicate]);
+
+      expect(score.colorBlindnessCompatible).toBe(false);
+    });
+
     it('should approve clearly distinguishable colors', () => {
       const distinctColors: ColorData[] = [
         {
@@ -449,4 +472,54 @@ describe('AccessibilityService', () => {
       }
     });
   });
+
+  describe('APCA contrast model', () => {
+    const grey: ColorData = {
+      hex: '#888888',
+      rgb: { r: 136, g: 136, b: 136 },
+      hsl: { h: 0, s: 0, l: 53 },
+      name: 'Grey',
+      category: 'neutral',
+      usage: 'Secondary text',
+      accessibility: {
+        contrastWithWhite: 3.54,
+        contrastWithBlack: 5.92,
+        wcagLevel: 'AA',
+      },
+    };
+
+    it('should include APCA Lc and font guidance for every pair', () => {
+      const score = accessibilityService.calculateAccessibilityScore([grey]);
+
+      expect(score.contrastModel).toBe('wcag2');
+      score.contrastRatios.forEach(ratio => {
+        expect(ratio.apcaLc).toEqual(expect.any(Number));
+        expect(ratio.apcaRecommendation).toBeDefined();
+      });
+    });
+
+    it('should grade levels by Lc when the APCA model is selected', () => {
+      const wcag = accessibilityService.calculateContrast('#888888', '#FFFFFF');
+      const apca = accessibilityService.calculateContrast('#888888', '#FFFFFF', 'apca');
+
+      // 3.54:1 fails WCAG 2, while Lc 63 is enough for content text
+      expect(wcag.level).toBe('FAIL');
+      expect(apca.level).toBe('AA');
+      expect(apca.isTextReadable).toBe(true);
+      expect(apca.apcaLc).toBeCloseTo(63.1, 1);
+      expect(apca.apcaRecommendation?.use).toBe('content');
+    });
+
+    it('should report the contrast model on the score', () => {
+      const score = accessibilityService.calculateAccessibilityScore([grey], 'apca');
+
+      expect(score.contrastModel).toBe('apca');
+      expect(score.contrastRatios.map(ratio => ratio.level)).toEqual(['AA', 'FAIL']);
+    });
+
+    it('should suggest adjustments against APCA targets', () => {
+      expect(accessibilityService.suggestColorAdjustments(grey, 'AAA', 'apca').adjustmentNeeded).toBe(true);
+      expect(accessibilityService.suggestColorAdjustments(grey, 'AA', 'apca').adjustmentNeeded).toBe(false);
+    });
+  });
 });
\ No newline at end of file
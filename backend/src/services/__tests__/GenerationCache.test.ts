@@ -0,0 +1,245 @@
+// Tests for the generation cache and its use by text generation
+
+import { GenerationCache, GenerationCacheStore, buildGenerationCacheKey } from '../GenerationCache';
+import { ColorGenerationService } from '../ColorGenerationService';
+import { PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from '../providers';
+import { GenerationCacheConfig } from '../../config/types';
+import { AIGenerationResult } from '../../types/color';
+
+jest.mock('../../utils/logger');
+
+const config = (overrides: Partial<GenerationCacheConfig> = {}): GenerationCacheConfig => ({
+  enabled: true,
+  persistent: false,
+  ttl: 60000,
+  max: 10,
+  updateAgeOnGet: false,
+  ...overrides,
+});
+
+const result = (model: string): AIGenerationResult => ({
+  colors: [],
+  explanation: 'Cached palette',
+  confidence: 0.8,
+  processingTime: 10,
+  model,
+});
+
+class CountingProvider implements PaletteProvider {
+  public readonly name = 'mock' as const;
+  public readonly timeout = 1000;
+  public readonly model: string;
+  public requests: PaletteProviderRequest[] = [];
+  public fail = false;
+
+  constructor(model = 'counting') {
+    this.model = model;
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    this.requests.push(request);
+    if (this.fail) {
+      throw new Error('Provider unavailable');
+    }
+    const hexes = ['#1E3A8A', '#3B82F6', '#93C5FD', '#F8FAFC', '#0F172A'];
+    return {
+      text: JSON.stringify({
+        colors: hexes.slice(0, request.options.colorCount).map((hex, index) => ({
+          hex,
+          name: `Color ${index + 1}`,
+          category: index === 0 ? 'primary' : 'accent',
+        })),
+        explanation: 'Counted palette',
+      }),
+      model: this.model,
+    };
+  }
+}
+
+describe('buildGenerationCacheKey', () => {
+  const providers = [new CountingProvider()];
+
+  it('should ignore case, surrounding and repeated whitespace and option order', () => {
+    const key = buildGenerationCacheKey('Calm  Ocean palette ', { colorCount: 5, harmonyType: 'analogous' }, providers, 1);
+
+    expect(buildGenerationCacheKey('calm ocean palette', { harmonyType: 'analogous', colorCount: 5 }, providers, 1)).toBe(key);
+  });
+
+  it('should ignore delivery options but not the seed', () => {
+    const key = buildGenerationCacheKey('calm ocean', { colorCount: 5 }, providers, 1);
+
+    expect(buildGenerationCacheKey('calm ocean', { colorCount: 5, noCache: true, variants: 3 }, providers, 1)).toBe(key);
+    expect(buildGenerationCacheKey('calm ocean', { colorCount: 5, seed: 42 }, providers, 1)).not.toBe(key);
+  });
+
+  it('should change with the provider model and pipeline version', () => {
+    const key = buildGenerationCacheKey('calm ocean', {}, providers, 1);
+
+    expect(buildGenerationCacheKey('calm ocean', {}, [new CountingProvider('other')], 1)).not.toBe(key);
+    expect(buildGenerationCacheKey('calm ocean', {}, providers, 2)).not.toBe(key);
+  });
+});
+
+describe('GenerationCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return a copy of the stored result and count hits and misses', async () => {
+    const cache = new GenerationCache(config());
+
+    expect(await cache.get('a')).toBeNull();
+    await cache.set('a', result('first'));
+
+    const cached = await cache.get('a');
+    cached!.model = 'changed';
+
+    expect((await cache.get('a'))!.model).toBe('first');
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, memoryHits: 2, size: 1 });
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const cache = new GenerationCache(config({ max: 2 }));
+
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.get('a');
+    await cache.set('c', result('c'));
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).not.toBeNull();
+    expect(cache.getStats()).toMatchObject({ evictions: 1, size: 2 });
+  });
+
+  it('should expire entries after the TTL', async () => {
+    jest.useFakeTimers();
+    const cache = new GenerationCache(config({ ttl: 1000 }));
+
+    await cache.set('a', result('a'));
+    jest.advanceTimersByTime(999);
+    expect(await cache.get('a')).not.toBeNull();
+
+    jest.advanceTimersByTime(1);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('should extend the TTL on reads when updateAgeOnGet is set', async () => {
+    jest.useFakeTimers();
+    const cache = new GenerationCache(config({ ttl: 1000, updateAgeOnGet: true }));
+
+    await cache.set('a', result('a'));
+    jest.advanceTimersByTime(800);
+    await cache.get('a');
+    jest.advanceTimersByTime(800);
+
+    expect(await cache.get('a')).not.toBeNull();
+  });
+
+  it('should do nothing when disabled', async () => {
+    const cache = new GenerationCache(config({ enabled: false }));
+
+    await cache.set('a', result('a'));
+
+    expect(await cache.get('a')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ enabled: false, hits: 0, misses: 0, size: 0 });
+  });
+
+  describe('persistent store', () => {
+    const createStore = () => {
+      const entries = new Map<string, AIGenerationResult>();
+      const store: jest.Mocked<GenerationCacheStore> = {
+        get: jest.fn(async (key: string) => entries.get(key) || null),
+        set: jest.fn(async (key: string, value: AIGenerationResult, _expiresAt: Date) => { entries.set(key, value); }),
+      };
+      return store;
+    };
+
+    it('should fall back to the store and keep its hits in memory', async () => {
+      const store = createStore();
+      const writer = new GenerationCache(config());
+      writer.setPersistentStore(store);
+      await writer.set('a', result('stored'));
+
+      const reader = new GenerationCache(config());
+      reader.setPersistentStore(store);
+
+      expect((await reader.get('a'))!.model).toBe('stored');
+      expect((await reader.get('a'))!.model).toBe('stored');
+      expect(store.get).toHaveBeenCalledTimes(1);
+      expect(store.set).toHaveBeenCalledWith('a', expect.objectContaining({ model: 'stored' }), expect.any(Date));
+      expect(reader.getStats()).toMatchObject({ persistent: true, persistentHits: 1, memoryHits: 1 });
+    });
+
+    it('should treat store failures as misses', async () => {
+      const store = createStore();
+      store.get.mockRejectedValue(new Error('database is locked'));
+      store.set.mockRejectedValue(new Error('database is locked'));
+      const cache = new GenerationCache(config());
+      cache.setPersistentStore(store);
+
+      await expect(cache.set('a', result('a'))).resolves.toBeUndefined();
+      expect(await cache.get('b')).toBeNull();
+      expect(cache.getStats().misses).toBe(1);
+    });
+  });
+});
+
+describe('ColorGenerationService generation cache', () => {
+  it('should serve identical prompts from the cache', async () => {
+    const provider = new CountingProvider();
+    const service = new ColorGenerationService([provider], new GenerationCache(config()));
+    const stages: string[] = [];
+
+    const first = await service.generateFromText('calm ocean palette', { colorCount: 5 });
+    const second = await service.generateFromText('Calm ocean  palette', { colorCount: 5 }, {
+      onProgress: event => stages.push(event.stage),
+    });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.colors).toEqual(first.colors);
+    expect(stages).toEqual(['context', 'names']);
+  });
+
+  it('should keep palettes for different seeds apart', async () => {
+    const provider = new CountingProvider();
+    const service = new ColorGenerationService([provider], new GenerationCache(config()));
+
+    await service.generateFromText('calm ocean palette', { seed: 1 });
+    await service.generateFromText('calm ocean palette', { seed: 2 });
+
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should skip the lookup but refresh the entry with noCache', async () => {
+    const provider = new CountingProvider();
+    const cache = new GenerationCache(config());
+    const service = new ColorGenerationService([provider], cache);
+
+    await service.generateFromText('calm ocean palette');
+    const fresh = await service.generateFromText('calm ocean palette', { noCache: true });
+    const cached = await service.generateFromText('calm ocean palette');
+
+    expect(provider.requests).toHaveLength(2);
+    expect(fresh.cached).toBe(false);
+    expect(cached.cached).toBe(true);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should not cache color theory fallbacks', async () => {
+    const provider = new CountingProvider();
+    provider.fail = true;
+    const service = new ColorGenerationService([provider], new GenerationCache(config()));
+
+    await service.generateFromText('calm ocean palette');
+    const second = await service.generateFromText('calm ocean palette');
+
+    expect(second.cached).toBe(false);
+    expect(provider.requests).toHaveLength(2);
+  });
+});
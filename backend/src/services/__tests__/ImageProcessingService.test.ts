@@ -18,7 +18,7 @@ jest.mock('sharp', () => {
     raw: jest.fn().mockReturnThis(),
     toBuffer: jest.fn().mockResolvedValue({
       data: Buffer.alloc(200 * 200 * 3),
-      info: { channels: 3 },
+      info: { width: 200, height: 200, channels: 3 },
     }),
     toFile: jest.fn().mockResolvedValue(undefined),
   }));
@@ -63,6 +63,23 @@ jest.mock('../../utils/logger', () => ({
 
 // Import after mocking
 import { ImageProcessingService } from '../ImageProcessingService';
+import { ValidationError } from '../../types/api';
+
+const TEAL = [42, 157, 143, 255];
+const ORANGE = [231, 111, 81, 255];
+
+// Make the next sharp pipeline return a width x height RGBA image
+const mockPixels = (width: number, height: number, colorAt: (index: number) => number[]) => {
+  const data = Buffer.alloc(width * height * 4);
+  for (let index = 0; index < width * height; index++) {
+    data.set(colorAt(index), index * 4);
+  }
+  require('sharp').mockImplementationOnce(() => ({
+    resize: jest.fn().mockReturnThis(),
+    raw: jest.fn().mockReturnThis(),
+    toBuffer: jest.fn().mockResolvedValue({ data, info: { width, height, channels: 4 } }),
+  }));
+};
 
 describe('ImageProcessingService - Basic Functionality', () => {
   let imageProcessingService: ImageProcessingService;
@@ -97,6 +114,18 @@ describe('ImageProcessingService - Basic Functionality', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
+
+    it('should warn about CMYK images', async () => {
+      require('sharp').mockImplementationOnce(() => ({
+        metadata: jest.fn().mockResolvedValue({ width: 800, height: 600, format: 'jpeg', space: 'cmyk' }),
+      }));
+
+      const result = await imageProcessingService.validateImage('/test/print.jpg');
+
+      expect(result.isValid).toBe(true);
+      expect(result.metadata?.colorSpace).toBe('cmyk');
+      expect(result.warnings).toEqual([expect.stringContaining('CMYK')]);
+    });
   });
 
   describe('getImageMetadata', () => {
@@ -173,6 +202,201 @@ describe('ImageProcessingService - Basic Functionality', () => {
       
       expect(result.colorPalette.length).toBeLessThanOrEqual(3);
     });
+
+    it('should replace extracted colors that violate exclusions', async () => {
+      jest.spyOn(imageProcessingService as any, 'extractDominantColors').mockResolvedValueOnce([
+        { hex: '#0a0a0a', rgb: { r: 10, g: 10, b: 10 }, coverage: 60 },
+        { hex: '#2a9d8f', rgb: { r: 42, g: 157, b: 143 }, coverage: 40 },
+      ]);
+
+      const result = await imageProcessingService.processImage('/test/image.jpg', {
+        exclude: { lightness: { min: 20 } },
+      });
+
+      expect(result.colorPalette).toHaveLength(2);
+      expect(result.colorPalette.every(color => color.hsl.l >= 19.5)).toBe(true);
+      expect(result.colorPalette[1].hex).toBe('#2a9d8f');
+      expect(result.replacedColors).toHaveLength(1);
+      expect(result.replacedColors[0]).toMatchObject({
+        position: 0,
+        original: '#0A0A0A',
+        stage: 'extraction',
+      });
+    });
+
+    it('should report the coverage of each extracted color', async () => {
+      // 70 teal, 25 orange and 5 transparent pixels
+      mockPixels(10, 10, index => (index < 70 ? TEAL : index < 95 ? ORANGE : [0, 0, 0, 0]));
+
+      const { pixels } = await (imageProcessingService as any).samplePixels('/test/image.png');
+      const colors = await (imageProcessingService as any).extractDominantColors(pixels, 3, 'median-cut');
+
+      expect(colors).toEqual([
+        { hex: '#2a9d8f', rgb: { r: 42, g: 157, b: 143 }, coverage: 73.7 },
+        { hex: '#e76f51', rgb: { r: 231, g: 111, b: 81 }, coverage: 26.3 },
+      ]);
+    });
+
+    it('should return the algorithm used and coverage aligned with the dominant colors', async () => {
+      jest.spyOn(imageProcessingService as any, 'extractDominantColors').mockResolvedValueOnce([
+        { hex: '#2a9d8f', rgb: { r: 42, g: 157, b: 143 }, coverage: 80 },
+        { hex: '#e76f51', rgb: { r: 231, g: 111, b: 81 }, coverage: 20 },
+      ]);
+
+      const result = await imageProcessingService.processImage('/test/image.jpg', { algorithm: 'octree' });
+
+      expect(result.algorithm).toBe('octree');
+      expect(result.dominantColors).toEqual(result.colorCoverage.map(color => color.rgb));
+      expect(result.colorCoverage.map(color => color.coverage)).toEqual([80, 20]);
+    });
+
+    it('should only sample pixels inside the regions and mask', async () => {
+      // Teal left half, orange right half
+      mockPixels(10, 10, index => (index % 10 < 5 ? TEAL : ORANGE));
+
+      const sample = await (imageProcessingService as any).samplePixels('/test/image.png', {
+        regions: [
+          { type: 'rect', x: 0.5, y: 0, width: 0.5, height: 0.5 },
+          { type: 'polygon', points: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 1, y: 1 }] },
+        ],
+      });
+
+      expect(sample.pixels.every((pixel: { r: number }) => pixel.r === 231)).toBe(true);
+      expect(sample.selectedArea).toBe(40);
+    });
+
+    it('should skip the background connected to the border', async () => {
+      // White background around a 4x4 teal square
+      mockPixels(10, 10, index => {
+        const x = index % 10;
+        const y = Math.floor(index / 10);
+        return x >= 3 && x < 7 && y >= 3 && y < 7 ? TEAL : [255, 255, 255, 255];
+      });
+
+      const sample = await (imageProcessingService as any).samplePixels('/test/image.png', { excludeBackground: true });
+
+      expect(sample.pixels).toHaveLength(16);
+      expect(sample.selectedArea).toBe(16);
+      expect(sample.backgroundArea).toBe(84);
+    });
+
+    describe('saliency', () => {
+      const RED = [220, 30, 40, 255];
+
+      // Gray wall in two shades with a small red logo in the middle
+      const mockWall = () => mockPixels(20, 20, index => {
+        const x = index % 20;
+        const y = Math.floor(index / 20);
+        if (x >= 9 && x < 11 && y >= 9 && y < 11) return RED;
+        return y < 8 ? [200, 200, 200, 255] : [120, 120, 120, 255];
+      });
+
+      it('should let salient pixels outweigh large flat areas when clustering', async () => {
+        mockWall();
+
+        const sample = await (imageProcessingService as any).samplePixels('/test/image.png', { saliency: true });
+        const plain = await (imageProcessingService as any).extractDominantColors(sample.pixels, 2, 'kmeans');
+        const weighted = await (imageProcessingService as any).extractDominantColors(sample.pixels, 2, 'kmeans', sample.saliency);
+
+        expect(plain.some((color: { hex: string }) => color.hex === '#dc1e28')).toBe(false);
+        expect(weighted.find((color: { hex: string }) => color.hex === '#dc1e28')).toMatchObject({ coverage: 1 });
+      });
+
+      it('should give the most salient missing hue the last slot', async () => {
+        mockWall();
+
+        const sample = await (imageProcessingService as any).samplePixels('/test/image.png', { accentSlot: true });
+        const colors = await (imageProcessingService as any).extractDominantColors(sample.pixels, 2, 'kmeans');
+        const withAccent = (imageProcessingService as any).addAccentSlot(colors, sample.pixels, sample.saliency, 2);
+
+        expect(withAccent).toHaveLength(2);
+        expect(withAccent[0]).toEqual(colors[0]);
+        expect(withAccent[1]).toEqual({ hex: '#dc1e28', rgb: { r: 220, g: 30, b: 40 }, coverage: 1, accent: true });
+        expect((imageProcessingService as any).addAccentSlot(withAccent, sample.pixels, sample.saliency, 2)).toEqual(withAccent);
+      });
+    });
+
+    it('should convert pixels to sRGB and count the clipped ones', async () => {
+      // Half the image is a color outside sRGB
+      mockPixels(10, 10, index => (index < 50 ? [255, 0, 0, 255] : [128, 128, 128, 255]));
+      const convert = jest.fn(({ r, g, b }) => ({ rgb: { r, g: g + 1, b }, clipped: r === 255 }));
+
+      const sample = await (imageProcessingService as any).samplePixels('/test/p3.jpg', {}, convert);
+
+      expect(require('sharp')).toHaveBeenLastCalledWith('/test/p3.jpg', { ignoreIcc: true });
+      expect(sample.pixels[0]).toEqual({ r: 255, g: 1, b: 0 });
+      expect(sample.clippedArea).toBe(50);
+    });
+
+    it('should report the color space and gamut clipping of processed images', async () => {
+      jest.spyOn(imageProcessingService as any, 'readColorProfile').mockResolvedValueOnce({
+        colorSpace: 'display-p3',
+        iccProfile: 'Display P3',
+        convert: ({ r, g, b }: { r: number; g: number; b: number }) => ({ rgb: { r, g, b }, clipped: true }),
+      });
+
+      const result = await imageProcessingService.processImage('/test/p3.jpg');
+
+      expect(result).toMatchObject({
+        colorSpace: 'display-p3',
+        iccProfile: 'Display P3',
+        gamutClipped: true,
+        clippedArea: 100,
+      });
+    });
+
+    it('should fail when nothing is left to extract from', async () => {
+      mockPixels(10, 10, () => [255, 255, 255, 255]);
+
+      await expect((imageProcessingService as any).samplePixels('/test/image.png', { excludeBackground: true }))
+        .rejects.toThrow('No pixels left to extract colors from');
+    });
+
+    it('should report an empty selection as a validation error', async () => {
+      mockPixels(10, 10, () => [255, 255, 255, 255]);
+      await expect((imageProcessingService as any).samplePixels('/test/image.png', { excludeBackground: true }))
+        .rejects.toBeInstanceOf(ValidationError);
+
+      jest.spyOn(imageProcessingService as any, 'samplePixels').mockRejectedValueOnce(new ValidationError('No pixels left'));
+      (fs.unlink as jest.Mock).mockClear();
+      await expect(imageProcessingService.processImage('/test/image.png')).rejects.toBeInstanceOf(ValidationError);
+      expect(fs.unlink).toHaveBeenCalledWith(expect.stringMatching(/processed_.*\.jpeg$/));
+    });
+  });
+
+  describe('processMoodBoard', () => {
+    const extraction = (path: string, colorCoverage: object[]) => ({ processedImagePath: path, colorCoverage }) as any;
+
+    it('should merge the colors of every image by weight and apply exclusions once', async () => {
+      const processImage = jest.spyOn(imageProcessingService, 'processImage')
+        .mockResolvedValueOnce(extraction('/tmp/test/a.jpeg', [{ hex: '#2a9d8f', rgb: { r: 42, g: 157, b: 143 }, coverage: 100 }]))
+        .mockResolvedValueOnce(extraction('/tmp/test/b.jpeg', [{ hex: '#e76f51', rgb: { r: 231, g: 111, b: 81 }, coverage: 100 }]));
+
+      const result = await imageProcessingService.processMoodBoard(
+        [{ imagePath: '/tmp/a.jpg', weight: 1 }, { imagePath: '/tmp/b.jpg', weight: 3 }],
+        { colorCount: 2, exclude: { hueRanges: [{ from: 0, to: 40 }] } }
+      );
+
+      expect(processImage).toHaveBeenCalledWith('/tmp/a.jpg', { colorCount: 2 });
+      expect(result.images).toHaveLength(2);
+      expect(result.colors.map(color => [color.hex, color.coverage, color.sources[0].image])).toEqual([
+        ['#e76f51', 75, 1],
+        ['#2a9d8f', 25, 0],
+      ]);
+      expect(result.replacedColors).toEqual([expect.objectContaining({ original: '#E76F51', position: 0 })]);
+      expect(result.colorPalette[1].hex).toBe('#2a9d8f');
+    });
+
+    it('should name the image that failed and clean up the others', async () => {
+      jest.spyOn(imageProcessingService, 'processImage')
+        .mockResolvedValueOnce(extraction('/tmp/test/a.jpeg', []))
+        .mockRejectedValueOnce(new Error('Image processing failed: unsupported format'));
+      (fs.unlink as jest.Mock).mockClear();
+
+      await expect(imageProcessingService.processMoodBoard([{ imagePath: '/tmp/a.jpg' }, { imagePath: '/tmp/b.gif' }]))
+        .rejects.toThrow('Image 2: Image processing failed: unsupported format');
+      expect(fs.unlink).toHaveBeenCalledWith('/tmp/test/a.jpeg');
+    });
   });
 
   describe('utility methods', () => {
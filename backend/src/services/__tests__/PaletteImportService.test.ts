@@ -0,0 +1,206 @@
+// Tests for PaletteImportService
+
+import { PaletteImportService } from '../PaletteImportService';
+import { ExportService } from '../ExportService';
+import { ValidationError } from '../../types/api';
+import { ColorPaletteData } from '../../types/color';
+import { encodeASE } from '../../utils/ase';
+
+jest.mock('../../utils/logger');
+
+describe('PaletteImportService', () => {
+  let importService: PaletteImportService;
+  let exportService: ExportService;
+
+  const palette: ColorPaletteData = {
+    name: 'Brand Classic',
+    prompt: 'Our legacy brand colors',
+    colors: [
+      {
+        hex: '#1E3A8A',
+        rgb: { r: 30, g: 58, b: 138 },
+        hsl: { h: 224, s: 64, l: 33 },
+        name: 'Brand Navy',
+        category: 'primary',
+        usage: 'Headers and primary buttons',
+        accessibility: { contrastWithWhite: 10.4, contrastWithBlack: 2, wcagLevel: 'AAA' },
+      },
+      {
+        hex: '#F59E0B',
+        rgb: { r: 245, g: 158, b: 11 },
+        hsl: { h: 38, s: 92, l: 50 },
+        name: 'Signal Amber',
+        category: 'accent',
+        usage: 'Highlights',
+        accessibility: { contrastWithWhite: 2.2, contrastWithBlack: 9.6, wcagLevel: 'AAA' },
+      },
+      {
+        hex: '#F3F4F6',
+        rgb: { r: 243, g: 244, b: 246 },
+        hsl: { h: 220, s: 14, l: 96 },
+        name: 'Paper',
+        category: 'neutral',
+        usage: 'Backgrounds',
+        accessibility: { contrastWithWhite: 1.1, contrastWithBlack: 19.3, wcagLevel: 'AAA' },
+      },
+    ],
+    accessibilityScore: {
+      overallScore: 'AA',
+      contrastRatios: [],
+      colorBlindnessCompatible: true,
+      recommendations: [],
+      passedChecks: 0,
+      totalChecks: 0,
+    },
+  };
+
+  const hexes = palette.colors.map(color => color.hex);
+  const names = palette.colors.map(color => color.name);
+
+  beforeEach(() => {
+    importService = new PaletteImportService();
+    exportService = new ExportService();
+  });
+
+  describe('round trips through our own exports', () => {
+    it.each(['ase', 'json', 'figma', 'sketch', 'css'] as const)('should import %s exports with names preserved', async (format) => {
+      const exported = await exportService.exportPalette(palette, format);
+      const content = Buffer.isBuffer(exported.content) ? exported.content : Buffer.from(exported.content);
+
+      const result = await importService.importPalette(content, exported.filename);
+
+      expect(result.format).toBe(format);
+      expect(result.palette.name).toBe('Brand Classic');
+      expect(result.palette.colors.map(color => color.hex)).toEqual(hexes);
+      expect(result.palette.colors.map(color => color.name)).toEqual(
+        format === 'css' ? ['Brand Navy', 'Signal Amber', 'Paper'] : names
+      );
+      expect(result.palette.accessibilityScore.totalChecks).toBeGreaterThan(0);
+    });
+
+    it('should keep categories and usage from ChromaGen JSON', async () => {
+      const exported = await exportService.exportPalette(palette, 'json');
+      const result = await importService.importPalette(Buffer.from(exported.content as string), 'brand.json');
+
+      expect(result.palette.prompt).toBe('Our legacy brand colors');
+      expect(result.palette.colors.map(color => color.category)).toEqual(['primary', 'accent', 'neutral']);
+      expect(result.palette.colors[0].usage).toBe('Headers and primary buttons');
+      expect(result.palette.colors[0].accessibility.contrastWithWhite).toBeGreaterThan(10);
+    });
+  });
+
+  describe('ASE', () => {
+    it('should convert CMYK, LAB and Gray swatches', async () => {
+      const file = encodeASE({
+        groups: [],
+        swatches: [
+          { name: 'Process Cyan', model: 'CMYK', values: [1, 0, 0, 0], type: 'process' },
+          { name: 'Lab White', model: 'LAB', values: [100, 0, 0], type: 'global' },
+          { name: 'Lab Red', model: 'LAB', values: [54.2917, 80.8125, 69.8851], type: 'global' },
+          { name: 'Mid Gray', model: 'Gray', values: [0.5], type: 'spot' },
+        ],
+      });
+
+      const result = await importService.importPalette(file, 'mixed.ase');
+
+      expect(result.palette.name).toBe('Mixed');
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#00FFFF', '#FFFFFF', '#FF0000', '#808080']);
+      expect(result.palette.colors.map(color => color.name)).toEqual(['Process Cyan', 'Lab White', 'Lab Red', 'Mid Gray']);
+    });
+  });
+
+  describe('GPL', () => {
+    it('should parse GIMP palettes, generating names for untitled swatches', async () => {
+      const gpl = [
+        'GIMP Palette',
+        'Name: Legacy Web',
+        'Columns: 3',
+        '# exported from GIMP',
+        '255   0   0\tCrimson Alert',
+        '  0 128 255\tUntitled',
+        ' 34 197  94',
+      ].join('\n');
+
+      const result = await importService.importPalette(Buffer.from(gpl), 'legacy.gpl');
+
+      expect(result.format).toBe('gpl');
+      expect(result.palette.name).toBe('Legacy Web');
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#FF0000', '#0080FF', '#22C55E']);
+      expect(result.palette.colors[0].name).toBe('Crimson Alert');
+      expect(result.palette.colors[1].name).not.toBe('Untitled');
+      expect(result.palette.colors[1].name.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('ACO', () => {
+    const writeUInt16s = (values: number[]) => {
+      const buffer = Buffer.alloc(values.length * 2);
+      values.forEach((value, index) => buffer.writeUInt16BE(value, index * 2));
+      return buffer;
+    };
+
+    const writeName = (name: string) => {
+      const buffer = Buffer.alloc(4 + (name.length + 1) * 2);
+      buffer.writeUInt32BE(name.length + 1, 0);
+      for (let i = 0; i < name.length; i++) {
+        buffer.writeUInt16BE(name.charCodeAt(i), 4 + i * 2);
+      }
+      return buffer;
+    };
+
+    it('should parse version 1 and 2 sections, preferring named version 2 colors', async () => {
+      const file = Buffer.concat([
+        writeUInt16s([1, 2]),
+        writeUInt16s([0, 65535, 0, 0, 0]),
+        writeUInt16s([8, 10000, 0, 0, 0]),
+        writeUInt16s([2, 2]),
+        writeUInt16s([0, 65535, 0, 0, 0]),
+        writeName('Pure Red'),
+        writeUInt16s([8, 10000, 0, 0, 0]),
+        writeName('Ink Black'),
+      ]);
+
+      const result = await importService.importPalette(file, 'swatches.aco');
+
+      expect(result.format).toBe('aco');
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#FF0000', '#000000']);
+      expect(result.palette.colors.map(color => color.name)).toEqual(['Pure Red', 'Ink Black']);
+    });
+
+    it('should read Lab colors against the D50 white point', async () => {
+      // Signed a and b are stored as two's complement
+      const file = Buffer.concat([
+        writeUInt16s([1, 2]),
+        writeUInt16s([7, 5429, 8081, 6989, 0]),
+        writeUInt16s([7, 2957, 6830, 0x10000 - 11203, 0]),
+      ]);
+
+      const result = await importService.importPalette(file, 'lab.aco');
+
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#FF0000', '#0000FF']);
+    });
+  });
+
+  describe('CSS', () => {
+    it('should read rgb() and hsl() custom properties', async () => {
+      const css = ':root { --brand-primary: rgb(255, 0, 0); --surface: hsl(0, 0%, 100%); --spacing: 4px; }';
+
+      const result = await importService.importPalette(Buffer.from(css), 'tokens.css');
+
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#FF0000', '#FFFFFF']);
+      expect(result.palette.colors.map(color => color.name)).toEqual(['Brand Primary', 'Surface']);
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject unrecognized files', async () => {
+      await expect(importService.importPalette(Buffer.from('just some text'), 'notes.txt'))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject files without colors', async () => {
+      await expect(importService.importPalette(Buffer.from('{"name":"Empty","colors":[]}'), 'empty.json'))
+        .rejects.toThrow('No colors found in JSON file');
+    });
+  });
+});
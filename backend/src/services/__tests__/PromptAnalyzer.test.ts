@@ -0,0 +1,209 @@
+// Tests for the local prompt analyzer
+
+import { PromptAnalyzer } from '../PromptAnalyzer';
+import { ColorGenerationService } from '../ColorGenerationService';
+import { PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from '../providers';
+
+jest.mock('../../utils/logger');
+
+describe('PromptAnalyzer', () => {
+  const analyzer = new PromptAnalyzer();
+
+  describe('context fields', () => {
+    it('should extract mood, industry, audience and personality', () => {
+      const context = analyzer.analyze('Playful, modern colors for a children\'s education app');
+
+      expect(context.mood).toBe('playful');
+      expect(context.industry).toBe('education');
+      expect(context.targetAudience).toBe('children');
+      expect(context.brandPersonality).toEqual(['modern']);
+      expect(context.confidence).toMatchObject({ mood: 0.9, targetAudience: 0.9, brandPersonality: 0.9 });
+    });
+
+    it('should give synonyms lower confidence than direct terms', () => {
+      const direct = analyzer.analyze('calm palette for a bank');
+      const synonym = analyzer.analyze('serene palette for a bank');
+
+      expect(direct.mood).toBe('calm');
+      expect(synonym.mood).toBe('calm');
+      expect(synonym.confidence!.mood).toBeLessThan(direct.confidence!.mood);
+      expect(direct.industry).toBe('finance');
+    });
+
+    it('should lower confidence when signals are mixed', () => {
+      const context = analyzer.analyze('calm but energetic and calming colors');
+
+      expect(context.mood).toBe('calm');
+      expect(context.confidence!.mood).toBeLessThan(0.9);
+      expect(context.confidence!.mood).toBeGreaterThan(0);
+    });
+
+    it('should match whole words only', () => {
+      const context = analyzer.analyze('a boldly calmer palette');
+
+      expect(context.mood).toBe('neutral');
+      expect(context.confidence!.mood).toBe(0);
+    });
+
+    it('should default missing fields with zero confidence', () => {
+      const context = analyzer.analyze('something nice');
+
+      expect(context).toMatchObject({
+        prompt: 'something nice',
+        mood: 'neutral',
+        industry: 'general',
+        targetAudience: 'general',
+        brandPersonality: [],
+        namedColors: [],
+        negations: [],
+      });
+      expect(context.colorCountHint).toBeUndefined();
+      expect(Object.values(context.confidence!).every(value => value === 0)).toBe(true);
+    });
+
+    it('should ignore terms directly after a negation', () => {
+      const context = analyzer.analyze('professional but not playful');
+
+      expect(context.mood).toBe('professional');
+    });
+  });
+
+  describe('named colors', () => {
+    it('should find CSS color names, including multi-word and plural forms', () => {
+      const context = analyzer.analyze('light blue, forest green and warm oranges');
+
+      expect(context.namedColors).toEqual([
+        { term: 'light blue', hex: '#ADD8E6', source: 'css' },
+        { term: 'forest green', hex: '#228B22', source: 'css' },
+        { term: 'orange', hex: '#FFA500', source: 'css' },
+      ]);
+      expect(context.confidence!.namedColors).toBe(0.85);
+    });
+
+    it('should find hex codes and normalize them', () => {
+      const context = analyzer.analyze('brand colors #1e3a8a and #fa0');
+
+      expect(context.namedColors).toEqual([
+        { term: '#1e3a8a', hex: '#1E3A8A', source: 'hex' },
+        { term: '#fa0', hex: '#FFAA00', source: 'hex' },
+      ]);
+      expect(context.confidence!.namedColors).toBe(0.95);
+    });
+
+    it('should not report negated colors as named colors', () => {
+      const context = analyzer.analyze('navy and gold, no red');
+
+      expect(context.namedColors!.map(color => color.term)).toEqual(['navy', 'gold']);
+    });
+  });
+
+  describe('negations', () => {
+    it('should collect every color in a negated list', () => {
+      const context = analyzer.analyze('ocean theme without red, orange or #FF00FF');
+
+      expect(context.negations).toEqual([
+        { term: 'red', kind: 'color', hex: '#FF0000' },
+        { term: 'orange', kind: 'color', hex: '#FFA500' },
+        { term: '#ff00ff', kind: 'color', hex: '#FF00FF' },
+      ]);
+      expect(context.confidence!.negations).toBe(0.8);
+    });
+
+    it('should record descriptors such as neon and pastels', () => {
+      const context = analyzer.analyze('avoid neon. No pastels please');
+
+      expect(context.negations).toEqual([
+        { term: 'neon', kind: 'descriptor' },
+        { term: 'pastel', kind: 'descriptor' },
+      ]);
+    });
+
+    it('should keep a descriptor with the color it qualifies', () => {
+      const context = analyzer.analyze('green tones but no neon green');
+
+      expect(context.negations).toEqual([{ term: 'neon green', kind: 'color', hex: '#008000' }]);
+      expect(context.namedColors!.map(color => color.term)).toEqual(['green']);
+    });
+
+    it('should end the negated list at the first unrelated word', () => {
+      const context = analyzer.analyze('no red for a calm yellow brand');
+
+      expect(context.negations!.map(negation => negation.term)).toEqual(['red']);
+      expect(context.namedColors!.map(color => color.term)).toEqual(['yellow']);
+      expect(context.mood).toBe('calm');
+    });
+  });
+
+  describe('color count', () => {
+    it.each([
+      ['5 colors for a bakery', 5],
+      ['a palette of four', 4],
+      ['seven brand colours', 7],
+      ['three-shade gradient', undefined],
+      ['six shades of blue', 6],
+    ])('should read the count from "%s"', (prompt, expected) => {
+      expect(analyzer.analyze(prompt).colorCountHint).toBe(expected);
+    });
+
+    it('should ignore counts outside the supported range', () => {
+      expect(analyzer.analyze('50 colors').colorCountHint).toBeUndefined();
+    });
+  });
+});
+
+describe('ColorGenerationService prompt analysis', () => {
+  class RecordingProvider implements PaletteProvider {
+    public readonly name = 'mock' as const;
+    public readonly timeout = 1000;
+    public requests: PaletteProviderRequest[] = [];
+
+    public isAvailable(): boolean {
+      return true;
+    }
+
+    public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+      this.requests.push(request);
+      const hexes = ['#1E3A8A', '#3B82F6', '#93C5FD', '#F8FAFC', '#0F172A', '#64748B', '#E2E8F0'];
+      return {
+        text: JSON.stringify({
+          colors: hexes.slice(0, request.options.colorCount).map((hex, index) => ({
+            hex,
+            name: `Color ${index + 1}`,
+            category: index === 0 ? 'primary' : 'accent',
+          })),
+          explanation: 'Recorded palette',
+        }),
+        model: 'recording',
+      };
+    }
+  }
+
+  it('should use the color count from the prompt when none is given', async () => {
+    const provider = new RecordingProvider();
+    const service = new ColorGenerationService([provider]);
+
+    const result = await service.generateFromText('four calm colors for a spa');
+
+    expect(provider.requests[0].options.colorCount).toBe(4);
+    expect(result.colors).toHaveLength(4);
+    expect(result.recipe!.context.colorCountHint).toBe(4);
+  });
+
+  it('should prefer an explicit color count', async () => {
+    const provider = new RecordingProvider();
+    const service = new ColorGenerationService([provider]);
+
+    await service.generateFromText('four calm colors for a spa', { colorCount: 6 });
+
+    expect(provider.requests[0].options.colorCount).toBe(6);
+  });
+
+  it('should ask providers to avoid negated colors', async () => {
+    const provider = new RecordingProvider();
+    const service = new ColorGenerationService([provider]);
+
+    await service.generateFromText('calm spa palette, avoid red and neon');
+
+    expect(provider.requests[0].instructions).toContain('Avoid: red (#FF0000), neon');
+  });
+});
@@ -0,0 +1,84 @@
+// Tests for SourcePaletteService
+
+import { SourcePaletteService } from '../SourcePaletteService';
+import { ValidationError } from '../../types/api';
+
+jest.mock('../../utils/logger');
+
+describe('SourcePaletteService', () => {
+  const service = new SourcePaletteService();
+
+  const logo = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100">
+  <rect width="200" height="100" fill="#FFFFFF"/>
+  <circle cx="50" cy="50" r="40" fill="#0F766E"/>
+  <rect x="100" y="20" width="80" height="20" fill="#F59E0B"/>
+  <rect x="100" y="60" width="80" height="20" fill="#111827"/>
+</svg>`;
+
+  describe('detectFormat', () => {
+    it.each([
+      ['brand.SCSS', '', 'scss'],
+      ['page.htm', '', 'html'],
+      [undefined, '<?xml version="1.0"?>\n<svg viewBox="0 0 10 10"></svg>', 'svg'],
+      [undefined, '<!DOCTYPE html><html><body></body></html>', 'html'],
+      [undefined, '$brand: #123456;', 'scss'],
+      [undefined, '.a { color: red; }', 'css'],
+    ])('should detect %s %s as %s', (filename, text, expected) => {
+      expect(service.detectFormat(text, filename)).toBe(expected);
+    });
+
+    it('should reject text that is not a stylesheet or markup', () => {
+      expect(() => service.detectFormat('just some notes')).toThrow(ValidationError);
+    });
+  });
+
+  describe('extractPalette', () => {
+    it('should order colors by area and assign categories', async () => {
+      const result = await service.extractPalette(Buffer.from(logo), 'logo.svg', { colorCount: 4 });
+
+      expect(result.format).toBe('svg');
+      expect(result.palette.colors.map(color => [color.hex, color.category])).toEqual([
+        ['#FFFFFF', 'neutral'],
+        ['#0F766E', 'primary'],
+        ['#F59E0B', 'secondary'],
+        ['#111827', 'neutral'],
+      ]);
+      expect(result.palette.name).toBe('Palette from logo.svg');
+      expect(result.palette.accessibilityScore.totalChecks).toBeGreaterThan(0);
+      expect(result.palette.colors.every(color => color.name && color.usage)).toBe(true);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should keep the most used clusters and report the rest', async () => {
+      const result = await service.extractPalette(Buffer.from(logo), 'logo.svg', { colorCount: 3 });
+
+      expect(result.palette.colors).toHaveLength(3);
+      expect(result.clusters).toHaveLength(4);
+      expect(result.colorsFound).toBe(4);
+      expect(result.warnings).toEqual(['Found 4 distinct colors; kept the 3 most used']);
+    });
+
+    it('should make a neutral the primary when there is no chromatic color', async () => {
+      const css = 'body { background: #FAFAFA; color: #171717; } hr { border-color: #D4D4D4; }';
+      const result = await service.extractPalette(Buffer.from(css), 'mono.css');
+
+      expect(result.palette.colors.map(color => color.category)).toEqual(['primary', 'neutral', 'neutral']);
+      expect(result.warnings).toEqual(['Only 3 distinct colors were found']);
+    });
+
+    it('should name the same file the same way every time', async () => {
+      const first = await service.extractPalette(Buffer.from(logo), 'logo.svg');
+      const second = await service.extractPalette(Buffer.from(logo), 'logo.svg');
+
+      expect(second.palette.colors.map(color => color.name)).toEqual(first.palette.colors.map(color => color.name));
+    });
+
+    it('should reject files without colors and binary files', async () => {
+      await expect(service.extractPalette(Buffer.from('.a { margin: 0; }'), 'empty.css'))
+        .rejects.toThrow('No colors found in CSS file');
+      await expect(service.extractPalette(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]), 'logo.svg'))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+});
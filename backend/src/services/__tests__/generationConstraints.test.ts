@@ -0,0 +1,256 @@
+// Tests for locked and seed color constraints in ColorGenerationService
+
+import { ColorGenerationService } from '../ColorGenerationService';
+import { PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from '../providers';
+import { TextGenerationRequestSchema } from '../../utils/validation';
+import { getDeltaE, hexToHsl } from '../../utils/colorConversion';
+import { findExclusionViolations } from '../../utils/colorExclusions';
+
+jest.mock('../../utils/logger');
+
+class StaticProvider implements PaletteProvider {
+  public readonly name = 'mock' as const;
+  public readonly timeout = 1000;
+  public requests: PaletteProviderRequest[] = [];
+
+  constructor(private readonly hexes: string[]) {}
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    this.requests.push(request);
+    return {
+      text: JSON.stringify({
+        colors: this.hexes.map((hex, index) => ({
+          hex,
+          name: `Model Color ${index + 1}`,
+          category: index === 0 ? 'primary' : 'accent',
+          usage: 'From the model',
+        })),
+        explanation: 'Static palette',
+      }),
+      model: 'static',
+    };
+  }
+}
+
+describe('ColorGenerationService color constraints', () => {
+  const modelColors = ['#D62828', '#F77F00', '#FCBF49', '#EAE2B7', '#003049'];
+
+  it('keeps locked colors unchanged at their positions', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 5,
+      harmonyType: 'triadic',
+      lockedColors: [
+        { hex: '#1e3a8a', position: 0, category: 'primary', name: 'Brand Navy' },
+        { hex: '#FFFF00', position: 3 },
+      ],
+    });
+
+    expect(result.colors).toHaveLength(5);
+    expect(result.colors[0]).toMatchObject({ hex: '#1E3A8A', category: 'primary', name: 'Brand Navy' });
+    // Yellow fails contrast against white but is locked, so it is not adjusted
+    expect(result.colors[3].hex).toBe('#FFFF00');
+  });
+
+  it('does not trim locked colors beyond the harmony maximum', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 6,
+      harmonyType: 'complementary',
+      lockedColors: [{ hex: '#2A9D8F', position: 5 }],
+    });
+
+    expect(result.colors).toHaveLength(6);
+    expect(result.colors[5].hex).toBe('#2A9D8F');
+  });
+
+  it('includes seed colors, replacing close generated colors', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 5,
+      harmonyType: 'triadic',
+      seedColors: ['#D72A2A', '#6A4C93'],
+    });
+
+    const hexes = result.colors.map(color => color.hex);
+    expect(hexes).toContain('#6A4C93');
+    // The seed stands in for the near-identical model red instead of sitting beside it
+    expect(hexes.filter(hex => getDeltaE(hex, '#D72A2A') < 5)).toHaveLength(1);
+    expect(result.colors).toHaveLength(5);
+  });
+
+  it('passes the constraints to the model prompt', async () => {
+    const provider = new StaticProvider(modelColors);
+    const service = new ColorGenerationService([provider]);
+
+    await service.generateFromText('bold festival poster', {
+      lockedColors: [{ hex: '#1E3A8A', position: 0, category: 'primary' }],
+      seedColors: ['#6A4C93'],
+    });
+
+    const [request] = provider.requests;
+    expect(request.instructions).toContain('#1 #1E3A8A (primary)');
+    expect(request.systemPrompt).toContain('brand colors and include them unchanged: #6A4C93');
+  });
+
+  it('fills the palette from locked colors when the provider returns none', async () => {
+    const service = new ColorGenerationService([new StaticProvider([])]);
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 4,
+      harmonyType: 'tetradic',
+      lockedColors: [{ hex: '#1E3A8A', position: 1 }],
+    });
+
+    expect(result.colors).toHaveLength(4);
+    expect(result.colors[1].hex).toBe('#1E3A8A');
+  });
+});
+
+describe('ColorGenerationService exclusions', () => {
+  const modelColors = ['#D62828', '#F77F00', '#FCBF49', '#2A9D8F', '#003049'];
+
+  it('replaces colors in excluded hue ranges and reports them', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+    const exclude = { hueRanges: [{ from: 330, to: 45 }] };
+
+    const result = await service.generateFromText('bold festival poster', { colorCount: 5, exclude });
+
+    for (const color of result.colors) {
+      expect(findExclusionViolations(color.hex, exclude)).toEqual([]);
+    }
+    const replaced = result.replacedColors!.filter(replacement => replacement.stage === 'colors');
+    expect(replaced.map(replacement => replacement.original)).toEqual(['#D62828', '#F77F00', '#FCBF49']);
+    expect(replaced[0].violations[0]).toContain('excluded range 330-45');
+  });
+
+  it('enforces saturation and lightness bounds after every stage', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+    const exclude = { saturation: { max: 60 }, lightness: { min: 25, max: 80 } };
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 5,
+      harmonyType: 'triadic',
+      exclude,
+    });
+
+    for (const color of result.colors) {
+      const hsl = hexToHsl(color.hex);
+      expect(hsl.s).toBeLessThanOrEqual(60.5);
+      expect(hsl.l).toBeGreaterThanOrEqual(24.5);
+      expect(hsl.l).toBeLessThanOrEqual(80.5);
+    }
+    expect(result.replacedColors!.length).toBeGreaterThan(0);
+  });
+
+  it('replaces colors close to an excluded color but keeps locked colors', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+
+    const result = await service.generateFromText('bold festival poster', {
+      colorCount: 5,
+      lockedColors: [{ hex: '#003049', position: 4 }],
+      exclude: { colors: [{ hex: '#D72A2A', tolerance: 8 }, { hex: '#003049' }] },
+    });
+
+    const hexes = result.colors.map(color => color.hex);
+    expect(hexes[4]).toBe('#003049');
+    expect(hexes.every(hex => hex === '#003049' || getDeltaE(hex, '#D72A2A') > 8)).toBe(true);
+    expect(result.replacedColors!.some(replacement => replacement.original === '#D62828')).toBe(true);
+  });
+
+  it('reports no replacements when nothing is excluded', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+
+    const result = await service.generateFromText('bold festival poster', { colorCount: 5 });
+
+    expect(result.replacedColors).toEqual([]);
+  });
+
+  it('describes the exclusions in the model prompt', async () => {
+    const provider = new StaticProvider(modelColors);
+    const service = new ColorGenerationService([provider]);
+
+    await service.generateFromText('bold festival poster', {
+      exclude: { hueRanges: [{ from: 90, to: 150 }], saturation: { max: 70 } },
+    });
+
+    expect(provider.requests[0].instructions).toContain('Do not use: hues 90-150°, saturation above 70%');
+  });
+
+  it('applies exclusions to palettes expanded from image colors', async () => {
+    const service = new ColorGenerationService([new StaticProvider(modelColors)]);
+    const exclude = { hueRanges: [{ from: 180, to: 260 }] };
+
+    const result = await service.generateFromDominantColors(['#2F6FDF', '#E0A030', '#40A060'], { exclude });
+
+    for (const color of result.colors) {
+      expect(findExclusionViolations(color.hex, exclude)).toEqual([]);
+    }
+    expect(result.replacedColors!.every(replacement => replacement.stage === 'harmony')).toBe(true);
+  });
+});
+
+describe('TextGenerationRequestSchema color constraints', () => {
+  it('rejects locked positions outside the palette', () => {
+    const result = TextGenerationRequestSchema.safeParse({
+      prompt: 'bold festival poster',
+      options: { colorCount: 4, lockedColors: [{ hex: '#1E3A8A', position: 4 }] },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects two colors locked at the same position', () => {
+    const result = TextGenerationRequestSchema.safeParse({
+      prompt: 'bold festival poster',
+      options: {
+        lockedColors: [
+          { hex: '#1E3A8A', position: 0 },
+          { hex: '#FFFF00', position: 0 },
+        ],
+      },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts valid locked and seed colors', () => {
+    const result = TextGenerationRequestSchema.safeParse({
+      prompt: 'bold festival poster',
+      options: {
+        colorCount: 5,
+        lockedColors: [{ hex: '#1E3A8A', position: 4, category: 'primary' }],
+        seedColors: ['#F77F00'],
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts exclusions and rejects inverted bounds', () => {
+    const valid = TextGenerationRequestSchema.safeParse({
+      prompt: 'bold festival poster',
+      options: {
+        exclude: {
+          hueRanges: [{ from: 330, to: 30 }],
+          saturation: { max: 70 },
+          colors: [{ hex: '#00FF00', tolerance: 15 }],
+        },
+      },
+    });
+    const inverted = TextGenerationRequestSchema.safeParse({
+      prompt: 'bold festival poster',
+      options: { exclude: { lightness: { min: 80, max: 20 } } },
+    });
+
+    expect(valid.success).toBe(true);
+    expect(inverted.success).toBe(false);
+  });
+});
@@ -0,0 +1,498 @@
+// Tests for palette providers and provider fallback in ColorGenerationService
+
+import { ColorGenerationService, GENERATION_PIPELINE_VERSION } from '../ColorGenerationService';
+import {
+  PaletteProvider,
+  PaletteProviderRequest,
+  PaletteProviderResponse,
+  MockPaletteProvider,
+  createPaletteProviders,
+} from '../providers';
+import { loadPaletteProviderConfig } from '../../config/providers';
+import { PaletteProviderConfig, PaletteProviderName } from '../../config/types';
+import { GenerationOptions, GenerationProgressEvent } from '../../types/color';
+import { GenerationCancelledError } from '../../types/api';
+
+jest.mock('../../utils/logger');
+
+const options: GenerationOptions = {
+  colorCount: 5,
+  harmonyType: 'complementary',
+  accessibilityLevel: 'AA',
+  includeNeutrals: true,
+};
+
+const request = (prompt: string, overrides: Partial<GenerationOptions> = {}): PaletteProviderRequest => ({
+  prompt,
+  instructions: `Generate a palette for: "${prompt}"`,
+  systemPrompt: 'You are a color expert.',
+  options: { ...options, ...overrides },
+  context: { prompt },
+});
+
+const config: PaletteProviderConfig = {
+  order: ['gemini', 'openai-compatible', 'mock'],
+  gemini: { model: 'gemini-1.5-flash', timeout: 1000 },
+  openaiCompatible: { baseURL: 'http://localhost:11434/v1', model: 'llama3.1', timeout: 1000 },
+  mock: { seed: 0, timeout: 1000 },
+};
+
+class FakeProvider implements PaletteProvider {
+  public calls = 0;
+
+  constructor(
+    public readonly name: PaletteProviderName,
+    private readonly respond: (request: PaletteProviderRequest) => Promise<PaletteProviderResponse>,
+    public readonly timeout = 1000,
+    private readonly available = true
+  ) {}
+
+  public isAvailable(): boolean {
+    return this.available;
+  }
+
+  public generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    this.calls++;
+    return this.respond(request);
+  }
+}
+
+const paletteText = JSON.stringify({
+  colors: [
+    { hex: '#1E3A8A', name: 'Navy', category: 'primary', usage: 'Headers' },
+    { hex: '#F59E0B', name: 'Amber', category: 'accent', usage: 'Highlights' },
+    { hex: '#F8FAFC', name: 'Snow', category: 'neutral', usage: 'Backgrounds' },
+  ],
+  explanation: 'Navy and amber',
+});
+
+describe('MockPaletteProvider', () => {
+  it('returns the same palette for the same seed, prompt and options', async () => {
+    const provider = new MockPaletteProvider({ seed: 42, timeout: 1000 });
+
+    const first = await provider.generate(request('ocean breeze'));
+    const second = await provider.generate(request('ocean breeze'));
+
+    expect(first).toEqual(second);
+    expect(first.model).toBe('seed-42');
+  });
+
+  it('varies the palette with the seed and prompt', async () => {
+    const a = await new MockPaletteProvider({ seed: 1, timeout: 1000 }).generate(request('ocean breeze'));
+    const b = await new MockPaletteProvider({ seed: 2, timeout: 1000 }).generate(request('ocean breeze'));
+    const c = await new MockPaletteProvider({ seed: 1, timeout: 1000 }).generate(request('desert dusk'));
+
+    expect(a.text).not.toBe(b.text);
+    expect(a.text).not.toBe(c.text);
+  });
+
+  it('produces valid JSON with the requested number of colors', async () => {
+    const provider = new MockPaletteProvider({ seed: 0, timeout: 1000 });
+    const response = await provider.generate(request('forest retreat', { colorCount: 7 }));
+    const parsed = JSON.parse(response.text);
+
+    expect(parsed.colors).toHaveLength(7);
+    parsed.colors.forEach((color: { hex: string }) => {
+      expect(color.hex).toMatch(/^#[0-9A-F]{6}$/);
+    });
+    expect(parsed.colors[6].category).toBe('neutral');
+  });
+});
+
+describe('createPaletteProviders', () => {
+  it('creates providers in the configured order', () => {
+    const providers = createPaletteProviders({ ...config, order: ['mock', 'gemini'] });
+
+    expect(providers.map(provider => provider.name)).toEqual(['mock', 'gemini']);
+    expect(providers[0].timeout).toBe(1000);
+  });
+
+  it('marks providers without credentials or endpoints as unavailable', () => {
+    const providers = createPaletteProviders({
+      ...config,
+      openaiCompatible: { ...config.openaiCompatible, baseURL: undefined },
+    });
+
+    expect(providers.map(provider => provider.isAvailable())).toEqual([false, false, true]);
+  });
+});
+
+describe('loadPaletteProviderConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.PALETTE_PROVIDERS;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('defaults to the real providers without the mock', () => {
+    expect(loadPaletteProviderConfig().order).toEqual(['gemini', 'openai-compatible']);
+  });
+
+  it('parses the provider order and timeouts from the environment', () => {
+    process.env.PALETTE_PROVIDERS = 'mock, gemini';
+    process.env.GEMINI_TIMEOUT_MS = '5000';
+    process.env.MOCK_PROVIDER_SEED = '7';
+
+    const loaded = loadPaletteProviderConfig();
+
+    expect(loaded.order).toEqual(['mock', 'gemini']);
+    expect(loaded.gemini.timeout).toBe(5000);
+    expect(loaded.mock.seed).toBe(7);
+  });
+
+  it('rejects unknown provider names', () => {
+    process.env.PALETTE_PROVIDERS = 'gemini,claude';
+
+    expect(() => loadPaletteProviderConfig()).toThrow('Unknown palette provider "claude"');
+  });
+});
+
+describe('ColorGenerationService provider fallback', () => {
+  it('reports the provider and model that produced the palette', async () => {
+    const provider = new FakeProvider('openai-compatible', async () => ({ text: paletteText, model: 'llama3.1' }));
+    const service = new ColorGenerationService([provider]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(result.model).toBe('openai-compatible/llama3.1');
+    expect(result.colors[0].hex).toBe('#1E3A8A');
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    const failing = new FakeProvider('gemini', async () => {
+      throw new Error('quota exceeded');
+    });
+    const working = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([failing, working]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(failing.calls).toBe(1);
+    expect(result.model).toBe('mock/seed-0');
+  });
+
+  it('falls back when a provider returns unparseable output', async () => {
+    const garbled = new FakeProvider('gemini', async () => ({ text: 'Sorry, I cannot help', model: 'gemini-1.5-flash' }));
+    const working = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([garbled, working]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(result.model).toBe('mock/seed-0');
+  });
+
+  it('moves on when a provider exceeds its timeout', async () => {
+    const slow = new FakeProvider('openai-compatible', () => new Promise(() => undefined), 20);
+    const working = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([slow, working]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(slow.calls).toBe(1);
+    expect(result.model).toBe('mock/seed-0');
+  });
+
+  it('skips unavailable providers', async () => {
+    const unconfigured = new FakeProvider('gemini', async () => ({ text: paletteText, model: 'gemini-1.5-flash' }), 1000, false);
+    const working = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([unconfigured, working]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(unconfigured.calls).toBe(0);
+    expect(result.model).toBe('mock/seed-0');
+  });
+
+  it('uses color theory when every provider fails', async () => {
+    const failing = new FakeProvider('gemini', async () => {
+      throw new Error('network down');
+    });
+    const service = new ColorGenerationService([failing]);
+
+    const result = await service.generateFromText('calm ocean', { colorCount: 4 });
+
+    expect(result.model).toBe('color-theory-fallback');
+    expect(result.colors.length).toBeGreaterThan(0);
+  });
+
+  it('generates deterministic palettes end to end with the mock provider', async () => {
+    const service = new ColorGenerationService([new MockPaletteProvider({ seed: 3, timeout: 1000 })]);
+
+    const first = await service.generateFromText('sunset cafe', { colorCount: 5 });
+    const second = await service.generateFromText('sunset cafe', { colorCount: 5 });
+
+    expect(first.model).toBe('mock/seed-3');
+    expect(first.colors.map(color => color.hex)).toEqual(second.colors.map(color => color.hex));
+  });
+});
+
+describe('ColorGenerationService response validation', () => {
+  it('re-prompts with the validation errors when output does not match the schema', async () => {
+    const invalid = JSON.stringify({ colors: [{ hex: '#12345G', name: 'Broken', category: 'primary' }] });
+    const requests: PaletteProviderRequest[] = [];
+    const provider = new FakeProvider('gemini', async request => {
+      requests.push(request);
+      return { text: requests.length === 1 ? invalid : paletteText, model: 'gemini-1.5-flash' };
+    });
+    const service = new ColorGenerationService([provider]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(provider.calls).toBe(2);
+    expect(requests[1].instructions).toContain('colors.0.hex');
+    expect(result.model).toBe('gemini/gemini-1.5-flash');
+    expect(result.attempts?.map(attempt => [attempt.stage, attempt.outcome])).toEqual([
+      ['generate', 'invalid'],
+      ['repair', 'success'],
+    ]);
+  });
+
+  it('salvages valid hex colors when repair fails', async () => {
+    const provider = new FakeProvider('gemini', async () => ({
+      text: 'Try #1E3A8A with #f59e0b and #F8FAFC, plus #XYZ123',
+      model: 'gemini-1.5-flash',
+    }));
+    const service = new ColorGenerationService([provider]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(provider.calls).toBe(2);
+    expect(result.model).toBe('gemini/gemini-1.5-flash');
+    expect(result.colors).toHaveLength(3);
+    expect(result.attempts?.[2]).toMatchObject({ provider: 'gemini', stage: 'salvage', outcome: 'success' });
+  });
+
+  it('falls back to color theory when nothing can be salvaged', async () => {
+    const provider = new FakeProvider('gemini', async () => ({ text: 'Sorry, I cannot help', model: 'gemini-1.5-flash' }));
+    const service = new ColorGenerationService([provider]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(result.model).toBe('color-theory-fallback');
+    expect(result.attempts?.map(attempt => [attempt.stage, attempt.outcome])).toEqual([
+      ['generate', 'invalid'],
+      ['repair', 'invalid'],
+      ['salvage', 'invalid'],
+      ['fallback', 'success'],
+    ]);
+  });
+
+  it('keeps the rationale given for each color', async () => {
+    const text = JSON.stringify({
+      colors: JSON.parse(paletteText).colors.map((color: any) => ({ ...color, rationale: `${color.name} suits the brand` })),
+    });
+    const service = new ColorGenerationService([new FakeProvider('mock', async () => ({ text, model: 'seed-0' }))]);
+
+    const result = await service.generateFromText('navy and amber brand', { colorCount: 3 });
+
+    expect(result.colors[0].rationale).toBe('Navy suits the brand');
+  });
+
+  it('fills in rationale and psychology the model left out', async () => {
+    const service = new ColorGenerationService([new MockPaletteProvider({ seed: 0, timeout: 1000 })]);
+
+    const result = await service.generateFromText('calm ocean spa', { colorCount: 4, harmonyType: 'analogous' });
+
+    result.colors.forEach(color => {
+      expect(color.rationale).toContain('analogous harmony');
+      expect(color.psychology?.length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('ColorGenerationService progress reporting', () => {
+  it('reports each pipeline stage in order', async () => {
+    const service = new ColorGenerationService([new MockPaletteProvider({ seed: 0, timeout: 1000 })]);
+    const events: GenerationProgressEvent[] = [];
+
+    await service.generateFromText('sunset cafe', { colorCount: 5 }, { onProgress: event => events.push(event) });
+
+    expect(events.map(event => event.stage)).toEqual(['context', 'colors', 'harmony', 'accessibility', 'names']);
+    expect(events[0].context?.prompt).toBe('sunset cafe');
+    expect(events[1].model).toBe('mock/seed-0');
+  });
+
+  it('reports raw colors as they stream in', async () => {
+    const streaming = new FakeProvider('openai-compatible', async request => {
+      // Emit the palette text in three chunks, each completing one more color object
+      const cut1 = paletteText.indexOf('},') + 1;
+      const cut2 = paletteText.indexOf('},', cut1) + 1;
+      [paletteText.slice(0, cut1), paletteText.slice(0, cut2), paletteText].forEach(text => request.onPartialText?.(text));
+      return { text: paletteText, model: 'llama3.1' };
+    });
+    const service = new ColorGenerationService([streaming]);
+    const events: GenerationProgressEvent[] = [];
+
+    await service.generateFromText('navy and amber brand', { colorCount: 3 }, { onProgress: event => events.push(event) });
+
+    const partial = events.filter(event => event.partial);
+    expect(partial.map(event => event.colors?.map(color => color.hex))).toEqual([
+      ['#1E3A8A'],
+      ['#1E3A8A', '#F59E0B'],
+      ['#1E3A8A', '#F59E0B', '#F8FAFC'],
+    ]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const provider = new FakeProvider('mock', async () => {
+      controller.abort();
+      return { text: paletteText, model: 'seed-0' };
+    });
+    const service = new ColorGenerationService([provider]);
+    const events: GenerationProgressEvent[] = [];
+
+    await expect(
+      service.generateFromText('navy and amber brand', { colorCount: 3 }, {
+        signal: controller.signal,
+        onProgress: event => events.push(event),
+      })
+    ).rejects.toThrow(GenerationCancelledError);
+    expect(events.map(event => event.stage)).toEqual(['context']);
+  });
+});
+
+describe('ColorGenerationService slot alternatives', () => {
+  const palette = JSON.parse(paletteText).colors.map((color: any) => ({
+    ...color,
+    rgb: { r: 0, g: 0, b: 0 },
+    hsl: { h: 0, s: 0, l: 0 },
+    accessibility: { contrastWithWhite: 0, contrastWithBlack: 0, wcagLevel: 'FAIL' },
+  }));
+
+  it('describes the rest of the palette and the slot to replace', async () => {
+    let instructions = '';
+    const provider = new FakeProvider('mock', async request => {
+      instructions = request.instructions;
+      return { text: paletteText, model: 'seed-0' };
+    });
+    const service = new ColorGenerationService([provider]);
+
+    await service.generateSlotAlternatives(palette, 1, { count: 2, harmonyType: 'triadic' });
+
+    expect(instructions).toContain('Suggest 2 alternative colors for color #2 (accent, currently #F59E0B)');
+    expect(instructions).toContain('- #1 #1E3A8A Navy (primary)');
+    expect(instructions).toContain('- #2 #F59E0B Amber (accent) <- replace');
+    expect(instructions).toContain('triadic color harmony');
+  });
+
+  it('uses color theory candidates when providers only echo the palette', async () => {
+    const echo = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([echo]);
+
+    const result = await service.generateSlotAlternatives(palette, 0, { count: 3 });
+
+    expect(result.alternatives).toHaveLength(3);
+    result.alternatives.forEach(alternative => {
+      expect(['#1E3A8A', '#F59E0B', '#F8FAFC']).not.toContain(alternative.hex);
+      expect(alternative.category).toBe('primary');
+    });
+  });
+});
+
+describe('ColorGenerationService variants', () => {
+  it('uses a different harmony type for each variant, starting with the requested one', async () => {
+    const harmonyTypes: string[] = [];
+    const provider = new MockPaletteProvider({ seed: 0, timeout: 1000 });
+    const recording = new FakeProvider('mock', request => {
+      harmonyTypes.push(request.options.harmonyType);
+      return provider.generate(request);
+    });
+    const service = new ColorGenerationService([recording]);
+
+    const result = await service.generateVariantsFromText('sunset cafe', { variants: 3, harmonyType: 'analogous' });
+
+    expect(harmonyTypes.sort()).toEqual(['analogous', 'complementary', 'triadic']);
+    expect(result.requested).toBe(3);
+    result.variants.forEach(variant => {
+      expect(variant.accessibilityScore.totalChecks).toBeGreaterThan(0);
+      expect(variant.score).toBeGreaterThan(0);
+    });
+    expect(result.variants.map(variant => variant.score)).toEqual(
+      [...result.variants.map(variant => variant.score)].sort((a, b) => b - a)
+    );
+  });
+
+  it('drops near-identical palettes', async () => {
+    const same = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const service = new ColorGenerationService([same]);
+
+    const result = await service.generateVariantsFromText('navy and amber brand', {
+      variants: 2,
+      colorCount: 3,
+      harmonyType: 'complementary',
+    });
+
+    expect(same.calls).toBe(2);
+    expect(result.variants).toHaveLength(1);
+  });
+});
+
+describe('ColorGenerationService generation recipes', () => {
+  const mockService = () => new ColorGenerationService([new MockPaletteProvider({ seed: 0, timeout: 1000 })]);
+
+  it('produces byte-identical palettes for the same seed', async () => {
+    const first = await mockService().generateFromText('playful toy store', { colorCount: 5, seed: 1234 });
+    const second = await mockService().generateFromText('playful toy store', { colorCount: 5, seed: 1234 });
+
+    expect(JSON.stringify(first.colors)).toBe(JSON.stringify(second.colors));
+  });
+
+  it('varies the palette with the seed', async () => {
+    const first = await mockService().generateFromText('playful toy store', { colorCount: 5, seed: 1 });
+    const second = await mockService().generateFromText('playful toy store', { colorCount: 5, seed: 2 });
+
+    expect(first.colors.map(color => color.hex)).not.toEqual(second.colors.map(color => color.hex));
+  });
+
+  it('records the provider, seed, options and context', async () => {
+    const result = await mockService().generateFromText('calm tech dashboard', { colorCount: 4, harmonyType: 'triadic' });
+
+    expect(result.recipe).toMatchObject({
+      pipelineVersion: GENERATION_PIPELINE_VERSION,
+      prompt: 'calm tech dashboard',
+      provider: 'mock',
+      model: 'mock/seed-0',
+      options: { colorCount: 4, harmonyType: 'triadic' },
+      context: { mood: 'calm', industry: 'tech' },
+    });
+    expect(result.recipe?.options.seed).toBe(result.recipe?.seed);
+  });
+
+  it('replays a recipe to the same palette', async () => {
+    const original = await mockService().generateFromText('warm food truck', { colorCount: 5 });
+
+    const replay = await mockService().replayRecipe(original.recipe!);
+
+    expect(JSON.stringify(replay.colors)).toBe(JSON.stringify(original.colors));
+    expect(replay.warnings).toEqual([]);
+  });
+
+  it('replays color theory fallbacks without asking providers', async () => {
+    const failing = new FakeProvider('gemini', async () => {
+      throw new Error('network down');
+    });
+    const original = await new ColorGenerationService([failing]).generateFromText('calm ocean', { colorCount: 4 });
+
+    const provider = new FakeProvider('mock', async () => ({ text: paletteText, model: 'seed-0' }));
+    const replay = await new ColorGenerationService([provider]).replayRecipe(original.recipe!);
+
+    expect(provider.calls).toBe(0);
+    expect(replay.colors).toEqual(original.colors);
+  });
+
+  it('warns when the recorded model or pipeline version differs', async () => {
+    const original = await mockService().generateFromText('warm food truck', { colorCount: 5 });
+    const service = new ColorGenerationService([new MockPaletteProvider({ seed: 9, timeout: 1000 })]);
+
+    const replay = await service.replayRecipe({ ...original.recipe!, pipelineVersion: 0 });
+
+    expect(replay.warnings).toHaveLength(2);
+    expect(replay.warnings[1]).toContain('mock/seed-9');
+  });
+});
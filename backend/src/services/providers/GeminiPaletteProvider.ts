@@ -0,0 +1,61 @@
+// Google Gemini palette provider
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { PaletteProviderConfig } from '../../config/types';
+import { DEFAULT_TEMPERATURE, PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from './PaletteProvider';
+
+export class GeminiPaletteProvider implements PaletteProvider {
+  public readonly name = 'gemini' as const;
+  public readonly timeout: number;
+  public readonly supportsSeed = false;
+  public readonly model: string;
+  private readonly client?: GoogleGenerativeAI;
+
+  constructor(config: PaletteProviderConfig['gemini']) {
+    this.timeout = config.timeout;
+    this.model = config.model;
+
+    if (config.apiKey) {
+      this.client = new GoogleGenerativeAI(config.apiKey);
+    }
+  }
+
+  public isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    if (!this.client) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: request.options.temperature ?? DEFAULT_TEMPERATURE,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 2048,
+      },
+    });
+
+    let text: string;
+    if (request.onPartialText) {
+      const result = await model.generateContentStream(request.instructions);
+      text = '';
+      for await (const chunk of result.stream) {
+        text += chunk.text();
+        request.onPartialText(text);
+      }
+    } else {
+      const result = await model.generateContent(request.instructions);
+      text = result.response?.text();
+    }
+
+    if (!text) {
+      throw new Error('Empty response from Gemini API');
+    }
+
+    return { text, model: this.model };
+  }
+}
@@ -0,0 +1,94 @@
+// Seeded, deterministic palette provider for offline development and CI
+//
+// Produces the same JSON a language model would for a given seed, prompt and options,
+// so the full generation pipeline (parsing, harmony, accessibility) runs without network access.
+
+import { PaletteProviderConfig } from '../../config/types';
+import { GenerationOptions } from '../../types/color';
+import { hslToHex } from '../../utils/colorConversion';
+import { createSeededRandom, hashString } from '../../utils/random';
+import { PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from './PaletteProvider';
+
+// Base hues for prompts that mention a recognisable theme
+const THEME_HUES: { keywords: string[]; hue: number; theme: string }[] = [
+  { keywords: ['ocean', 'water', 'sea', 'blue'], hue: 200, theme: 'ocean' },
+  { keywords: ['sunset', 'warm', 'orange', 'autumn'], hue: 20, theme: 'sunset' },
+  { keywords: ['forest', 'nature', 'green', 'eco'], hue: 130, theme: 'forest' },
+  { keywords: ['royal', 'luxury', 'purple', 'violet'], hue: 275, theme: 'luxury' },
+  { keywords: ['love', 'romantic', 'pink', 'rose'], hue: 340, theme: 'romantic' },
+];
+
+const HARMONY_OFFSETS: Record<GenerationOptions['harmonyType'], number[]> = {
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  analogous: [0, 30, -30],
+  monochromatic: [0],
+  tetradic: [0, 90, 180, 270],
+};
+
+const HUE_NAMES = ['Red', 'Orange', 'Yellow', 'Lime', 'Green', 'Teal', 'Cyan', 'Azure', 'Blue', 'Violet', 'Magenta', 'Rose'];
+
+function describeHue(hue: number, lightness: number): string {
+  const base = HUE_NAMES[Math.round(hue / 30) % HUE_NAMES.length];
+  if (lightness < 35) return `Deep ${base}`;
+  if (lightness > 70) return `Light ${base}`;
+  return base;
+}
+
+export class MockPaletteProvider implements PaletteProvider {
+  public readonly name = 'mock' as const;
+  public readonly timeout: number;
+  public readonly supportsSeed = true;
+  public readonly model: string;
+  private readonly seed: number;
+
+  constructor(config: PaletteProviderConfig['mock']) {
+    this.timeout = config.timeout;
+    this.seed = config.seed;
+    this.model = `seed-${config.seed}`;
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    const { prompt, options } = request;
+    // Temperature and the request seed only enter the hash when set, so default palettes stay the same
+    const temperature = options.temperature === undefined ? '' : `|${options.temperature}`;
+    const requestSeed = options.seed === undefined ? '' : `|seed:${options.seed}`;
+    const random = createSeededRandom(
+      hashString(`${this.seed}|${prompt.trim().toLowerCase()}|${options.colorCount}|${options.harmonyType}|${options.includeNeutrals}${temperature}${requestSeed}`)
+    );
+
+    const promptLower = prompt.toLowerCase();
+    const theme = THEME_HUES.find(entry => entry.keywords.some(keyword => promptLower.includes(keyword)));
+    const baseHue = theme ? theme.hue + (random() - 0.5) * 20 : random() * 360;
+    const offsets = HARMONY_OFFSETS[options.harmonyType] || HARMONY_OFFSETS.complementary;
+    const neutralCount = options.includeNeutrals && options.colorCount >= 4 ? 1 : 0;
+
+    const colors = Array.from({ length: options.colorCount }, (_, index) => {
+      const isNeutral = index >= options.colorCount - neutralCount;
+      const hue = Math.round((baseHue + offsets[index % offsets.length] + (random() - 0.5) * 16 + 360) % 360);
+      const saturation = Math.round(isNeutral ? 5 + random() * 10 : 45 + random() * 40);
+      // Alternate dark and light swatches so the palette has usable contrast pairs
+      const lightness = Math.round(isNeutral ? 92 + random() * 5 : index % 2 === 0 ? 30 + random() * 20 : 55 + random() * 20);
+      const category = index === 0 ? 'primary' : isNeutral ? 'neutral' : index === 1 ? 'secondary' : 'accent';
+
+      return {
+        hex: hslToHex({ h: hue, s: saturation, l: lightness }).toUpperCase(),
+        name: isNeutral ? 'Soft Neutral' : describeHue(hue, lightness),
+        category,
+        usage: `Mock ${category} color`,
+      };
+    });
+
+    const explanation = `Deterministic mock palette (seed ${this.seed}) using ${options.harmonyType} harmony` +
+      (theme ? ` around a ${theme.theme} theme.` : '.');
+
+    return {
+      text: JSON.stringify({ colors, explanation }),
+      model: this.model,
+    };
+  }
+}
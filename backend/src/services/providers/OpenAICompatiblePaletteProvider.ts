@@ -0,0 +1,75 @@
+// Palette provider for servers implementing the OpenAI chat completions API (Ollama, llama.cpp, vLLM)
+
+import OpenAI from 'openai';
+import { PaletteProviderConfig } from '../../config/types';
+import { DEFAULT_TEMPERATURE, PaletteProvider, PaletteProviderRequest, PaletteProviderResponse } from './PaletteProvider';
+
+export class OpenAICompatiblePaletteProvider implements PaletteProvider {
+  public readonly name = 'openai-compatible' as const;
+  public readonly timeout: number;
+  public readonly supportsSeed = true;
+  public readonly model: string;
+  private readonly client?: OpenAI;
+
+  constructor(config: PaletteProviderConfig['openaiCompatible']) {
+    this.timeout = config.timeout;
+    this.model = config.model;
+
+    if (config.baseURL) {
+      this.client = new OpenAI({
+        baseURL: config.baseURL,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: config.apiKey || 'not-needed',
+        timeout: config.timeout,
+        maxRetries: 0,
+      });
+    }
+  }
+
+  public isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  public async generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse> {
+    if (!this.client) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+    }
+
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.instructions },
+    ];
+
+    if (request.onPartialText) {
+      const stream = await this.client.chat.completions.create(
+        { model: this.model, temperature: request.options.temperature ?? DEFAULT_TEMPERATURE, seed: request.options.seed, messages, stream: true },
+        { signal: request.signal }
+      );
+
+      let text = '';
+      let model = this.model;
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        text += chunk.choices[0]?.delta?.content || '';
+        request.onPartialText(text);
+      }
+
+      if (!text) {
+        throw new Error('Empty response from OpenAI-compatible server');
+      }
+      return { text, model };
+    }
+
+    const completion = await this.client.chat.completions.create(
+      { model: this.model, temperature: request.options.temperature ?? DEFAULT_TEMPERATURE, seed: request.options.seed, messages },
+      { signal: request.signal }
+    );
+
+    const text = completion.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error('Empty response from OpenAI-compatible server');
+    }
+
+    return { text, model: completion.model || this.model };
+  }
+}
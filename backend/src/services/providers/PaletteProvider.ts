@@ -0,0 +1,56 @@
+// Common interface for the AI backends that generate palettes
+
+import { PaletteProviderName } from '../../config/types';
+import { GenerationOptions, GenerationContext } from '../../types/color';
+import { ExternalServiceError } from '../../types/api';
+
+// Sampling temperature used when the generation options do not set one
+export const DEFAULT_TEMPERATURE = 0.7;
+
+export interface PaletteProviderRequest {
+  /** The user's original prompt */
+  prompt: string;
+  /** Full instructions sent to language models, including the JSON response format */
+  instructions: string;
+  /** System prompt for chat-style models */
+  systemPrompt: string;
+  options: GenerationOptions;
+  context: GenerationContext;
+  /** Cancels the request on providers whose client supports it */
+  signal?: AbortSignal;
+  /** When set, streaming-capable providers call this with the accumulated output as it arrives */
+  onPartialText?: (text: string) => void;
+}
+
+export interface PaletteProviderResponse {
+  /** Raw model output, expected to contain the palette JSON */
+  text: string;
+  /** Model that produced the output */
+  model: string;
+}
+
+export interface PaletteProvider {
+  readonly name: PaletteProviderName;
+  /** Milliseconds to wait for a response before falling back to the next provider */
+  readonly timeout: number;
+  /** Model the provider asks for; part of the generation cache key so switching models misses */
+  readonly model?: string;
+  /** Whether the same seed and options reproduce the same output; replays warn when they may not */
+  readonly supportsSeed?: boolean;
+  /** Whether the provider is configured well enough to be tried */
+  isAvailable(): boolean;
+  generate(request: PaletteProviderRequest): Promise<PaletteProviderResponse>;
+}
+
+/**
+ * Reject with an ExternalServiceError if a provider does not respond in time
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number, service: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ExternalServiceError(service, `timed out after ${timeout}ms`)), timeout);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,26 @@
+// Palette provider registry
+
+import { PaletteProviderConfig } from '../../config/types';
+import { PaletteProvider } from './PaletteProvider';
+import { GeminiPaletteProvider } from './GeminiPaletteProvider';
+import { OpenAICompatiblePaletteProvider } from './OpenAICompatiblePaletteProvider';
+import { MockPaletteProvider } from './MockPaletteProvider';
+
+export * from './PaletteProvider';
+export { GeminiPaletteProvider, OpenAICompatiblePaletteProvider, MockPaletteProvider };
+
+/**
+ * Instantiate the configured providers in fallback order
+ */
+export function createPaletteProviders(config: PaletteProviderConfig): PaletteProvider[] {
+  return config.order.map(name => {
+    switch (name) {
+      case 'gemini':
+        return new GeminiPaletteProvider(config.gemini);
+      case 'openai-compatible':
+        return new OpenAICompatiblePaletteProvider(config.openaiCompatible);
+      case 'mock':
+        return new MockPaletteProvider(config.mock);
+    }
+  });
+}
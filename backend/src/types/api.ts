@@ -109,6 +109,13 @@ export class NotFoundError extends APIError {
   }
 }
 
+export class GenerationCancelledError extends APIError {
+  constructor(message: string = 'Generation cancelled by client') {
+    super(message, 499, 'GENERATION_CANCELLED');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
 // Middleware types
 export interface RateLimitConfig {
   windowMs: number;
@@ -12,6 +12,26 @@ export interface HSL {
   l: number;
 }
 
+export interface LAB {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export type DeltaEFormula = 'CIE76' | 'CIE94' | 'CIEDE2000';
+
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
 export interface ColorData {
   hex: string;
   rgb: RGB;
@@ -19,6 +39,12 @@ export interface ColorData {
   name: string;
   category: 'primary' | 'secondary' | 'accent' | 'neutral';
   usage: string;
+  /** Why this color was chosen for the palette */
+  rationale?: string;
+  /** Psychological associations, e.g. 'trust' or 'warmth' */
+  psychology?: string[];
+  /** How the model suggested using the color; `usage` holds the recommendation shown by default */
+  suggestedUsage?: string;
   accessibility: {
     contrastWithWhite: number;
     contrastWithBlack: number;
@@ -26,12 +52,66 @@ export interface ColorData {
   };
 }
 
+export type ContrastModel = 'wcag2' | 'apca';
+
+export interface APCAFontRecommendation {
+  /** Lowest Lc magnitude for this recommendation */
+  minLc: number;
+  use: 'body' | 'content' | 'large' | 'spot' | 'non-text' | 'none';
+  description: string;
+  /** Minimum font size (px) for each font weight */
+  fonts: { size: number; weight: number }[];
+}
+
 export interface ContrastRatio {
   color1: string;
   color2: string;
   ratio: number;
   level: 'AA' | 'AAA' | 'FAIL';
   isTextReadable: boolean;
+  /** APCA lightness contrast with color1 as text on color2 */
+  apcaLc?: number;
+  apcaRecommendation?: APCAFontRecommendation;
+}
+
+export interface ContrastPairing {
+  /** Index of the text color in the palette */
+  foreground: number;
+  /** Index of the background color in the palette */
+  background: number;
+}
+
+export interface ContrastFixOptions {
+  level: 'AA' | 'AAA';
+  textSize: 'normal' | 'large';
+  /** Indices of colors that must not change */
+  lockedColors?: number[];
+}
+
+export interface ContrastFixColorDiff {
+  index: number;
+  before: string;
+  after: string;
+  changed: boolean;
+  locked: boolean;
+  /** CIEDE2000 difference between before and after */
+  deltaE: number;
+  oklch: { before: OKLCH; after: OKLCH };
+}
+
+export interface ContrastFixPairingResult extends ContrastPairing {
+  ratioBefore: number;
+  ratioAfter: number;
+  passes: boolean;
+}
+
+export interface ContrastFixResult {
+  /** Whether every pairing meets the target ratio */
+  solved: boolean;
+  targetRatio: number;
+  totalDeltaE: number;
+  colors: ContrastFixColorDiff[];
+  pairings: ContrastFixPairingResult[];
 }
 
 export interface AccessibilityScore {
@@ -41,6 +121,8 @@ export interface AccessibilityScore {
   recommendations: string[];
   passedChecks: number;
   totalChecks: number;
+  /** Model used to grade the contrast levels, WCAG 2 when absent */
+  contrastModel?: ContrastModel;
 }
 
 export interface ColorPaletteData {
@@ -49,6 +131,8 @@ export interface ColorPaletteData {
   prompt?: string;
   colors: ColorData[];
   accessibilityScore: AccessibilityScore;
+  /** Overall explanation of the palette from generation */
+  explanation?: string;
   userId?: string;
   createdAt?: Date;
   updatedAt?: Date;
@@ -58,16 +142,178 @@ export interface GenerationOptions {
   colorCount: number;
   harmonyType: 'complementary' | 'triadic' | 'analogous' | 'monochromatic' | 'tetradic';
   accessibilityLevel: 'AA' | 'AAA';
+  /** How accessibilityLevel is checked: WCAG 2 ratios (4.5/7) or APCA Lc (60/75) */
+  contrastModel?: ContrastModel;
   includeNeutrals: boolean;
+  /** Colors that must appear unchanged at fixed positions */
+  lockedColors?: LockedColor[];
+  /** Brand colors the palette is built around; kept in the palette but may be adjusted for accessibility */
+  seedColors?: string[];
+  /** Number of distinct candidate palettes to return instead of one (2-6) */
+  variants?: number;
+  /** Sampling temperature for providers that support it; provider default when absent */
+  temperature?: number;
+  /** Seed for the mock provider, providers that accept one, and post-processing; derived from the prompt when absent */
+  seed?: number;
+  /** Colors the palette must not contain; enforced after every pipeline stage */
+  exclude?: ColorExclusions;
+  /** Skip the generation cache lookup; the fresh result still replaces the cached one */
+  noCache?: boolean;
+}
+
+// Negative constraints on palette colors
+export interface ColorExclusions {
+  /** Excluded hues in degrees; from > to wraps through 0 (330-30 covers reds). Grays are never excluded by hue */
+  hueRanges?: HueRange[];
+  /** Allowed HSL saturation, 0-100 */
+  saturation?: { min?: number; max?: number };
+  /** Allowed HSL lightness, 0-100 */
+  lightness?: { min?: number; max?: number };
+  /** Specific colors, excluded along with anything within their CIEDE2000 tolerance */
+  colors?: ExcludedColor[];
+}
+
+export interface HueRange {
+  from: number;
+  to: number;
+}
+
+export interface ExcludedColor {
+  hex: string;
+  /** CIEDE2000 distance still treated as this color (default 10) */
+  tolerance?: number;
+}
+
+// A color swapped out because it violated an exclusion
+export interface ExclusionReplacement {
+  position: number;
+  original: string;
+  replacement: string;
+  /** Pipeline stage whose output contained the excluded color */
+  stage: ExclusionStage;
+  /** Human-readable constraints the original color broke */
+  violations: string[];
+  /** No allowed color was found, so the original was kept; replacement is the original */
+  unresolved?: boolean;
+}
+
+export type ExclusionStage = 'colors' | 'harmony' | 'accessibility' | 'extraction';
+
+// Colors found in brand source files (stylesheets, logos, saved pages)
+export type SourceFormat = 'css' | 'scss' | 'svg' | 'html';
+
+export interface SourceColorUsage {
+  hex: string;
+  /** Usage frequency scaled by how much the property covers for CSS, or shape area for SVG */
+  weight: number;
+  occurrences: number;
+  /** Properties or attributes the color was found in */
+  properties: string[];
+}
+
+export interface SourceColorCluster extends SourceColorUsage {
+  /** Share of the total weight of all colors found (0-1) */
+  share: number;
+  /** Colors merged into this cluster, heaviest first; the first is the cluster's color */
+  members: string[];
+}
+
+// Color quantization for image extraction: k-means favors large flat areas, median cut and
+// octree keep small distinct regions such as accents
+export type ExtractionAlgorithm = 'kmeans' | 'median-cut' | 'octree';
+
+export interface QuantizedColor {
+  rgb: RGB;
+  /** Number of sampled pixels represented by the color */
+  population: number;
+}
+
+/** Part of an image to extract colors from, in coordinates relative to its size (0-1) */
+export type ExtractionRegion =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: Array<{ x: number; y: number }> };
+
+export interface ExtractedColor {
+  hex: string;
+  rgb: RGB;
+  /** Percentage of sampled image pixels closest to this color (0-100) */
+  coverage: number;
+  /** Added by the accent slot as the most salient hue the other colors missed */
+  accent?: boolean;
+}
+
+// Color space of an uploaded image, from its embedded ICC profile or, without one, its
+// encoding; untagged RGB images are taken to be sRGB
+export type SourceColorSpace =
+  | 'srgb'
+  | 'display-p3'
+  | 'adobe-rgb'
+  | 'prophoto-rgb'
+  | 'rgb'
+  | 'cmyk'
+  | 'gray'
+  | 'unknown';
+
+// Mood boards: colors extracted from several images and merged into one palette
+export interface MoodBoardContribution {
+  /** Index of the source image in upload order */
+  image: number;
+  /** Percentage of the source image's sampled pixels closest to the merged color (0-100) */
+  coverage: number;
+  /** Percentage of the merged color's weight that came from this image (0-100) */
+  share: number;
+}
+
+export interface MoodBoardColor {
+  hex: string;
+  rgb: RGB;
+  /** Percentage of the whole board, with each image counted by its weight (0-100) */
+  coverage: number;
+  /** Images the color was found in, largest share first */
+  sources: MoodBoardContribution[];
+}
+
+export interface LockedColor {
+  hex: string;
+  /** Zero-based slot in the palette */
+  position: number;
+  category?: ColorData['category'];
+  name?: string;
+}
+
+export type ShadeStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+export interface ShadeScale {
+  base: string;
+  anchor: ShadeStep;
+  shades: Record<ShadeStep, string>;
+}
+
+export interface ShadeScaleOptions {
+  /** OKLCH lightness of the 50 step (0-1) */
+  lightest?: number;
+  /** OKLCH lightness of the 950 step (0-1) */
+  darkest?: number;
+  /** Fraction of the base chroma kept at the 50 and 950 ends (0-1) */
+  endChroma?: number;
+  /** Exponent shaping the chroma falloff away from the base color; 1 is linear */
+  chromaEasing?: number;
 }
 
-export type ColorBlindnessType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+export type ColorBlindnessType =
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia'
+  | 'protanomaly'
+  | 'deuteranomaly'
+  | 'tritanomaly'
+  | 'achromatopsia';
 
-export type ExportFormat = 'css' | 'scss' | 'json' | 'ase' | 'sketch' | 'figma' | 'tailwind';
+export type ExportFormat = 'css' | 'scss' | 'json' | 'ase' | 'sketch' | 'figma' | 'tailwind' | 'dtcg' | 'style-dictionary';
 
 export interface ExportData {
   format: ExportFormat;
-  content: string;
+  content: string | Buffer;
   filename: string;
   mimeType: string;
 }
@@ -89,6 +335,36 @@ export interface GenerationContext {
   industry?: string;
   targetAudience?: string;
   brandPersonality?: string[];
+  /** Colors named in the prompt by CSS name or hex code, excluding negated ones */
+  namedColors?: PromptNamedColor[];
+  /** Colors and qualities the prompt asks to avoid ("no red", "avoid neon") */
+  negations?: PromptNegation[];
+  /** Number of colors the prompt asks for, e.g. "five colors" */
+  colorCountHint?: number;
+  /** How sure the prompt analyzer is of each field, 0-1 (0 when not found) */
+  confidence?: PromptAnalysisConfidence;
+}
+
+export interface PromptNamedColor {
+  term: string;
+  hex: string;
+  source: 'css' | 'hex';
+}
+
+export interface PromptNegation {
+  term: string;
+  kind: 'color' | 'descriptor';
+  hex?: string;
+}
+
+export interface PromptAnalysisConfidence {
+  mood: number;
+  industry: number;
+  targetAudience: number;
+  brandPersonality: number;
+  namedColors: number;
+  negations: number;
+  colorCountHint: number;
 }
 
 export interface AIGenerationResult {
@@ -97,4 +373,96 @@ export interface AIGenerationResult {
   confidence: number;
   processingTime: number;
   model: string;
+  /** How to reproduce this result, recorded for text generations */
+  recipe?: GenerationRecipe;
+  /** Each provider request, repair and salvage tried before the palette was produced */
+  attempts?: GenerationAttempt[];
+  /** Colors replaced because they violated options.exclude */
+  replacedColors?: ExclusionReplacement[];
+  /** Whether the result came from the generation cache */
+  cached?: boolean;
+}
+
+// One step of asking providers for a palette
+export interface GenerationAttempt {
+  /** Provider name, or 'color-theory-fallback' */
+  provider: string;
+  /** 'repair' re-prompts with validation errors; 'salvage' keeps the valid hex values from invalid output */
+  stage: 'generate' | 'repair' | 'salvage' | 'fallback';
+  outcome: 'success' | 'invalid' | 'error';
+  /** Validation or request errors for unsuccessful attempts */
+  errors?: string[];
+  processingTime: number;
+}
+
+// Everything needed to re-run a text generation
+export interface GenerationRecipe {
+  /** Version of the post-processing pipeline that produced the palette */
+  pipelineVersion: number;
+  prompt: string;
+  /** Provider that produced the raw colors, or 'color-theory-fallback' */
+  provider: string;
+  /** Full model identifier as reported in generation responses, e.g. 'mock/seed-0' */
+  model: string;
+  seed: number;
+  /** Options after defaults were applied, including the seed */
+  options: GenerationOptions;
+  context: GenerationContext;
+}
+
+export interface RecipeReplayResult extends AIGenerationResult {
+  /** Reasons the replay may not match the recorded palette */
+  warnings: string[];
+}
+
+// One of several candidate palettes generated for the same prompt
+export interface PaletteVariant extends AIGenerationResult {
+  harmonyType: GenerationOptions['harmonyType'];
+  temperature?: number;
+  accessibilityScore: AccessibilityScore;
+  /** Ranking score (0-1) combining confidence and the share of passing contrast checks */
+  score: number;
+}
+
+export interface AIGenerationVariantsResult {
+  /** Distinct variants, best first; may be fewer than requested after near-duplicates are dropped */
+  variants: PaletteVariant[];
+  requested: number;
+  processingTime: number;
+}
+
+// Streaming generation progress
+export type GenerationStage = 'context' | 'colors' | 'harmony' | 'accessibility' | 'names' | 'saved';
+
+export interface GenerationProgressEvent {
+  stage: GenerationStage;
+  /** Palette as of this stage; raw model colors are reported incrementally while `partial` is true */
+  colors?: ColorData[];
+  partial?: boolean;
+  context?: GenerationContext;
+  model?: string;
+}
+
+export interface GenerationHooks {
+  onProgress?: (event: GenerationProgressEvent) => void;
+  /** Aborts generation between stages and cancels in-flight provider requests where supported */
+  signal?: AbortSignal;
+}
+
+// Alternatives for a single color within an existing palette
+export interface SlotRegenerationOptions {
+  /** Number of alternatives to suggest */
+  count?: number;
+  /** Original palette prompt, used as context for providers and naming */
+  prompt?: string;
+  harmonyType?: GenerationOptions['harmonyType'];
+  accessibilityLevel?: GenerationOptions['accessibilityLevel'];
+  contrastModel?: ContrastModel;
+}
+
+export interface SlotAlternativesResult {
+  alternatives: ColorData[];
+  explanation: string;
+  processingTime: number;
+  model: string;
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+// Unit tests for APCA contrast calculation
+
+import { calculateAPCAContrast, getAPCAFontRecommendation, getAPCALevel } from '../apca';
+
+describe('APCA Contrast', () => {
+  describe('calculateAPCAContrast', () => {
+    // Reference values from the APCA-W3 0.0.98G-4g implementation
+    const cases: [string, string, number][] = [
+      ['#000000', '#FFFFFF', 106.04],
+      ['#FFFFFF', '#000000', -107.88],
+      ['#888888', '#FFFFFF', 63.06],
+      ['#FFFFFF', '#888888', -68.54],
+    ];
+
+    it.each(cases)('should score %s text on %s as Lc %d', (text, background, expected) => {
+      expect(calculateAPCAContrast(text, background)).toBeCloseTo(expected, 1);
+    });
+
+    it('should be polarity sensitive', () => {
+      const darkOnLight = calculateAPCAContrast('#333333', '#EEEEEE');
+      const lightOnDark = calculateAPCAContrast('#EEEEEE', '#333333');
+
+      expect(darkOnLight).toBeGreaterThan(0);
+      expect(lightOnDark).toBeLessThan(0);
+      expect(Math.abs(darkOnLight)).not.toBeCloseTo(Math.abs(lightOnDark), 0);
+    });
+
+    it('should return 0 for identical and near-identical colors', () => {
+      expect(calculateAPCAContrast('#777777', '#777777')).toBe(0);
+      expect(calculateAPCAContrast('#F0F0F0', '#FFFFFF')).toBe(0);
+    });
+  });
+
+  describe('getAPCAFontRecommendation', () => {
+    it('should recommend body text at Lc 75 and above', () => {
+      const recommendation = getAPCAFontRecommendation(80);
+      expect(recommendation.use).toBe('body');
+      expect(recommendation.fonts).toContainEqual({ size: 18, weight: 400 });
+    });
+
+    it('should use the magnitude of negative Lc values', () => {
+      expect(getAPCAFontRecommendation(-62)).toEqual(getAPCAFontRecommendation(62));
+      expect(getAPCAFontRecommendation(-62).use).toBe('content');
+    });
+
+    it('should restrict low contrast to non-text or nothing', () => {
+      expect(getAPCAFontRecommendation(20).use).toBe('non-text');
+      expect(getAPCAFontRecommendation(20).fonts).toHaveLength(0);
+      expect(getAPCAFontRecommendation(5).use).toBe('none');
+    });
+  });
+
+  describe('getAPCALevel', () => {
+    it('should map Lc 60 and 75 to AA and AAA', () => {
+      expect(getAPCALevel(59.9)).toBe('FAIL');
+      expect(getAPCALevel(60)).toBe('AA');
+      expect(getAPCALevel(-75)).toBe('AAA');
+    });
+  });
+});
@@ -13,6 +13,18 @@ import {
   isValidHexColor,
   extractDominantColors,
   generateColorHarmony,
+  rgbToLab,
+  labD50ToRgb,
+  deltaE76,
+  deltaE94,
+  deltaE2000,
+  getDeltaE,
+  getPaletteDeltaE,
+  rgbToOklab,
+  rgbToOklch,
+  oklchToRgb,
+  generateShadeScale,
+  SHADE_STEPS,
 } from '../colorConversion';
 
 describe('Backend Color Conversion Utilities', () => {
@@ -162,4 +174,135 @@ describe('Backend Color Conversion Utilities', () => {
       expect(isValidHexColor('#')).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('OKLab and OKLCH', () => {
+    it('should convert reference colors to OKLab', () => {
+      const white = rgbToOklab({ r: 255, g: 255, b: 255 });
+      expect(white.l).toBeCloseTo(1, 3);
+      expect(white.a).toBeCloseTo(0, 3);
+      expect(white.b).toBeCloseTo(0, 3);
+
+      const red = rgbToOklch({ r: 255, g: 0, b: 0 });
+      expect(red.l).toBeCloseTo(0.628, 3);
+      expect(red.c).toBeCloseTo(0.2577, 3);
+      expect(red.h).toBeCloseTo(29.23, 1);
+    });
+
+    it('should round-trip through OKLCH', () => {
+      [{ r: 255, g: 107, b: 53 }, { r: 44, g: 62, b: 80 }, { r: 0, g: 255, b: 0 }].forEach(rgb => {
+        expect(oklchToRgb(rgbToOklch(rgb))).toEqual(rgb);
+      });
+    });
+
+    it('should reduce chroma to bring out-of-gamut colors into sRGB at the same lightness', () => {
+      const mapped = oklchToRgb({ l: 0.9, c: 0.4, h: 264 });
+      expect(rgbToOklab(mapped).l).toBeCloseTo(0.9, 2);
+    });
+  });
+
+  describe('generateShadeScale', () => {
+    const lightness = (hex: string) => rgbToOklab(hexToRgb(hex)).l;
+
+    it('should produce 11 steps with the base color at the nearest step', () => {
+      const scale = generateShadeScale('#ff6b35');
+
+      expect(Object.keys(scale.shades).map(Number)).toEqual(SHADE_STEPS);
+      expect(scale.anchor).toBe(400);
+      expect(scale.base).toBe('#FF6B35');
+      expect(scale.shades[400]).toBe('#FF6B35');
+    });
+
+    it('should keep lightness strictly decreasing for light, dark and saturated colors', () => {
+      ['#FF6B35', '#F3F4F6', '#FFFFFF', '#000000', '#00FF00', '#1E3A8A', '#FFFF00'].forEach(hex => {
+        const values = SHADE_STEPS.map(step => lightness(generateShadeScale(hex).shades[step]));
+        values.slice(1).forEach((value, index) => {
+          expect(value).toBeLessThan(values[index]);
+        });
+      });
+    });
+
+    it('should keep the hue of the base color', () => {
+      const base = rgbToOklch(hexToRgb('#1E3A8A'));
+      const shade = rgbToOklch(hexToRgb(generateShadeScale('#1E3A8A').shades[200]));
+      expect(Math.abs(shade.h - base.h)).toBeLessThan(3);
+    });
+
+    it('should let chroma easing control how saturated the ends are', () => {
+      const chroma = (hex: string) => rgbToOklch(hexToRgb(hex)).c;
+      const muted = generateShadeScale('#1E3A8A', { endChroma: 0 });
+      const vivid = generateShadeScale('#1E3A8A', { endChroma: 1 });
+
+      expect(chroma(muted.shades[50])).toBeLessThan(0.005);
+      expect(chroma(vivid.shades[50])).toBeGreaterThan(chroma(muted.shades[50]));
+    });
+
+    it('should reject an inverted lightness range', () => {
+      expect(() => generateShadeScale('#FF6B35', { lightest: 0.2, darkest: 0.8 })).toThrow();
+    });
+  });
+
+  describe('CIELAB and color difference', () => {
+    it('should convert reference colors to Lab', () => {
+      const white = rgbToLab({ r: 255, g: 255, b: 255 });
+      expect(white.l).toBeCloseTo(100, 2);
+      expect(white.a).toBeCloseTo(0, 2);
+      expect(white.b).toBeCloseTo(0, 2);
+
+      const red = rgbToLab({ r: 255, g: 0, b: 0 });
+      expect(red.l).toBeCloseTo(53.24, 1);
+      expect(red.a).toBeCloseTo(80.09, 1);
+      expect(red.b).toBeCloseTo(67.2, 1);
+    });
+
+    it('should convert D50 Lab, as Adobe swatches store it, back to sRGB', () => {
+      // sRGB primaries and white in D50 Lab with Bradford adaptation, as Photoshop reports them
+      expect(labD50ToRgb(54.2917, 80.8125, 69.8851)).toEqual({ r: 255, g: 0, b: 0 });
+      expect(labD50ToRgb(29.5676, 68.2986, -112.0294)).toEqual({ r: 0, g: 0, b: 255 });
+      expect(labD50ToRgb(100, 0, 0)).toEqual({ r: 255, g: 255, b: 255 });
+    });
+
+    it('should match the CIEDE2000 reference data', () => {
+      // Pairs from Sharma, Wu and Dalal (2005)
+      const pairs: [[number, number, number], [number, number, number], number][] = [
+        [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+        [[50, 0, 0], [50, -1, 2], 2.3669],
+        [[50, 2.5, 0], [73, 25, -18], 27.1492],
+        [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+        [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+      ];
+
+      pairs.forEach(([[l1, a1, b1], [l2, a2, b2], expected]) => {
+        const lab1 = { l: l1, a: a1, b: b1 };
+        const lab2 = { l: l2, a: a2, b: b2 };
+        expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+        expect(deltaE2000(lab2, lab1)).toBeCloseTo(expected, 4);
+      });
+    });
+
+    it('should compute CIE76 and CIE94 differences', () => {
+      const lab1 = { l: 50, a: 2.6772, b: -79.7751 };
+      const lab2 = { l: 50, a: 0, b: -82.7485 };
+
+      expect(deltaE76(lab1, lab2)).toBeCloseTo(4.0011, 3);
+      expect(deltaE94(lab1, lab2)).toBeLessThan(deltaE76(lab1, lab2));
+      expect(deltaE94(lab1, lab1)).toBe(0);
+    });
+
+    it('should compare HEX colors with CIEDE2000 by default', () => {
+      expect(getDeltaE('#FF0000', '#FF0000')).toBe(0);
+      expect(getDeltaE('#FFFFFF', '#000000')).toBeCloseTo(100, 0);
+      expect(getDeltaE('#FF0000', '#FE0000', 'CIE76')).toBeLessThan(1);
+      // Blue differences are overstated by CIE76 relative to CIEDE2000
+      expect(getDeltaE('#0000FF', '#0000CC')).toBeLessThan(getDeltaE('#0000FF', '#0000CC', 'CIE76'));
+    });
+
+    it('should compare whole palettes regardless of color order', () => {
+      const palette = ['#1E3A8A', '#F59E0B', '#F8FAFC'];
+
+      expect(getPaletteDeltaE(palette, [...palette].reverse())).toBe(0);
+      expect(getPaletteDeltaE(palette, ['#1E3A8B', '#F59E0C', '#F8FAFC'])).toBeLessThan(1);
+      expect(getPaletteDeltaE(palette, ['#DC2626', '#16A34A', '#111827'])).toBeGreaterThan(20);
+      expect(getPaletteDeltaE(palette, palette.slice(0, 2))).toBe(getPaletteDeltaE(palette.slice(0, 2), palette));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// Unit tests for negative color constraints
+
+import {
+  findExclusionViolations,
+  findAllowedColor,
+  enforceColorExclusions,
+  hasColorExclusions,
+} from '../colorExclusions';
+import { getDeltaE, hexToHsl } from '../colorConversion';
+
+describe('Color Exclusions', () => {
+  describe('findExclusionViolations', () => {
+    it('should match hue ranges that wrap through 0', () => {
+      const exclude = { hueRanges: [{ from: 330, to: 20 }] };
+
+      expect(findExclusionViolations('#FF0000', exclude)).toHaveLength(1);
+      expect(findExclusionViolations('#FF0066', exclude)).toHaveLength(1);
+      expect(findExclusionViolations('#00FF00', exclude)).toEqual([]);
+    });
+
+    it('should never exclude grays by hue', () => {
+      expect(findExclusionViolations('#808080', { hueRanges: [{ from: 0, to: 360 }] })).toEqual([]);
+    });
+
+    it('should check saturation and lightness bounds', () => {
+      const violations = findExclusionViolations('#FF0000', { saturation: { max: 60 }, lightness: { min: 60 } });
+
+      expect(violations).toEqual(['saturation 100 is above 60', 'lightness 50 is below 60']);
+    });
+
+    it('should exclude colors within the tolerance of an excluded color', () => {
+      const exclude = { colors: [{ hex: '#1E3A8A', tolerance: 5 }] };
+
+      expect(findExclusionViolations('#1F3B8B', exclude)).toHaveLength(1);
+      expect(findExclusionViolations('#8A1E3A', exclude)).toEqual([]);
+    });
+  });
+
+  describe('findAllowedColor', () => {
+    it('should move an excluded hue just past the nearest edge', () => {
+      const replacement = findAllowedColor('#22C55E', { hueRanges: [{ from: 90, to: 150 }] })!;
+      const hue = hexToHsl(replacement).h;
+
+      expect(hue < 90 || hue > 150).toBe(true);
+      expect(Math.min(Math.abs(hue - 90), Math.abs(hue - 150))).toBeLessThan(20);
+    });
+
+    it('should clamp saturation and lightness into bounds', () => {
+      const replacement = findAllowedColor('#FF00FF', { saturation: { max: 50 }, lightness: { max: 40 } })!;
+      const hsl = hexToHsl(replacement);
+
+      expect(hsl.s).toBeLessThanOrEqual(50.5);
+      expect(hsl.l).toBeLessThanOrEqual(40.5);
+    });
+
+    it('should step away from an excluded color', () => {
+      const replacement = findAllowedColor('#1E3A8A', { colors: [{ hex: '#1E3A8A' }] })!;
+
+      expect(getDeltaE(replacement, '#1E3A8A')).toBeGreaterThan(10);
+    });
+
+    it('should return null when nothing is allowed', () => {
+      expect(findAllowedColor('#FF0000', { saturation: { min: 60, max: 40 } })).toBeNull();
+    });
+  });
+
+  describe('enforceColorExclusions', () => {
+    it('should replace violating colors and report them', () => {
+      const result = enforceColorExclusions(
+        [{ hex: '#FF0000' }, { hex: '#0000FF' }],
+        { hueRanges: [{ from: 330, to: 20 }] },
+        'colors'
+      );
+
+      expect(result.colors[1].hex).toBe('#0000FF');
+      expect(result.replacements).toHaveLength(1);
+      expect(result.replacements[0]).toMatchObject({
+        position: 0,
+        original: '#FF0000',
+        replacement: result.colors[0].hex,
+        stage: 'colors',
+      });
+    });
+
+    it('should keep and report colors with no allowed replacement', () => {
+      const result = enforceColorExclusions([{ hex: '#ff0000' }], { saturation: { min: 60, max: 40 } }, 'harmony');
+
+      expect(result.colors[0].hex).toBe('#ff0000');
+      expect(result.replacements).toEqual([{
+        position: 0,
+        original: '#FF0000',
+        replacement: '#FF0000',
+        stage: 'harmony',
+        violations: ['saturation 100 is above 40'],
+        unresolved: true,
+      }]);
+    });
+
+    it('should leave kept colors alone', () => {
+      const result = enforceColorExclusions([{ hex: '#ff0000' }], { hueRanges: [{ from: 330, to: 20 }] }, 'colors', ['#FF0000']);
+
+      expect(result.colors[0].hex).toBe('#ff0000');
+      expect(result.replacements).toEqual([]);
+    });
+
+    it('should do nothing without constraints', () => {
+      const colors = [{ hex: '#FF0000' }];
+
+      expect(hasColorExclusions({})).toBe(false);
+      expect(enforceColorExclusions(colors, {}, 'colors').colors).toBe(colors);
+    });
+  });
+});
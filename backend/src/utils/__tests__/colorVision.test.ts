@@ -0,0 +1,62 @@
+// Unit tests for color vision deficiency simulation
+
+import { simulateCVD, simulateCVDHex, COLOR_BLINDNESS_TYPES } from '../colorVision';
+import { getDeltaE } from '../colorConversion';
+
+describe('Color Vision Deficiency Simulation', () => {
+  describe('reference results', () => {
+    // Expected values from the Machado (2009) and Brettel (1997) models in linear sRGB;
+    // the frontend copy in frontend/src/utils/colorVision.ts is tested against the same table
+    const cases: [string, 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia', string][] = [
+      ['#FF0000', 'protanopia', '#6D5F00'],
+      ['#00FF00', 'protanopia', '#FFE500'],
+      ['#FF0000', 'deuteranopia', '#A39000'],
+      ['#0000FF', 'deuteranopia', '#003DFB'],
+      ['#0000FF', 'tritanopia', '#006288'],
+      ['#00FF00', 'tritanopia', '#79E9FF'],
+      ['#FF0000', 'achromatopsia', '#7F7F7F'],
+    ];
+
+    it.each(cases)('should simulate %s under %s as %s', (hex, type, expected) => {
+      expect(simulateCVDHex(hex, type)).toBe(expected);
+    });
+  });
+
+  it('should leave neutrals unchanged for every type', () => {
+    COLOR_BLINDNESS_TYPES.forEach(type => {
+      ['#000000', '#808080', '#FFFFFF'].forEach(hex => {
+        expect(simulateCVDHex(hex, type, 1)).toBe(hex);
+      });
+    });
+  });
+
+  describe('anomalous trichromacy', () => {
+    it('should match normal vision at severity 0 and dichromacy at severity 1', () => {
+      const red = { r: 255, g: 0, b: 0 };
+
+      expect(simulateCVD(red, 'protanomaly', 0)).toEqual(red);
+      expect(simulateCVD(red, 'protanomaly', 1)).toEqual(simulateCVD(red, 'protanopia'));
+      expect(simulateCVD(red, 'deuteranomaly', 1)).toEqual(simulateCVD(red, 'deuteranopia'));
+      expect(simulateCVD(red, 'tritanomaly', 1)).toEqual(simulateCVD(red, 'tritanopia'));
+    });
+
+    it('should move further from the original as severity increases', () => {
+      const distances = [0.15, 0.35, 0.55, 0.75, 0.95].map(severity =>
+        getDeltaE('#FF6B35', simulateCVDHex('#FF6B35', 'deuteranomaly', severity))
+      );
+
+      distances.slice(1).forEach((distance, index) => {
+        expect(distance).toBeGreaterThan(distances[index]);
+      });
+    });
+
+    it('should clamp severity to 0-1', () => {
+      expect(simulateCVDHex('#FF0000', 'protanomaly', 3)).toBe(simulateCVDHex('#FF0000', 'protanopia'));
+      expect(simulateCVDHex('#FF0000', 'protanomaly', -1)).toBe('#FF0000');
+    });
+  });
+
+  it('should ignore severity for dichromacies', () => {
+    expect(simulateCVDHex('#FF0000', 'protanopia', 0.2)).toBe('#6D5F00');
+  });
+});
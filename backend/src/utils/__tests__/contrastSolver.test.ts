@@ -0,0 +1,100 @@
+// Unit tests for the minimal-change contrast solver
+
+import { solveContrast, getTargetContrastRatio } from '../contrastSolver';
+import { getContrastRatio, hexToRgb, rgbToOklch } from '../colorConversion';
+
+describe('Contrast Solver', () => {
+  describe('getTargetContrastRatio', () => {
+    it('should follow the WCAG 2 thresholds', () => {
+      expect(getTargetContrastRatio('AA', 'normal')).toBe(4.5);
+      expect(getTargetContrastRatio('AA', 'large')).toBe(3);
+      expect(getTargetContrastRatio('AAA', 'normal')).toBe(7);
+      expect(getTargetContrastRatio('AAA', 'large')).toBe(4.5);
+    });
+  });
+
+  describe('solveContrast', () => {
+    it('should leave passing palettes untouched', () => {
+      const result = solveContrast(['#000000', '#FFFFFF'], [{ foreground: 0, background: 1 }], {
+        level: 'AAA',
+        textSize: 'normal',
+      });
+
+      expect(result.solved).toBe(true);
+      expect(result.totalDeltaE).toBe(0);
+      expect(result.colors.every(color => !color.changed)).toBe(true);
+    });
+
+    it('should make every pairing pass while keeping hue', () => {
+      const colors = ['#3B82F6', '#FFFFFF', '#60A5FA', '#1E293B', '#F59E0B'];
+      const pairings = [
+        { foreground: 0, background: 1 },
+        { foreground: 2, background: 3 },
+        { foreground: 4, background: 1 },
+        { foreground: 0, background: 3 },
+      ];
+
+      const result = solveContrast(colors, pairings, { level: 'AA', textSize: 'normal' });
+
+      expect(result.solved).toBe(true);
+      result.pairings.forEach(pairing => {
+        const ratio = getContrastRatio(result.colors[pairing.foreground].after, result.colors[pairing.background].after);
+        expect(ratio).toBeGreaterThanOrEqual(4.5);
+      });
+
+      result.colors.filter(color => color.changed && color.oklch.before.c > 0.02).forEach(color => {
+        expect(Math.abs(color.oklch.after.h - color.oklch.before.h)).toBeLessThan(3);
+      });
+    });
+
+    it('should only move as far as the target requires', () => {
+      const result = solveContrast(['#3B82F6', '#FFFFFF'], [{ foreground: 0, background: 1 }], {
+        level: 'AA',
+        textSize: 'normal',
+      });
+
+      // White cannot get lighter, so the blue darkens just past 4.5:1
+      expect(result.colors[1].changed).toBe(false);
+      expect(result.pairings[0].ratioAfter).toBeGreaterThanOrEqual(4.5);
+      expect(result.pairings[0].ratioAfter).toBeLessThan(4.7);
+      expect(rgbToOklch(hexToRgb(result.colors[0].after)).l).toBeLessThan(result.colors[0].oklch.before.l);
+    });
+
+    it('should spread the change when both colors must move', () => {
+      const result = solveContrast(['#777777', '#888888'], [{ foreground: 0, background: 1 }], {
+        level: 'AAA',
+        textSize: 'normal',
+      });
+
+      expect(result.solved).toBe(true);
+      expect(result.colors[0].changed).toBe(true);
+      expect(result.colors[1].changed).toBe(true);
+      // Grays stay neutral
+      result.colors.forEach(color => expect(color.after).toMatch(/^#([0-9A-F]{2})\1\1$/));
+    });
+
+    it('should never change locked colors and report unsolvable pairings', () => {
+      const result = solveContrast(['#777777', '#888888'], [{ foreground: 0, background: 1 }], {
+        level: 'AA',
+        textSize: 'normal',
+        lockedColors: [0, 1],
+      });
+
+      expect(result.solved).toBe(false);
+      expect(result.colors.map(color => color.after)).toEqual(['#777777', '#888888']);
+      expect(result.pairings[0].passes).toBe(false);
+    });
+
+    it('should move the unlocked side of a pairing', () => {
+      const result = solveContrast(['#3B82F6', '#F1F5F9'], [{ foreground: 0, background: 1 }], {
+        level: 'AA',
+        textSize: 'normal',
+        lockedColors: [0],
+      });
+
+      expect(result.colors[0].changed).toBe(false);
+      expect(result.colors[1].changed).toBe(true);
+      expect(result.solved).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+// Tests for reading ICC profiles and converting to sRGB
+
+import { createSrgbConverter, identifyColorSpace, parseIccProfile } from '../iccProfile';
+
+const P3_COLORANTS = [[0.5151, 0.2412, -0.001], [0.292, 0.6922, 0.0419], [0.1571, 0.0666, 0.7841]];
+const ADOBE_RGB_COLORANTS = [[0.6097, 0.3111, 0.0195], [0.2053, 0.6257, 0.0609], [0.1492, 0.0632, 0.7446]];
+
+const fixed = (value: number) => Math.round(value * 65536);
+
+// Tag data, padded to four bytes
+const tag = (type: string, write: (view: DataView) => void, length: number) => {
+  const data = new Uint8Array(Math.ceil(length / 4) * 4);
+  const view = new DataView(data.buffer);
+  [...type].forEach((char, index) => view.setUint8(index, char.charCodeAt(0)));
+  write(view);
+  return data;
+};
+
+const textDescription = (text: string) =>
+  tag('desc', view => {
+    view.setUint32(8, text.length + 1);
+    [...text].forEach((char, index) => view.setUint8(12 + index, char.charCodeAt(0)));
+  }, 12 + text.length + 1);
+
+const multiLocalized = (text: string) =>
+  tag('mluc', view => {
+    view.setUint32(8, 1);
+    view.setUint32(12, 12);
+    view.setUint32(20, text.length * 2);
+    view.setUint32(24, 28);
+    [...text].forEach((char, index) => view.setUint16(28 + index * 2, char.charCodeAt(0)));
+  }, 28 + text.length * 2);
+
+const xyz = ([x, y, z]: number[]) =>
+  tag('XYZ ', view => [x, y, z].forEach((value, index) => view.setInt32(8 + index * 4, fixed(value))), 20);
+
+// The sRGB tone curve as a parametric curve
+const srgbCurve = () =>
+  tag('para', view => {
+    view.setUint16(8, 3);
+    [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045].forEach((value, index) => {
+      view.setInt32(12 + index * 4, fixed(value));
+    });
+  }, 32);
+
+const gammaCurve = (gamma: number) =>
+  tag('curv', view => {
+    view.setUint32(8, 1);
+    view.setUint16(12, Math.round(gamma * 256));
+  }, 14);
+
+const buildProfile = (colorSpace: string, tags: Record<string, Uint8Array>) => {
+  const entries = Object.entries(tags);
+  let offset = 132 + entries.length * 12;
+  const size = offset + entries.reduce((sum, [, data]) => sum + data.length, 0);
+  const profile = new Uint8Array(size);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, size);
+  [...colorSpace].forEach((char, index) => view.setUint8(16 + index, char.charCodeAt(0)));
+  [...'acsp'].forEach((char, index) => view.setUint8(36 + index, char.charCodeAt(0)));
+  view.setUint32(128, entries.length);
+  entries.forEach(([signature, data], index) => {
+    [...signature].forEach((char, charIndex) => view.setUint8(132 + index * 12 + charIndex, char.charCodeAt(0)));
+    view.setUint32(132 + index * 12 + 4, offset);
+    view.setUint32(132 + index * 12 + 8, data.length);
+    profile.set(data, offset);
+    offset += data.length;
+  });
+  return profile;
+};
+
+const rgbProfile = (description: Uint8Array, colorants: number[][], curve: () => Uint8Array) =>
+  buildProfile('RGB ', {
+    desc: description,
+    rXYZ: xyz(colorants[0]),
+    gXYZ: xyz(colorants[1]),
+    bXYZ: xyz(colorants[2]),
+    rTRC: curve(),
+    gTRC: curve(),
+    bTRC: curve(),
+  });
+
+describe('iccProfile', () => {
+  describe('parseIccProfile', () => {
+    it('should read the description, primaries and tone curves', () => {
+      const profile = parseIccProfile(rgbProfile(textDescription('Display P3'), P3_COLORANTS, srgbCurve));
+
+      expect(profile).toMatchObject({ dataColorSpace: 'RGB', description: 'Display P3' });
+      expect(profile!.matrix![0][0]).toBeCloseTo(0.5151, 4);
+      expect(profile!.curves![0](0.5)).toBeCloseTo(0.214, 3);
+    });
+
+    it('should read version 4 descriptions', () => {
+      const profile = parseIccProfile(rgbProfile(multiLocalized('Adobe RGB (1998)'), ADOBE_RGB_COLORANTS, srgbCurve));
+
+      expect(profile?.description).toBe('Adobe RGB (1998)');
+    });
+
+    it('should reject data that is not a profile', () => {
+      expect(parseIccProfile(new Uint8Array(200))).toBeNull();
+      expect(parseIccProfile(new Uint8Array(10))).toBeNull();
+    });
+  });
+
+  describe('identifyColorSpace', () => {
+    it('should recognize known color spaces by their primaries, whatever the description', () => {
+      const p3 = parseIccProfile(rgbProfile(textDescription('iPhone'), P3_COLORANTS, srgbCurve));
+      const adobe = parseIccProfile(rgbProfile(textDescription('Camera'), ADOBE_RGB_COLORANTS, () => gammaCurve(2.2)));
+      const custom = parseIccProfile(rgbProfile(textDescription('Custom'), [[0.5, 0.25, 0], [0.3, 0.7, 0.05], [0.16, 0.05, 0.77]], srgbCurve));
+
+      expect(identifyColorSpace(p3)).toBe('display-p3');
+      expect(identifyColorSpace(adobe)).toBe('adobe-rgb');
+      expect(identifyColorSpace(custom)).toBe('rgb');
+      expect(identifyColorSpace(parseIccProfile(buildProfile('CMYK', { desc: textDescription('Coated FOGRA39') })))).toBe('cmyk');
+    });
+
+    it('should fall back to the reported color space without a profile', () => {
+      expect(identifyColorSpace(null, 'srgb')).toBe('srgb');
+      expect(identifyColorSpace(null, 'cmyk')).toBe('cmyk');
+      expect(identifyColorSpace(null, 'b-w')).toBe('gray');
+      expect(identifyColorSpace(null)).toBe('unknown');
+    });
+  });
+
+  describe('createSrgbConverter', () => {
+    const convert = createSrgbConverter(parseIccProfile(rgbProfile(textDescription('Display P3'), P3_COLORANTS, srgbCurve))!)!;
+
+    it('should clip colors outside sRGB and report them', () => {
+      expect(convert({ r: 255, g: 0, b: 0 })).toEqual({ rgb: { r: 255, g: 0, b: 0 }, clipped: true });
+    });
+
+    it('should convert colors inside sRGB without clipping', () => {
+      const gray = convert({ r: 128, g: 128, b: 128 });
+      const muted = convert({ r: 180, g: 120, b: 100 });
+
+      expect(gray.clipped).toBe(false);
+      [gray.rgb.r, gray.rgb.g, gray.rgb.b].forEach(channel => expect(Math.abs(channel - 128)).toBeLessThanOrEqual(1));
+      expect(muted.clipped).toBe(false);
+      // The same values mean a more saturated color in P3 than in sRGB
+      expect(muted.rgb.r).toBeGreaterThan(180);
+      expect(muted.rgb.b).toBeLessThan(100);
+    });
+
+    it('should not convert profiles without primaries', () => {
+      expect(createSrgbConverter(parseIccProfile(buildProfile('CMYK', {}))!)).toBeNull();
+    });
+  });
+});
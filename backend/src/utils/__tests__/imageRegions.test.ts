@@ -0,0 +1,84 @@
+// Tests for region and background pixel selection
+
+import { createRegionMask, detectBackground, isPointInRegion } from '../imageRegions';
+
+// width x height RGB image from a color per pixel
+const image = (width: number, height: number, colorAt: (x: number, y: number) => number[]) => {
+  const data = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(colorAt(x, y), (y * width + x) * 3);
+    }
+  }
+  return data;
+};
+
+const count = (mask: Uint8Array) => mask.reduce((sum, value) => sum + value, 0);
+
+describe('imageRegions', () => {
+  describe('isPointInRegion', () => {
+    // An L shape, concave at (0.5, 0.5)
+    const shape = {
+      type: 'polygon' as const,
+      points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    };
+
+    it.each([
+      [0.25, 0.25, true],
+      [0.75, 0.75, true],
+      [0.75, 0.25, false],
+    ])('should test (%s, %s) against a concave polygon', (x, y, expected) => {
+      expect(isPointInRegion(x, y, shape)).toBe(expected);
+    });
+
+    it('should include the edges of rectangles', () => {
+      const rect = { type: 'rect' as const, x: 0.2, y: 0.2, width: 0.3, height: 0.3 };
+
+      expect(isPointInRegion(0.5, 0.2, rect)).toBe(true);
+      expect(isPointInRegion(0.51, 0.3, rect)).toBe(false);
+    });
+  });
+
+  describe('createRegionMask', () => {
+    it('should select pixels whose centers are inside any region', () => {
+      const mask = createRegionMask(4, 4, [
+        { type: 'rect', x: 0, y: 0, width: 0.5, height: 0.5 },
+        { type: 'rect', x: 0.75, y: 0.75, width: 0.25, height: 0.25 },
+      ]);
+
+      expect(Array.from(mask)).toEqual([
+        1, 1, 0, 0,
+        1, 1, 0, 0,
+        0, 0, 0, 0,
+        0, 0, 0, 1,
+      ]);
+    });
+  });
+
+  describe('detectBackground', () => {
+    it('should fill from the border but not into enclosed areas of the same color', () => {
+      // White background, a black ring and white inside the ring
+      const data = image(7, 7, (x, y) => {
+        const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3)) === 2;
+        return ring ? [0, 0, 0] : [250, 250, 250];
+      });
+
+      const background = detectBackground(data, 7, 7, 3)!;
+
+      expect(count(background)).toBe(24);
+      expect(background[3 * 7 + 3]).toBe(0);
+    });
+
+    it('should tolerate noise and gradients close to the border color', () => {
+      const data = image(10, 10, (x, y) => (x > 3 && x < 6 && y > 3 && y < 6 ? [200, 30, 40] : [240 - x, 240, 235 + (y % 2)]));
+
+      expect(count(detectBackground(data, 10, 10, 3)!)).toBe(96);
+    });
+
+    it('should find no background when the border has no dominant color', () => {
+      const data = image(8, 8, x => [x * 30, 255 - x * 30, (x * 70) % 255]);
+
+      expect(detectBackground(data, 8, 8, 3)).toBeNull();
+    });
+  });
+});
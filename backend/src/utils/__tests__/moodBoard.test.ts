@@ -0,0 +1,53 @@
+// Tests for merging colors across mood board images
+
+import { ExtractedColor } from '../../types/color';
+import { rgbToHex } from '../colorConversion';
+import { mergeImageColors } from '../moodBoard';
+
+const color = (r: number, g: number, b: number, coverage: number): ExtractedColor => ({
+  hex: rgbToHex({ r, g, b }),
+  rgb: { r, g, b },
+  coverage,
+});
+
+const NAVY = color(20, 40, 110, 60);
+const SAND = color(225, 200, 150, 40);
+
+describe('mergeImageColors', () => {
+  it('should merge similar colors across images and credit every image they came from', () => {
+    const colors = mergeImageColors(
+      [
+        { colors: [NAVY, SAND], weight: 1 },
+        { colors: [color(24, 44, 116, 80), color(200, 60, 50, 20)], weight: 1 },
+      ],
+      3
+    );
+
+    expect(colors.map(merged => merged.coverage)).toEqual([70, 20, 10]);
+    expect(colors[0].sources).toEqual([
+      { image: 1, coverage: 80, share: 57.1 },
+      { image: 0, coverage: 60, share: 42.9 },
+    ]);
+    expect(colors[1].sources).toEqual([{ image: 0, coverage: 40, share: 100 }]);
+    expect(colors[2].sources).toEqual([{ image: 1, coverage: 20, share: 100 }]);
+  });
+
+  it('should count each image by its weight', () => {
+    const sources = [
+      { colors: [NAVY], weight: 1 },
+      { colors: [SAND], weight: 3 },
+    ];
+
+    const colors = mergeImageColors(sources, 2);
+
+    expect(colors.map(merged => [merged.hex, merged.coverage])).toEqual([
+      [SAND.hex, 30],
+      [NAVY.hex, 15],
+    ]);
+  });
+
+  it('should return nothing without colors or weight', () => {
+    expect(mergeImageColors([], 5)).toEqual([]);
+    expect(mergeImageColors([{ colors: [NAVY], weight: 0 }], 5)).toEqual([]);
+  });
+});
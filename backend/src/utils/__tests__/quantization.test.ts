@@ -0,0 +1,84 @@
+// Tests for image color quantization
+
+import { RGB } from '../../types/color';
+import { EXTRACTION_ALGORITHMS, countNearestPixels, kMeansQuantize, quantizeColors } from '../quantization';
+import { createSeededRandom } from '../random';
+
+const fill = (rgb: RGB, count: number): RGB[] => Array.from({ length: count }, () => ({ ...rgb }));
+
+// A large sky of slightly varying blues with a small red accent
+const landscape = (): RGB[] => {
+  const random = createSeededRandom(7);
+  const jitter = () => Math.round(random() * 30);
+  const sky = Array.from({ length: 960 }, () => ({ r: 40 + jitter(), g: 90 + jitter(), b: 190 + jitter() }));
+  return [...sky, ...fill({ r: 220, g: 30, b: 40 }, 40)];
+};
+
+const isRed = (rgb: RGB) => rgb.r > 180 && rgb.g < 80 && rgb.b < 80;
+
+describe('quantization', () => {
+  const flags = [
+    ...fill({ r: 30, g: 60, b: 200 }, 600),
+    ...fill({ r: 240, g: 200, b: 40 }, 300),
+    ...fill({ r: 20, g: 160, b: 80 }, 100),
+  ];
+
+  describe.each(EXTRACTION_ALGORITHMS)('%s', algorithm => {
+    it('should find distinct colors exactly with their pixel counts, most used first', () => {
+      expect(quantizeColors(flags, 3, algorithm)).toEqual([
+        { rgb: { r: 30, g: 60, b: 200 }, population: 600 },
+        { rgb: { r: 240, g: 200, b: 40 }, population: 300 },
+        { rgb: { r: 20, g: 160, b: 80 }, population: 100 },
+      ]);
+    });
+
+    it('should account for every pixel', () => {
+      const colors = quantizeColors(landscape(), 5, algorithm);
+
+      expect(colors.length).toBeLessThanOrEqual(5);
+      expect(colors.reduce((sum, color) => sum + color.population, 0)).toBe(1000);
+    });
+
+    it('should return fewer colors than requested when the image has fewer', () => {
+      expect(quantizeColors(fill({ r: 10, g: 20, b: 30 }, 50), 5, algorithm)).toEqual([
+        { rgb: { r: 10, g: 20, b: 30 }, population: 50 },
+      ]);
+      expect(quantizeColors([], 5, algorithm)).toEqual([]);
+    });
+
+    it('should count weights in place of pixels', () => {
+      const weights = flags.map((_, index) => (index < 600 ? 0.5 : 4));
+
+      expect(quantizeColors(flags, 3, algorithm, { weights })).toEqual([
+        { rgb: { r: 240, g: 200, b: 40 }, population: 1200 },
+        { rgb: { r: 20, g: 160, b: 80 }, population: 400 },
+        { rgb: { r: 30, g: 60, b: 200 }, population: 300 },
+      ]);
+    });
+  });
+
+  describe('countNearestPixels', () => {
+    it('should assign every pixel to the closest color', () => {
+      expect(countNearestPixels(flags, [{ r: 0, g: 0, b: 255 }, { r: 255, g: 255, b: 0 }])).toEqual([600, 400]);
+      expect(countNearestPixels(flags, [])).toEqual([]);
+    });
+  });
+
+  describe('kMeansQuantize', () => {
+    it('should give the same colors for the same seed', () => {
+      const pixels = landscape();
+
+      expect(kMeansQuantize(pixels, 4)).toEqual(kMeansQuantize(pixels, 4));
+      expect(kMeansQuantize(pixels, 4, 99)).toEqual(kMeansQuantize(pixels, 4, 99));
+    });
+  });
+
+  describe('accent preservation', () => {
+    it.each(['median-cut', 'octree'] as const)('should give a small accent its own color with %s', algorithm => {
+      const colors = quantizeColors(landscape(), 2, algorithm);
+
+      expect(colors.map(color => isRed(color.rgb))).toEqual([false, true]);
+      expect(colors[1].population).toBe(40);
+    });
+  });
+});
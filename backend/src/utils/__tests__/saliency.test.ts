@@ -0,0 +1,58 @@
+// Tests for visual saliency and accent detection
+
+import { RGB } from '../../types/color';
+import { computeSaliency, findSalientAccent } from '../saliency';
+
+const RED = [220, 30, 40];
+
+// 20x20 RGB gray wall in two shades with a 2x2 red logo in the middle
+const wall = () => {
+  const data = new Uint8Array(20 * 20 * 3);
+  for (let y = 0; y < 20; y++) {
+    for (let x = 0; x < 20; x++) {
+      const isLogo = x >= 9 && x < 11 && y >= 9 && y < 11;
+      data.set(isLogo ? RED : y < 8 ? [200, 200, 200] : [120, 120, 120], (y * 20 + x) * 3);
+    }
+  }
+  return data;
+};
+
+const toPixels = (data: Uint8Array): RGB[] =>
+  Array.from({ length: data.length / 3 }, (_, index) => ({
+    r: data[index * 3],
+    g: data[index * 3 + 1],
+    b: data[index * 3 + 2],
+  }));
+
+describe('saliency', () => {
+  describe('computeSaliency', () => {
+    it('should score a small colorful subject above a large flat background', () => {
+      const saliency = computeSaliency(wall(), 20, 20, 3);
+
+      expect(saliency[9 * 20 + 9]).toBe(1);
+      expect(saliency[2 * 20 + 2]).toBeLessThan(0.1);
+      expect(saliency[18 * 20 + 18]).toBeLessThan(0.1);
+    });
+
+    it('should not scale up an image with nothing standing out', () => {
+      const saliency = computeSaliency(new Uint8Array(4 * 4 * 3).fill(128), 4, 4, 3);
+
+      expect(Math.max(...saliency)).toBeLessThan(0.01);
+    });
+  });
+
+  describe('findSalientAccent', () => {
+    const data = wall();
+    const pixels = toPixels(data);
+    const saliency = computeSaliency(data, 20, 20, 3);
+    const grays = [{ r: 200, g: 200, b: 200 }, { r: 120, g: 120, b: 120 }];
+
+    it('should find a salient hue missing from the palette', () => {
+      expect(findSalientAccent(pixels, saliency, grays)).toEqual({ rgb: { r: 220, g: 30, b: 40 }, population: 4 });
+    });
+
+    it('should find nothing when the palette already has the hue', () => {
+      expect(findSalientAccent(pixels, saliency, [...grays, { r: 200, g: 40, b: 50 }])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,195 @@
+// Tests for color extraction from brand source files
+
+import { clusterSourceColors, extractSourceColors, parseCSSColor } from '../sourceColors';
+
+const hexes = (css: string, format: Parameters<typeof extractSourceColors>[1] = 'css') =>
+  extractSourceColors(css, format).map(usage => usage.hex);
+
+describe('sourceColors', () => {
+  describe('parseCSSColor', () => {
+    it.each([
+      ['#1E3A8A', { r: 30, g: 58, b: 138 }],
+      ['#fa0', { r: 255, g: 170, b: 0 }],
+      ['#1e3a8a80', { r: 30, g: 58, b: 138 }],
+      ['rgb(30, 58, 138)', { r: 30, g: 58, b: 138 }],
+      ['rgb(30 58 138 / 50%)', { r: 30, g: 58, b: 138 }],
+      ['hsl(0, 100%, 50%)', { r: 255, g: 0, b: 0 }],
+      ['hsl(0.5turn 100% 50%)', { r: 0, g: 255, b: 255 }],
+      ['RebeccaPurple', { r: 102, g: 51, b: 153 }],
+    ])('should parse %s', (value, expected) => {
+      expect(parseCSSColor(value)).toEqual(expected);
+    });
+
+    it.each(['transparent', '#00000000', 'rgba(0, 0, 0, 0)', 'currentColor', '#12', 'rgb(var(--r), 0, 0)'])(
+      'should reject %s',
+      value => {
+        expect(parseCSSColor(value)).toBeNull();
+      }
+    );
+  });
+
+  describe('stylesheets', () => {
+    it('should weight colors by frequency and the property they paint', () => {
+      const usages = extractSourceColors(`
+        body { background: #FFFFFF; color: #111827; }
+        a { color: #2563EB; }
+        a:hover { color: #2563EB; border-bottom: 1px solid #2563EB; }
+      `, 'css');
+
+      expect(usages).toEqual([
+        { hex: '#2563EB', weight: 5, occurrences: 3, properties: ['color', 'border-bottom'] },
+        { hex: '#FFFFFF', weight: 3, occurrences: 1, properties: ['background'] },
+        { hex: '#111827', weight: 2, occurrences: 1, properties: ['color'] },
+      ]);
+    });
+
+    it('should count uses of custom properties as uses of their colors', () => {
+      const usages = extractSourceColors(`
+        :root { --brand: #E63946; --brand-dark: var(--brand); --unused: #000; }
+        .button { background-color: var(--brand-dark); }
+        .link { color: var(--missing, #457B9D); }
+      `, 'css');
+
+      expect(usages.find(usage => usage.hex === '#E63946')).toMatchObject({ weight: 5, occurrences: 3 });
+      expect(usages.find(usage => usage.hex === '#457B9D')).toMatchObject({ weight: 2 });
+      expect(usages.find(usage => usage.hex === '#000000')).toMatchObject({ weight: 1 });
+    });
+
+    it('should only read named colors in color properties', () => {
+      expect(hexes(`
+        h1 { font-family: Tomato, sans-serif; color: navy; }
+        #fade { border: 2px solid teal; }
+      `)).toEqual(['#000080', '#008080']);
+    });
+
+    it('should ignore comments, selectors and url() references', () => {
+      expect(hexes(`
+        /* old brand: #FF0000 */
+        #abc:hover { background: url(#def) no-repeat, #F1FAEE; }
+      `)).toEqual(['#F1FAEE']);
+    });
+
+    it('should resolve SCSS variables and skip line comments', () => {
+      const usages = extractSourceColors(`
+        $primary: #1D3557 !default;
+        // $old: #FF0000;
+        .nav { background: darken($primary, 10%); a { color: $primary; } }
+      `, 'scss');
+
+      expect(usages).toEqual([
+        { hex: '#1D3557', weight: 6, occurrences: 3, properties: ['$primary', 'background', 'color'] },
+      ]);
+    });
+  });
+
+  describe('HTML', () => {
+    it('should read style blocks, style attributes, color attributes and theme-color', () => {
+      expect(hexes(`
+        <html><head>
+          <meta name="theme-color" content="#0F766E">
+          <style>h1 { color: #F59E0B; }</style>
+          <script>const fallback = '#FF0000';</script>
+        </head>
+        <body bgcolor="white"><p style="color: rgb(15, 118, 110)">Hi</p><!-- #00FF00 --></body></html>
+      `, 'html')).toEqual(['#0F766E', '#FFFFFF', '#F59E0B']);
+    });
+  });
+
+  describe('SVG', () => {
+    it('should weight fills by shape area', () => {
+      const usages = extractSourceColors(`
+        <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg">
+          <rect width="100%" height="100%" fill="#F8FAFC"/>
+          <circle cx="50" cy="50" r="20" fill="#DC2626"/>
+          <path d="M10 10 h10 v10 h-10 z" fill="#1E3A8A"/>
+        </svg>
+      `, 'svg');
+
+      expect(usages.map(usage => [usage.hex, usage.weight])).toEqual([
+        ['#F8FAFC', 10000],
+        ['#DC2626', 1256.64],
+        ['#1E3A8A', 100],
+      ]);
+    });
+
+    it('should follow inherited paint, classes, gradients and the default black fill', () => {
+      const usages = extractSourceColors(`
+        <svg viewBox="0 0 100 100">
+          <defs>
+            <style><![CDATA[ .cls-1 { fill: #2A9D8F; } ]]></style>
+            <linearGradient id="sky"><stop offset="0" stop-color="#264653"/><stop offset="1" style="stop-color: #E9C46A"/></linearGradient>
+            <rect width="100" height="100" fill="#FF0000"/>
+          </defs>
+          <g fill="#F4A261"><rect width="10" height="10"/><rect class="cls-1" width="10" height="20"/></g>
+          <rect width="20" height="10" fill="url(#sky)"/>
+          <polygon points="0,0 10,0 0,10"/>
+          <line x1="0" y1="0" x2="30" y2="40" stroke="#E76F51" stroke-width="2"/>
+        </svg>
+      `, 'svg');
+
+      expect(Object.fromEntries(usages.map(usage => [usage.hex, usage.weight]))).toEqual({
+        '#2A9D8F': 200,
+        '#F4A261': 100,
+        '#264653': 100,
+        '#E9C46A': 100,
+        '#000000': 50,
+        '#E76F51': 100,
+      });
+    });
+
+    it('should read the markup before an unclosed quote, comment or tag', () => {
+      const rect = '<svg viewBox="0 0 10 10"><rect width="10" height="10" fill="#1E3A8A"/>';
+
+      expect(hexes(`${rect}<rect fill="#DC2626 width="5" height="5"/></svg>`, 'svg')).toEqual(['#1E3A8A']);
+      expect(hexes(`${rect}<!-- <rect fill="#DC2626"/></svg>`, 'svg')).toEqual(['#1E3A8A']);
+      expect(hexes(`${rect}<rect fill="#DC2626"`, 'svg')).toEqual(['#1E3A8A']);
+    });
+  });
+
+  describe('malformed files', () => {
+    // Each is about 1 MB; a backtracking scan takes minutes on these
+    const repeats = 250000;
+
+    it.each([
+      ['unclosed quotes', `<svg>${'<a "'.repeat(repeats)}`, 'svg'],
+      ['unclosed comments', `<svg>${'<!--'.repeat(repeats)}`, 'svg'],
+      ['unclosed style blocks', `<html>${'<style'.repeat(repeats)}`, 'html'],
+      ['style text without rules', `<svg><style>${'a b '.repeat(repeats)}</style></svg>`, 'svg'],
+      ['unclosed url()', `a { background: ${'url('.repeat(repeats)} }`, 'css'],
+    ] as const)('should scan %s in linear time', (_, text, format) => {
+      const start = Date.now();
+
+      expect(extractSourceColors(text, format)).toEqual([]);
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+  });
+
+  describe('clusterSourceColors', () => {
+    it('should merge near-duplicates into the heaviest color', () => {
+      const clusters = clusterSourceColors([
+        { hex: '#1E3A8A', weight: 6, occurrences: 3, properties: ['background'] },
+        { hex: '#1F3B8B', weight: 2, occurrences: 1, properties: ['color'] },
+        { hex: '#F59E0B', weight: 2, occurrences: 2, properties: ['border'] },
+      ]);
+
+      expect(clusters).toEqual([
+        {
+          hex: '#1E3A8A',
+          weight: 8,
+          occurrences: 4,
+          properties: ['background', 'color'],
+          members: ['#1E3A8A', '#1F3B8B'],
+          share: 0.8,
+        },
+        {
+          hex: '#F59E0B',
+          weight: 2,
+          occurrences: 2,
+          properties: ['border'],
+          members: ['#F59E0B'],
+          share: 0.2,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+// Adobe Swatch Exchange (.ase) binary encoding
+
+/**
+ * Color models supported by ASE color entries
+ */
+export type ASEColorModel = 'RGB' | 'CMYK' | 'LAB' | 'Gray';
+
+/**
+ * Swatch types as understood by Illustrator/Photoshop
+ */
+export type ASEColorType = 'global' | 'spot' | 'process';
+
+export interface ASESwatch {
+  name: string;
+  model: ASEColorModel;
+  /**
+   * Channel values: RGB/CMYK/Gray in 0-1, LAB as L 0-100 and a/b in -128..127
+   */
+  values: number[];
+  type: ASEColorType;
+}
+
+export interface ASEGroup {
+  name: string;
+  swatches: ASESwatch[];
+}
+
+export interface ASEDocument {
+  groups: ASEGroup[];
+  swatches: ASESwatch[];
+}
+
+export const ASE_SIGNATURE = 'ASEF';
+export const ASE_VERSION = { major: 1, minor: 0 };
+
+export const ASE_BLOCK_TYPES = {
+  groupStart: 0xc001,
+  groupEnd: 0xc002,
+  colorEntry: 0x0001,
+} as const;
+
+// Four-character model codes, padded with a trailing space where needed
+const MODEL_CODES: Record<ASEColorModel, string> = {
+  RGB: 'RGB ',
+  CMYK: 'CMYK',
+  LAB: 'LAB ',
+  Gray: 'Gray',
+};
+
+const MODEL_CHANNELS: Record<ASEColorModel, number> = {
+  RGB: 3,
+  CMYK: 4,
+  LAB: 3,
+  Gray: 1,
+};
+
+const TYPE_CODES: Record<ASEColorType, number> = {
+  global: 0,
+  spot: 1,
+  process: 2,
+};
+
+/**
+ * Encode a name as length-prefixed, null-terminated UTF-16BE
+ */
+function encodeName(name: string): Buffer {
+  const units = name.length + 1; // includes the null terminator
+  const buffer = Buffer.alloc(2 + units * 2);
+  buffer.writeUInt16BE(units, 0);
+
+  for (let i = 0; i < name.length; i++) {
+    buffer.writeUInt16BE(name.charCodeAt(i), 2 + i * 2);
+  }
+
+  return buffer;
+}
+
+function encodeBlock(type: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt32BE(body.length, 2);
+  return Buffer.concat([header, body]);
+}
+
+function encodeSwatch(swatch: ASESwatch): Buffer {
+  const channels = MODEL_CHANNELS[swatch.model];
+  if (swatch.values.length !== channels) {
+    throw new Error(`${swatch.model} swatch "${swatch.name}" requires ${channels} values, got ${swatch.values.length}`);
+  }
+
+  const values = Buffer.alloc(channels * 4);
+  swatch.values.forEach((value, index) => {
+    // ASE stores LAB lightness as a 0-1 fraction
+    const stored = swatch.model === 'LAB' && index === 0 ? value / 100 : value;
+    values.writeFloatBE(stored, index * 4);
+  });
+
+  const type = Buffer.alloc(2);
+  type.writeUInt16BE(TYPE_CODES[swatch.type], 0);
+
+  return encodeBlock(
+    ASE_BLOCK_TYPES.colorEntry,
+    Buffer.concat([encodeName(swatch.name), Buffer.from(MODEL_CODES[swatch.model], 'ascii'), values, type])
+  );
+}
+
+/**
+ * Encode swatches and groups as a binary ASE file
+ */
+export function encodeASE(document: ASEDocument): Buffer {
+  const blocks: Buffer[] = [];
+
+  document.groups.forEach(group => {
+    blocks.push(encodeBlock(ASE_BLOCK_TYPES.groupStart, encodeName(group.name)));
+    group.swatches.forEach(swatch => blocks.push(encodeSwatch(swatch)));
+    blocks.push(encodeBlock(ASE_BLOCK_TYPES.groupEnd, Buffer.alloc(0)));
+  });
+
+  document.swatches.forEach(swatch => blocks.push(encodeSwatch(swatch)));
+
+  const header = Buffer.alloc(12);
+  header.write(ASE_SIGNATURE, 0, 'ascii');
+  header.writeUInt16BE(ASE_VERSION.major, 4);
+  header.writeUInt16BE(ASE_VERSION.minor, 6);
+  header.writeUInt32BE(blocks.length, 8);
+
+  return Buffer.concat([header, ...blocks]);
+}
+
+const MODELS_BY_CODE: Record<string, ASEColorModel> = {
+  'RGB ': 'RGB',
+  CMYK: 'CMYK',
+  'LAB ': 'LAB',
+  Gray: 'Gray',
+};
+
+const TYPES_BY_CODE: ASEColorType[] = ['global', 'spot', 'process'];
+
+/**
+ * Read a length-prefixed UTF-16BE name, returning the string and the bytes consumed
+ */
+function decodeName(buffer: Buffer, offset: number): { name: string; size: number } {
+  const units = buffer.readUInt16BE(offset);
+  let name = '';
+
+  for (let i = 0; i < units; i++) {
+    const code = buffer.readUInt16BE(offset + 2 + i * 2);
+    if (code === 0) break;
+    name += String.fromCharCode(code);
+  }
+
+  return { name, size: 2 + units * 2 };
+}
+
+function decodeSwatch(body: Buffer): ASESwatch {
+  const { name, size } = decodeName(body, 0);
+  const code = body.toString('ascii', size, size + 4);
+  const model = MODELS_BY_CODE[code];
+  if (!model) {
+    throw new Error(`Unsupported ASE color model: "${code}"`);
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < MODEL_CHANNELS[model]; i++) {
+    const value = body.readFloatBE(size + 4 + i * 4);
+    values.push(model === 'LAB' && i === 0 ? value * 100 : value);
+  }
+
+  const typeOffset = size + 4 + MODEL_CHANNELS[model] * 4;
+  const type = TYPES_BY_CODE[body.readUInt16BE(typeOffset)] || 'process';
+
+  return { name, model, values, type };
+}
+
+/**
+ * Check whether a buffer starts with the ASE signature
+ */
+export function isASE(buffer: Buffer): boolean {
+  return buffer.length >= 12 && buffer.toString('ascii', 0, 4) === ASE_SIGNATURE;
+}
+
+/**
+ * Decode a binary ASE file into swatches and groups
+ */
+export function decodeASE(buffer: Buffer): ASEDocument {
+  if (!isASE(buffer)) {
+    throw new Error('Not an Adobe Swatch Exchange file');
+  }
+
+  const blockCount = buffer.readUInt32BE(8);
+  const document: ASEDocument = { groups: [], swatches: [] };
+  let currentGroup: ASEGroup | null = null;
+  let offset = 12;
+
+  for (let i = 0; i < blockCount; i++) {
+    if (offset + 6 > buffer.length) {
+      throw new Error('Unexpected end of ASE file');
+    }
+
+    const type = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt32BE(offset + 2);
+    const body = buffer.subarray(offset + 6, offset + 6 + length);
+    offset += 6 + length;
+
+    switch (type) {
+      case ASE_BLOCK_TYPES.groupStart:
+        currentGroup = { name: decodeName(body, 0).name, swatches: [] };
+        document.groups.push(currentGroup);
+        break;
+
+      case ASE_BLOCK_TYPES.groupEnd:
+        currentGroup = null;
+        break;
+
+      case ASE_BLOCK_TYPES.colorEntry: {
+        const swatch = decodeSwatch(body);
+        (currentGroup ? currentGroup.swatches : document.swatches).push(swatch);
+        break;
+      }
+
+      default:
+        // Unknown block types are skipped, as Adobe applications do
+        break;
+    }
+  }
+
+  return document;
+}
@@ -1,6 +1,6 @@
 // Color conversion utilities for backend
 
-import { RGB, HSL } from '../types/color';
+import { RGB, HSL, LAB, DeltaEFormula, OKLab, OKLCH, ShadeStep, ShadeScale, ShadeScaleOptions } from '../types/color';
 
 /**
  * Convert HEX color to RGB
@@ -121,6 +121,368 @@ export function hslToHex(hsl: HSL): string {
   return rgbToHex(rgb);
 }
 
+/**
+ * Convert CMYK (0-1 ink coverage per channel) to RGB
+ */
+export function cmykToRgb(c: number, m: number, y: number, k: number): RGB {
+  return {
+    r: Math.round(255 * (1 - c) * (1 - k)),
+    g: Math.round(255 * (1 - m) * (1 - k)),
+    b: Math.round(255 * (1 - y) * (1 - k)),
+  };
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Encode a linear-light sRGB channel (0-1) as an 8-bit value, clamping anything out of range
+ */
+export function linearToSrgb(channel: number): number {
+  const encoded = channel <= 0.0031308 ? 12.92 * channel : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+  return Math.round(Math.max(0, Math.min(1, encoded)) * 255);
+}
+
+/**
+ * Convert RGB to CIELAB (D65 white point)
+ */
+export function rgbToLab(rgb: RGB): LAB {
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+
+  // Normalise by the D65 reference white
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / 1.08883;
+
+  const epsilon = 216 / 24389;
+  const kappa = 24389 / 27;
+  const f = (t: number) => (t > epsilon ? Math.cbrt(t) : (kappa * t + 16) / 116);
+
+  return {
+    l: 116 * f(y) - 16,
+    a: 500 * (f(x) - f(y)),
+    b: 200 * (f(y) - f(z)),
+  };
+}
+// Reference whites as XYZ, with Y = 1
+const D65_WHITE = [0.95047, 1.0, 1.08883];
+const D50_WHITE = [0.96422, 1.0, 0.82521];
+
+/** D50 XYZ (the ICC connection space) to linear sRGB, with Bradford adaptation to D65 */
+export const XYZ_D50_TO_LINEAR_SRGB = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.033454],
+  [0.0719453, -0.2289914, 1.4052427],
+];
+
+function labToXyz(l: number, a: number, b: number, white: number[]): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const epsilon = 216 / 24389;
+  const kappa = 24389 / 27;
+  const finv = (t: number) => (Math.pow(t, 3) > epsilon ? Math.pow(t, 3) : (116 * t - 16) / kappa);
+
+  return [
+    white[0] * finv(fx),
+    white[1] * (l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa),
+    white[2] * finv(fz),
+  ];
+}
+
+/**
+ * Convert CIELAB (D65 white point) to RGB, clamping out-of-gamut values
+ */
+export function labToRgb(l: number, a: number, b: number): RGB {
+  const [x, y, z] = labToXyz(l, a, b, D65_WHITE);
+
+  const linear = [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ];
+
+  const [r, g, bl] = linear.map(linearToSrgb);
+
+  return { r, g, b: bl };
+}
+
+/**
+ * Convert CIELAB with the D50 white point, as Adobe swatch files store it, to RGB, clamping
+ * out-of-gamut values
+ */
+export function labD50ToRgb(l: number, a: number, b: number): RGB {
+  const xyz = labToXyz(l, a, b, D50_WHITE);
+
+  const [r, g, bl] = XYZ_D50_TO_LINEAR_SRGB.map(row =>
+    linearToSrgb(row[0] * xyz[0] + row[1] * xyz[1] + row[2] * xyz[2])
+  );
+
+  return { r, g, b: bl };
+}
+
+function oklabToLinearRgb(lab: OKLab): [number, number, number] {
+  const l = Math.pow(lab.l + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3);
+  const m = Math.pow(lab.l - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3);
+  const s = Math.pow(lab.l - 0.0894841775 * lab.a - 1.291485548 * lab.b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+/**
+ * Convert RGB to OKLab (L in 0-1)
+ */
+export function rgbToOklab(rgb: RGB): OKLab {
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/**
+ * Convert OKLab to RGB, clamping out-of-gamut values
+ */
+export function oklabToRgb(lab: OKLab): RGB {
+  const [r, g, b] = oklabToLinearRgb(lab);
+  return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+}
+
+/**
+ * Convert RGB to OKLCH (hue in degrees)
+ */
+export function rgbToOklch(rgb: RGB): OKLCH {
+  const { l, a, b } = rgbToOklab(rgb);
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c: Math.sqrt(a * a + b * b), h: h < 0 ? h + 360 : h };
+}
+
+/**
+ * Convert OKLCH to RGB, reducing chroma at constant lightness and hue until the color fits sRGB
+ */
+export function oklchToRgb(lch: OKLCH): RGB {
+  const toLab = (c: number): OKLab => ({
+    l: lch.l,
+    a: c * Math.cos((lch.h * Math.PI) / 180),
+    b: c * Math.sin((lch.h * Math.PI) / 180),
+  });
+  const inGamut = (c: number) => oklabToLinearRgb(toLab(c)).every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+
+  if (lch.l <= 0 || lch.l >= 1 || inGamut(lch.c)) {
+    return oklabToRgb(toLab(lch.c));
+  }
+
+  let low = 0;
+  let high = lch.c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (inGamut(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return oklabToRgb(toLab(low));
+}
+
+export const SHADE_STEPS: ShadeStep[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Lightness curve for the ramp, modelled on the Tailwind palette
+const SHADE_LIGHTNESS = [0.97, 0.93, 0.88, 0.81, 0.72, 0.63, 0.54, 0.46, 0.39, 0.33, 0.26];
+
+/**
+ * Generate an 11-step (50-950) shade scale for a color in OKLCH.
+ * The base color is kept verbatim at the step nearest its lightness and the remaining
+ * steps keep its hue, with strictly decreasing lightness and chroma easing towards both ends.
+ */
+export function generateShadeScale(hex: string, options: ShadeScaleOptions = {}): ShadeScale {
+  const {
+    lightest = SHADE_LIGHTNESS[0],
+    darkest = SHADE_LIGHTNESS[SHADE_LIGHTNESS.length - 1],
+    endChroma = 0.4,
+    chromaEasing = 1.5,
+  } = options;
+
+  if (!(lightest > darkest && lightest <= 1 && darkest >= 0)) {
+    throw new Error('Shade scale lightness range must satisfy 0 <= darkest < lightest <= 1');
+  }
+  if (endChroma < 0 || endChroma > 1 || chromaEasing <= 0) {
+    throw new Error('Shade scale endChroma must be within 0-1 and chromaEasing must be positive');
+  }
+
+  const base = rgbToOklch(hexToRgb(hex));
+  const last = SHADE_STEPS.length - 1;
+
+  // Stretch the curve to the requested range, then pick the step the base color replaces
+  const targets = SHADE_LIGHTNESS.map(l =>
+    darkest + ((l - SHADE_LIGHTNESS[last]) / (SHADE_LIGHTNESS[0] - SHADE_LIGHTNESS[last])) * (lightest - darkest)
+  );
+  const anchor = targets.reduce(
+    (best, l, index) => (Math.abs(l - base.l) < Math.abs(targets[best] - base.l) ? index : best),
+    0
+  );
+
+  const shades = {} as Record<ShadeStep, string>;
+  SHADE_STEPS.forEach((step, index) => {
+    if (index === anchor) {
+      shades[step] = rgbToHex(hexToRgb(hex)).toUpperCase();
+      return;
+    }
+
+    // Remap each side of the curve affinely so it meets the base lightness at the anchor
+    const lighter = index < anchor;
+    const end = lighter ? targets[0] : targets[last];
+    const l = end + ((targets[index] - end) / (targets[anchor] - end)) * (base.l - end);
+
+    const distance = lighter ? (anchor - index) / anchor : (index - anchor) / (last - anchor);
+    const c = base.c * (1 - (1 - endChroma) * Math.pow(distance, chromaEasing));
+
+    shades[step] = rgbToHex(oklchToRgb({ l, c, h: base.h })).toUpperCase();
+  });
+
+  return { base: shades[SHADE_STEPS[anchor]], anchor: SHADE_STEPS[anchor], shades };
+}
+
+/**
+ * CIE76 color difference: Euclidean distance in Lab
+ */
+export function deltaE76(lab1: LAB, lab2: LAB): number {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+}
+
+/**
+ * CIE94 color difference with graphic arts weighting
+ */
+export function deltaE94(lab1: LAB, lab2: LAB): number {
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const dL = lab1.l - lab2.l;
+  const dC = c1 - c2;
+  const dE = deltaE76(lab1, lab2);
+  const dH = Math.sqrt(Math.max(0, dE * dE - dL * dL - dC * dC));
+
+  const sC = 1 + 0.045 * c1;
+  const sH = 1 + 0.015 * c1;
+
+  return Math.sqrt(Math.pow(dL, 2) + Math.pow(dC / sC, 2) + Math.pow(dH / sH, 2));
+}
+
+/**
+ * CIEDE2000 color difference (Sharma, Wu and Dalal formulation, kL = kC = kH = 1)
+ */
+export function deltaE2000(lab1: LAB, lab2: LAB): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  const cBar = (Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b) + Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(cBar, 7) / (Math.pow(cBar, 7) + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const c1 = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const c2 = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const hueOf = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = toDegrees(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const h1 = hueOf(lab1.b, a1);
+  const h2 = hueOf(lab2.b, a2);
+
+  const dL = lab2.l - lab1.l;
+  const dC = c2 - c1;
+  let dh = 0;
+  if (c1 * c2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(dh / 2));
+
+  const lBar = (lab1.l + lab2.l) / 2;
+  const cBarPrime = (c1 + c2) / 2;
+  let hBar = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) <= 180) hBar = (h1 + h2) / 2;
+    else hBar = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+  }
+
+  const t = 1 -
+    0.17 * Math.cos(toRadians(hBar - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBar)) +
+    0.32 * Math.cos(toRadians(3 * hBar + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBar - 63));
+
+  const sL = 1 + (0.015 * Math.pow(lBar - 50, 2)) / Math.sqrt(20 + Math.pow(lBar - 50, 2));
+  const sC = 1 + 0.045 * cBarPrime;
+  const sH = 1 + 0.015 * cBarPrime * t;
+
+  const dTheta = 30 * Math.exp(-Math.pow((hBar - 275) / 25, 2));
+  const rC = 2 * Math.sqrt(Math.pow(cBarPrime, 7) / (Math.pow(cBarPrime, 7) + Math.pow(25, 7)));
+  const rT = -rC * Math.sin(toRadians(2 * dTheta));
+
+  return Math.sqrt(
+    Math.pow(dL / sL, 2) +
+    Math.pow(dC / sC, 2) +
+    Math.pow(dH / sH, 2) +
+    rT * (dC / sC) * (dH / sH)
+  );
+}
+
+/**
+ * Calculate the perceptual difference (ΔE) between two HEX colors
+ */
+export function getDeltaE(color1: string, color2: string, formula: DeltaEFormula = 'CIEDE2000'): number {
+  const lab1 = rgbToLab(hexToRgb(color1));
+  const lab2 = rgbToLab(hexToRgb(color2));
+
+  switch (formula) {
+    case 'CIE76':
+      return deltaE76(lab1, lab2);
+    case 'CIE94':
+      return deltaE94(lab1, lab2);
+    default:
+      return deltaE2000(lab1, lab2);
+  }
+}
+
+/**
+ * Palette-level ΔE: the mean distance from each color to its closest match in the other palette,
+ * averaged over both directions so palettes of different sizes compare symmetrically
+ */
+export function getPaletteDeltaE(palette1: string[], palette2: string[]): number {
+  if (palette1.length === 0 || palette2.length === 0) {
+    return palette1.length === palette2.length ? 0 : Infinity;
+  }
+
+  const meanClosest = (from: string[], to: string[]) =>
+    from.reduce((sum, hex) => sum + Math.min(...to.map(other => getDeltaE(hex, other))), 0) / from.length;
+
+  return (meanClosest(palette1, palette2) + meanClosest(palette2, palette1)) / 2;
+}
+
 /**
  * Calculate relative luminance of a color (for contrast calculations)
  */
@@ -174,32 +536,34 @@ export function isValidHexColor(hex: string): boolean {
 
 /**
  * Extract dominant colors from RGB array (for image processing)
+ * Clusters in CIELAB so that pixels are grouped by perceived (CIE76) rather than RGB distance
  */
 export function extractDominantColors(pixels: RGB[], count: number = 5): RGB[] {
+  if (pixels.length === 0) {
+    return Array(count).fill(null).map(() => ({ r: 0, g: 0, b: 0 }));
+  }
+
   // Simple k-means clustering for color extraction
   const maxIterations = 10;
-  let centroids: RGB[] = [];
+  const labPixels = pixels.map(rgbToLab);
+  let centroids: LAB[] = [];
   
   // Initialize centroids randomly
   for (let i = 0; i < count; i++) {
-    const randomPixel = pixels[Math.floor(Math.random() * pixels.length)];
+    const randomPixel = labPixels[Math.floor(Math.random() * labPixels.length)];
     centroids.push({ ...randomPixel });
   }
   
   for (let iteration = 0; iteration < maxIterations; iteration++) {
-    const clusters: RGB[][] = Array(count).fill(null).map(() => []);
+    const clusters: LAB[][] = Array(count).fill(null).map(() => []);
     
     // Assign pixels to nearest centroid
-    pixels.forEach(pixel => {
+    labPixels.forEach(pixel => {
       let minDistance = Infinity;
       let closestCentroid = 0;
       
       centroids.forEach((centroid, index) => {
-        const distance = Math.sqrt(
-          Math.pow(pixel.r - centroid.r, 2) +
-          Math.pow(pixel.g - centroid.g, 2) +
-          Math.pow(pixel.b - centroid.b, 2)
-        );
+        const distance = deltaE76(pixel, centroid);
         
         if (distance < minDistance) {
           minDistance = distance;
@@ -216,22 +580,22 @@ export function extractDominantColors(pixels: RGB[], count: number = 5): RGB[] {
       
       const sum = cluster.reduce(
         (acc, pixel) => ({
-          r: acc.r + pixel.r,
-          g: acc.g + pixel.g,
+          l: acc.l + pixel.l,
+          a: acc.a + pixel.a,
           b: acc.b + pixel.b,
         }),
-        { r: 0, g: 0, b: 0 }
+        { l: 0, a: 0, b: 0 }
       );
       
       return {
-        r: Math.round(sum.r / cluster.length),
-        g: Math.round(sum.g / cluster.length),
-        b: Math.round(sum.b / cluster.length),
+        l: sum.l / cluster.length,
+        a: sum.a / cluster.length,
+        b: sum.b / cluster.length,
       };
     });
   }
   
-  return centroids;
+  return centroids.map(centroid => labToRgb(centroid.l, centroid.a, centroid.b));
 }
 
 /**
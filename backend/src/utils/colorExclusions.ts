@@ -0,0 +1,189 @@
+// Negative color constraints
+//
+// Checks colors against excluded hue ranges, saturation and lightness bounds and specific
+// excluded colors, and replaces violating colors with the closest compliant color found by
+// shifting hue to the nearest allowed edge and stepping lightness and hue outward. Candidates
+// are ranked by CIEDE2000 distance from the original so replacements stay as close as possible.
+
+import { ColorData, ColorExclusions, ExclusionReplacement, ExclusionStage, HSL } from '../types/color';
+import { hexToRgb, rgbToHsl, hslToHex, getDeltaE } from './colorConversion';
+
+/** CIEDE2000 distance treated as the same color when an excluded color has no tolerance */
+export const DEFAULT_EXCLUSION_TOLERANCE = 10;
+
+// HSL saturation below which a color is a gray and has no meaningful hue
+const ACHROMATIC_SATURATION = 10;
+
+// Degrees a shifted hue is moved past the edge of an excluded range
+const HUE_MARGIN = 5;
+
+const LIGHTNESS_STEPS = [0, -6, 6, -12, 12, -18, 18, -24, 24, -32, 32, -40, 40];
+const HUE_STEPS = [0, -15, 15, -30, 30, -45, 45, -60, 60, -90, 90, 180];
+
+function normalizeHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isHueInRange(hue: number, from: number, to: number): boolean {
+  const h = normalizeHue(hue);
+  const start = normalizeHue(from);
+  const end = normalizeHue(to);
+  return start <= end ? h >= start && h <= end : h >= start || h <= end;
+}
+
+/**
+ * Whether any constraint is set
+ */
+export function hasColorExclusions(exclude?: ColorExclusions): exclude is ColorExclusions {
+  return !!exclude && (
+    !!exclude.hueRanges?.length ||
+    exclude.saturation?.min !== undefined ||
+    exclude.saturation?.max !== undefined ||
+    exclude.lightness?.min !== undefined ||
+    exclude.lightness?.max !== undefined ||
+    !!exclude.colors?.length
+  );
+}
+
+/**
+ * Describe every exclusion the color violates; empty when it is allowed
+ */
+export function findExclusionViolations(hex: string, exclude: ColorExclusions): string[] {
+  const hsl = rgbToHsl(hexToRgb(hex));
+  const violations: string[] = [];
+
+  if (hsl.s >= ACHROMATIC_SATURATION) {
+    for (const range of exclude.hueRanges || []) {
+      if (isHueInRange(hsl.h, range.from, range.to)) {
+        violations.push(`hue ${Math.round(hsl.h)} is in excluded range ${range.from}-${range.to}`);
+      }
+    }
+  }
+
+  const { saturation, lightness } = exclude;
+  if (saturation?.min !== undefined && hsl.s < saturation.min) {
+    violations.push(`saturation ${Math.round(hsl.s)} is below ${saturation.min}`);
+  }
+  if (saturation?.max !== undefined && hsl.s > saturation.max) {
+    violations.push(`saturation ${Math.round(hsl.s)} is above ${saturation.max}`);
+  }
+  if (lightness?.min !== undefined && hsl.l < lightness.min) {
+    violations.push(`lightness ${Math.round(hsl.l)} is below ${lightness.min}`);
+  }
+  if (lightness?.max !== undefined && hsl.l > lightness.max) {
+    violations.push(`lightness ${Math.round(hsl.l)} is above ${lightness.max}`);
+  }
+
+  for (const excluded of exclude.colors || []) {
+    const tolerance = excluded.tolerance ?? DEFAULT_EXCLUSION_TOLERANCE;
+    if (getDeltaE(hex, excluded.hex) <= tolerance) {
+      violations.push(`within ΔE ${tolerance} of excluded ${excluded.hex.toUpperCase()}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Hues to start the search from: the color's own hue, or the nearest edge outside each
+ * excluded range it falls in
+ */
+function startingHues(hue: number, exclude: ColorExclusions): number[] {
+  const ranges = (exclude.hueRanges || []).filter(range => isHueInRange(hue, range.from, range.to));
+  if (ranges.length === 0) {
+    return [hue];
+  }
+
+  return ranges
+    .flatMap(range => [range.from - HUE_MARGIN, range.to + HUE_MARGIN])
+    .map(normalizeHue)
+    .filter(candidate => !(exclude.hueRanges || []).some(range => isHueInRange(candidate, range.from, range.to)));
+}
+
+/**
+ * Find the compliant color closest to hex, or null when the constraints leave nothing nearby
+ */
+export function findAllowedColor(hex: string, exclude: ColorExclusions): string | null {
+  const hsl = rgbToHsl(hexToRgb(hex));
+  const base: HSL = {
+    h: hsl.h,
+    s: clamp(hsl.s, exclude.saturation?.min ?? 0, exclude.saturation?.max ?? 100),
+    l: clamp(hsl.l, exclude.lightness?.min ?? 0, exclude.lightness?.max ?? 100),
+  };
+
+  let best: { hex: string; distance: number } | null = null;
+  const tried = new Set<string>();
+
+  for (const hue of startingHues(base.h, exclude)) {
+    for (const hueStep of HUE_STEPS) {
+      for (const lightnessStep of LIGHTNESS_STEPS) {
+        const candidate = hslToHex({
+          h: normalizeHue(hue + hueStep),
+          s: base.s,
+          l: clamp(base.l + lightnessStep, 0, 100),
+        }).toUpperCase();
+
+        if (tried.has(candidate)) {
+          continue;
+        }
+        tried.add(candidate);
+
+        if (findExclusionViolations(candidate, exclude).length === 0) {
+          const distance = getDeltaE(hex, candidate);
+          if (!best || distance < best.distance) {
+            best = { hex: candidate, distance };
+          }
+        }
+      }
+    }
+  }
+
+  return best?.hex ?? null;
+}
+
+/**
+ * Replace every color that violates the exclusions, leaving colors in keep (locked and seed
+ * colors) as they are. Colors with no compliant replacement are left in place and reported as
+ * unresolved.
+ */
+export function enforceColorExclusions<T extends Pick<ColorData, 'hex'>>(
+  colors: T[],
+  exclude: ColorExclusions | undefined,
+  stage: ExclusionStage,
+  keep: string[] = []
+): { colors: T[]; replacements: ExclusionReplacement[] } {
+  if (!hasColorExclusions(exclude)) {
+    return { colors, replacements: [] };
+  }
+
+  const kept = new Set(keep.map(hex => hex.toUpperCase()));
+  const replacements: ExclusionReplacement[] = [];
+
+  const enforced = colors.map((color, position) => {
+    if (kept.has(color.hex.toUpperCase())) {
+      return color;
+    }
+
+    const violations = findExclusionViolations(color.hex, exclude);
+    if (violations.length === 0) {
+      return color;
+    }
+
+    const original = color.hex.toUpperCase();
+    const replacement = findAllowedColor(color.hex, exclude);
+    if (!replacement) {
+      replacements.push({ position, original, replacement: original, stage, violations, unresolved: true });
+      return color;
+    }
+
+    replacements.push({ position, original, replacement, stage, violations });
+    const rgb = hexToRgb(replacement);
+    return { ...color, hex: replacement, rgb, hsl: rgbToHsl(rgb) };
+  });
+
+  return { colors: enforced, replacements };
+}
@@ -0,0 +1,161 @@
+// Color vision deficiency (CVD) simulation in linear RGB
+//
+// Protan and deutan deficiencies use the Machado, Oliveira and Fernandes (2009)
+// matrices, interpolated between the published 0.1 severity steps. Tritan
+// deficiencies use the Brettel, Viénot and Mollon (1997) two half-plane model,
+// for which Machado's model is known to be less accurate. Anomalous trichromacy
+// blends towards the dichromat result according to severity.
+//
+// Mirrored in frontend/src/utils/colorVision.ts; both are tested against the same reference values.
+
+import { RGB, ColorBlindnessType } from '../types/color';
+import { hexToRgb, rgbToHex } from './colorConversion';
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Severity used for anomalous trichromacy when none is given
+ */
+export const DEFAULT_CVD_SEVERITY = 0.5;
+
+export const COLOR_BLINDNESS_TYPES: ColorBlindnessType[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'protanomaly',
+  'deuteranomaly',
+  'tritanomaly',
+  'achromatopsia',
+];
+
+const IDENTITY: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Machado et al. (2009), severities 0.1 to 1.0 (0.0 is the identity)
+const MACHADO_PROTAN: Matrix3[] = [
+  [0.856167, 0.182038, -0.038205, 0.029342, 0.955115, 0.015544, -0.00288, -0.001563, 1.004443],
+  [0.734766, 0.334872, -0.069637, 0.05184, 0.919198, 0.028963, -0.004928, -0.004209, 1.009137],
+  [0.630323, 0.465641, -0.095964, 0.069181, 0.890046, 0.040773, -0.006308, -0.007724, 1.014032],
+  [0.539009, 0.579343, -0.118352, 0.082546, 0.866121, 0.051332, -0.007136, -0.011959, 1.019095],
+  [0.458064, 0.679578, -0.137642, 0.092785, 0.846313, 0.060902, -0.007494, -0.016807, 1.024301],
+  [0.38545, 0.769005, -0.154455, 0.100526, 0.829802, 0.069673, -0.007442, -0.02219, 1.029632],
+  [0.319627, 0.849633, -0.169261, 0.106241, 0.815969, 0.07779, -0.007025, -0.028051, 1.035076],
+  [0.259411, 0.923008, -0.18242, 0.110296, 0.80434, 0.085364, -0.006276, -0.034346, 1.040622],
+  [0.203876, 0.990338, -0.194214, 0.112975, 0.794542, 0.092483, -0.005222, -0.041043, 1.046265],
+  [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+];
+
+const MACHADO_DEUTAN: Matrix3[] = [
+  [0.866435, 0.177704, -0.044139, 0.049567, 0.939063, 0.01137, -0.003453, 0.007233, 0.99622],
+  [0.760729, 0.319078, -0.079807, 0.090568, 0.889315, 0.020117, -0.006027, 0.013325, 0.992702],
+  [0.675425, 0.43385, -0.109275, 0.125303, 0.847755, 0.026942, -0.00795, 0.018572, 0.989378],
+  [0.605511, 0.52856, -0.134071, 0.155318, 0.812366, 0.032316, -0.009376, 0.023176, 0.9862],
+  [0.547494, 0.607765, -0.155259, 0.181692, 0.781742, 0.036566, -0.01041, 0.027275, 0.983136],
+  [0.498864, 0.674741, -0.173604, 0.205199, 0.754872, 0.039929, -0.011131, 0.030969, 0.980162],
+  [0.457771, 0.731899, -0.18967, 0.226409, 0.731012, 0.042579, -0.011595, 0.034333, 0.977261],
+  [0.422823, 0.781057, -0.203881, 0.245752, 0.709602, 0.044646, -0.011843, 0.037423, 0.974421],
+  [0.392952, 0.82361, -0.216562, 0.263559, 0.69021, 0.046232, -0.01191, 0.040281, 0.97163],
+  [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+];
+
+// Brettel et al. (1997) tritan projection for sRGB primaries: one matrix per half-plane,
+// chosen by the side of the separation plane the color falls on
+const BRETTEL_TRITAN = {
+  planeA: [1.01277, 0.13548, -0.14826, -0.01243, 0.86812, 0.14431, 0.07589, 0.805, 0.11911] as Matrix3,
+  planeB: [0.93678, 0.18979, -0.12657, 0.06154, 0.81526, 0.1232, -0.37562, 1.12767, 0.24796] as Matrix3,
+  separationNormal: [0.03901, -0.02788, -0.01113],
+};
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+  const clamped = Math.max(0, Math.min(1, channel));
+  const encoded = clamped <= 0.0031308 ? 12.92 * clamped : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+}
+
+function multiply(matrix: Matrix3, [r, g, b]: number[]): number[] {
+  return [
+    matrix[0] * r + matrix[1] * g + matrix[2] * b,
+    matrix[3] * r + matrix[4] * g + matrix[5] * b,
+    matrix[6] * r + matrix[7] * g + matrix[8] * b,
+  ];
+}
+
+/**
+ * Machado matrix for a severity, interpolating linearly between tabulated steps
+ */
+function machadoMatrix(table: Matrix3[], severity: number): Matrix3 {
+  const position = severity * 10;
+  const lowerIndex = Math.floor(position);
+  const fraction = position - lowerIndex;
+  const lower = lowerIndex === 0 ? IDENTITY : table[lowerIndex - 1];
+  const upper = lowerIndex >= 10 ? lower : table[lowerIndex];
+
+  return lower.map((value, index) => value + (upper[index] - value) * fraction) as Matrix3;
+}
+
+function simulateTritan(linear: number[], severity: number): number[] {
+  const [nr, ng, nb] = BRETTEL_TRITAN.separationNormal;
+  const side = linear[0] * nr + linear[1] * ng + linear[2] * nb;
+  const projected = multiply(side >= 0 ? BRETTEL_TRITAN.planeA : BRETTEL_TRITAN.planeB, linear);
+
+  return linear.map((value, index) => value + (projected[index] - value) * severity);
+}
+
+function simulateAchromat(linear: number[], severity: number): number[] {
+  // Rec. 709 luminance, as seen by rod monochromats
+  const luminance = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+  return linear.map(value => value + (luminance - value) * severity);
+}
+
+/**
+ * Simulate how a color appears with a color vision deficiency.
+ * Severity (0-1) applies to the anomalous trichromacies; dichromacies and
+ * achromatopsia are always simulated at full severity.
+ */
+export function simulateCVD(rgb: RGB, type: ColorBlindnessType, severity: number = DEFAULT_CVD_SEVERITY): RGB {
+  const isAnomalous = type === 'protanomaly' || type === 'deuteranomaly' || type === 'tritanomaly';
+  const amount = isAnomalous ? Math.max(0, Math.min(1, severity)) : 1;
+  const linear = [srgbToLinear(rgb.r), srgbToLinear(rgb.g), srgbToLinear(rgb.b)];
+
+  let simulated: number[];
+  switch (type) {
+    case 'protanopia':
+    case 'protanomaly':
+      simulated = multiply(machadoMatrix(MACHADO_PROTAN, amount), linear);
+      break;
+
+    case 'deuteranopia':
+    case 'deuteranomaly':
+      simulated = multiply(machadoMatrix(MACHADO_DEUTAN, amount), linear);
+      break;
+
+    case 'tritanopia':
+    case 'tritanomaly':
+      simulated = simulateTritan(linear, amount);
+      break;
+
+    case 'achromatopsia':
+      simulated = simulateAchromat(linear, amount);
+      break;
+
+    default:
+      throw new Error(`Unsupported color blindness type: ${type}`);
+  }
+
+  return {
+    r: linearToSrgb(simulated[0]),
+    g: linearToSrgb(simulated[1]),
+    b: linearToSrgb(simulated[2]),
+  };
+}
+
+/**
+ * Simulate a color vision deficiency for a HEX color
+ */
+export function simulateCVDHex(hex: string, type: ColorBlindnessType, severity?: number): string {
+  return rgbToHex(simulateCVD(hexToRgb(hex), type, severity)).toUpperCase();
+}
@@ -0,0 +1,239 @@
+// Minimal-change WCAG contrast solver
+//
+// Moves colors along OKLCH lightness, keeping their hue and reducing chroma only where
+// needed to stay in gamut, until every required foreground/background pairing meets the
+// target ratio. Candidate moves are ranked by the total CIEDE2000 change from the original
+// palette, and a final pass pulls each changed color back as far as the constraints allow.
+
+import {
+  ContrastPairing,
+  ContrastFixOptions,
+  ContrastFixResult,
+  OKLCH
+} from '../types/color';
+import {
+  hexToRgb,
+  rgbToHex,
+  rgbToOklch,
+  oklchToRgb,
+  getContrastRatio,
+  getRelativeLuminance,
+  getDeltaE
+} from './colorConversion';
+
+const MAX_ITERATIONS = 100;
+const SEARCH_STEPS = 24;
+const REFINE_PASSES = 3;
+
+// OKLCH chroma below which a color is treated as a neutral gray
+const ACHROMATIC_CHROMA = 1e-4;
+
+// Fractions of the lighter color's move tried when both colors of a pairing can change
+const SPLIT_FRACTIONS = [0.25, 0.5, 0.75, 1];
+
+/**
+ * WCAG 2 contrast ratio required for a conformance level and text size
+ */
+export function getTargetContrastRatio(level: 'AA' | 'AAA', textSize: 'normal' | 'large'): number {
+  if (level === 'AAA') {
+    return textSize === 'large' ? 4.5 : 7;
+  }
+  return textSize === 'large' ? 3 : 4.5;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function roundOklch(lch: OKLCH): OKLCH {
+  return { l: round(lch.l, 4), c: round(lch.c, 4), h: round(lch.h, 2) };
+}
+
+/**
+ * Find the smallest set of lightness changes that makes every pairing reach the target ratio.
+ * Locked colors never change; pairings that cannot be satisfied are reported as failing.
+ */
+export function solveContrast(
+  colors: string[],
+  pairings: ContrastPairing[],
+  options: ContrastFixOptions
+): ContrastFixResult {
+  const targetRatio = getTargetContrastRatio(options.level, options.textSize);
+  const locked = new Set(options.lockedColors || []);
+  const originals = colors.map(hex => rgbToHex(hexToRgb(hex)).toUpperCase());
+  const originalLch = originals.map(hex => rgbToOklch(hexToRgb(hex)));
+
+  const hexAt = (index: number, lightness: number): string => {
+    if (lightness === originalLch[index].l) {
+      return originals[index];
+    }
+
+    const rgb = oklchToRgb({ ...originalLch[index], l: lightness });
+    if (originalLch[index].c < ACHROMATIC_CHROMA) {
+      // Keep grays neutral when channel rounding straddles a boundary
+      const gray = Math.round((rgb.r + rgb.g + rgb.b) / 3);
+      return rgbToHex({ r: gray, g: gray, b: gray }).toUpperCase();
+    }
+    return rgbToHex(rgb).toUpperCase();
+  };
+
+  const ratioOf = (hexes: string[], pairing: ContrastPairing) =>
+    getContrastRatio(hexes[pairing.foreground], hexes[pairing.background]);
+
+  const countFailures = (hexes: string[]) =>
+    pairings.filter(pairing => ratioOf(hexes, pairing) < targetRatio).length;
+
+  const totalCost = (hexes: string[]) =>
+    hexes.reduce((sum, hex, index) => sum + (hex === originals[index] ? 0 : getDeltaE(originals[index], hex)), 0);
+
+  /**
+   * Binary search the lightness closest to the current one, in one direction, at which
+   * a color reaches the target against a fixed partner; null if even black/white fails
+   */
+  const searchLightness = (index: number, partner: string, from: number, direction: 'up' | 'down'): number | null => {
+    const extreme = direction === 'up' ? 1 : 0;
+    if (getContrastRatio(hexAt(index, extreme), partner) < targetRatio) {
+      return null;
+    }
+
+    let failing = from;
+    let passing = extreme;
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+      const mid = (failing + passing) / 2;
+      if (getContrastRatio(hexAt(index, mid), partner) >= targetRatio) {
+        passing = mid;
+      } else {
+        failing = mid;
+      }
+    }
+
+    return passing;
+  };
+
+  let lightness = originalLch.map(lch => lch.l);
+  let hexes = [...originals];
+  const unreachable = new Set<ContrastPairing>();
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Work on the worst failing pairing that still has a possible move
+    const pairing = pairings
+      .filter(candidate => !unreachable.has(candidate) && ratioOf(hexes, candidate) < targetRatio)
+      .sort((a, b) => ratioOf(hexes, a) - ratioOf(hexes, b))[0];
+    if (!pairing) break;
+
+    const candidates: number[][] = [];
+    const movable = [pairing.foreground, pairing.background].filter(index => !locked.has(index));
+
+    movable.forEach(index => {
+      const partner = hexes[index === pairing.foreground ? pairing.background : pairing.foreground];
+      (['up', 'down'] as const).forEach(direction => {
+        const target = searchLightness(index, partner, lightness[index], direction);
+        if (target !== null) {
+          candidates.push(lightness.map((l, i) => (i === index ? target : l)));
+        }
+      });
+    });
+
+    // Spread the change across both colors: lighten the lighter one part of the way, then darken the other
+    if (movable.length === 2) {
+      const luminance = (index: number) => getRelativeLuminance(hexToRgb(hexes[index]));
+      const [lighter, darker] = luminance(pairing.foreground) >= luminance(pairing.background)
+        ? [pairing.foreground, pairing.background]
+        : [pairing.background, pairing.foreground];
+      // Up to where the lighter color would pass alone, or all the way to white if it cannot
+      const reach = searchLightness(lighter, hexes[darker], lightness[lighter], 'up') ?? 1;
+
+      SPLIT_FRACTIONS.forEach(fraction => {
+        const lighterL = lightness[lighter] + (reach - lightness[lighter]) * fraction;
+        const darkerL = searchLightness(darker, hexAt(lighter, lighterL), lightness[darker], 'down');
+        if (darkerL !== null) {
+          candidates.push(lightness.map((l, i) => (i === lighter ? lighterL : i === darker ? darkerL : l)));
+        }
+      });
+    }
+
+    if (candidates.length === 0) {
+      unreachable.add(pairing);
+      continue;
+    }
+
+    // Prefer moves that leave the fewest failing pairings, then the smallest total change
+    const ranked = candidates
+      .map(candidate => {
+        const candidateHexes = candidate.map((l, index) => hexAt(index, l));
+        return { candidate, candidateHexes, failures: countFailures(candidateHexes), cost: totalCost(candidateHexes) };
+      })
+      .sort((a, b) => a.failures - b.failures || a.cost - b.cost);
+
+    lightness = ranked[0].candidate;
+    hexes = ranked[0].candidateHexes;
+  }
+
+  // Pull each changed color back towards its original as far as the passing pairings allow
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    hexes.forEach((_, index) => {
+      const original = originalLch[index].l;
+      if (locked.has(index) || lightness[index] === original) return;
+
+      const passingBefore = pairings.filter(pairing => ratioOf(hexes, pairing) >= targetRatio);
+      const current = lightness[index];
+      const holdsAt = (l: number) => {
+        const trial = hexes.map((hex, i) => (i === index ? hexAt(index, l) : hex));
+        return passingBefore.every(pairing => ratioOf(trial, pairing) >= targetRatio);
+      };
+
+      let best = current;
+      if (holdsAt(original)) {
+        best = original;
+      } else {
+        let failing = original;
+        for (let i = 0; i < SEARCH_STEPS; i++) {
+          const mid = (failing + best) / 2;
+          if (holdsAt(mid)) {
+            best = mid;
+          } else {
+            failing = mid;
+          }
+        }
+      }
+
+      lightness[index] = best;
+      hexes[index] = hexAt(index, best);
+    });
+  }
+
+  const pairingResults = pairings.map(pairing => {
+    const ratioAfter = ratioOf(hexes, pairing);
+    return {
+      ...pairing,
+      ratioBefore: ratioOf(originals, pairing),
+      ratioAfter,
+      passes: ratioAfter >= targetRatio,
+    };
+  });
+
+  const colorDiffs = originals.map((before, index) => {
+    const after = hexes[index];
+    return {
+      index,
+      before,
+      after,
+      changed: after !== before,
+      locked: locked.has(index),
+      deltaE: after === before ? 0 : round(getDeltaE(before, after), 2),
+      oklch: {
+        before: roundOklch(originalLch[index]),
+        after: roundOklch(rgbToOklch(hexToRgb(after))),
+      },
+    };
+  });
+
+  return {
+    solved: pairingResults.every(pairing => pairing.passes),
+    targetRatio,
+    totalDeltaE: round(totalCost(hexes), 2),
+    colors: colorDiffs,
+    pairings: pairingResults,
+  };
+}
@@ -0,0 +1,202 @@
+// ICC profiles embedded in uploaded images
+//
+// Phones save photos in Display P3 and cameras often in Adobe RGB; read as sRGB, their colors
+// come out duller and shifted. This reads the profile header and description and, for
+// matrix/TRC RGB profiles (which covers the common wide-gamut ones), the primaries and tone
+// curves, so pixels can be converted to sRGB here and the ones outside its gamut counted.
+
+import { RGB, SourceColorSpace } from '../types/color';
+import { XYZ_D50_TO_LINEAR_SRGB, linearToSrgb } from './colorConversion';
+
+export interface IccProfile {
+  /** Data color space signature from the header, trimmed, e.g. 'RGB', 'CMYK' or 'GRAY' */
+  dataColorSpace: string;
+  /** Profile description, e.g. 'Display P3' */
+  description?: string;
+  /** RGB to D50 XYZ matrix from the colorant tags, rows X, Y and Z; matrix/TRC RGB profiles only */
+  matrix?: number[][];
+  /** Tone curve per channel from encoded (0-1) to linear values; matrix/TRC RGB profiles only */
+  curves?: Array<(value: number) => number>;
+}
+
+export interface SrgbConversion {
+  rgb: RGB;
+  /** Whether the color was outside the sRGB gamut and moved to its edge */
+  clipped: boolean;
+}
+
+// Linear distance outside 0-1 still treated as inside the gamut, for rounding in the profile
+const GAMUT_TOLERANCE = 0.002;
+
+// Largest colorant difference for a profile to count as a known color space
+const COLORANT_TOLERANCE = 0.005;
+
+// Red, green and blue colorants of known color spaces as stored in ICC profiles (D50 XYZ)
+const KNOWN_COLORANTS: Array<{ colorSpace: SourceColorSpace; colorants: number[][] }> = [
+  { colorSpace: 'srgb', colorants: [[0.4361, 0.2225, 0.0139], [0.3851, 0.7169, 0.0971], [0.1431, 0.0606, 0.7141]] },
+  { colorSpace: 'display-p3', colorants: [[0.5151, 0.2412, -0.001], [0.292, 0.6922, 0.0419], [0.1571, 0.0666, 0.7841]] },
+  { colorSpace: 'adobe-rgb', colorants: [[0.6097, 0.3111, 0.0195], [0.2053, 0.6257, 0.0609], [0.1492, 0.0632, 0.7446]] },
+  { colorSpace: 'prophoto-rgb', colorants: [[0.7977, 0.288, 0], [0.1352, 0.7119, 0], [0.0313, 0.0001, 0.8249]] },
+];
+
+function signature(view: DataView, offset: number): string {
+  return String.fromCharCode(...[0, 1, 2, 3].map(index => view.getUint8(offset + index)));
+}
+
+function s15Fixed16(view: DataView, offset: number): number {
+  return view.getInt32(offset) / 65536;
+}
+
+function readDescription(view: DataView, offset: number): string | undefined {
+  const type = signature(view, offset);
+  if (type === 'desc') {
+    // textDescriptionType (v2): ASCII with a count that includes the terminating null
+    const length = view.getUint32(offset + 8);
+    const bytes = Array.from({ length }, (_, index) => view.getUint8(offset + 12 + index));
+    return String.fromCharCode(...bytes).replace(/\0.*$/s, '').trim();
+  }
+  if (type === 'mluc') {
+    // multiLocalizedUnicodeType (v4): the first record, in UTF-16BE
+    if (view.getUint32(offset + 8) === 0) return undefined;
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    const units = Array.from({ length: length / 2 }, (_, index) => view.getUint16(start + index * 2));
+    return String.fromCharCode(...units).replace(/\0.*$/s, '').trim();
+  }
+  return undefined;
+}
+
+function readCurve(view: DataView, offset: number): ((value: number) => number) | null {
+  const type = signature(view, offset);
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8);
+    if (count === 0) {
+      return value => value;
+    }
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256;
+      return value => Math.pow(value, gamma);
+    }
+    const table = Array.from({ length: count }, (_, index) => view.getUint16(offset + 12 + index * 2) / 65535);
+    return value => {
+      const position = Math.min(1, Math.max(0, value)) * (count - 1);
+      const index = Math.min(count - 2, Math.floor(position));
+      return table[index] + (table[index + 1] - table[index]) * (position - index);
+    };
+  }
+  if (type === 'para') {
+    const functionType = view.getUint16(offset + 8);
+    const parameterCount = [1, 3, 4, 5, 7][functionType];
+    if (parameterCount === undefined) return null;
+    const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from(
+      { length: parameterCount },
+      (_, index) => s15Fixed16(view, offset + 12 + index * 4)
+    );
+    switch (functionType) {
+      case 0:
+        return value => Math.pow(value, g);
+      case 1:
+        return value => (value >= -b / a ? Math.pow(a * value + b, g) : 0);
+      case 2:
+        return value => (value >= -b / a ? Math.pow(a * value + b, g) + c : c);
+      case 3:
+        return value => (value >= d ? Math.pow(a * value + b, g) : c * value);
+      default:
+        return value => (value >= d ? Math.pow(a * value + b, g) + e : c * value + f);
+    }
+  }
+  return null;
+}
+
+/**
+ * Read an ICC profile, or null when the data is not one
+ */
+export function parseIccProfile(data: Uint8Array): IccProfile | null {
+  if (data.length < 132) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (signature(view, 36) !== 'acsp') {
+    return null;
+  }
+
+  try {
+    const tags = new Map<string, number>();
+    const tagCount = view.getUint32(128);
+    for (let index = 0; index < tagCount; index++) {
+      const entry = 132 + index * 12;
+      tags.set(signature(view, entry), view.getUint32(entry + 4));
+    }
+
+    const profile: IccProfile = { dataColorSpace: signature(view, 16).trim() };
+    if (tags.has('desc')) {
+      profile.description = readDescription(view, tags.get('desc')!);
+    }
+
+    const colorantTags = ['rXYZ', 'gXYZ', 'bXYZ'];
+    const curveTags = ['rTRC', 'gTRC', 'bTRC'];
+    if (profile.dataColorSpace === 'RGB' && [...colorantTags, ...curveTags].every(tag => tags.has(tag))) {
+      const colorants = colorantTags.map(tag => [0, 4, 8].map(step => s15Fixed16(view, tags.get(tag)! + 8 + step)));
+      const curves = curveTags.map(tag => readCurve(view, tags.get(tag)!));
+      if (curves.every(curve => curve !== null)) {
+        // Colorants are the matrix columns
+        profile.matrix = [0, 1, 2].map(row => colorants.map(colorant => colorant[row]));
+        profile.curves = curves as Array<(value: number) => number>;
+      }
+    }
+    return profile;
+  } catch {
+    // Tags pointing past the end of the data
+    return null;
+  }
+}
+
+/**
+ * Color space of an image from its ICC profile, or from sharp's reported color space
+ * ('srgb', 'cmyk', 'b-w', ...) when it has none
+ */
+export function identifyColorSpace(profile: IccProfile | null, space?: string): SourceColorSpace {
+  if (!profile) {
+    if (!space) return 'unknown';
+    if (space === 'cmyk') return 'cmyk';
+    if (space === 'b-w' || space === 'grey16') return 'gray';
+    return ['srgb', 'rgb', 'rgb16', 'scrgb'].includes(space) ? 'srgb' : 'unknown';
+  }
+
+  if (profile.dataColorSpace === 'CMYK') return 'cmyk';
+  if (profile.dataColorSpace === 'GRAY') return 'gray';
+  if (profile.dataColorSpace !== 'RGB') return 'unknown';
+
+  const { matrix } = profile;
+  const known = matrix && KNOWN_COLORANTS.find(({ colorants }) =>
+    colorants.every((colorant, column) =>
+      colorant.every((value, row) => Math.abs(matrix[row][column] - value) <= COLORANT_TOLERANCE)
+    )
+  );
+  return known ? known.colorSpace : 'rgb';
+}
+
+/**
+ * Converter from a matrix/TRC RGB profile's 8-bit values to sRGB, or null for other profiles
+ */
+export function createSrgbConverter(profile: IccProfile): ((rgb: RGB) => SrgbConversion) | null {
+  const { matrix, curves } = profile;
+  if (!matrix || !curves) {
+    return null;
+  }
+
+  const toSrgb = XYZ_D50_TO_LINEAR_SRGB.map(row =>
+    [0, 1, 2].map(column => row.reduce((sum, value, index) => sum + value * matrix[index][column], 0))
+  );
+  const linear = curves.map(curve => Array.from({ length: 256 }, (_, value) => curve(value / 255)));
+
+  return ({ r, g, b }) => {
+    const source = [linear[0][r], linear[1][g], linear[2][b]];
+    const [red, green, blue] = toSrgb.map(row => row[0] * source[0] + row[1] * source[1] + row[2] * source[2]);
+    const clipped = [red, green, blue].some(value => value < -GAMUT_TOLERANCE || value > 1 + GAMUT_TOLERANCE);
+    return {
+      rgb: { r: linearToSrgb(red), g: linearToSrgb(green), b: linearToSrgb(blue) },
+      clipped,
+    };
+  };
+}
@@ -0,0 +1,147 @@
+// Pixel selection for color extraction from part of an image
+//
+// Regions are rectangles and polygons in coordinates relative to the image (0-1), so they stay
+// valid however the image is resized before sampling. A pixel is inside a region when its
+// center is. Background detection flood-fills from the image border through pixels close to
+// the most common border color, which finds plain studio and product-shot backgrounds without
+// touching subjects of a similar color that do not reach the border.
+
+import { ExtractionRegion, LAB } from '../types/color';
+import { rgbToLab, deltaE76 } from './colorConversion';
+
+/** CIE76 distance from the border color within which a pixel counts as background */
+export const BACKGROUND_TOLERANCE = 12;
+
+// Share of the border the most common border color must cover to be treated as a background
+const MIN_BORDER_SHARE = 0.4;
+
+/**
+ * Whether a point, in relative coordinates, is inside a region
+ */
+export function isPointInRegion(x: number, y: number, region: ExtractionRegion): boolean {
+  if (region.type === 'rect') {
+    return x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+  }
+
+  // Even-odd ray casting
+  const { points } = region;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 1 for each pixel of a width × height image whose center is inside any of the regions
+ */
+export function createRegionMask(width: number, height: number, regions: ExtractionRegion[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = (x + 0.5) / width;
+      const py = (y + 0.5) / height;
+      if (regions.some(region => isPointInRegion(px, py, region))) {
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+  return mask;
+}
+
+/**
+ * 1 for each background pixel connected to the image border, or null when the border has no
+ * dominant color to treat as a background
+ */
+export function detectBackground(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  channels: number,
+  tolerance: number = BACKGROUND_TOLERANCE
+): Uint8Array | null {
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) {
+    border.push(x);
+    if (height > 1) border.push((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    border.push(y * width);
+    if (width > 1) border.push(y * width + width - 1);
+  }
+  if (border.length === 0) {
+    return null;
+  }
+
+  const isTransparent = (index: number) => channels === 4 && data[index * 4 + 3] < 128;
+
+  // Most common border color, binned to 4 bits per channel and averaged within the bin
+  const bins = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (const index of border) {
+    if (isTransparent(index)) continue;
+    const offset = index * channels;
+    const key = ((data[offset] >> 4) << 8) | ((data[offset + 1] >> 4) << 4) | (data[offset + 2] >> 4);
+    const bin = bins.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+    bin.r += data[offset];
+    bin.g += data[offset + 1];
+    bin.b += data[offset + 2];
+    bin.count++;
+    bins.set(key, bin);
+  }
+
+  const transparentBorder = border.filter(isTransparent).length;
+  let reference: LAB | null = null;
+  let referenceCount = 0;
+  bins.forEach(bin => {
+    if (bin.count > referenceCount) {
+      referenceCount = bin.count;
+      reference = rgbToLab({ r: bin.r / bin.count, g: bin.g / bin.count, b: bin.b / bin.count });
+    }
+  });
+  if (Math.max(referenceCount, transparentBorder) < border.length * MIN_BORDER_SHARE) {
+    return null;
+  }
+
+  const isBackground = (index: number): boolean => {
+    if (isTransparent(index)) return true;
+    if (!reference) return false;
+    const offset = index * channels;
+    const lab = rgbToLab({ r: data[offset], g: data[offset + 1], b: data[offset + 2] });
+    return deltaE76(lab, reference) <= tolerance;
+  };
+
+  const background = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  for (const index of border) {
+    if (!background[index] && isBackground(index)) {
+      background[index] = 1;
+      queue[tail++] = index;
+    }
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % width;
+    const neighbors = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      index - width,
+      index + width,
+    ];
+    for (const neighbor of neighbors) {
+      if (neighbor < 0 || neighbor >= width * height || background[neighbor]) continue;
+      if (isBackground(neighbor)) {
+        background[neighbor] = 1;
+        queue[tail++] = neighbor;
+      }
+    }
+  }
+
+  return background;
+}
@@ -0,0 +1,95 @@
+// Mood board palettes merged from several images
+//
+// Each image's extracted colors are weighted by the image's share of the total weight and by how
+// much of the image they cover, then clustered together in CIELAB with weighted k-means. A color
+// found in several images, or prominent in a heavily weighted one, leads the board. Every source
+// color is credited to the merged color nearest to it, which records the images each came from.
+
+import { ExtractedColor, LAB, MoodBoardColor, MoodBoardContribution } from '../types/color';
+import { rgbToHex, rgbToLab, deltaE76 } from './colorConversion';
+import { DEFAULT_QUANTIZATION_SEED, kMeansQuantize } from './quantization';
+
+export interface MoodBoardSource {
+  /** Colors extracted from the image with their coverage */
+  colors: ExtractedColor[];
+  /** Relative importance of the image; any positive number */
+  weight: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function nearestIndex(lab: LAB, candidates: LAB[]): number {
+  let closest = 0;
+  candidates.forEach((candidate, index) => {
+    if (deltaE76(lab, candidate) < deltaE76(lab, candidates[closest])) {
+      closest = index;
+    }
+  });
+  return closest;
+}
+
+/**
+ * Merge the colors extracted from several images into at most `count` colors, largest share
+ * of the board first
+ */
+export function mergeImageColors(
+  sources: MoodBoardSource[],
+  count: number,
+  seed: number = DEFAULT_QUANTIZATION_SEED
+): MoodBoardColor[] {
+  const totalWeight = sources.reduce((sum, source) => sum + source.weight, 0);
+  if (totalWeight <= 0) {
+    return [];
+  }
+
+  const entries = sources.flatMap((source, image) =>
+    source.colors.map(color => ({
+      image,
+      color,
+      weight: (source.weight / totalWeight) * (color.coverage / 100),
+    }))
+  );
+
+  const merged = kMeansQuantize(
+    entries.map(entry => entry.color.rgb),
+    count,
+    seed,
+    entries.map(entry => entry.weight)
+  );
+
+  // Credit each source color to its nearest merged color
+  const mergedLabs = merged.map(color => rgbToLab(color.rgb));
+  const contributions = merged.map(() => new Map<number, MoodBoardContribution>());
+  const weights = merged.map(() => 0);
+  entries.forEach(entry => {
+    const nearest = nearestIndex(rgbToLab(entry.color.rgb), mergedLabs);
+    const existing = contributions[nearest].get(entry.image);
+    if (existing) {
+      existing.coverage += entry.color.coverage;
+      existing.share += entry.weight;
+    } else {
+      contributions[nearest].set(entry.image, {
+        image: entry.image,
+        coverage: entry.color.coverage,
+        share: entry.weight,
+      });
+    }
+    weights[nearest] += entry.weight;
+  });
+
+  return merged
+    .map(({ rgb }, index) => ({
+      hex: rgbToHex(rgb),
+      rgb,
+      coverage: round1(weights[index] * 100),
+      sources: Array.from(contributions[index].values())
+        .map(source => ({
+          image: source.image,
+          coverage: round1(source.coverage),
+          share: round1((source.share / weights[index]) * 100),
+        }))
+        .sort((a, b) => b.share - a.share || a.image - b.image),
+    }))
+    .filter(color => color.sources.length > 0)
+    .sort((a, b) => b.coverage - a.coverage);
+}
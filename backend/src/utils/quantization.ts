@@ -0,0 +1,384 @@
+// Color quantization for palette extraction from images
+//
+// Reduces sampled pixels to a few representative colors, each with the number of pixels it
+// stands for. k-means++ clusters in CIELAB from a fixed seed, so the same image always gives
+// the same colors; because every pixel pulls on its centroid, large flat areas dominate and
+// small regions close to them in color are absorbed. Median cut cuts outlying colors into
+// boxes of their own and octree quantization merges the least used branches of a color tree,
+// so both keep small but distinct regions such as accents.
+
+import { ExtractionAlgorithm, LAB, QuantizedColor, RGB } from '../types/color';
+import { rgbToLab, labToRgb, deltaE76 } from './colorConversion';
+import { createSeededRandom } from './random';
+
+export const EXTRACTION_ALGORITHMS: ExtractionAlgorithm[] = ['kmeans', 'median-cut', 'octree'];
+
+/** Seed for k-means++ initialization when none is given */
+export const DEFAULT_QUANTIZATION_SEED = 0x5eed;
+
+const KMEANS_MAX_ITERATIONS = 20;
+
+// Mean CIELAB shift of the centroids below which k-means has converged
+const KMEANS_TOLERANCE = 0.1;
+
+const OCTREE_DEPTH = 8;
+
+interface WeightedColor {
+  rgb: RGB;
+  count: number;
+}
+
+export interface QuantizeOptions {
+  /** Seed for k-means++ initialization */
+  seed?: number;
+  /** Importance of each pixel, counted in place of 1 per pixel */
+  weights?: number[];
+}
+
+/**
+ * Unique colors with how many pixels use them, or their total weight, in order of first appearance
+ */
+function countColors(pixels: RGB[], weights?: number[]): WeightedColor[] {
+  const counts = new Map<number, WeightedColor>();
+  pixels.forEach((pixel, index) => {
+    const weight = weights ? weights[index] : 1;
+    const key = (pixel.r << 16) | (pixel.g << 8) | pixel.b;
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += weight;
+    } else {
+      counts.set(key, { rgb: { r: pixel.r, g: pixel.g, b: pixel.b }, count: weight });
+    }
+  });
+  return Array.from(counts.values()).filter(color => color.count > 0);
+}
+
+function weightedMean(colors: WeightedColor[]): RGB {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let total = 0;
+  for (const { rgb, count } of colors) {
+    r += rgb.r * count;
+    g += rgb.g * count;
+    b += rgb.b * count;
+    total += count;
+  }
+  return {
+    r: Math.round(r / total),
+    g: Math.round(g / total),
+    b: Math.round(b / total),
+  };
+}
+
+function byPopulation(colors: QuantizedColor[]): QuantizedColor[] {
+  return colors.sort((a, b) => b.population - a.population);
+}
+
+/**
+ * k-means++ in CIELAB with a seeded initialization
+ */
+export function kMeansQuantize(
+  pixels: RGB[],
+  count: number,
+  seed: number = DEFAULT_QUANTIZATION_SEED,
+  weights?: number[]
+): QuantizedColor[] {
+  const colors = countColors(pixels, weights);
+  if (colors.length === 0 || count < 1) {
+    return [];
+  }
+
+  const labs = colors.map(color => rgbToLab(color.rgb));
+  const random = createSeededRandom(seed);
+
+  // Pick a color by weight, where each color's weight is scaled by its pixel count
+  const pick = (weights: number[]): number => {
+    const total = weights.reduce((sum, weight, index) => sum + weight * colors[index].count, 0);
+    let target = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i] * colors[i].count;
+      if (target < 0) {
+        return i;
+      }
+    }
+    return weights.length - 1;
+  };
+
+  // k-means++: each further centroid is chosen with probability proportional to its squared
+  // distance from the nearest centroid so far
+  const centroids: LAB[] = [{ ...labs[pick(labs.map(() => 1))] }];
+  const nearest = labs.map(lab => deltaE76(lab, centroids[0]) ** 2);
+  while (centroids.length < Math.min(count, colors.length)) {
+    if (nearest.every(distance => distance === 0)) {
+      break;
+    }
+    const centroid = { ...labs[pick(nearest)] };
+    centroids.push(centroid);
+    labs.forEach((lab, index) => {
+      nearest[index] = Math.min(nearest[index], deltaE76(lab, centroid) ** 2);
+    });
+  }
+
+  const assignments = new Array<number>(labs.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+    labs.forEach((lab, index) => {
+      let closest = 0;
+      let minDistance = Infinity;
+      centroids.forEach((centroid, centroidIndex) => {
+        const distance = deltaE76(lab, centroid);
+        if (distance < minDistance) {
+          minDistance = distance;
+          closest = centroidIndex;
+        }
+      });
+      assignments[index] = closest;
+    });
+
+    const sums = centroids.map(() => ({ l: 0, a: 0, b: 0, count: 0 }));
+    labs.forEach((lab, index) => {
+      const sum = sums[assignments[index]];
+      const weight = colors[index].count;
+      sum.l += lab.l * weight;
+      sum.a += lab.a * weight;
+      sum.b += lab.b * weight;
+      sum.count += weight;
+    });
+
+    let shift = 0;
+    sums.forEach((sum, index) => {
+      // An empty cluster keeps its centroid
+      if (sum.count === 0) return;
+      const updated = { l: sum.l / sum.count, a: sum.a / sum.count, b: sum.b / sum.count };
+      shift += deltaE76(updated, centroids[index]);
+      centroids[index] = updated;
+    });
+
+    if (shift / centroids.length < KMEANS_TOLERANCE) {
+      break;
+    }
+  }
+
+  const populations = centroids.map(() => 0);
+  assignments.forEach((centroidIndex, index) => {
+    populations[centroidIndex] += colors[index].count;
+  });
+
+  return byPopulation(
+    centroids
+      .map((centroid, index) => ({
+        rgb: labToRgb(centroid.l, centroid.a, centroid.b),
+        population: populations[index],
+      }))
+      .filter(color => color.population > 0)
+  );
+}
+
+/**
+ * Modified median cut in RGB: splits the box with the most pixels times channel range along its
+ * widest channel, cutting between the median and the far end of the longer side so outlying
+ * colors get a box of their own instead of being averaged into the bulk
+ */
+export function medianCutQuantize(pixels: RGB[], count: number, weights?: number[]): QuantizedColor[] {
+  const colors = countColors(pixels, weights);
+  if (colors.length === 0 || count < 1) {
+    return [];
+  }
+
+  const channels: (keyof RGB)[] = ['r', 'g', 'b'];
+  const describe = (box: WeightedColor[]) => {
+    const widest = channels
+      .map(channel => {
+        let min = 255;
+        let max = 0;
+        for (const color of box) {
+          min = Math.min(min, color.rgb[channel]);
+          max = Math.max(max, color.rgb[channel]);
+        }
+        return { channel, min, max };
+      })
+      .reduce((best, current) => (current.max - current.min > best.max - best.min ? current : best));
+    const population = box.reduce((sum, color) => sum + color.count, 0);
+    return { ...widest, population, priority: population * (widest.max - widest.min) };
+  };
+
+  const boxes: WeightedColor[][] = [colors];
+  while (boxes.length < count) {
+    let target = -1;
+    let targetPriority = 0;
+    boxes.forEach((box, index) => {
+      const { priority } = describe(box);
+      if (box.length > 1 && priority > targetPriority) {
+        target = index;
+        targetPriority = priority;
+      }
+    });
+    if (target === -1) {
+      break;
+    }
+
+    const box = boxes[target];
+    const { channel, min, max, population } = describe(box);
+    box.sort((a, b) => a.rgb[channel] - b.rgb[channel]);
+
+    let running = 0;
+    let median = min;
+    for (const color of box) {
+      running += color.count;
+      if (running >= population / 2) {
+        median = color.rgb[channel];
+        break;
+      }
+    }
+
+    const below = median - min;
+    const above = max - median;
+    const cut = above >= below
+      ? Math.min(max - 1, median + Math.floor(above / 2))
+      : Math.max(min, median - 1 - Math.floor(below / 2));
+    const split = box.findIndex(color => color.rgb[channel] > cut);
+
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  return byPopulation(boxes.map(box => ({
+    rgb: weightedMean(box),
+    population: box.reduce((sum, color) => sum + color.count, 0),
+  })));
+}
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  children: (OctreeNode | undefined)[] | null;
+}
+
+/**
+ * Octree quantization, repeatedly merging the deepest branch that covers the fewest pixels
+ */
+export function octreeQuantize(pixels: RGB[], count: number, weights?: number[]): QuantizedColor[] {
+  const colors = countColors(pixels, weights);
+  if (colors.length === 0 || count < 1) {
+    return [];
+  }
+
+  const createNode = (level: number): OctreeNode => ({
+    r: 0,
+    g: 0,
+    b: 0,
+    count: 0,
+    children: level < OCTREE_DEPTH ? new Array(8).fill(undefined) : null,
+  });
+
+  const root = createNode(0);
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  reducible[0].push(root);
+  let leafCount = 0;
+
+  for (const { rgb, count: pixelCount } of colors) {
+    let node = root;
+    for (let level = 0; level < OCTREE_DEPTH; level++) {
+      const shift = 7 - level;
+      const index = (((rgb.r >> shift) & 1) << 2) | (((rgb.g >> shift) & 1) << 1) | ((rgb.b >> shift) & 1);
+      let child = node.children![index];
+      if (!child) {
+        child = createNode(level + 1);
+        node.children![index] = child;
+        if (child.children) {
+          reducible[level + 1].push(child);
+        } else {
+          leafCount++;
+        }
+      }
+      // Every node keeps the totals of its subtree so a merged branch becomes its mean color
+      node.r += rgb.r * pixelCount;
+      node.g += rgb.g * pixelCount;
+      node.b += rgb.b * pixelCount;
+      node.count += pixelCount;
+      node = child;
+    }
+    node.r += rgb.r * pixelCount;
+    node.g += rgb.g * pixelCount;
+    node.b += rgb.b * pixelCount;
+    node.count += pixelCount;
+  }
+
+  // The deepest branches only have leaf children, so merging one turns it into a single leaf
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leafCount > count; level--) {
+    const nodes = reducible[level].sort((a, b) => a.count - b.count);
+    for (const node of nodes) {
+      if (leafCount <= count) break;
+      const childCount = node.children!.filter(Boolean).length;
+      node.children = null;
+      leafCount -= childCount - 1;
+    }
+  }
+
+  const leaves: QuantizedColor[] = [];
+  const collect = (node: OctreeNode) => {
+    if (!node.children) {
+      leaves.push({
+        rgb: {
+          r: Math.round(node.r / node.count),
+          g: Math.round(node.g / node.count),
+          b: Math.round(node.b / node.count),
+        },
+        population: node.count,
+      });
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+
+  return byPopulation(leaves);
+}
+
+/**
+ * Reduce pixels to at most `count` colors with the given algorithm, most used first; with
+ * weights, populations are total weights rather than pixel counts
+ */
+export function quantizeColors(
+  pixels: RGB[],
+  count: number,
+  algorithm: ExtractionAlgorithm = 'kmeans',
+  options: QuantizeOptions = {}
+): QuantizedColor[] {
+  switch (algorithm) {
+    case 'median-cut':
+      return medianCutQuantize(pixels, count, options.weights);
+    case 'octree':
+      return octreeQuantize(pixels, count, options.weights);
+    case 'kmeans':
+    default:
+      return kMeansQuantize(pixels, count, options.seed, options.weights);
+  }
+}
+
+/**
+ * Number of pixels closest in CIELAB to each of the colors
+ */
+export function countNearestPixels(pixels: RGB[], colors: RGB[]): number[] {
+  const counts = colors.map(() => 0);
+  if (colors.length === 0) {
+    return counts;
+  }
+
+  const labs = colors.map(rgbToLab);
+  countColors(pixels).forEach(({ rgb, count }) => {
+    const lab = rgbToLab(rgb);
+    let closest = 0;
+    let minDistance = Infinity;
+    labs.forEach((candidate, index) => {
+      const distance = deltaE76(lab, candidate);
+      if (distance < minDistance) {
+        minDistance = distance;
+        closest = index;
+      }
+    });
+    counts[closest] += count;
+  });
+  return counts;
+}
@@ -0,0 +1,164 @@
+// Visual saliency for palette extraction from images
+//
+// Scores each pixel by how much it stands out: its CIELAB distance from the mean of its
+// neighborhood (local contrast), its chroma, and a bias toward the center of the frame where
+// subjects usually are. Weighting pixels by these scores before clustering lets a small red
+// logo on a gray wall outweigh the wall, and the accent slot guarantees the most salient hue
+// not already in the palette a place of its own.
+
+import { LAB, RGB } from '../types/color';
+import { rgbToLab, labToRgb, deltaE76 } from './colorConversion';
+
+/** CIELAB chroma below which a pixel has no meaningful hue for the accent slot */
+export const ACCENT_MIN_CHROMA = 20;
+
+/** Smallest hue difference, in degrees, from the palette's chromatic colors for an accent to be distinct */
+export const ACCENT_MIN_HUE_DIFFERENCE = 30;
+
+// Chroma treated as fully saturated when scoring
+const FULL_CHROMA = 60;
+
+// Spread of the center bias as a share of the image size
+const CENTER_SIGMA = 0.3;
+
+// Neighborhood radius for local contrast as a share of the shorter side
+const CONTRAST_RADIUS = 0.05;
+
+// CIELAB difference around a just noticeable one; smaller local contrast is rounding noise
+const NOTICEABLE_DIFFERENCE = 2.3;
+
+// Highest score below which an image has nothing salient, so it is not scaled up to 1
+const MIN_SALIENCY = 0.05;
+
+const HUE_BINS = 24;
+
+// Share of the sampled pixels a hue needs before it can be an accent, so noise is not picked
+const ACCENT_MIN_SHARE = 0.002;
+
+export interface SalientAccent {
+  rgb: RGB;
+  /** Number of sampled pixels in the accent's hue range */
+  population: number;
+}
+
+function hueOf(lab: LAB): number {
+  return ((Math.atan2(lab.b, lab.a) * 180) / Math.PI + 360) % 360;
+}
+
+function hueDifference(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+/**
+ * Saliency of each pixel of a raw width × height image, from 0 up to 1 for the most salient;
+ * an image with nothing standing out stays near 0 throughout
+ */
+export function computeSaliency(data: Uint8Array, width: number, height: number, channels: number): Float32Array {
+  const total = width * height;
+  const labs: LAB[] = new Array(total);
+  for (let index = 0; index < total; index++) {
+    const offset = index * channels;
+    labs[index] = rgbToLab({ r: data[offset], g: data[offset + 1], b: data[offset + 2] });
+  }
+
+  // Summed-area tables give the mean color of any neighborhood in constant time
+  const stride = width + 1;
+  const sums = [0, 1, 2].map(() => new Float64Array(stride * (height + 1)));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const lab = labs[y * width + x];
+      const cell = (y + 1) * stride + x + 1;
+      [lab.l, lab.a, lab.b].forEach((value, channel) => {
+        const table = sums[channel];
+        table[cell] = value + table[cell - 1] + table[cell - stride] - table[cell - stride - 1];
+      });
+    }
+  }
+
+  const radius = Math.max(1, Math.round(Math.min(width, height) * CONTRAST_RADIUS));
+  const contrast = new Float32Array(total);
+  const chroma = new Float32Array(total);
+  let maxContrast = 0;
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const area = (bottom - top) * (right - left);
+      const [l, a, b] = sums.map(table => {
+        const sum = table[bottom * stride + right] - table[top * stride + right]
+          - table[bottom * stride + left] + table[top * stride + left];
+        return sum / area;
+      });
+
+      const index = y * width + x;
+      const lab = labs[index];
+      contrast[index] = deltaE76(lab, { l, a, b });
+      chroma[index] = Math.min(1, Math.hypot(lab.a, lab.b) / FULL_CHROMA);
+      maxContrast = Math.max(maxContrast, contrast[index]);
+    }
+  }
+
+  const saliency = new Float32Array(total);
+  let maxSaliency = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const dx = (x + 0.5) / width - 0.5;
+      const dy = (y + 0.5) / height - 0.5;
+      const center = Math.exp(-(dx * dx + dy * dy) / (2 * CENTER_SIGMA * CENTER_SIGMA));
+      const localContrast = contrast[index] / Math.max(maxContrast, NOTICEABLE_DIFFERENCE);
+      saliency[index] = (0.4 * localContrast + 0.6 * chroma[index]) * (0.6 + 0.4 * center);
+      maxSaliency = Math.max(maxSaliency, saliency[index]);
+    }
+  }
+
+  if (maxSaliency > MIN_SALIENCY) {
+    for (let index = 0; index < total; index++) {
+      saliency[index] /= maxSaliency;
+    }
+  }
+  return saliency;
+}
+
+/**
+ * The hue with the most total saliency that is distinct from the palette's chromatic colors,
+ * as the saliency-weighted mean of its pixels, or null when every salient hue is already there
+ */
+export function findSalientAccent(pixels: RGB[], saliency: ArrayLike<number>, palette: RGB[]): SalientAccent | null {
+  const paletteHues = palette
+    .map(rgbToLab)
+    .filter(lab => Math.hypot(lab.a, lab.b) >= ACCENT_MIN_CHROMA)
+    .map(hueOf);
+
+  const bins = Array.from({ length: HUE_BINS }, () => ({ weight: 0, l: 0, a: 0, b: 0, population: 0 }));
+  pixels.forEach((pixel, index) => {
+    const lab = rgbToLab(pixel);
+    if (Math.hypot(lab.a, lab.b) < ACCENT_MIN_CHROMA) return;
+    const weight = saliency[index];
+    const bin = bins[Math.floor(hueOf(lab) / (360 / HUE_BINS)) % HUE_BINS];
+    bin.weight += weight;
+    bin.l += lab.l * weight;
+    bin.a += lab.a * weight;
+    bin.b += lab.b * weight;
+    bin.population++;
+  });
+
+  const candidates = bins
+    .filter(bin => bin.weight > 0 && bin.population >= pixels.length * ACCENT_MIN_SHARE)
+    .map(bin => ({ ...bin, lab: { l: bin.l / bin.weight, a: bin.a / bin.weight, b: bin.b / bin.weight } }))
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const candidate of candidates) {
+    const hue = hueOf(candidate.lab);
+    if (paletteHues.every(paletteHue => hueDifference(hue, paletteHue) >= ACCENT_MIN_HUE_DIFFERENCE)) {
+      return {
+        rgb: labToRgb(candidate.lab.l, candidate.lab.a, candidate.lab.b),
+        population: candidate.population,
+      };
+    }
+  }
+  return null;
+}
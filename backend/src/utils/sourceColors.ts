@@ -0,0 +1,752 @@
+// Color extraction from brand source files
+//
+// Finds the colors declared in stylesheets (CSS and SCSS), SVG logos and saved HTML pages: hex,
+// rgb(), hsl() and named colors, with custom properties and SCSS variables resolved to the colors
+// they hold. Stylesheet colors are weighted by how often they are used, scaled by how much of a
+// page the property usually paints; SVG colors are weighted by the approximate area of the shapes
+// they fill or stroke. Near-duplicates are then merged into clusters by CIEDE2000 distance.
+
+import { RGB, SourceColorCluster, SourceColorUsage, SourceFormat } from '../types/color';
+import { CSS_NAMED_COLORS } from './cssColors';
+import { getDeltaE, hslToRgb, rgbToHex } from './colorConversion';
+
+/** CIEDE2000 distance under which two source colors are treated as the same color */
+export const SOURCE_CLUSTER_DELTA_E = 6;
+
+// Bare color names only count in properties that take colors, so a font called "Tomato" is not red
+const NAMED_COLOR_PROPERTIES = /^(color|background(-color)?|border(-(top|right|bottom|left|block|inline))?(-color)?|outline(-color)?|fill|stroke|stop-color|flood-color|lighting-color|(box|text)-shadow|text-decoration(-color)?|caret-color|accent-color|column-rule(-color)?|bgcolor|theme-color)$/;
+
+const COLOR_TOKEN = /#[0-9a-f]{3,8}(?![\w-])|\b(?:rgba?|hsla?)\([^()]*\)|(?<![\w#$-])[a-z]+(?![\w-])/gi;
+
+// HTML and SVG attributes that hold a color
+const COLOR_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'flood-color', 'color', 'bgcolor'];
+
+const TAG_NAME = /[a-zA-Z][\w:-]*/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+// SVG elements whose children are only drawn when referenced
+const SVG_DEFINITION_TAGS = ['defs', 'clippath', 'mask', 'symbol', 'pattern', 'marker'];
+const SVG_SHAPE_TAGS = ['rect', 'circle', 'ellipse', 'line', 'polygon', 'polyline', 'path', 'text'];
+const SVG_GRADIENT_TAGS = ['lineargradient', 'radialgradient'];
+
+// Arguments per path command, for walking path data
+const PATH_ARGUMENTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7 };
+
+interface MarkupTag {
+  /** Lowercase tag name */
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  /** Attribute text between the name and the closing > */
+  source: string;
+  /** Contents of <style> and <script> elements */
+  text?: string;
+}
+
+interface Declaration {
+  property: string;
+  value: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Geometry {
+  area: number;
+  perimeter: number;
+}
+
+// Paint properties of an SVG element after inheritance, classes and inline styles
+type SvgPaint = Partial<Record<'fill' | 'stroke' | 'stroke-width' | 'color' | 'stop-color', string>>;
+
+type UsageMap = Map<string, { weight: number; occurrences: number; properties: Set<string> }>;
+
+/**
+ * Parse a single CSS color (hex, rgb(), hsl() or a named color); null for anything else or a
+ * fully transparent color
+ */
+export function parseCSSColor(value: string): RGB | null {
+  const token = value.trim().toLowerCase();
+
+  if (token.startsWith('#')) {
+    const digits = token.slice(1);
+    if (!/^[0-9a-f]+$/.test(digits) || ![3, 4, 6, 8].includes(digits.length)) {
+      return null;
+    }
+    const full = digits.length <= 4 ? digits.split('').map(digit => digit + digit).join('') : digits;
+    if (full.length === 8 && full.slice(6) === '00') {
+      return null;
+    }
+    return {
+      r: parseInt(full.slice(0, 2), 16),
+      g: parseInt(full.slice(2, 4), 16),
+      b: parseInt(full.slice(4, 6), 16),
+    };
+  }
+
+  const fn = /^(rgba?|hsla?)\(([^()]*)\)$/.exec(token);
+  if (fn) {
+    const args = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (args.length < 3 || (args[3] !== undefined && parseAlpha(args[3]) === 0)) {
+      return null;
+    }
+
+    if (fn[1].startsWith('rgb')) {
+      const channels = args.slice(0, 3).map(arg => arg.endsWith('%') ? parseFloat(arg) * 2.55 : parseFloat(arg));
+      if (channels.some(channel => isNaN(channel))) {
+        return null;
+      }
+      const [r, g, b] = channels.map(channel => Math.round(Math.max(0, Math.min(255, channel))));
+      return { r, g, b };
+    }
+
+    const h = parseHue(args[0]);
+    const [s, l] = args.slice(1, 3).map(arg => parseFloat(arg));
+    if (isNaN(h) || isNaN(s) || isNaN(l)) {
+      return null;
+    }
+    return hslToRgb({ h: ((h % 360) + 360) % 360, s: Math.max(0, Math.min(100, s)), l: Math.max(0, Math.min(100, l)) });
+  }
+
+  const named = CSS_NAMED_COLORS[token];
+  if (named) {
+    const hex = named.slice(1);
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+    };
+  }
+
+  return null;
+}
+
+function parseAlpha(value: string): number {
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+}
+
+function parseHue(value: string): number {
+  const angle = parseFloat(value);
+  if (value.endsWith('turn')) return angle * 360;
+  if (value.endsWith('grad')) return angle * 0.9;
+  if (value.endsWith('rad')) return (angle * 180) / Math.PI;
+  return angle;
+}
+
+function isVariable(property: string): boolean {
+  return property.startsWith('--') || property.startsWith('$');
+}
+
+/**
+ * Rough share of a page a property paints: backgrounds and fills cover areas, text color is
+ * everywhere but thin, and borders, outlines and shadows are edges
+ */
+function propertyWeight(property: string): number {
+  if (/^(background|fill|bgcolor|theme-color)/.test(property)) return 3;
+  if (property === 'color') return 2;
+  return 1;
+}
+
+function addUsage(usages: UsageMap, rgb: RGB, weight: number, property: string): void {
+  if (!(weight > 0)) {
+    return;
+  }
+
+  const hex = rgbToHex(rgb).toUpperCase();
+  const usage = usages.get(hex) || { weight: 0, occurrences: 0, properties: new Set<string>() };
+  usage.weight += weight;
+  usage.occurrences++;
+  usage.properties.add(property);
+  usages.set(hex, usage);
+}
+
+// Remove everything from each start marker to the next end marker, or to the end of an unclosed run.
+// Done with indexOf since a lazy regex rescans the rest of the text from every unclosed start.
+function removeRuns(text: string, start: string, end: string): string {
+  let result = '';
+  let index = 0;
+  let runStart: number;
+
+  while ((runStart = text.indexOf(start, index)) !== -1) {
+    const runEnd = text.indexOf(end, runStart + start.length);
+    result += `${text.slice(index, runStart)} `;
+    if (runEnd === -1) {
+      return result;
+    }
+    index = runEnd + end.length;
+  }
+
+  return result + text.slice(index);
+}
+
+function stripComments(text: string, format: SourceFormat): string {
+  const withoutBlocks = removeRuns(text, '/*', '*/').replace(/<!\[CDATA\[|\]\]>/g, ' ');
+  // SCSS line comments; the lookbehind keeps the // in url(https://...)
+  return format === 'scss' ? withoutBlocks.replace(/(?<![:\\])\/\/.*$/gm, '') : withoutBlocks;
+}
+
+/**
+ * Every `property: value` in a stylesheet or style attribute. Text before `{` is a selector or
+ * at-rule, so nesting (SCSS, @media) needs no special handling.
+ */
+function cssDeclarations(css: string): Declaration[] {
+  const declarations: Declaration[] = [];
+  const segment = /([^;{}]*)([;{}]|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = segment.exec(css)) !== null && match[0] !== '') {
+    if (match[2] === '{') {
+      continue;
+    }
+
+    const colon = match[1].indexOf(':');
+    if (colon > 0) {
+      const property = match[1].slice(0, colon).trim();
+      declarations.push({
+        property: isVariable(property) ? property : property.toLowerCase(),
+        value: match[1].slice(colon + 1).replace(/!\w+/g, ' ').trim(),
+      });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Replace each var() with a space, reporting its custom property and fallback
+ */
+function replaceVarReferences(value: string, onReference: (name: string, fallback: string) => void): string {
+  let result = '';
+  let index = 0;
+
+  for (let start = value.indexOf('var(', index); start !== -1; start = value.indexOf('var(', index)) {
+    let depth = 0;
+    let end = start + 3;
+    for (; end < value.length; end++) {
+      if (value[end] === '(') depth++;
+      if (value[end] === ')' && --depth === 0) break;
+    }
+
+    const inner = value.slice(start + 4, end);
+    const comma = inner.indexOf(',');
+    onReference((comma === -1 ? inner : inner.slice(0, comma)).trim(), comma === -1 ? '' : inner.slice(comma + 1));
+
+    result += `${value.slice(index, start)} `;
+    index = end + 1;
+  }
+
+  return result + value.slice(index);
+}
+
+/**
+ * Colors in a declaration value, following var() and SCSS variable references
+ */
+function valueColors(property: string, value: string, resolve: (name: string) => RGB[]): RGB[] {
+  const colors: RGB[] = [];
+
+  // An unclosed url( runs to the end of the value, as in browsers, which also keeps this linear
+  const withoutVars = replaceVarReferences(value.replace(/url\([^)]*\)?/gi, ' '), (name, fallback) => {
+    const resolved = resolve(name);
+    colors.push(...(resolved.length > 0 ? resolved : valueColors(property, fallback, resolve)));
+  });
+  const withoutReferences = withoutVars.replace(/\$[\w-]+/g, name => {
+    colors.push(...resolve(name));
+    return ' ';
+  });
+
+  const allowNames = isVariable(property) || NAMED_COLOR_PROPERTIES.test(property);
+  for (const [token] of withoutReferences.matchAll(COLOR_TOKEN)) {
+    if (!allowNames && /^[a-z]+$/i.test(token)) {
+      continue;
+    }
+    const rgb = parseCSSColor(token);
+    if (rgb) {
+      colors.push(rgb);
+    }
+  }
+
+  return colors;
+}
+
+/**
+ * Count stylesheet colors. Variable definitions count once each, and every use of a variable
+ * counts as a use of its colors.
+ */
+function addStylesheetColors(declarations: Declaration[], usages: UsageMap): void {
+  const definitions = new Map<string, string>();
+  declarations
+    .filter(declaration => isVariable(declaration.property))
+    .forEach(declaration => definitions.set(declaration.property, declaration.value));
+
+  const resolved = new Map<string, RGB[]>();
+  const resolving = new Set<string>();
+  const resolve = (name: string): RGB[] => {
+    const definition = definitions.get(name);
+    if (resolved.has(name)) return resolved.get(name)!;
+    if (definition === undefined || resolving.has(name)) return [];
+
+    resolving.add(name);
+    const colors = valueColors(name, definition, resolve);
+    resolving.delete(name);
+    resolved.set(name, colors);
+    return colors;
+  };
+
+  for (const { property, value } of declarations) {
+    const variable = isVariable(property);
+    const colors = variable ? resolve(property) : valueColors(property, value, resolve);
+    colors.forEach(rgb => addUsage(usages, rgb, variable ? 1 : propertyWeight(property), property));
+  }
+}
+
+/**
+ * Tags in HTML or SVG markup, skipping comments, with the contents of <style> and <script>
+ * elements as their text. Scanned by hand in one pass, since a tag regex backtracks over the rest
+ * of the file from every unclosed quote; an unclosed comment, quote or tag ends the markup.
+ */
+function* scanTags(markup: string): Generator<MarkupTag> {
+  const lower = markup.toLowerCase();
+  let position = markup.indexOf('<');
+
+  while (position !== -1) {
+    if (markup.startsWith('<!--', position)) {
+      const commentEnd = markup.indexOf('-->', position + 4);
+      if (commentEnd === -1) return;
+      position = markup.indexOf('<', commentEnd + 3);
+      continue;
+    }
+
+    const closing = markup[position + 1] === '/';
+    TAG_NAME.lastIndex = position + (closing ? 2 : 1);
+    const name = TAG_NAME.exec(markup)?.[0].toLowerCase();
+    if (!name) {
+      position = markup.indexOf('<', position + 1);
+      continue;
+    }
+
+    // Find the closing >, jumping over quoted attribute values
+    let end = TAG_NAME.lastIndex;
+    while (end < markup.length && markup[end] !== '>') {
+      if (markup[end] === '"' || markup[end] === "'") {
+        end = markup.indexOf(markup[end], end + 1);
+        if (end === -1) return;
+      }
+      end++;
+    }
+    if (end === markup.length) return;
+
+    const attributes = markup.slice(TAG_NAME.lastIndex, end);
+    const selfClosing = attributes.endsWith('/');
+    const tag: MarkupTag = { name, closing, selfClosing, source: selfClosing ? attributes.slice(0, -1) : attributes };
+
+    if ((name === 'style' || name === 'script') && !closing && !selfClosing) {
+      const textEnd = lower.indexOf(`</${name}`, end + 1);
+      yield { ...tag, text: markup.slice(end + 1, textEnd === -1 ? undefined : textEnd) };
+      if (textEnd === -1) return;
+      end = markup.indexOf('>', textEnd);
+      if (end === -1) return;
+    } else {
+      yield tag;
+    }
+    position = markup.indexOf('<', end + 1);
+  }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Declarations from <style> blocks, style attributes, color attributes and the theme-color meta tag
+ */
+function htmlDeclarations(html: string): Declaration[] {
+  const styleDeclarations: Declaration[] = [];
+  const declarations: Declaration[] = [];
+
+  for (const { name, source, text } of scanTags(html)) {
+    if (text !== undefined) {
+      if (name === 'style') {
+        styleDeclarations.push(...cssDeclarations(stripComments(text, 'css')));
+      }
+      continue;
+    }
+    const attributes = parseAttributes(source);
+
+    if (attributes.style) {
+      declarations.push(...cssDeclarations(attributes.style));
+    }
+    COLOR_ATTRIBUTES
+      .filter(attribute => attributes[attribute])
+      .forEach(attribute => declarations.push({ property: attribute, value: attributes[attribute] }));
+
+    if (name === 'meta' && attributes.name?.toLowerCase() === 'theme-color' && attributes.content) {
+      declarations.push({ property: 'theme-color', value: attributes.content });
+    }
+  }
+
+  return [...styleDeclarations, ...declarations];
+}
+
+/**
+ * Paint declarations for simple `tag`, `.class` and `#id` selectors in SVG <style> blocks
+ */
+function svgStyleRules(css: string): Map<string, SvgPaint> {
+  const rules = new Map<string, SvgPaint>();
+
+  // Split on braces rather than matching rules with a regex, which backtracks over brace-less text.
+  // A rule is a selector followed by a {, a body and a }, so nested blocks only keep their rules.
+  const parts = stripComments(css, 'css').split(/([{}])/);
+  for (let index = 0; index + 3 < parts.length; index += 2) {
+    if (parts[index + 1] !== '{' || parts[index + 3] !== '}') {
+      continue;
+    }
+    const paint = toSvgPaint(cssDeclarations(parts[index + 2]));
+    for (const selector of parts[index].split(',').map(part => part.trim())) {
+      if (/^[.#]?[\w-]+$/.test(selector)) {
+        rules.set(selector, { ...rules.get(selector), ...paint });
+      }
+    }
+  }
+
+  return rules;
+}
+
+function toSvgPaint(declarations: Declaration[]): SvgPaint {
+  const paint: SvgPaint = {};
+  for (const { property, value } of declarations) {
+    if (property === 'fill' || property === 'stroke' || property === 'stroke-width' || property === 'color' || property === 'stop-color') {
+      paint[property] = value;
+    }
+  }
+  return paint;
+}
+
+function polygonArea(points: Point[]): number {
+  let sum = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    sum += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(sum) / 2;
+}
+
+function pathLength(points: Point[], closed: boolean): number {
+  let length = 0;
+  for (let index = 1; index < points.length + (closed ? 1 : 0); index++) {
+    const from = points[index - 1];
+    const to = points[index % points.length];
+    length += Math.hypot(to.x - from.x, to.y - from.y);
+  }
+  return length;
+}
+
+function parsePoints(source: string): Point[] {
+  const numbers = (source.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []).map(Number);
+  const points: Point[] = [];
+  for (let index = 0; index + 1 < numbers.length; index += 2) {
+    points.push({ x: numbers[index], y: numbers[index + 1] });
+  }
+  return points;
+}
+
+/**
+ * End points of each subpath in path data. Curves are reduced to their end points, which is
+ * close enough for comparing how much of a logo each color covers.
+ */
+function pathSubpaths(d: string): Point[][] {
+  const tokens = d.match(/[mzlhvcsqta]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || [];
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let position: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let command = '';
+  let index = 0;
+
+  while (index < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[index])) {
+      command = tokens[index++];
+      if (command.toLowerCase() === 'z') {
+        position = start;
+        if (current.length > 0) subpaths.push(current);
+        current = [];
+      }
+      continue;
+    }
+
+    const count = PATH_ARGUMENTS[command.toLowerCase()];
+    const args = tokens.slice(index, index + (count || 1)).map(Number);
+    index += count || 1;
+    if (!count || args.length < count || args.some(arg => isNaN(arg))) {
+      continue;
+    }
+
+    const relative = command === command.toLowerCase();
+    const lower = command.toLowerCase();
+    const next = { ...position };
+    if (lower === 'h') {
+      next.x = relative ? position.x + args[0] : args[0];
+    } else if (lower === 'v') {
+      next.y = relative ? position.y + args[0] : args[0];
+    } else {
+      next.x = relative ? position.x + args[count - 2] : args[count - 2];
+      next.y = relative ? position.y + args[count - 1] : args[count - 1];
+    }
+
+    if (lower === 'm') {
+      if (current.length > 0) subpaths.push(current);
+      current = [next];
+      start = next;
+      // Further coordinate pairs after a moveto are linetos
+      command = relative ? 'l' : 'L';
+    } else {
+      current.push(next);
+    }
+    position = next;
+  }
+
+  if (current.length > 0) subpaths.push(current);
+  return subpaths;
+}
+
+/**
+ * Approximate area and outline length of an SVG shape, ignoring transforms. Percentages are
+ * resolved against the canvas size.
+ */
+function shapeGeometry(tag: string, attributes: Record<string, string>, canvas: Point | null): Geometry | null {
+  const length = (name: string, axis: 'x' | 'y' | 'r') => {
+    const value = attributes[name];
+    if (value === undefined) return NaN;
+    if (value.trim().endsWith('%')) {
+      if (!canvas) return NaN;
+      const reference = axis === 'x' ? canvas.x : axis === 'y' ? canvas.y : Math.hypot(canvas.x, canvas.y) / Math.SQRT2;
+      return (parseFloat(value) / 100) * reference;
+    }
+    return parseFloat(value);
+  };
+
+  let geometry: Geometry | null = null;
+  switch (tag) {
+    case 'rect': {
+      const width = length('width', 'x');
+      const height = length('height', 'y');
+      geometry = { area: width * height, perimeter: 2 * (width + height) };
+      break;
+    }
+    case 'circle': {
+      const r = length('r', 'r');
+      geometry = { area: Math.PI * r * r, perimeter: 2 * Math.PI * r };
+      break;
+    }
+    case 'ellipse': {
+      const rx = length('rx', 'x');
+      const ry = length('ry', 'y');
+      geometry = { area: Math.PI * rx * ry, perimeter: Math.PI * (rx + ry) };
+      break;
+    }
+    case 'line': {
+      const dx = (length('x2', 'x') || 0) - (length('x1', 'x') || 0);
+      const dy = (length('y2', 'y') || 0) - (length('y1', 'y') || 0);
+      geometry = { area: 0, perimeter: Math.hypot(dx, dy) };
+      break;
+    }
+    case 'polygon':
+    case 'polyline': {
+      const points = parsePoints(attributes.points || '');
+      geometry = { area: polygonArea(points), perimeter: pathLength(points, tag === 'polygon') };
+      break;
+    }
+    case 'path': {
+      const subpaths = pathSubpaths(attributes.d || '');
+      geometry = {
+        area: subpaths.reduce((sum, points) => sum + polygonArea(points), 0),
+        perimeter: subpaths.reduce((sum, points) => sum + pathLength(points, false), 0),
+      };
+      break;
+    }
+  }
+
+  return geometry && isFinite(geometry.area) && isFinite(geometry.perimeter) ? geometry : null;
+}
+
+/**
+ * Width and height of the drawing from the root viewBox, or its width and height attributes
+ */
+function svgCanvas(attributes: Record<string, string>): Point | null {
+  const viewBox = (attributes.viewbox || '').split(/[\s,]+/).map(Number);
+  if (viewBox.length === 4 && viewBox.every(value => isFinite(value)) && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { x: viewBox[2], y: viewBox[3] };
+  }
+
+  const width = parseFloat(attributes.width);
+  const height = parseFloat(attributes.height);
+  return width > 0 && height > 0 ? { x: width, y: height } : null;
+}
+
+/**
+ * Weight SVG colors by the area each shape fills and the area its stroke covers, following
+ * inherited paint, classes from <style> blocks and gradients referenced with url(#id)
+ */
+function addSvgColors(svg: string, usages: UsageMap): void {
+  const tags = [...scanTags(svg)];
+  const rules = new Map<string, SvgPaint>();
+  for (const { name, text } of tags) {
+    if (name === 'style' && text !== undefined) {
+      svgStyleRules(text).forEach((paint, selector) => rules.set(selector, { ...rules.get(selector), ...paint }));
+    }
+  }
+
+  const stack: { tag: string; paint: SvgPaint }[] = [];
+  const gradients = new Map<string, string[]>();
+  const gradientLinks = new Map<string, string>();
+  const painted: { paint: SvgPaint; geometry: Geometry }[] = [];
+  let canvas: Point | null = null;
+  let definitionDepth = 0;
+  let gradient: string | undefined;
+
+  for (const { name: tag, closing, selfClosing, source, text } of tags) {
+    if (text !== undefined) {
+      continue;
+    }
+    if (closing) {
+      const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        stack.length = index;
+      }
+      if (SVG_DEFINITION_TAGS.includes(tag)) definitionDepth = Math.max(0, definitionDepth - 1);
+      if (SVG_GRADIENT_TAGS.includes(tag)) gradient = undefined;
+      continue;
+    }
+
+    const attributes = parseAttributes(source);
+    if (tag === 'svg' && !canvas) {
+      canvas = svgCanvas(attributes);
+    }
+
+    // Presentation attributes lose to style sheet rules, which lose to the style attribute
+    const own: SvgPaint = {
+      ...toSvgPaint(Object.entries(attributes).map(([property, value]) => ({ property, value }))),
+      ...rules.get(tag),
+      ...(attributes.class || '').split(/\s+/).filter(Boolean).reduce<SvgPaint>(
+        (paint, className) => ({ ...paint, ...rules.get(`.${className}`) }), {}
+      ),
+      ...(attributes.id ? rules.get(`#${attributes.id}`) : undefined),
+      ...toSvgPaint(cssDeclarations(attributes.style || '')),
+    };
+    const paint: SvgPaint = { ...stack[stack.length - 1]?.paint, ...own };
+
+    if (SVG_GRADIENT_TAGS.includes(tag) && attributes.id) {
+      gradient = attributes.id;
+      gradients.set(gradient, []);
+      const link = (attributes.href || attributes['xlink:href'] || '').replace(/^#/, '');
+      if (link) gradientLinks.set(gradient, link);
+      if (selfClosing) gradient = undefined;
+    } else if (tag === 'stop' && gradient) {
+      gradients.get(gradient)!.push(own['stop-color'] || 'black');
+    } else if (SVG_SHAPE_TAGS.includes(tag) && definitionDepth === 0) {
+      const geometry = shapeGeometry(tag, attributes, canvas);
+      // Shapes whose size cannot be worked out (text, unresolvable lengths) count as 1% of the drawing
+      const fallbackArea = canvas ? canvas.x * canvas.y * 0.01 : 1;
+      painted.push({ paint, geometry: geometry || { area: fallbackArea, perimeter: Math.sqrt(fallbackArea) * 4 } });
+    }
+
+    if (!selfClosing) {
+      stack.push({ tag, paint });
+      if (SVG_DEFINITION_TAGS.includes(tag)) definitionDepth++;
+    }
+  }
+
+  const gradientStops = (id: string, seen = new Set<string>()): string[] => {
+    const stops = gradients.get(id) || [];
+    const link = gradientLinks.get(id);
+    if (stops.length > 0 || !link || seen.has(id)) return stops;
+    return gradientStops(link, seen.add(id));
+  };
+
+  const addPaint = (value: string | undefined, weight: number, property: string, currentColor?: string) => {
+    const trimmed = (value || '').trim();
+    if (!trimmed || trimmed === 'none') {
+      return;
+    }
+
+    const reference = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/.exec(trimmed);
+    if (reference) {
+      const stops = gradientStops(reference[1]);
+      stops.forEach(stop => addPaint(stop, weight / stops.length, 'stop-color'));
+      return;
+    }
+
+    const rgb = parseCSSColor(trimmed.toLowerCase() === 'currentcolor' ? currentColor || '' : trimmed);
+    if (rgb) {
+      addUsage(usages, rgb, weight, property);
+    }
+  };
+
+  for (const { paint, geometry } of painted) {
+    // SVG shapes are filled black unless told otherwise
+    addPaint(paint.fill ?? 'black', geometry.area, 'fill', paint.color);
+    const strokeWidth = parseFloat(paint['stroke-width'] ?? '1');
+    addPaint(paint.stroke, (isNaN(strokeWidth) ? 1 : strokeWidth) * geometry.perimeter, 'stroke', paint.color);
+  }
+}
+
+/**
+ * Find every color in a source file with its usage weight, heaviest first
+ */
+export function extractSourceColors(text: string, format: SourceFormat): SourceColorUsage[] {
+  const usages: UsageMap = new Map();
+
+  if (format === 'svg') {
+    addSvgColors(text, usages);
+  } else if (format === 'html') {
+    addStylesheetColors(htmlDeclarations(text), usages);
+  } else {
+    addStylesheetColors(cssDeclarations(stripComments(text, format)), usages);
+  }
+
+  return [...usages.entries()]
+    .map(([hex, usage]) => ({
+      hex,
+      weight: Math.round(usage.weight * 100) / 100,
+      occurrences: usage.occurrences,
+      properties: [...usage.properties],
+    }))
+    .filter(usage => usage.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Merge colors within threshold of a heavier color into that color's cluster, heaviest first
+ */
+export function clusterSourceColors(
+  usages: SourceColorUsage[],
+  threshold: number = SOURCE_CLUSTER_DELTA_E
+): SourceColorCluster[] {
+  const total = usages.reduce((sum, usage) => sum + usage.weight, 0);
+  const clusters: SourceColorCluster[] = [];
+
+  for (const usage of [...usages].sort((a, b) => b.weight - a.weight)) {
+    const cluster = clusters.find(candidate => getDeltaE(candidate.hex, usage.hex) <= threshold);
+    if (cluster) {
+      cluster.weight += usage.weight;
+      cluster.occurrences += usage.occurrences;
+      cluster.members.push(usage.hex);
+      cluster.properties = [...new Set([...cluster.properties, ...usage.properties])];
+    } else {
+      clusters.push({ ...usage, properties: [...usage.properties], members: [usage.hex], share: 0 });
+    }
+  }
+
+  return clusters
+    .map(cluster => ({
+      ...cluster,
+      weight: Math.round(cluster.weight * 100) / 100,
+      share: total > 0 ? Math.round((cluster.weight / total) * 10000) / 10000 : 0,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
@@ -29,14 +29,110 @@ export const ColorDataSchema = z.object({
   }),
 });
 
+const HexColorSchema = z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Invalid hex color format');
+
+// Palette JSON expected from language model providers
+export const AIPaletteResponseSchema = z.object({
+  colors: z.array(z.object({
+    hex: HexColorSchema,
+    name: z.string().min(1).max(50),
+    category: z.enum(['primary', 'secondary', 'accent', 'neutral']),
+    usage: z.string().max(200).optional(),
+    rationale: z.string().max(300).optional(),
+    psychology: z.array(z.string().min(1).max(50)).max(6).optional(),
+  })).min(1).max(10),
+  explanation: z.string().max(1000).optional(),
+});
+
+export const LockedColorSchema = z.object({
+  hex: HexColorSchema,
+  position: z.number().int().min(0).max(9),
+  category: z.enum(['primary', 'secondary', 'accent', 'neutral']).optional(),
+  name: z.string().min(1).max(50).optional(),
+});
+
+const BoundsSchema = z.object({
+  min: z.number().min(0).max(100).optional(),
+  max: z.number().min(0).max(100).optional(),
+}).refine(
+  bounds => bounds.min === undefined || bounds.max === undefined || bounds.min <= bounds.max,
+  'min must not be greater than max'
+);
+
+export const ColorExclusionsSchema = z.object({
+  hueRanges: z.array(z.object({
+    from: z.number().min(0).max(360),
+    to: z.number().min(0).max(360),
+  })).max(12).optional(),
+  saturation: BoundsSchema.optional(),
+  lightness: BoundsSchema.optional(),
+  colors: z.array(z.object({
+    hex: HexColorSchema,
+    tolerance: z.number().min(0).max(100).optional(),
+  })).max(20).optional(),
+});
+
+// Image regions in coordinates relative to the image size
+const RelativeCoordinateSchema = z.number().min(0).max(1);
+
+export const ExtractionRegionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('rect'),
+    x: RelativeCoordinateSchema,
+    y: RelativeCoordinateSchema,
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  }),
+  z.object({
+    type: z.literal('polygon'),
+    points: z.array(z.object({ x: RelativeCoordinateSchema, y: RelativeCoordinateSchema })).min(3).max(100),
+  }),
+]);
+
 // Generation options validation
 export const GenerationOptionsSchema = z.object({
   colorCount: z.number().min(3).max(10).default(5),
   harmonyType: z.enum(['complementary', 'triadic', 'analogous', 'monochromatic', 'tetradic']).default('complementary'),
   accessibilityLevel: z.enum(['AA', 'AAA']).default('AA'),
+  contrastModel: z.enum(['wcag2', 'apca']).default('wcag2'),
   includeNeutrals: z.boolean().default(true),
+  lockedColors: z.array(LockedColorSchema).max(10).optional(),
+  seedColors: z.array(HexColorSchema).max(5).optional(),
+  variants: z.number().int().min(2).max(6).optional(),
+  seed: z.number().int().min(0).max(4294967295).optional(),
+  exclude: ColorExclusionsSchema.optional(),
+  noCache: z.boolean().optional(),
 });
 
+/**
+ * Check that locked colors fit the requested palette size and do not share a position
+ */
+function refineColorConstraints(
+  options: Partial<z.infer<typeof GenerationOptionsSchema>>,
+  ctx: z.RefinementCtx
+) {
+  const colorCount = options.colorCount ?? 5;
+  const positions = new Set<number>();
+
+  (options.lockedColors || []).forEach((locked, index) => {
+    if (locked.position >= colorCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['lockedColors', index, 'position'],
+        message: `Locked color position ${locked.position} is outside a ${colorCount}-color palette`,
+      });
+    }
+    if (positions.has(locked.position)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['lockedColors', index, 'position'],
+        message: `More than one color is locked at position ${locked.position}`,
+      });
+    }
+    positions.add(locked.position);
+  });
+}
+
 // Request validation schemas
 export const TextGenerationRequestSchema = z.object({
   prompt: z.string()
@@ -47,12 +143,112 @@ export const TextGenerationRequestSchema = z.object({
       'Prompt cannot be empty or only whitespace'
     ),
   userId: z.string().optional(),
-  options: GenerationOptionsSchema.partial().optional(),
+  options: GenerationOptionsSchema.partial().superRefine(refineColorConstraints).optional(),
 });
 
+// Multipart forms and query strings send objects and arrays as JSON strings
+const parseJsonField = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Query parameters for GET /api/generate/text/stream, since EventSource cannot send a body;
+// lockedColors, seedColors and exclude are JSON-encoded
+export const TextGenerationStreamQuerySchema = z.object({
+  prompt: TextGenerationRequestSchema.shape.prompt,
+  userId: z.string().optional(),
+  colorCount: z.string().transform(Number).pipe(z.number().min(3).max(10)).optional(),
+  harmonyType: z.enum(['complementary', 'triadic', 'analogous', 'monochromatic', 'tetradic']).optional(),
+  accessibilityLevel: z.enum(['AA', 'AAA']).optional(),
+  contrastModel: z.enum(['wcag2', 'apca']).optional(),
+  includeNeutrals: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  lockedColors: z.preprocess(parseJsonField, GenerationOptionsSchema.shape.lockedColors),
+  seedColors: z.preprocess(parseJsonField, GenerationOptionsSchema.shape.seedColors),
+  seed: z.string().transform(Number).pipe(z.number().int().min(0).max(4294967295)).optional(),
+  exclude: z.preprocess(parseJsonField, GenerationOptionsSchema.shape.exclude),
+  noCache: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+}).superRefine(refineColorConstraints);
+
+// Recipe recorded with a text generation, accepted when saving a chosen variant
+export const GenerationRecipeSchema = z.object({
+  pipelineVersion: z.number().int().min(1),
+  prompt: z.string().min(1).max(500),
+  provider: z.string().min(1).max(50),
+  model: z.string().min(1).max(200),
+  seed: z.number().int().min(0).max(4294967295),
+  options: GenerationOptionsSchema.extend({
+    temperature: z.number().min(0).max(2).optional(),
+  }),
+  context: z.object({
+    prompt: z.string().max(500),
+    mood: z.string().max(50).optional(),
+    industry: z.string().max(50).optional(),
+    targetAudience: z.string().max(50).optional(),
+    brandPersonality: z.array(z.string().max(50)).max(10).optional(),
+    namedColors: z.array(z.object({
+      term: z.string().max(50),
+      hex: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+      source: z.enum(['css', 'hex']),
+    })).max(20).optional(),
+    negations: z.array(z.object({
+      term: z.string().max(50),
+      kind: z.enum(['color', 'descriptor']),
+      hex: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+    })).max(20).optional(),
+    colorCountHint: z.number().int().min(1).max(12).optional(),
+    confidence: z.record(z.number().min(0).max(1)).optional(),
+  }),
+});
+
+// Request body for POST /api/generate/analyze-prompt
+export const PromptAnalysisRequestSchema = z.object({
+  prompt: TextGenerationRequestSchema.shape.prompt,
+});
+
+const ImageOptionsSchema = GenerationOptionsSchema.partial().extend({
+  algorithm: z.enum(['kmeans', 'median-cut', 'octree']).optional(),
+  regions: z.array(ExtractionRegionSchema).max(20).optional(),
+  excludeBackground: z.boolean().optional(),
+  saliency: z.boolean().optional(),
+  accentSlot: z.boolean().optional(),
+});
+
+/** Most images accepted on one mood board */
+export const MAX_MOOD_BOARD_IMAGES = 20;
+
+// One weight per mood board image, in upload order
+const MoodBoardWeightsSchema = z.preprocess(
+  parseJsonField,
+  z.array(z.coerce.number().positive().max(100)).max(MAX_MOOD_BOARD_IMAGES).optional()
+);
+
+// Multipart fields for POST /api/generate/image; weights apply when several `images` are uploaded
 export const ImageGenerationRequestSchema = z.object({
   userId: z.string().optional(),
-  options: GenerationOptionsSchema.partial().optional(),
+  options: z.preprocess(parseJsonField, ImageOptionsSchema.superRefine(refineColorConstraints).optional()),
+  weights: MoodBoardWeightsSchema,
+});
+
+// Multipart fields for POST /api/generate/moodboard; regions and the accent slot are per image
+export const MoodBoardGenerationRequestSchema = z.object({
+  userId: z.string().optional(),
+  options: z.preprocess(
+    parseJsonField,
+    ImageOptionsSchema.omit({ regions: true, accentSlot: true }).superRefine(refineColorConstraints).optional()
+  ),
+  weights: MoodBoardWeightsSchema,
+});
+
+// Multipart fields for POST /api/generate/from-source
+export const SourceGenerationRequestSchema = z.object({
+  userId: z.string().optional(),
+  format: z.enum(['css', 'scss', 'svg', 'html']).optional(),
+  colorCount: z.coerce.number().int().min(3).max(10).optional(),
+  contrastModel: z.enum(['wcag2', 'apca']).optional(),
 });
 
 export const SavePaletteRequestSchema = z.object({
@@ -94,7 +290,7 @@ export const PaletteHistoryQuerySchema = z.object({
 });
 
 // Export validation
-export const ExportFormatSchema = z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind']);
+export const ExportFormatSchema = z.enum(['css', 'scss', 'json', 'ase', 'sketch', 'figma', 'tailwind', 'dtcg', 'style-dictionary']);
 
 export const ExportRequestSchema = z.object({
   id: z.string().cuid('Invalid palette ID'),
@@ -119,7 +315,12 @@ export const EnvironmentSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).pipe(z.number().min(1).max(65535)).default('3001'),
   DATABASE_URL: z.string().url('Invalid database URL'),
-  GEMINI_API_KEY: z.string().min(1, 'Gemini API key is required'),
+  PALETTE_PROVIDERS: z.string().regex(
+    /^\s*(gemini|openai-compatible|mock)\s*(,\s*(gemini|openai-compatible|mock)\s*)*$/,
+    'PALETTE_PROVIDERS must be a comma-separated list of gemini, openai-compatible and mock'
+  ).optional(),
+  GEMINI_API_KEY: z.string().min(1).optional(),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url('Invalid OpenAI-compatible base URL').optional(),
   CORS_ORIGIN: z.string().url().default('http://localhost:3000'),
   JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters').optional(),
   MAX_FILE_SIZE: z.string().transform(Number).pipe(z.number().positive()).default('5242880'),
@@ -169,7 +370,11 @@ export function validateEnvironment(): void {
 
 // Type exports for use in other files
 export type TextGenerationRequest = z.infer<typeof TextGenerationRequestSchema>;
+export type AIPaletteResponse = z.infer<typeof AIPaletteResponseSchema>;
+export type GenerationRecipeInput = z.infer<typeof GenerationRecipeSchema>;
 export type ImageGenerationRequest = z.infer<typeof ImageGenerationRequestSchema>;
+export type MoodBoardGenerationRequest = z.infer<typeof MoodBoardGenerationRequestSchema>;
+export type SourceGenerationRequest = z.infer<typeof SourceGenerationRequestSchema>;
 export type SavePaletteRequest = z.infer<typeof SavePaletteRequestSchema>;
 export type PaginationQuery = z.infer<typeof PaginationQuerySchema>;
 export type PaletteHistoryQuery = z.infer<typeof PaletteHistoryQuerySchema>;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Eye,
@@ -16,15 +16,21 @@ import {
     ColorPalette as ColorPaletteType,
     Color,
     ColorBlindnessType,
-    ContrastRatio
+    ContrastRatio,
+    ContrastModel
 } from '../types/color';
 import {
     simulateColorBlindness,
     getAccessibilityStatusIcon,
     formatContrastRatio,
+    formatAPCAContrast,
     getColorBlindnessDescription,
-    analyzeColorAccessibility
+    analyzeColorAccessibility,
+    calculateAccessibilityScore
 } from '../utils/accessibility';
+import { DEFAULT_CVD_SEVERITY } from '../utils/colorVision';
+
+const ANOMALOUS_TYPES: ColorBlindnessType[] = ['protanomaly', 'deuteranomaly', 'tritanomaly'];
 
 interface AccessibilityPanelProps {
     palette: ColorPaletteType;
@@ -86,8 +92,23 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
     onColorBlindnessToggle,
 }) => {
     const [activeColorBlindness, setActiveColorBlindness] = useState<ColorBlindnessType | null>(null);
+    const [severity, setSeverity] = useState(DEFAULT_CVD_SEVERITY);
     const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['overview']));
     const [selectedColor, setSelectedColor] = useState<Color | null>(null);
+    const [contrastModel, setContrastModel] = useState<ContrastModel>('wcag2');
+
+    const contrastModels: { model: ContrastModel; label: string; description: string }[] = [
+        {
+            model: 'wcag2',
+            label: 'WCAG 2',
+            description: 'WCAG 2.x contrast ratios: 4.5:1 for AA and 7:1 for AAA.'
+        },
+        {
+            model: 'apca',
+            label: 'APCA',
+            description: 'APCA lightness contrast (WCAG 3 draft): Lc 60 for AA and Lc 75 for AAA, with font size guidance.'
+        },
+    ];
 
     const colorBlindnessTypes: { type: ColorBlindnessType; label: string; description: string }[] = [
         {
@@ -105,6 +126,21 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
             label: 'Tritanopia',
             description: 'Blue-blind (rare, affects ~0.01% of people). Difficulty with blue-yellow spectrum.'
         },
+        {
+            type: 'protanomaly',
+            label: 'Protanomaly',
+            description: 'Red-weak (affects ~1% of men). Reds appear duller and closer to green.'
+        },
+        {
+            type: 'deuteranomaly',
+            label: 'Deuteranomaly',
+            description: 'Green-weak (affects ~5% of men). The most common color vision deficiency.'
+        },
+        {
+            type: 'tritanomaly',
+            label: 'Tritanomaly',
+            description: 'Blue-weak (rare). Blues and yellows are harder to tell apart.'
+        },
         {
             type: 'achromatopsia',
             label: 'Achromatopsia',
@@ -135,9 +171,9 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
 
         return colors.map(color => ({
             ...color,
-            hex: simulateColorBlindness(color.hex, activeColorBlindness),
+            hex: simulateColorBlindness(color.hex, activeColorBlindness, severity),
         }));
-    }, [activeColorBlindness]);
+    }, [activeColorBlindness, severity]);
 
     const getContrastVisualization = (ratio: ContrastRatio) => {
         const { icon, color, label } = getAccessibilityStatusIcon(ratio.level);
@@ -157,11 +193,22 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                     </div>
                     <div>
                         <div className="text-sm font-medium text-gray-900">
-                            {formatContrastRatio(ratio.ratio)}
+                            {contrastModel === 'apca' && ratio.apcaLc !== undefined
+                                ? formatAPCAContrast(ratio.apcaLc)
+                                : formatContrastRatio(ratio.ratio)}
                         </div>
                         <div className="text-xs text-gray-600">
                             {ratio.color1} on {ratio.color2}
                         </div>
+                        {contrastModel === 'apca' && ratio.apcaRecommendation && (
+                            <div className="text-xs text-gray-500">
+                                {ratio.apcaRecommendation.fonts.length > 0
+                                    ? `${ratio.apcaRecommendation.description}: ${ratio.apcaRecommendation.fonts
+                                        .map(font => `${font.size}px/${font.weight}`)
+                                        .join(', ')}`
+                                    : ratio.apcaRecommendation.description}
+                            </div>
+                        )}
                     </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -180,7 +227,14 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
     };
 
     const simulatedColors = getSimulatedColors(palette.colors);
-    const { accessibilityScore } = palette;
+
+    // Palettes arrive scored with WCAG 2; APCA levels are recalculated locally
+    const accessibilityScore = useMemo(
+        () => contrastModel === 'apca'
+            ? calculateAccessibilityScore(palette.colors, 'apca')
+            : palette.accessibilityScore,
+        [contrastModel, palette]
+    );
 
     return (
         <div className={`bg-white rounded-xl shadow-lg border border-gray-200 ${className}`}>
@@ -195,9 +249,29 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                         </div>
                     </div>
 
-                    <Tooltip content="This panel helps ensure your color palette is accessible to all users, including those with visual impairments.">
-                        <HelpCircle className="w-5 h-5 text-gray-400 hover:text-gray-600 cursor-help" />
-                    </Tooltip>
+                    <div className="flex items-center space-x-3">
+                        {/* Contrast model toggle */}
+                        <div className="flex rounded-lg border border-gray-200 overflow-hidden" role="group" aria-label="Contrast model">
+                            {contrastModels.map(({ model, label, description }) => (
+                                <Tooltip key={model} content={description} position="bottom">
+                                    <button
+                                        onClick={() => setContrastModel(model)}
+                                        aria-pressed={contrastModel === model}
+                                        className={`px-3 py-1 text-sm font-medium transition-colors ${contrastModel === model
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-white text-gray-700 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                </Tooltip>
+                            ))}
+                        </div>
+
+                        <Tooltip content="This panel helps ensure your color palette is accessible to all users, including those with visual impairments.">
+                            <HelpCircle className="w-5 h-5 text-gray-400 hover:text-gray-600 cursor-help" />
+                        </Tooltip>
+                    </div>
                 </div>
             </div>
 
@@ -252,7 +326,7 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                                     </div>
                                     <Tooltip content="AAA is the highest level of WCAG compliance, AA is acceptable for most uses, FAIL means improvements are needed.">
                                         <p className="text-xs text-gray-500 mt-2 cursor-help">
-                                            WCAG 2.1 Compliance Level
+                                            {contrastModel === 'apca' ? 'APCA Compliance Level' : 'WCAG 2.1 Compliance Level'}
                                         </p>
                                     </Tooltip>
                                 </div>
@@ -368,6 +442,28 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                                 ))}
                             </div>
 
+                            {/* Severity control for anomalous trichromacy */}
+                            {activeColorBlindness && ANOMALOUS_TYPES.includes(activeColorBlindness) && (
+                                <div className="flex items-center space-x-3">
+                                    <label htmlFor="cvd-severity" className="text-sm text-gray-700">
+                                        Severity
+                                    </label>
+                                    <input
+                                        id="cvd-severity"
+                                        type="range"
+                                        min={0}
+                                        max={1}
+                                        step={0.1}
+                                        value={severity}
+                                        onChange={(e) => setSeverity(Number(e.target.value))}
+                                        className="flex-1"
+                                    />
+                                    <span className="text-sm text-gray-600 font-mono w-10 text-right">
+                                        {Math.round(severity * 100)}%
+                                    </span>
+                                </div>
+                            )}
+
                             {/* Clear Simulation Button */}
                             {activeColorBlindness && (
                                 <button
@@ -454,15 +550,27 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                                 ))}
                             </div>
 
-                            <div className="bg-gray-50 rounded-lg p-4">
-                                <h4 className="font-semibold text-gray-900 mb-2">Understanding Contrast Ratios</h4>
-                                <div className="text-sm text-gray-700 space-y-1">
-                                    <p><strong>AAA (7:1):</strong> Enhanced contrast for users with low vision</p>
-                                    <p><strong>AA (4.5:1):</strong> Minimum contrast for normal text</p>
-                                    <p><strong>AA Large (3:1):</strong> Minimum contrast for large text (18pt+)</p>
-                                    <p><strong>Fail (&lt;3:1):</strong> Insufficient contrast for accessibility</p>
+                            {contrastModel === 'apca' ? (
+                                <div className="bg-gray-50 rounded-lg p-4">
+                                    <h4 className="font-semibold text-gray-900 mb-2">Understanding APCA Lc Values</h4>
+                                    <div className="text-sm text-gray-700 space-y-1">
+                                        <p><strong>AAA (Lc 75):</strong> Minimum for body text columns</p>
+                                        <p><strong>AA (Lc 60):</strong> Minimum for other content text</p>
+                                        <p><strong>Lc 45:</strong> Headlines and large, heavy text only</p>
+                                        <p><strong>Negative Lc:</strong> Light text on a dark background</p>
+                                    </div>
                                 </div>
-                            </div>
+                            ) : (
+                                <div className="bg-gray-50 rounded-lg p-4">
+                                    <h4 className="font-semibold text-gray-900 mb-2">Understanding Contrast Ratios</h4>
+                                    <div className="text-sm text-gray-700 space-y-1">
+                                        <p><strong>AAA (7:1):</strong> Enhanced contrast for users with low vision</p>
+                                        <p><strong>AA (4.5:1):</strong> Minimum contrast for normal text</p>
+                                        <p><strong>AA Large (3:1):</strong> Minimum contrast for large text (18pt+)</p>
+                                        <p><strong>Fail (&lt;3:1):</strong> Insufficient contrast for accessibility</p>
+                                    </div>
+                                </div>
+                            )}
                         </motion.div>
                     )}
                 </AnimatePresence>
@@ -489,21 +597,25 @@ const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
                         </div>
 
                         {(() => {
-                            const analysis = analyzeColorAccessibility(selectedColor);
+                            const analysis = analyzeColorAccessibility(selectedColor, contrastModel);
                             return (
                                 <div className="space-y-3">
                                     <div className="grid grid-cols-2 gap-4">
                                         <div>
                                             <p className="text-sm font-medium text-gray-900">Contrast with White</p>
                                             <p className="text-lg font-bold text-gray-700">
-                                                {formatContrastRatio(analysis.contrastWithWhite)}
+                                                {contrastModel === 'apca'
+                                                    ? formatAPCAContrast(analysis.apcaLcOnWhite)
+                                                    : formatContrastRatio(analysis.contrastWithWhite)}
                                             </p>
                                             <p className="text-xs text-gray-600">{analysis.wcagLevelWhite}</p>
                                         </div>
                                         <div>
                                             <p className="text-sm font-medium text-gray-900">Contrast with Black</p>
                                             <p className="text-lg font-bold text-gray-700">
-                                                {formatContrastRatio(analysis.contrastWithBlack)}
+                                                {contrastModel === 'apca'
+                                                    ? formatAPCAContrast(analysis.apcaLcOnBlack)
+                                                    : formatContrastRatio(analysis.contrastWithBlack)}
                                             </p>
                                             <p className="text-xs text-gray-600">{analysis.wcagLevelBlack}</p>
                                         </div>
@@ -0,0 +1,81 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ColorData } from '../types/api';
+
+interface ColorAlternativesProps {
+  alternatives: ColorData[];
+  /** Alternative currently previewed in the swatch */
+  selected: ColorData | null;
+  isLoading?: boolean;
+  expectedCount?: number;
+  onPreview: (color: ColorData) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/**
+ * Picker for the alternatives suggested for one palette color; nothing changes until Apply
+ */
+const ColorAlternatives: React.FC<ColorAlternativesProps> = ({
+  alternatives,
+  selected,
+  isLoading = false,
+  expectedCount = 3,
+  onPreview,
+  onApply,
+  onCancel,
+  className = ''
+}) => {
+  return (
+    <div className={`bg-gray-50 rounded-lg p-3 space-y-2 ${className}`} role="group" aria-label="Color alternatives">
+      <div className="flex gap-2">
+        {isLoading
+          ? Array.from({ length: expectedCount }, (_, index) => (
+              <div key={`placeholder-${index}`} className="flex-1 h-8 rounded-md bg-gray-200 animate-pulse" />
+            ))
+          : alternatives.map((color, index) => (
+              <motion.button
+                key={`${index}-${color.hex}`}
+                type="button"
+                onClick={() => onPreview(color)}
+                className={`flex-1 h-8 rounded-md shadow-sm border-2 transition-colors ${
+                  selected?.hex === color.hex ? 'border-gray-900' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: color.hex }}
+                title={`${color.name} ${color.hex}`}
+                aria-label={`Preview ${color.name} ${color.hex}`}
+                aria-pressed={selected?.hex === color.hex}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.2, delay: index * 0.05 }}
+              />
+            ))}
+      </div>
+
+      {!isLoading && alternatives.length === 0 && (
+        <p className="text-xs text-gray-500">No alternatives found for this color.</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-xs font-medium text-gray-600 hover:text-gray-900 px-3 py-1 rounded-md hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={!selected}
+          className="text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-3 py-1 rounded-md transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorAlternatives;
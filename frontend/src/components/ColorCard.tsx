@@ -18,9 +18,22 @@ interface ColorData {
 interface ColorCardProps {
   color: ColorData;
   showDetails?: boolean;
+  /** Locked colors are kept unchanged when the palette is regenerated */
+  isLocked?: boolean;
+  onToggleLock?: () => void;
+  /** Ask for alternatives to this color */
+  onShuffle?: () => void;
+  isShuffling?: boolean;
 }
 
-const ColorCard: React.FC<ColorCardProps> = ({ color, showDetails = true }) => {
+const ColorCard: React.FC<ColorCardProps> = ({
+  color,
+  showDetails = true,
+  isLocked = false,
+  onToggleLock,
+  onShuffle,
+  isShuffling = false
+}) => {
   const [activeFormat, setActiveFormat] = useState<'hex' | 'rgb' | 'hsl' | 'css'>('hex');
   const [showTooltip, setShowTooltip] = useState(false);
 
@@ -104,6 +117,44 @@ const ColorCard: React.FC<ColorCardProps> = ({ color, showDetails = true }) => {
             {color.category}
           </span>
         </div>
+
+        <div className="absolute top-2 right-2 flex gap-1">
+          {/* Shuffle */}
+          {onShuffle && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onShuffle();
+              }}
+              disabled={isShuffling}
+              className="px-2 py-1 rounded-full text-xs font-medium shadow-sm bg-white bg-opacity-90 text-gray-700 hover:bg-opacity-100 disabled:opacity-60 transition-colors"
+              aria-label={`Suggest alternatives to ${color.name}`}
+              title="Suggest alternatives for this color"
+            >
+              <span className={isShuffling ? 'inline-block animate-spin' : ''}>🔀</span>
+            </button>
+          )}
+
+          {/* Lock Toggle */}
+          {onToggleLock && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleLock();
+              }}
+              className={`px-2 py-1 rounded-full text-xs font-medium shadow-sm transition-colors ${
+                isLocked ? 'bg-gray-900 text-white' : 'bg-white bg-opacity-90 text-gray-700 hover:bg-opacity-100'
+              }`}
+              aria-pressed={isLocked}
+              aria-label={isLocked ? `Unlock ${color.name}` : `Lock ${color.name}`}
+              title={isLocked ? 'Locked: kept when regenerating' : 'Lock to keep when regenerating'}
+            >
+              {isLocked ? '🔒' : '🔓'}
+            </button>
+          )}
+        </div>
       </div>
 
       {showDetails && (
@@ -124,12 +124,13 @@ const ColorExplanationPanel: React.FC<ColorExplanationPanelProps> = ({
       colorName: color.name,
       hex: color.hex,
       category: color.category,
-      psychologyEffect: getColorPsychology(color.hex),
-      usageRecommendation: color.usage || `Perfect for ${color.category} elements in your design system.`,
+      psychologyEffect: color.psychology?.length ? `Evokes ${color.psychology.join(', ')}.` : getColorPsychology(color.hex),
+      usageRecommendation: color.suggestedUsage || color.usage || `Perfect for ${color.category} elements in your design system.`,
       harmonyType: "complementary", // This would come from AI
       accessibilityNotes: `Contrast with white: ${color.accessibility?.contrastWithWhite?.toFixed(1) || 'N/A'}:1, WCAG ${color.accessibility?.wcagLevel || 'Unknown'}`,
       designTips: getDesignTips(color.category, color.hex),
-      brandingContext: getBrandingContext(color.category, userPrompt)
+      // Prefer the reason saved with the palette over the prompt-keyword guess
+      brandingContext: color.rationale || getBrandingContext(color.category, userPrompt)
     };
   };
 
@@ -1,13 +1,19 @@
 import React, { useState, useCallback, useMemo, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Copy, Check, Eye, EyeOff, Info, Palette } from 'lucide-react';
+import { Copy, Check, Eye, EyeOff, Info, Palette, Shuffle } from 'lucide-react';
 import { ColorPalette as ColorPaletteType, Color } from '../types/color';
 import { formatColorValue } from '../utils/colorConversion';
+import { useColorAlternatives } from '../hooks/useColorAlternatives';
+import ColorAlternatives from './ColorAlternatives';
 
 interface ColorPaletteProps {
   palette: ColorPaletteType;
   showAccessibilityInfo?: boolean;
   onColorCopy?: (color: Color, format: 'hex' | 'rgb' | 'hsl') => void;
+  /** Enables the shuffle control: fetch alternatives for the color at this palette index */
+  onRequestAlternatives?: (color: Color, index: number) => Promise<Color[]>;
+  /** Called when a previewed alternative is applied */
+  onColorReplace?: (index: number, color: Color) => void;
   className?: string;
 }
 
@@ -17,6 +23,8 @@ const ColorPalette: React.FC<ColorPaletteProps> = memo(({
   palette,
   showAccessibilityInfo = true,
   onColorCopy,
+  onRequestAlternatives,
+  onColorReplace,
   className = '',
 }) => {
   const [colorFormat, setColorFormat] = useState<ColorFormat>('hex');
@@ -24,6 +32,28 @@ const ColorPalette: React.FC<ColorPaletteProps> = memo(({
   const [showUsageRecommendations, setShowUsageRecommendations] = useState(true);
   const [hoveredColor, setHoveredColor] = useState<string | null>(null);
 
+  const fetchAlternatives = useCallback(
+    (index: number) => onRequestAlternatives
+      ? onRequestAlternatives(palette.colors[index], index)
+      : Promise.resolve([]),
+    [onRequestAlternatives, palette.colors]
+  );
+  const alternatives = useColorAlternatives(fetchAlternatives);
+  const { shuffle, apply } = alternatives;
+
+  const handleShuffle = useCallback((index: number) => {
+    shuffle(index).catch(error => {
+      console.error('Failed to load color alternatives:', error);
+    });
+  }, [shuffle]);
+
+  const handleApplyAlternative = useCallback(() => {
+    const selection = apply();
+    if (selection) {
+      onColorReplace?.(selection.index, selection.color);
+    }
+  }, [apply, onColorReplace]);
+
   // Group colors by category - memoized for performance
   const groupedColors = useMemo(() => {
     return palette.colors.reduce((acc, color) => {
@@ -206,6 +236,9 @@ const ColorPalette: React.FC<ColorPaletteProps> = memo(({
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {colors.map((color, index) => {
+                  const paletteIndex = palette.colors.indexOf(color);
+                  const isShuffling = alternatives.activeIndex === paletteIndex;
+                  const swatchHex = (isShuffling && alternatives.previewColor?.hex) || color.hex;
                   const colorValue = formatColorValue(color.hex, colorFormat);
                   const isCopied = copiedColor === color.hex;
                   const isHovered = hoveredColor === color.hex;
@@ -225,9 +258,24 @@ const ColorPalette: React.FC<ColorPaletteProps> = memo(({
                       {/* Color Swatch */}
                       <div
                         className="h-24 w-full relative cursor-pointer group"
-                        style={{ backgroundColor: color.hex }}
+                        style={{ backgroundColor: swatchHex }}
                         onClick={() => handleColorCopy(color)}
                       >
+                        {/* Shuffle Control */}
+                        {onRequestAlternatives && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleShuffle(paletteIndex);
+                            }}
+                            className="absolute top-2 right-2 z-10 p-1.5 rounded-full bg-white/90 text-gray-700 shadow-sm hover:bg-white transition-colors"
+                            title="Suggest alternatives for this color"
+                            aria-label={`Suggest alternatives to ${color.name}`}
+                          >
+                            <Shuffle className={`w-4 h-4 ${isShuffling && alternatives.isLoading ? 'animate-spin' : ''}`} />
+                          </button>
+                        )}
+
                         {/* Copy Overlay */}
                         <AnimatePresence>
                           {(isHovered || isCopied) && (
@@ -302,6 +350,18 @@ const ColorPalette: React.FC<ColorPaletteProps> = memo(({
                             </span>
                           </div>
                         )}
+
+                        {/* Alternatives Picker */}
+                        {isShuffling && (
+                          <ColorAlternatives
+                            alternatives={alternatives.alternatives}
+                            selected={alternatives.previewColor}
+                            isLoading={alternatives.isLoading}
+                            onPreview={alternatives.preview}
+                            onApply={handleApplyAlternative}
+                            onCancel={alternatives.dismiss}
+                          />
+                        )}
                       </div>
                     </motion.div>
                   );
@@ -12,7 +12,7 @@ import {
   Clock,
   Copy
 } from 'lucide-react';
-import { ColorPalette, ExportFormat, ExportData } from '../types/color';
+import { Color, ColorPalette, ExportFormat, ExportData } from '../types/color';
 
 interface ExportDropdownProps {
   palette: ColorPalette;
@@ -45,6 +45,28 @@ interface ExportPreview {
   filename: string;
 }
 
+/**
+ * Group colors by category in palette order, giving each a unique token key within its group
+ */
+const groupByCategory = (colors: Color[]): Map<string, { key: string; color: Color }[]> => {
+  const groups = new Map<string, { key: string; color: Color }[]>();
+
+  colors.forEach(color => {
+    const group = groups.get(color.category) || [];
+    const base = color.name.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase() || 'color';
+    const taken = new Set(group.map(entry => entry.key));
+    let key = base;
+    for (let suffix = 2; taken.has(key); suffix++) {
+      key = `${base}-${suffix}`;
+    }
+
+    group.push({ key, color });
+    groups.set(color.category, group);
+  });
+
+  return groups;
+};
+
 const ExportDropdown: React.FC<ExportDropdownProps> = ({
   palette,
   className = '',
@@ -119,6 +141,22 @@ const ExportDropdown: React.FC<ExportDropdownProps> = ({
       fileExtension: 'json',
       mimeType: 'application/json',
     },
+    {
+      format: 'dtcg',
+      label: 'Design Tokens (DTCG)',
+      description: 'W3C Design Tokens Community Group format',
+      icon: <FileText className="w-4 h-4" />,
+      fileExtension: 'tokens.json',
+      mimeType: 'application/json',
+    },
+    {
+      format: 'style-dictionary',
+      label: 'Style Dictionary',
+      description: 'Style Dictionary token source file',
+      icon: <FileText className="w-4 h-4" />,
+      fileExtension: 'json',
+      mimeType: 'application/json',
+    },
   ];
 
   // Close dropdown when clicking outside
@@ -371,6 +409,45 @@ ${palette.colors.filter(c => c.category === 'accent').map((color, index) =>
           mimeType: 'application/json',
         };
 
+      case 'dtcg':
+        const dtcgContent: Record<string, any> = { $description: palette.name };
+        groupByCategory(palette.colors).forEach((colors, category) => {
+          dtcgContent[category] = {};
+          colors.forEach(({ key, color }) => {
+            dtcgContent[category][key] = {
+              $value: color.hex,
+              $type: 'color',
+              ...(color.usage ? { $description: color.usage } : {}),
+            };
+          });
+        });
+
+        return {
+          format,
+          content: JSON.stringify(dtcgContent, null, 2),
+          filename: `${filename}.tokens.json`,
+          mimeType: 'application/json',
+        };
+
+      case 'style-dictionary':
+        const styleDictionaryContent: { color: Record<string, any> } = { color: {} };
+        groupByCategory(palette.colors).forEach((colors, category) => {
+          styleDictionaryContent.color[category] = {};
+          colors.forEach(({ key, color }) => {
+            styleDictionaryContent.color[category][key] = {
+              value: color.hex,
+              ...(color.usage ? { comment: color.usage } : {}),
+            };
+          });
+        });
+
+        return {
+          format,
+          content: JSON.stringify(styleDictionaryContent, null, 2),
+          filename: `${filename}-style-dictionary.json`,
+          mimeType: 'application/json',
+        };
+
       case 'ase':
         // For ASE format, we'll create a simplified representation
         // In a real implementation, you'd need a proper ASE encoder
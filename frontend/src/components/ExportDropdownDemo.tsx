@@ -387,6 +387,14 @@ const ExportDropdownDemo: React.FC = () => {
                   <span className="text-gray-600">Figma Tokens</span>
                   <span className="text-gray-900 font-medium">.json</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Design Tokens (DTCG)</span>
+                  <span className="text-gray-900 font-medium">.tokens.json</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Style Dictionary</span>
+                  <span className="text-gray-900 font-medium">.json</span>
+                </div>
               </div>
             </div>
           </div>
@@ -402,7 +410,7 @@ const ExportDropdownDemo: React.FC = () => {
               <h4 className="font-medium mb-2">Export Options</h4>
               <ul className="space-y-1 text-sm">
                 <li>• Click the Export button to open the dropdown</li>
-                <li>• Choose from 7 different export formats</li>
+                <li>• Choose from 9 different export formats</li>
                 <li>• Each format is optimized for specific use cases</li>
                 <li>• Download files directly to your computer</li>
               </ul>
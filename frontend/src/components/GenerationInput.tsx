@@ -1,9 +1,28 @@
 import React, { useState, useRef } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import { colorAPI } from '../utils/api';
-import { TextGenerationRequest, GenerationResponse } from '../types/api';
+import { colorAPI, paletteAPI } from '../utils/api';
+import {
+  TextGenerationRequest,
+  GenerationResponse,
+  GenerationVariantsResponse,
+  PaletteVariant,
+  MoodBoardResponse,
+  SourceGenerationResponse,
+} from '../types/api';
 import { safeExtractColorsFromImage } from '../utils/safeImageExtraction';
+import { useStreamingGeneration } from '../hooks/useStreamingGeneration';
+import { usePromptAnalysis } from '../hooks/usePromptAnalysis';
+import GenerationProgress from './GenerationProgress';
+import PaletteVariantGrid from './PaletteVariantGrid';
+import PromptUnderstanding from './PromptUnderstanding';
+
+// Stylesheets, SVG logos and saved pages are read for the colors they declare
+const SOURCE_EXTENSIONS = ['.css', '.scss', '.svg', '.html', '.htm'];
+
+// Several images are merged into one mood board palette, up to the server's limit
+const MAX_MOOD_BOARD_IMAGES = 20;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
 
 interface GenerationInputProps {
   onGenerated: (response: GenerationResponse) => void;
@@ -16,21 +35,79 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
   const [dragActive, setDragActive] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // 1 generates a single palette; more returns candidates to compare before saving
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantResult, setVariantResult] = useState<GenerationVariantsResponse | null>(null);
+  const [selectedVariant, setSelectedVariant] = useState<number | null>(null);
+  const { analysis, isAnalyzing } = usePromptAnalysis(prompt);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const streaming = useStreamingGeneration();
 
-  // Text generation mutation
+  // Text generation mutation, streamed so swatches appear as each stage completes
   const textMutation = useMutation({
-    mutationFn: (request: TextGenerationRequest) => colorAPI.generateFromText(request),
+    mutationFn: (request: TextGenerationRequest) => streaming.generate(request),
     onSuccess: (response: GenerationResponse) => {
       toast.success(`Generated "${response.name}"!`);
       onGenerated(response);
       setPrompt('');
     },
     onError: (error: any) => {
+      if (error.code === 'GENERATION_CANCELLED') {
+        toast('Generation cancelled');
+        return;
+      }
       toast.error(error.error || 'Failed to generate palette');
     },
   });
 
+  // Multi-variant generation: candidates are shown in a grid and nothing is saved yet
+  const variantsMutation = useMutation({
+    mutationFn: (request: TextGenerationRequest) => colorAPI.generateVariants(request, variantCount),
+    onSuccess: (result: GenerationVariantsResponse) => {
+      setVariantResult(result);
+      setSelectedVariant(result.variants.length > 0 ? 0 : null);
+      if (result.variants.length < result.requested) {
+        toast(`${result.variants.length} distinct palettes found; near-identical ones were merged`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.error || 'Failed to generate palettes');
+    },
+  });
+
+  // Save the chosen variant to history and hand it on like a single generated palette
+  const saveVariantMutation = useMutation({
+    mutationFn: (variant: PaletteVariant) => paletteAPI.save({
+      name: variantResult!.name,
+      prompt: variantResult!.prompt,
+      explanation: variant.explanation,
+      colors: variant.colors,
+      accessibilityScore: variant.accessibilityScore,
+      generationRecipe: variant.recipe,
+    }),
+    onSuccess: (saved, variant) => {
+      toast.success(`Saved "${saved.name}"!`);
+      onGenerated({
+        id: saved.id,
+        name: saved.name,
+        prompt: saved.prompt,
+        colors: saved.colors,
+        accessibilityScore: saved.accessibilityScore,
+        processingTime: 0,
+        explanation: variant.explanation,
+        model: variant.model,
+        createdAt: String(saved.createdAt),
+        updatedAt: String(saved.updatedAt),
+      });
+      setVariantResult(null);
+      setSelectedVariant(null);
+      setPrompt('');
+    },
+    onError: (error: any) => {
+      toast.error(error.error || 'Failed to save palette');
+    },
+  });
+
   // Image generation mutation
   const imageMutation = useMutation({
     mutationFn: (file: File) => 
@@ -47,6 +124,35 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
     },
   });
 
+  // Mood board generation mutation, each image counted equally
+  const moodBoardMutation = useMutation({
+    mutationFn: (files: File[]) =>
+      colorAPI.generateFromMoodBoard(files.map(file => ({ file })), `session_${Date.now()}`, undefined, setUploadProgress),
+    onSuccess: (response: MoodBoardResponse) => {
+      toast.success(`Palette built from ${response.moodBoard.images.length} images!`);
+      onGenerated(response);
+      setPreview(null);
+      setUploadProgress(0);
+    },
+    onError: (error: any) => {
+      toast.error(error.error || 'Failed to process images');
+      setUploadProgress(0);
+    },
+  });
+
+  // Source file generation mutation
+  const sourceMutation = useMutation({
+    mutationFn: (file: File) => colorAPI.generateFromSource(file, `session_${Date.now()}`),
+    onSuccess: (response: SourceGenerationResponse) => {
+      toast.success(`Palette built from ${response.sourceMetadata.colorsFound} colors in ${response.sourceMetadata.format.toUpperCase()}!`);
+      response.warnings.forEach(warning => toast(warning));
+      onGenerated(response);
+    },
+    onError: (error: any) => {
+      toast.error(error.error || 'Failed to read colors from file');
+    },
+  });
+
   const handleTextSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim()) {
@@ -54,10 +160,15 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
       return;
     }
 
-    textMutation.mutate({
+    const request = {
       prompt: prompt.trim(),
       userId: `session_${Date.now()}`,
-    });
+    };
+    if (variantCount > 1) {
+      variantsMutation.mutate(request);
+    } else {
+      textMutation.mutate(request);
+    }
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -76,21 +187,58 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
     setDragActive(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+      handleFiles(Array.from(e.target.files));
     }
   };
 
+  const handleFiles = (files: File[]) => {
+    if (files.length === 1) {
+      handleFile(files[0]);
+      return;
+    }
+
+    if (files.length > MAX_MOOD_BOARD_IMAGES) {
+      toast.error(`A mood board can have at most ${MAX_MOOD_BOARD_IMAGES} images`);
+      return;
+    }
+    if (files.some(file => !IMAGE_TYPES.includes(file.type))) {
+      toast.error('A mood board can only contain images (JPEG, PNG, WebP, or GIF)');
+      return;
+    }
+    if (files.some(file => file.size > 10 * 1024 * 1024)) {
+      toast.error('Each image must be less than 10MB');
+      return;
+    }
+
+    // Preview the first image while the board uploads
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setPreview(e.target?.result as string);
+    };
+    reader.readAsDataURL(files[0]);
+
+    moodBoardMutation.mutate(files);
+  };
+
   const handleFile = async (file: File) => {
+    if (SOURCE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      if (file.size > 2 * 1024 * 1024) {
+        toast.error('Source files must be less than 2MB');
+        return;
+      }
+      sourceMutation.mutate(file);
+      return;
+    }
+
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Please upload a valid image file (JPEG, PNG, WebP, or GIF)');
+    if (!IMAGE_TYPES.includes(file.type)) {
+      toast.error('Please upload an image (JPEG, PNG, WebP, or GIF) or a CSS, SCSS, SVG or HTML file');
       return;
     }
 
@@ -162,7 +310,7 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
     }
   };
 
-  const isProcessing = textMutation.isPending || imageMutation.isPending || isLoading;
+  const isProcessing = textMutation.isPending || variantsMutation.isPending || imageMutation.isPending || moodBoardMutation.isPending || sourceMutation.isPending || isLoading;
 
   const examplePrompts = [
     "Modern corporate website with trustworthy blues",
@@ -241,6 +389,25 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
                   Be specific for better results
                 </span>
               </div>
+              <PromptUnderstanding analysis={analysis} isAnalyzing={isAnalyzing} className="mt-2" />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label htmlFor="variant-count" className="text-sm font-medium text-gray-700">
+                Palettes to compare
+              </label>
+              <select
+                id="variant-count"
+                value={variantCount}
+                onChange={(e) => setVariantCount(Number(e.target.value))}
+                className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isProcessing}
+              >
+                <option value={1}>1 (save immediately)</option>
+                {[2, 3, 4, 5, 6].map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
             </div>
 
             <button
@@ -264,8 +431,34 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
                 </>
               )}
             </button>
+
+            {textMutation.isPending && (
+              <GenerationProgress
+                stage={streaming.stage}
+                colors={streaming.colors}
+                onCancel={streaming.cancel}
+              />
+            )}
           </form>
 
+          {variantResult && (
+            <PaletteVariantGrid
+              variants={variantResult.variants}
+              selectedIndex={selectedVariant}
+              onSelect={setSelectedVariant}
+              onSave={() => {
+                if (selectedVariant !== null) {
+                  saveVariantMutation.mutate(variantResult.variants[selectedVariant]);
+                }
+              }}
+              onDiscard={() => {
+                setVariantResult(null);
+                setSelectedVariant(null);
+              }}
+              isSaving={saveVariantMutation.isPending}
+            />
+          )}
+
           {/* Example Prompts */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h4 className="font-medium text-gray-900 mb-3">💡 Try these examples:</h4>
@@ -319,20 +512,25 @@ const GenerationInput: React.FC<GenerationInputProps> = ({ onGenerated, isLoadin
                   {dragActive ? 'Drop your image here' : 'Upload an image'}
                 </h4>
                 <p className="text-gray-500 mb-4">
-                  Drag and drop or click to select an image
+                  Drag and drop or click to select an image, or a stylesheet, logo or web page to reuse its colors.
+                  Several images are combined into one mood board palette.
                 </p>
                 <div className="text-sm text-gray-400">
                   Supports JPEG, PNG, WebP, GIF • Max 10MB
                 </div>
+                <div className="text-sm text-gray-400">
+                  CSS, SCSS, SVG, HTML • Max 2MB
+                </div>
               </div>
 
               <input
                 ref={fileInputRef}
                 type="file"
                 className="hidden"
-                accept="image/*"
+                accept={['image/*', ...SOURCE_EXTENSIONS].join(',')}
                 onChange={handleFileInput}
                 disabled={isProcessing}
+                multiple
               />
             </div>
           ) : (
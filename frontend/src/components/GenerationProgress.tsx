@@ -0,0 +1,81 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ColorData, GenerationStage } from '../types/api';
+
+interface GenerationProgressProps {
+  stage: GenerationStage | null;
+  colors: ColorData[];
+  expectedCount?: number;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export const GENERATION_STAGES: { stage: GenerationStage; label: string }[] = [
+  { stage: 'context', label: 'Reading your prompt' },
+  { stage: 'colors', label: 'Receiving colors' },
+  { stage: 'harmony', label: 'Applying color harmony' },
+  { stage: 'accessibility', label: 'Checking accessibility' },
+  { stage: 'names', label: 'Naming colors' },
+  { stage: 'saved', label: 'Saving palette' },
+];
+
+/**
+ * Live view of a streamed generation: the current stage and the palette so far,
+ * with placeholders for colors that have not arrived yet
+ */
+const GenerationProgress: React.FC<GenerationProgressProps> = ({
+  stage,
+  colors,
+  expectedCount = 5,
+  onCancel,
+  className = ''
+}) => {
+  const stageIndex = stage ? GENERATION_STAGES.findIndex(entry => entry.stage === stage) : -1;
+  const label = stageIndex >= 0 ? GENERATION_STAGES[stageIndex].label : 'Starting generation';
+  const placeholders = Math.max(expectedCount - colors.length, 0);
+
+  return (
+    <div className={`bg-gray-50 rounded-lg p-4 space-y-3 ${className}`} role="status" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-medium text-gray-700">
+          {label}… ({stageIndex + 1}/{GENERATION_STAGES.length})
+        </span>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm font-medium text-red-600 hover:text-red-700 px-3 py-1 rounded-md hover:bg-red-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${((stageIndex + 1) / GENERATION_STAGES.length) * 100}%` }}
+        ></div>
+      </div>
+
+      <div className="flex gap-2">
+        {colors.map((color, index) => (
+          <motion.div
+            key={`${index}-${color.hex}`}
+            className="flex-1 h-12 rounded-md shadow-sm"
+            style={{ backgroundColor: color.hex }}
+            title={`${color.name} ${color.hex}`}
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.2 }}
+          />
+        ))}
+        {Array.from({ length: placeholders }, (_, index) => (
+          <div key={`placeholder-${index}`} className="flex-1 h-12 rounded-md bg-gray-200 animate-pulse" />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationProgress;
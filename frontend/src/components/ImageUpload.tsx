@@ -11,7 +11,8 @@ import {
   FileImage,
   Info
 } from 'lucide-react';
-import { ImageGenerationRequest, ImageValidationResult, ImageUploadProgress } from '../types/api';
+import { ExtractionRegion, ImageGenerationRequest, ImageValidationResult, ImageUploadProgress } from '../types/api';
+import RegionSelector from './RegionSelector';
 
 interface ImageUploadProps {
   onImageUpload: (request: ImageGenerationRequest) => Promise<void>;
@@ -50,7 +51,13 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
   const [validationResult, setValidationResult] = useState<ImageValidationResult | null>(null);
   const [uploadProgress, setUploadProgress] = useState<ImageUploadProgress | null>(null);
   const [isDragActive, setIsDragActive] = useState(false);
+  const [regions, setRegions] = useState<ExtractionRegion[]>([]);
+  const [excludeBackground, setExcludeBackground] = useState(false);
+  const [saliency, setSaliency] = useState(false);
+  const [accentSlot, setAccentSlot] = useState(false);
+  const [maskFile, setMaskFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
 
   // Validate image file
   const validateImage = useCallback(async (file: File): Promise<ImageValidationResult> => {
@@ -150,7 +157,12 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
         harmonyType: 'complementary',
         accessibilityLevel: 'AA',
         includeNeutrals: true,
+        ...(regions.length > 0 && { regions }),
+        ...(excludeBackground && { excludeBackground }),
+        ...(saliency && { saliency }),
+        ...(accentSlot && { accentSlot }),
       },
+      ...(maskFile && { mask: maskFile }),
     };
 
     try {
@@ -174,7 +186,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
       console.error('Upload failed:', error);
       setUploadProgress(null);
     }
-  }, [selectedFile, validationResult, onImageUpload]);
+  }, [selectedFile, validationResult, onImageUpload, regions, excludeBackground, saliency, accentSlot, maskFile]);
 
   // Clear selection
   const handleClear = useCallback(() => {
@@ -182,9 +194,15 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     setPreviewUrl(null);
     setValidationResult(null);
     setUploadProgress(null);
+    setRegions([]);
+    setExcludeBackground(false);
+    setMaskFile(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (maskInputRef.current) {
+      maskInputRef.current.value = '';
+    }
   }, []);
 
   // Generate session ID
@@ -329,15 +347,14 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
               <div className="flex flex-col lg:flex-row gap-6">
                 {/* Image Preview */}
                 <div className="flex-1">
-                  <div className="relative bg-gray-50 rounded-xl overflow-hidden">
-                    {previewUrl && (
-                      <img
-                        src={previewUrl}
-                        alt="Preview"
-                        className="w-full h-64 object-contain"
-                      />
-                    )}
-                  </div>
+                  {previewUrl && (
+                    <RegionSelector
+                      src={previewUrl}
+                      regions={regions}
+                      onChange={setRegions}
+                      disabled={isLoading}
+                    />
+                  )}
                 </div>
 
                 {/* File Info */}
@@ -396,6 +413,55 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
                     </div>
                   )}
 
+                  {/* Extraction Area */}
+                  <div className="space-y-2 text-sm">
+                    <h4 className="font-semibold text-gray-900">Extraction Area</h4>
+                    <label className="flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={excludeBackground}
+                        onChange={(e) => setExcludeBackground(e.target.checked)}
+                        disabled={isLoading}
+                        className="rounded text-purple-600"
+                      />
+                      <span>Ignore plain background</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={saliency}
+                        onChange={(e) => setSaliency(e.target.checked)}
+                        disabled={isLoading}
+                        className="rounded text-purple-600"
+                      />
+                      <span>Favor eye-catching details</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={accentSlot}
+                        onChange={(e) => setAccentSlot(e.target.checked)}
+                        disabled={isLoading}
+                        className="rounded text-purple-600"
+                      />
+                      <span>Keep a standout accent color</span>
+                    </label>
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="extraction-mask" className="text-gray-600">
+                        Mask (optional):
+                      </label>
+                      <input
+                        id="extraction-mask"
+                        ref={maskInputRef}
+                        type="file"
+                        accept="image/png,image/jpeg,image/webp"
+                        onChange={(e) => setMaskFile(e.target.files?.[0] || null)}
+                        disabled={isLoading}
+                        className="ml-2 max-w-[12rem] text-xs"
+                      />
+                    </div>
+                  </div>
+
                   {/* Progress Bar */}
                   {uploadProgress && (
                     <div className="space-y-2">
@@ -21,7 +21,9 @@ const ImageUploadExample: React.FC = () => {
       const response = await colorAPI.generateFromImage(
         request.image,
         request.userId,
-        request.options
+        request.options,
+        undefined,
+        request.mask
       );
       
       setGeneratedPalette(response);
@@ -2,7 +2,13 @@ import React, { useState, useRef } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { colorAPI } from '../utils/api';
-import { GenerationResponse } from '../types/api';
+import { ExtractionAlgorithm, GenerationResponse } from '../types/api';
+
+const EXTRACTION_STYLES: { value: ExtractionAlgorithm; label: string }[] = [
+  { value: 'kmeans', label: 'Dominant colors' },
+  { value: 'octree', label: 'Keep accents' },
+  { value: 'median-cut', label: 'Balanced' },
+];
 
 interface ImageUploadPanelProps {
   onGenerated: (response: GenerationResponse) => void;
@@ -13,11 +19,12 @@ const ImageUploadPanel: React.FC<ImageUploadPanelProps> = ({ onGenerated, isLoad
   const [dragActive, setDragActive] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [algorithm, setAlgorithm] = useState<ExtractionAlgorithm>('kmeans');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const uploadMutation = useMutation({
     mutationFn: (file: File) => 
-      colorAPI.generateFromImage(file, `session_${Date.now()}`, undefined, setUploadProgress),
+      colorAPI.generateFromImage(file, `session_${Date.now()}`, { algorithm }, setUploadProgress),
     onSuccess: (response: GenerationResponse) => {
       toast.success('Palette generated from image!');
       onGenerated(response);
@@ -105,6 +112,25 @@ const ImageUploadPanel: React.FC<ImageUploadPanelProps> = ({ onGenerated, isLoad
         </p>
       </div>
 
+      <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+        <label htmlFor="extraction-style" className="text-gray-600">
+          Extraction
+        </label>
+        <select
+          id="extraction-style"
+          value={algorithm}
+          onChange={(e) => setAlgorithm(e.target.value as ExtractionAlgorithm)}
+          disabled={isProcessing}
+          className="border border-gray-300 rounded-lg px-2 py-1 text-gray-900"
+        >
+          {EXTRACTION_STYLES.map(style => (
+            <option key={style.value} value={style.value}>
+              {style.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {!preview ? (
         <div
           className={`border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 cursor-pointer ${
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { paletteAPI } from '../utils/api';
-import { ColorPalette } from '../types/api';
+import { ColorPalette, RecipeReplayResponse } from '../types/api';
 import ColorCard from './ColorCard';
 
 interface PaletteHistoryProps {
@@ -13,6 +13,8 @@ interface PaletteHistoryProps {
 const PaletteHistory: React.FC<PaletteHistoryProps> = ({ onPaletteSelect, userId }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  // Latest replay of each palette's generation recipe, shown under its saved colors
+  const [replays, setReplays] = useState<Record<string, RecipeReplayResponse>>({});
   const queryClient = useQueryClient();
 
   const { data: historyData, isLoading, error } = useQuery({
@@ -32,6 +34,21 @@ const PaletteHistory: React.FC<PaletteHistoryProps> = ({ onPaletteSelect, userId
     },
   });
 
+  const replayMutation = useMutation({
+    mutationFn: (paletteId: string) => paletteAPI.replay(paletteId),
+    onSuccess: (replay) => {
+      setReplays(current => ({ ...current, [replay.paletteId]: replay }));
+      if (replay.identical) {
+        toast.success('Replay matches the saved palette');
+      } else {
+        toast('Replay differs from the saved palette');
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.error || 'Failed to replay palette');
+    },
+  });
+
   const filteredPalettes = historyData?.palettes?.filter(palette =>
     palette.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     palette.prompt?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -133,6 +150,27 @@ const PaletteHistory: React.FC<PaletteHistoryProps> = ({ onPaletteSelect, userId
                     ))}
                   </div>
 
+                  {/* Replayed Colors */}
+                  {replays[palette.id] && (
+                    <div className="mb-3">
+                      <div className="flex h-6 rounded-lg overflow-hidden">
+                        {replays[palette.id].colors.slice(0, 5).map((color, index) => (
+                          <div
+                            key={index}
+                            className="flex-1"
+                            style={{ backgroundColor: color.hex }}
+                            title={`Replayed ${color.name}: ${color.hex}`}
+                          />
+                        ))}
+                      </div>
+                      {replays[palette.id].warnings.map((warning, index) => (
+                        <p key={index} className="text-xs text-yellow-700 mt-1">
+                          {warning}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Palette Info */}
                   <div className="mb-3">
                     <h4 className="font-medium text-gray-900 mb-1 truncate">
@@ -167,6 +205,16 @@ const PaletteHistory: React.FC<PaletteHistoryProps> = ({ onPaletteSelect, userId
                     >
                       Use Palette
                     </button>
+                    {palette.generationRecipe && (
+                      <button
+                        onClick={() => replayMutation.mutate(palette.id)}
+                        disabled={replayMutation.isPending}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                        title="Re-run the saved generation recipe without saving"
+                      >
+                        Replay
+                      </button>
+                    )}
                     <button
                       onClick={() => handleDelete(palette.id, palette.name)}
                       className="bg-red-100 hover:bg-red-200 text-red-600 p-2 rounded-lg transition-colors"
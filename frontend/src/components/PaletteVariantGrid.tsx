@@ -0,0 +1,102 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { PaletteVariant } from '../types/api';
+
+interface PaletteVariantGridProps {
+  variants: PaletteVariant[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+  isSaving?: boolean;
+  className?: string;
+}
+
+const scoreBadgeClasses = {
+  AAA: 'bg-green-100 text-green-800',
+  AA: 'bg-yellow-100 text-yellow-800',
+  FAIL: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Candidate palettes for one prompt, best first; the selected variant is saved to history
+ */
+const PaletteVariantGrid: React.FC<PaletteVariantGridProps> = ({
+  variants,
+  selectedIndex,
+  onSelect,
+  onSave,
+  onDiscard,
+  isSaving = false,
+  className = ''
+}) => {
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4" role="radiogroup" aria-label="Palette variants">
+        {variants.map((variant, index) => {
+          const isSelected = selectedIndex === index;
+
+          return (
+            <motion.button
+              key={`${variant.harmonyType}-${index}`}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onSelect(index)}
+              className={`text-left bg-white rounded-xl border-2 p-3 shadow-sm hover:shadow-md transition-all ${
+                isSelected ? 'border-blue-600' : 'border-gray-200 hover:border-gray-300'
+              }`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2, delay: index * 0.05 }}
+            >
+              <div className="flex h-16 rounded-md overflow-hidden mb-3">
+                {variant.colors.map((color, colorIndex) => (
+                  <div
+                    key={`${colorIndex}-${color.hex}`}
+                    className="flex-1"
+                    style={{ backgroundColor: color.hex }}
+                    title={`${color.name} ${color.hex}`}
+                  />
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 capitalize">
+                  {index === 0 && '⭐ '}{variant.harmonyType}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${scoreBadgeClasses[variant.accessibilityScore.overallScore]}`}>
+                  {variant.accessibilityScore.overallScore}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                Score {Math.round(variant.score * 100)} · {variant.model}
+              </div>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isSaving}
+          className="text-sm font-medium text-gray-600 hover:text-gray-900 px-4 py-2 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={selectedIndex === null || isSaving}
+          className="text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 px-4 py-2 rounded-lg transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save Selected'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteVariantGrid;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { GenerationContext } from '../types/api';
+
+interface PromptUnderstandingProps {
+  analysis: GenerationContext | null;
+  isAnalyzing?: boolean;
+  className?: string;
+}
+
+/** Below this the analyzer is guessing, so the chip is shown faded */
+const LOW_CONFIDENCE = 0.6;
+
+const confidenceTitle = (confidence = 0) => `${Math.round(confidence * 100)}% confident`;
+
+/**
+ * Chips showing what was understood from the prompt before generating: mood, industry,
+ * audience, personality, named colors, colors to avoid and the requested color count
+ */
+const PromptUnderstanding: React.FC<PromptUnderstandingProps> = ({
+  analysis,
+  isAnalyzing = false,
+  className = ''
+}) => {
+  if (!analysis) {
+    return isAnalyzing ? (
+      <p className={`text-xs text-gray-400 ${className}`}>Reading your prompt…</p>
+    ) : null;
+  }
+
+  const confidence = analysis.confidence;
+  const chips: { label: string; value: string; confidence?: number }[] = [];
+
+  if (confidence?.mood && analysis.mood) {
+    chips.push({ label: 'Mood', value: analysis.mood, confidence: confidence.mood });
+  }
+  if (confidence?.industry && analysis.industry) {
+    chips.push({ label: 'Industry', value: analysis.industry, confidence: confidence.industry });
+  }
+  if (confidence?.targetAudience && analysis.targetAudience) {
+    chips.push({ label: 'Audience', value: analysis.targetAudience, confidence: confidence.targetAudience });
+  }
+  if (analysis.brandPersonality?.length) {
+    chips.push({ label: 'Personality', value: analysis.brandPersonality.join(', '), confidence: confidence?.brandPersonality });
+  }
+  if (analysis.colorCountHint) {
+    chips.push({ label: 'Colors', value: String(analysis.colorCountHint), confidence: confidence?.colorCountHint });
+  }
+
+  const namedColors = analysis.namedColors || [];
+  const negations = analysis.negations || [];
+
+  if (chips.length === 0 && namedColors.length === 0 && negations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`} aria-label="What we understood from your prompt">
+      {chips.map(chip => (
+        <span
+          key={chip.label}
+          title={confidenceTitle(chip.confidence)}
+          className={`px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-800 ${
+            (chip.confidence ?? 0) < LOW_CONFIDENCE ? 'opacity-60' : ''
+          }`}
+        >
+          <span className="font-medium">{chip.label}:</span> <span className="capitalize">{chip.value}</span>
+        </span>
+      ))}
+
+      {namedColors.map(color => (
+        <span
+          key={`named-${color.hex}`}
+          title={confidenceTitle(confidence?.namedColors)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-800"
+        >
+          <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: color.hex }} />
+          {color.term}
+        </span>
+      ))}
+
+      {negations.map(negation => (
+        <span
+          key={`avoid-${negation.term}`}
+          title={confidenceTitle(confidence?.negations)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-800 line-through"
+        >
+          {negation.hex && (
+            <span className="w-3 h-3 rounded-full border border-red-200" style={{ backgroundColor: negation.hex }} />
+          )}
+          {negation.term}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default PromptUnderstanding;
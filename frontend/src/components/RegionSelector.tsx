@@ -0,0 +1,189 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Square, PenTool, Trash2 } from 'lucide-react';
+import { ExtractionRegion } from '../types/api';
+import { RelativePoint, closesPolygon, rectFromPoints, toRelativePoint, toSvgPoints } from '../utils/regions';
+
+interface RegionSelectorProps {
+  src: string;
+  regions: ExtractionRegion[];
+  onChange: (regions: ExtractionRegion[]) => void;
+  disabled?: boolean;
+}
+
+type DrawMode = 'rect' | 'polygon';
+
+/**
+ * Image preview with an overlay for drawing the rectangles and polygons colors are extracted from
+ */
+const RegionSelector: React.FC<RegionSelectorProps> = ({ src, regions, onChange, disabled = false }) => {
+  const [mode, setMode] = useState<DrawMode>('rect');
+  const [dragStart, setDragStart] = useState<RelativePoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<RelativePoint | null>(null);
+  const [polygonPoints, setPolygonPoints] = useState<RelativePoint[]>([]);
+  const overlayRef = useRef<SVGSVGElement>(null);
+
+  const pointFromEvent = (e: React.PointerEvent) => {
+    const box = overlayRef.current!.getBoundingClientRect();
+    return toRelativePoint(e.clientX, e.clientY, box);
+  };
+
+  const finishPolygon = useCallback(() => {
+    if (polygonPoints.length >= 3) {
+      onChange([...regions, { type: 'polygon', points: polygonPoints }]);
+    }
+    setPolygonPoints([]);
+  }, [polygonPoints, regions, onChange]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const point = pointFromEvent(e);
+
+    if (mode === 'polygon') {
+      if (closesPolygon(polygonPoints, point)) {
+        finishPolygon();
+      } else {
+        setPolygonPoints([...polygonPoints, point]);
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStart) {
+      setDragEnd(pointFromEvent(e));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const rect = rectFromPoints(dragStart, dragEnd);
+      if (rect) {
+        onChange([...regions, rect]);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const switchMode = (next: DrawMode) => {
+    setMode(next);
+    setPolygonPoints([]);
+  };
+
+  const draftRect = dragStart && dragEnd ? rectFromPoints(dragStart, dragEnd) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => switchMode('rect')}
+          disabled={disabled}
+          aria-pressed={mode === 'rect'}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${
+            mode === 'rect' ? 'bg-purple-100 text-purple-700' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          <Square className="w-4 h-4" />
+          <span>Rectangle</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => switchMode('polygon')}
+          disabled={disabled}
+          aria-pressed={mode === 'polygon'}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${
+            mode === 'polygon' ? 'bg-purple-100 text-purple-700' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          <PenTool className="w-4 h-4" />
+          <span>Polygon</span>
+        </button>
+        {polygonPoints.length >= 3 && (
+          <button
+            type="button"
+            onClick={finishPolygon}
+            className="px-2 py-1 rounded-md text-purple-700 hover:bg-purple-50"
+          >
+            Finish shape
+          </button>
+        )}
+        {regions.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="ml-auto flex items-center gap-1 px-2 py-1 rounded-md text-gray-600 hover:bg-gray-100"
+            title="Remove all regions"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Clear ({regions.length})</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex justify-center bg-gray-50 rounded-xl overflow-hidden">
+        <div className="relative inline-block">
+          <img
+            src={src}
+            alt="Preview"
+            draggable={false}
+            className="block max-w-full max-h-64 select-none"
+          />
+          <svg
+            ref={overlayRef}
+            data-testid="region-overlay"
+            className={`absolute inset-0 w-full h-full touch-none ${disabled ? '' : 'cursor-crosshair'}`}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onDoubleClick={finishPolygon}
+          >
+            {regions.map((region, index) => (
+              <polygon
+                key={index}
+                points={toSvgPoints(region)}
+                className="fill-purple-500/20 stroke-purple-600"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {draftRect && (
+              <polygon
+                points={toSvgPoints(draftRect)}
+                className="fill-purple-500/10 stroke-purple-600"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {polygonPoints.length > 0 && (
+              <polyline
+                points={polygonPoints.map(point => `${point.x * 100},${point.y * 100}`).join(' ')}
+                className="fill-none stroke-purple-600"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {mode === 'rect'
+          ? 'Drag over the image to pick the areas to take colors from.'
+          : 'Click to add points; click the first point or double-click to finish.'}
+        {regions.length === 0 && ' Without regions the whole image is used.'}
+      </p>
+    </div>
+  );
+};
+
+export default RegionSelector;
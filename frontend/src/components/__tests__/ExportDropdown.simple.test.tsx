@@ -1,5 +1,6 @@
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
 import ExportDropdown from '../ExportDropdown';
 import { ColorPalette } from '../../types/color';
 
@@ -116,4 +117,22 @@ describe('ExportDropdown Simple Tests', () => {
       React.createElement(ExportDropdown, { palette: largePalette });
     }).not.toThrow();
   });
-});
\ No newline at end of file
+
+  it.each([
+    ['Design Tokens (DTCG)', (tokens: any) => tokens.primary],
+    ['Style Dictionary', (tokens: any) => tokens.color.primary],
+  ])('should give colors with the same name unique %s token keys', (label, primaryGroup) => {
+    const palette: ColorPalette = {
+      ...mockPalette,
+      colors: [mockPalette.colors[0], { ...mockPalette.colors[0], hex: '#CC0000' }],
+    };
+    render(<ExportDropdown palette={palette} />);
+
+    fireEvent.click(screen.getByText('Export'));
+    const option = screen.getByText(label).closest('.justify-between') as HTMLElement;
+    fireEvent.click(option.querySelector('button[title="Preview"]')!);
+
+    const tokens = JSON.parse(document.querySelector('code')!.textContent!);
+    expect(Object.keys(primaryGroup(tokens))).toEqual(['red', 'red-2']);
+  });
+});
@@ -132,6 +132,8 @@ describe('ExportDropdown', () => {
       expect(screen.getByText('Adobe ASE')).toBeInTheDocument();
       expect(screen.getByText('Sketch Palette')).toBeInTheDocument();
       expect(screen.getByText('Figma Tokens')).toBeInTheDocument();
+      expect(screen.getByText('Design Tokens (DTCG)')).toBeInTheDocument();
+      expect(screen.getByText('Style Dictionary')).toBeInTheDocument();
     });
 
     it('shows format descriptions', async () => {
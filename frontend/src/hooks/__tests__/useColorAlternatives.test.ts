@@ -0,0 +1,62 @@
+// Tests for the swatch shuffle hook
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useColorAlternatives } from '../useColorAlternatives';
+import { ColorData } from '../../types/api';
+
+const color = (hex: string): ColorData => ({
+  hex,
+  rgb: { r: 0, g: 0, b: 0 },
+  hsl: { h: 0, s: 0, l: 0 },
+  name: hex,
+  category: 'accent',
+  usage: 'Highlights',
+  accessibility: { contrastWithWhite: 3, contrastWithBlack: 7, wcagLevel: 'AA' },
+});
+
+describe('useColorAlternatives', () => {
+  it('previews the first alternative and hands back the chosen one on apply', async () => {
+    const fetchAlternatives = vi.fn().mockResolvedValue([color('#111111'), color('#222222')]);
+    const { result } = renderHook(() => useColorAlternatives(fetchAlternatives));
+
+    await act(() => result.current.shuffle(2));
+
+    expect(fetchAlternatives).toHaveBeenCalledWith(2);
+    expect(result.current.activeIndex).toBe(2);
+    expect(result.current.previewColor?.hex).toBe('#111111');
+
+    act(() => result.current.preview(result.current.alternatives[1]));
+
+    let selection: ReturnType<typeof result.current.apply> = null;
+    act(() => {
+      selection = result.current.apply();
+    });
+
+    expect(selection).toEqual({ index: 2, color: color('#222222') });
+    expect(result.current.activeIndex).toBeNull();
+    expect(result.current.alternatives).toEqual([]);
+  });
+
+  it('ignores alternatives that arrive after the picker was dismissed', async () => {
+    let resolve: (colors: ColorData[]) => void = () => undefined;
+    const fetchAlternatives = vi.fn(() => new Promise<ColorData[]>(r => { resolve = r; }));
+    const { result } = renderHook(() => useColorAlternatives(fetchAlternatives));
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.shuffle(0);
+    });
+    expect(result.current.isLoading).toBe(true);
+
+    act(() => result.current.dismiss());
+    await act(async () => {
+      resolve([color('#333333')]);
+      await pending;
+    });
+
+    expect(result.current.activeIndex).toBeNull();
+    expect(result.current.alternatives).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+  });
+});
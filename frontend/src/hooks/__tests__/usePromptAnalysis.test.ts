@@ -0,0 +1,74 @@
+// Tests for the debounced prompt analysis hook
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePromptAnalysis } from '../usePromptAnalysis';
+import { GenerationContext } from '../../types/api';
+
+const context = (prompt: string): GenerationContext => ({
+  prompt,
+  mood: 'calm',
+  namedColors: [{ term: 'teal', hex: '#008080', source: 'css' }],
+});
+
+describe('usePromptAnalysis', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('analyzes the prompt once typing pauses', async () => {
+    const analyze = vi.fn(async (prompt: string) => context(prompt));
+    const { result, rerender } = renderHook(({ prompt }) => usePromptAnalysis(prompt, analyze, 300), {
+      initialProps: { prompt: 'calm te' },
+    });
+
+    rerender({ prompt: 'calm teal spa' });
+    expect(analyze).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(analyze).toHaveBeenCalledWith('calm teal spa');
+    expect(result.current.analysis?.mood).toBe('calm');
+    expect(result.current.isAnalyzing).toBe(false);
+  });
+
+  it('skips prompts shorter than the backend accepts', async () => {
+    const analyze = vi.fn(async (prompt: string) => context(prompt));
+    const { result } = renderHook(() => usePromptAnalysis('hi', analyze, 300));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(result.current.analysis).toBeNull();
+  });
+
+  it('clears the analysis when the request fails', async () => {
+    const analyze = vi.fn()
+      .mockResolvedValueOnce(context('calm teal spa'))
+      .mockRejectedValueOnce(new Error('Network error'));
+    const { result, rerender } = renderHook(({ prompt }) => usePromptAnalysis(prompt, analyze, 300), {
+      initialProps: { prompt: 'calm teal spa' },
+    });
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+    expect(result.current.analysis).not.toBeNull();
+
+    rerender({ prompt: 'calm teal spa, no red' });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(result.current.analysis).toBeNull();
+  });
+});
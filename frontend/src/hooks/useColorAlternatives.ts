@@ -0,0 +1,81 @@
+import { useState, useRef, useCallback } from 'react';
+import { ColorData } from '../types/api';
+
+export interface UseColorAlternativesReturn {
+  /** Fetch alternatives for a palette slot, replacing any alternatives already shown */
+  shuffle: (index: number) => Promise<void>;
+  /** Show an alternative in place of the slot's color without committing it */
+  preview: (color: ColorData) => void;
+  /** Return the previewed alternative and its slot for the caller to commit, and close the picker */
+  apply: () => { index: number; color: ColorData } | null;
+  dismiss: () => void;
+  activeIndex: number | null;
+  alternatives: ColorData[];
+  previewColor: ColorData | null;
+  isLoading: boolean;
+}
+
+/**
+ * State for the swatch-level shuffle control: one slot at a time fetches alternatives,
+ * previews one of them, and hands it back to be committed
+ */
+export const useColorAlternatives = (
+  fetchAlternatives: (index: number) => Promise<ColorData[]>
+): UseColorAlternativesReturn => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [alternatives, setAlternatives] = useState<ColorData[]>([]);
+  const [previewColor, setPreviewColor] = useState<ColorData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Responses for a slot the user has since moved away from are ignored
+  const requestRef = useRef(0);
+
+  const dismiss = useCallback(() => {
+    requestRef.current++;
+    setActiveIndex(null);
+    setAlternatives([]);
+    setPreviewColor(null);
+    setIsLoading(false);
+  }, []);
+
+  const shuffle = useCallback(async (index: number) => {
+    const request = ++requestRef.current;
+    setActiveIndex(index);
+    setAlternatives([]);
+    setPreviewColor(null);
+    setIsLoading(true);
+
+    try {
+      const colors = await fetchAlternatives(index);
+      if (requestRef.current === request) {
+        setAlternatives(colors);
+        setPreviewColor(colors[0] || null);
+      }
+    } catch (error) {
+      if (requestRef.current === request) {
+        setActiveIndex(null);
+      }
+      throw error;
+    } finally {
+      if (requestRef.current === request) {
+        setIsLoading(false);
+      }
+    }
+  }, [fetchAlternatives]);
+
+  const apply = useCallback(() => {
+    const selection = activeIndex !== null && previewColor ? { index: activeIndex, color: previewColor } : null;
+    dismiss();
+    return selection;
+  }, [activeIndex, previewColor, dismiss]);
+
+  return {
+    shuffle,
+    preview: setPreviewColor,
+    apply,
+    dismiss,
+    activeIndex,
+    alternatives,
+    previewColor,
+    isLoading,
+  };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef } from 'react';
+import { GenerationContext } from '../types/api';
+import { colorAPI } from '../utils/api';
+
+/** Matches the backend's minimum prompt length */
+const MIN_PROMPT_LENGTH = 5;
+
+export interface UsePromptAnalysisReturn {
+  analysis: GenerationContext | null;
+  isAnalyzing: boolean;
+}
+
+/**
+ * Ask the backend what it understands from the prompt once typing pauses. Analysis is only a
+ * preview, so failures clear it rather than surfacing an error.
+ */
+export const usePromptAnalysis = (
+  prompt: string,
+  analyze: (prompt: string) => Promise<GenerationContext> = colorAPI.analyzePrompt,
+  delay = 500
+): UsePromptAnalysisReturn => {
+  const [analysis, setAnalysis] = useState<GenerationContext | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Responses for a prompt the user has since changed are ignored
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    const trimmed = prompt.trim();
+
+    if (trimmed.length < MIN_PROMPT_LENGTH) {
+      setAnalysis(null);
+      setIsAnalyzing(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsAnalyzing(true);
+      try {
+        const result = await analyze(trimmed);
+        if (requestRef.current === request) {
+          setAnalysis(result);
+        }
+      } catch {
+        if (requestRef.current === request) {
+          setAnalysis(null);
+        }
+      } finally {
+        if (requestRef.current === request) {
+          setIsAnalyzing(false);
+        }
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [prompt, analyze, delay]);
+
+  return { analysis, isAnalyzing };
+};
@@ -0,0 +1,71 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { colorAPI } from '../utils/api';
+import {
+  ColorData,
+  GenerationResponse,
+  GenerationStage,
+  TextGenerationRequest
+} from '../types/api';
+
+export interface UseStreamingGenerationReturn {
+  /** Start a streamed generation, cancelling any generation already in progress */
+  generate: (request: TextGenerationRequest) => Promise<GenerationResponse>;
+  cancel: () => void;
+  isStreaming: boolean;
+  /** Most recent pipeline stage reported by the server */
+  stage: GenerationStage | null;
+  /** Palette as of the latest stage, for rendering swatches before generation finishes */
+  colors: ColorData[];
+}
+
+export const useStreamingGeneration = (): UseStreamingGenerationReturn => {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [stage, setStage] = useState<GenerationStage | null>(null);
+  const [colors, setColors] = useState<ColorData[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Cancel any in-flight generation when the component unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const generate = useCallback(async (request: TextGenerationRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsStreaming(true);
+    setStage(null);
+    setColors([]);
+
+    try {
+      return await colorAPI.generateFromTextStream(request, {
+        signal: controller.signal,
+        onProgress: event => {
+          setStage(event.stage);
+          if (event.colors) {
+            setColors(event.colors);
+          }
+        },
+      });
+    } finally {
+      // A newer generation may have replaced this one while it was finishing
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+        setStage(null);
+        setColors([]);
+      }
+    }
+  }, []);
+
+  return {
+    generate,
+    cancel,
+    isStreaming,
+    stage,
+    colors,
+  };
+};
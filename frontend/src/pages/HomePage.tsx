@@ -1,6 +1,6 @@
 // Main homepage component
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import PromptInput from '../components/PromptInput';
@@ -19,15 +19,29 @@ import ColorExplanationPanel from '../components/ColorExplanationPanel';
 import WCAGAlternatives from '../components/WCAGAlternatives';
 import ConnectionStatus from '../components/ConnectionStatus';
 import ErrorBoundary from '../components/ErrorBoundary';
+import GenerationProgress from '../components/GenerationProgress';
+import ColorAlternatives from '../components/ColorAlternatives';
 import { useOnboarding } from '../hooks/useOnboarding';
+import { useStreamingGeneration } from '../hooks/useStreamingGeneration';
+import { useColorAlternatives } from '../hooks/useColorAlternatives';
 import { getOnboardingSteps } from '../config/onboardingSteps';
 import { colorAPI, paletteAPI } from '../utils/api';
-import { TextGenerationRequest, GenerationResponse, ColorPalette } from '../types/api';
+import { TextGenerationRequest, GenerationResponse, ColorPalette, ColorData, GenerationOptions } from '../types/api';
 import { performanceMonitor, measureAsync } from '../utils/performance';
 import { useScreenSize, useMobileInteractions, getResponsiveTextClasses, getResponsiveSpacingClasses } from '../utils/responsive';
 
 const HomePage: React.FC = React.memo(() => {
   const [generatedPalette, setGeneratedPalette] = useState<ColorPalette | null>(null);
+  // Palette positions kept when generating a variation
+  const [lockedPositions, setLockedPositions] = useState<number[]>([]);
+
+  // Swatch-level shuffle: alternatives are previewed on the card until applied
+  const fetchAlternatives = useCallback(async (index: number) => {
+    if (!generatedPalette) return [];
+    const response = await paletteAPI.regenerateColor(generatedPalette.id, index);
+    return response.alternatives;
+  }, [generatedPalette]);
+  const colorAlternatives = useColorAlternatives(fetchAlternatives);
   const [error, setError] = useState<string | null>(null);
   const [showHelp, setShowHelp] = useState(false);
   const [colorReasoning, setColorReasoning] = useState<ColorReasoning[]>([]);
@@ -107,10 +121,12 @@ const HomePage: React.FC = React.memo(() => {
     },
   ], []);
 
+  const streaming = useStreamingGeneration();
+
   // Mutation for generating palettes with performance monitoring
   const generatePaletteMutation = useMutation({
     mutationFn: (request: TextGenerationRequest) => 
-      measureAsync('palette_generation_api', () => colorAPI.generateFromText(request), {
+      measureAsync('palette_generation_api', () => streaming.generate(request), {
         prompt_length: request.prompt.length,
         user_id: request.userId,
       }),
@@ -137,17 +153,7 @@ const HomePage: React.FC = React.memo(() => {
       
       // Set AI reasoning and explanation
       setOverallExplanation(response.explanation || '');
-      const reasoning: ColorReasoning[] = palette.colors.map(color => ({
-        colorName: color.name,
-        hex: color.hex,
-        category: color.category,
-        reasoning: color.usage || `This ${color.category} color provides excellent visual balance and ${color.category === 'primary' ? 'serves as the main brand color' : color.category === 'secondary' ? 'supports the primary colors' : 'adds visual interest and emphasis'}.`,
-        harmonyType: 'complementary', // This would come from the AI response
-        psychologicalEffect: getColorPsychology(color.hex),
-        usageRecommendation: color.usage,
-        accessibilityNotes: `Contrast ratio with white: ${color.accessibility.contrastWithWhite.toFixed(1)}:1, WCAG ${color.accessibility.wcagLevel}`
-      }));
-      setColorReasoning(reasoning);
+      setColorReasoning(palette.colors.map(toColorReasoning));
       
       // Record performance metrics
       performanceMonitor.recordMetric('palette_generation_success', response.processingTime || 0, {
@@ -158,6 +164,11 @@ const HomePage: React.FC = React.memo(() => {
       toast.success(`Generated "${palette.name}" in ${response.processingTime}ms`);
     },
     onError: (error: any) => {
+      if (error.code === 'GENERATION_CANCELLED') {
+        toast('Generation cancelled');
+        return;
+      }
+
       console.error('Generation error details:', error);
       
       let errorMessage = 'Failed to generate palette';
@@ -182,6 +193,69 @@ const HomePage: React.FC = React.memo(() => {
     },
   });
 
+  const toggleLock = (position: number) => {
+    setLockedPositions(current =>
+      current.includes(position) ? current.filter(p => p !== position) : [...current, position]
+    );
+  };
+
+  // Regenerate with the same number of colors and the locked ones fixed in their slots
+  const getVariationOptions = (palette: ColorPalette): GenerationOptions | undefined => {
+    if (lockedPositions.length === 0) return undefined;
+
+    const colorCount = Math.min(Math.max(palette.colors.length, 3), 10);
+    return {
+      colorCount,
+      lockedColors: lockedPositions
+        .filter(position => position < colorCount && palette.colors[position])
+        .map(position => ({
+          hex: palette.colors[position].hex,
+          position,
+          category: palette.colors[position].category,
+          name: palette.colors[position].name,
+        })),
+    };
+  };
+
+  // Reasoning saved with the palette when available, otherwise derived from the color itself
+  const toColorReasoning = (color: ColorData): ColorReasoning => ({
+    colorName: color.name || 'Unnamed Color',
+    hex: color.hex || '#000000',
+    category: color.category || 'accent',
+    reasoning: color.rationale || color.usage || `This ${color.category || 'accent'} color provides visual balance.`,
+    harmonyType: 'complementary',
+    psychologicalEffect: color.psychology?.length
+      ? `Evokes ${color.psychology.join(', ')}.`
+      : safeGetColorPsychology(color.hex),
+    usageRecommendation: color.suggestedUsage || color.usage || 'General use',
+    accessibilityNotes: `Contrast: ${color.accessibility?.contrastWithWhite?.toFixed(1) || 'N/A'}:1, WCAG ${color.accessibility?.wcagLevel || 'Unknown'}`
+  });
+
+  const handleShuffle = (index: number) => {
+    colorAlternatives.shuffle(index).catch(() => {
+      toast.error('Could not load alternatives for this color');
+    });
+  };
+
+  // Replace the shuffled color and save the change to the stored palette
+  const handleApplyAlternative = async () => {
+    const selection = colorAlternatives.apply();
+    if (!selection || !generatedPalette) return;
+
+    const colors = generatedPalette.colors.map((color, index) => index === selection.index ? selection.color : color);
+    setGeneratedPalette({ ...generatedPalette, colors });
+
+    try {
+      // The server rescores the palette for its new colors
+      const updated = await paletteAPI.update(generatedPalette.id, { colors });
+      setGeneratedPalette(palette => palette?.id === updated.id
+        ? { ...palette, accessibilityScore: updated.accessibilityScore }
+        : palette);
+    } catch (error) {
+      toast.error('Color replaced, but the palette could not be saved');
+    }
+  };
+
   const handlePromptSubmit = async (request: TextGenerationRequest) => {
     console.log('Submitting prompt request:', request);
     setError(null);
@@ -222,6 +296,8 @@ const HomePage: React.FC = React.memo(() => {
       };
       
       setGeneratedPalette(palette);
+      setLockedPositions([]);
+      colorAlternatives.dismiss();
       setError(null);
       
       console.log('🎨 Palette set to state:', palette);
@@ -231,17 +307,7 @@ const HomePage: React.FC = React.memo(() => {
       
       // Set color reasoning with error handling
       try {
-        const reasoning: ColorReasoning[] = palette.colors.map(color => ({
-          colorName: color.name || 'Unnamed Color',
-          hex: color.hex || '#000000',
-          category: color.category || 'accent',
-          reasoning: color.usage || `This ${color.category || 'accent'} color provides visual balance.`,
-          harmonyType: 'complementary',
-          psychologicalEffect: safeGetColorPsychology(color.hex),
-          usageRecommendation: color.usage || 'General use',
-          accessibilityNotes: `Contrast: ${color.accessibility?.contrastWithWhite?.toFixed(1) || 'N/A'}:1, WCAG ${color.accessibility?.wcagLevel || 'Unknown'}`
-        }));
-        setColorReasoning(reasoning);
+        setColorReasoning(palette.colors.map(toColorReasoning));
       } catch (reasoningError) {
         console.warn('Error setting color reasoning:', reasoningError);
         setColorReasoning([]);
@@ -489,6 +555,10 @@ const HomePage: React.FC = React.memo(() => {
                 userId={userId}
                 onPaletteSelect={(palette) => {
                   setGeneratedPalette(palette);
+                  setOverallExplanation(palette.explanation || '');
+                  setColorReasoning(palette.colors.map(toColorReasoning));
+                  setLockedPositions([]);
+                  colorAlternatives.dismiss();
                   setActiveTab('generate');
                   toast.success('Palette loaded!');
                 }}
@@ -498,6 +568,19 @@ const HomePage: React.FC = React.memo(() => {
 
 
 
+          {/* Streaming Generation Progress */}
+          {generatePaletteMutation.isPending && (
+            <div className="mb-6 mx-4 sm:mx-0">
+              <GenerationProgress
+                stage={streaming.stage}
+                colors={streaming.colors}
+                expectedCount={generatedPalette?.colors.length}
+                onCancel={streaming.cancel}
+                className="bg-white shadow-lg"
+              />
+            </div>
+          )}
+
           {/* Generated Palette Display */}
           {generatedPalette && (
             <div className="space-y-6 sm:space-y-8 mb-12 sm:mb-16">
@@ -516,11 +599,26 @@ const HomePage: React.FC = React.memo(() => {
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
                     {generatedPalette.colors && generatedPalette.colors.length > 0 ? (
                       generatedPalette.colors.map((color, index) => (
-                        <ColorCard
-                          key={index}
-                          color={color}
-                          showDetails={true}
-                        />
+                        <div key={index} className="space-y-2">
+                          <ColorCard
+                            color={(colorAlternatives.activeIndex === index && colorAlternatives.previewColor) || color}
+                            showDetails={true}
+                            isLocked={lockedPositions.includes(index)}
+                            onToggleLock={() => toggleLock(index)}
+                            onShuffle={() => handleShuffle(index)}
+                            isShuffling={colorAlternatives.activeIndex === index && colorAlternatives.isLoading}
+                          />
+                          {colorAlternatives.activeIndex === index && (
+                            <ColorAlternatives
+                              alternatives={colorAlternatives.alternatives}
+                              selected={colorAlternatives.previewColor}
+                              isLoading={colorAlternatives.isLoading}
+                              onPreview={colorAlternatives.preview}
+                              onApply={handleApplyAlternative}
+                              onCancel={colorAlternatives.dismiss}
+                            />
+                          )}
+                        </div>
                       ))
                     ) : (
                       <div className="col-span-full text-center py-8">
@@ -591,12 +689,13 @@ const HomePage: React.FC = React.memo(() => {
                   <button 
                     {...getTouchProps()}
                     onClick={() => {
-                      // Generate variation logic
+                      // Generate variation logic, keeping locked colors in place
                       if (generatedPalette.prompt) {
                         const variationPrompt = `${generatedPalette.prompt} (variation)`;
                         handlePromptSubmit({
                           prompt: variationPrompt,
                           userId: 'session_' + Date.now(),
+                          options: getVariationOptions(generatedPalette),
                         });
                       }
                     }}
@@ -1,5 +1,7 @@
 // Frontend API type definitions
 
+import { ColorBlindnessType, ContrastModel } from './color';
+
 export interface RGB {
   r: number;
   g: number;
@@ -19,6 +21,12 @@ export interface ColorData {
   name: string;
   category: 'primary' | 'secondary' | 'accent' | 'neutral';
   usage: string;
+  /** Why this color was chosen for the palette */
+  rationale?: string;
+  /** Psychological associations, e.g. 'trust' or 'warmth' */
+  psychology?: string[];
+  /** How the model suggested using the color */
+  suggestedUsage?: string;
   accessibility: {
     contrastWithWhite: number;
     contrastWithBlack: number;
@@ -47,8 +55,12 @@ export interface ColorPalette {
   id: string;
   name: string;
   prompt: string;
+  /** Overall explanation saved from generation */
+  explanation?: string;
   colors: ColorData[];
   accessibilityScore: AccessibilityScore;
+  /** How the palette was generated; absent for imported and older palettes */
+  generationRecipe?: GenerationRecipe;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -57,7 +69,78 @@ export interface GenerationOptions {
   colorCount?: number;
   harmonyType?: 'complementary' | 'triadic' | 'analogous' | 'monochromatic' | 'tetradic';
   accessibilityLevel?: 'AA' | 'AAA';
+  contrastModel?: ContrastModel;
   includeNeutrals?: boolean;
+  /** Colors kept unchanged at fixed positions */
+  lockedColors?: LockedColor[];
+  /** Brand colors the palette is built around */
+  seedColors?: string[];
+  /** Number of candidate palettes to compare (2-6); variants are not saved until one is chosen */
+  variants?: number;
+  /** Reproduces the same palette when the prompt and other options are unchanged */
+  seed?: number;
+  /** Colors the palette must not contain; locked and seed colors are never replaced */
+  exclude?: ColorExclusions;
+  /** Generate a fresh palette instead of reusing a cached one for the same prompt and options */
+  noCache?: boolean;
+}
+
+export interface ColorExclusions {
+  /** Excluded hues in degrees; from > to wraps through 0 (330-30 covers reds) */
+  hueRanges?: Array<{ from: number; to: number }>;
+  /** Allowed HSL saturation, 0-100 */
+  saturation?: { min?: number; max?: number };
+  /** Allowed HSL lightness, 0-100 */
+  lightness?: { min?: number; max?: number };
+  /** Specific colors, with a CIEDE2000 tolerance (default 10) */
+  colors?: Array<{ hex: string; tolerance?: number }>;
+}
+
+// A color swapped out because it violated an exclusion
+export interface ExclusionReplacement {
+  position: number;
+  original: string;
+  replacement: string;
+  stage: 'colors' | 'harmony' | 'accessibility' | 'extraction';
+  violations: string[];
+  /** No allowed color was found, so the original was kept */
+  unresolved?: boolean;
+}
+
+// Everything the backend needs to re-run a text generation
+export interface GenerationRecipe {
+  pipelineVersion: number;
+  prompt: string;
+  /** Provider that produced the raw colors, or 'color-theory-fallback' */
+  provider: string;
+  model: string;
+  seed: number;
+  options: GenerationOptions & { temperature?: number };
+  context: GenerationContext;
+}
+
+// What the backend's prompt analyzer understood from a prompt
+export interface GenerationContext {
+  prompt: string;
+  mood?: string;
+  industry?: string;
+  targetAudience?: string;
+  brandPersonality?: string[];
+  /** Colors named in the prompt by CSS name or hex code */
+  namedColors?: Array<{ term: string; hex: string; source: 'css' | 'hex' }>;
+  /** Colors and qualities the prompt asks to avoid */
+  negations?: Array<{ term: string; kind: 'color' | 'descriptor'; hex?: string }>;
+  colorCountHint?: number;
+  /** 0-1 per field, 0 when the field was not found */
+  confidence?: Record<'mood' | 'industry' | 'targetAudience' | 'brandPersonality' | 'namedColors' | 'negations' | 'colorCountHint', number>;
+}
+
+export interface LockedColor {
+  hex: string;
+  /** Zero-based slot in the palette */
+  position: number;
+  category?: ColorData['category'];
+  name?: string;
 }
 
 export interface TextGenerationRequest {
@@ -66,6 +149,61 @@ export interface TextGenerationRequest {
   options?: GenerationOptions;
 }
 
+export interface PaletteVariant {
+  colors: ColorData[];
+  accessibilityScore: AccessibilityScore;
+  harmonyType: NonNullable<GenerationOptions['harmonyType']>;
+  /** Ranking score (0-1) combining confidence and passing contrast checks */
+  score: number;
+  confidence: number;
+  explanation: string;
+  model: string;
+  recipe?: GenerationRecipe;
+  attempts?: GenerationAttempt[];
+  replacedColors?: ExclusionReplacement[];
+  cached?: boolean;
+}
+
+export interface GenerationVariantsResponse {
+  /** Suggested name for whichever variant is saved */
+  name: string;
+  prompt: string;
+  requested: number;
+  /** Distinct variants, best first */
+  variants: PaletteVariant[];
+}
+
+export interface RegenerateColorRequest {
+  /** Number of alternatives to suggest (1-8, default 3) */
+  count?: number;
+  harmonyType?: GenerationOptions['harmonyType'];
+  accessibilityLevel?: 'AA' | 'AAA';
+  contrastModel?: ContrastModel;
+}
+
+export interface ColorAlternativesResponse {
+  paletteId: string;
+  index: number;
+  current: ColorData;
+  alternatives: ColorData[];
+  explanation: string;
+  model: string;
+  processingTime: number;
+}
+
+export interface RecipeReplayResponse {
+  paletteId: string;
+  colors: ColorData[];
+  explanation: string;
+  model: string;
+  recipe: GenerationRecipe;
+  /** Whether the replay matched the saved colors exactly */
+  identical: boolean;
+  /** Reasons the replay may differ from the saved palette */
+  warnings: string[];
+  processingTime: number;
+}
+
 export interface GenerationResponse {
   id: string;
   name: string;
@@ -75,20 +213,185 @@ export interface GenerationResponse {
   processingTime: number;
   explanation: string;
   model: string;
+  /** Provider requests, repairs and salvages tried before the palette was produced */
+  attempts?: GenerationAttempt[];
+  /** Colors replaced because they violated options.exclude */
+  replacedColors?: ExclusionReplacement[];
+  /** Whether the palette was reused from the generation cache */
+  cached?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type SourceFormat = 'css' | 'scss' | 'svg' | 'html';
+
+/** Near-duplicate colors found in a source file, merged into the most used one */
+export interface SourceColorCluster {
+  hex: string;
+  /** Usage frequency scaled by the property it paints for stylesheets, or shape area for SVG */
+  weight: number;
+  occurrences: number;
+  properties: string[];
+  /** Share of the total weight of all colors found (0-1) */
+  share: number;
+  members: string[];
+}
+
+export interface SourceGenerationResponse extends GenerationResponse {
+  sourceMetadata: {
+    format: SourceFormat;
+    colorsFound: number;
+    clusters: SourceColorCluster[];
+  };
+  warnings: string[];
+}
+
+export interface GenerationAttempt {
+  /** Provider name, or 'color-theory-fallback' */
+  provider: string;
+  stage: 'generate' | 'repair' | 'salvage' | 'fallback';
+  outcome: 'success' | 'invalid' | 'error';
+  errors?: string[];
+  processingTime: number;
+}
+
+export type GenerationStage = 'context' | 'colors' | 'harmony' | 'accessibility' | 'names' | 'saved';
+
+export interface GenerationProgressEvent {
+  stage: GenerationStage;
+  /** Palette as of this stage; raw model colors arrive incrementally while `partial` is true */
+  colors?: ColorData[];
+  partial?: boolean;
+  model?: string;
+}
+
+export interface StreamGenerationHandlers {
+  onProgress?: (event: GenerationProgressEvent) => void;
+  /** Abort to cancel generation; the server stops work and does not save the palette */
+  signal?: AbortSignal;
+}
+
 export interface APIError {
   error: string;
   code?: string;
   details?: Record<string, unknown>;
 }
 
+/** Color space of an uploaded image; untagged RGB images are taken to be sRGB */
+export type SourceColorSpace =
+  | 'srgb'
+  | 'display-p3'
+  | 'adobe-rgb'
+  | 'prophoto-rgb'
+  | 'rgb'
+  | 'cmyk'
+  | 'gray'
+  | 'unknown';
+
+/** 'kmeans' favors the largest areas of the image; 'median-cut' and 'octree' keep small accents */
+export type ExtractionAlgorithm = 'kmeans' | 'median-cut' | 'octree';
+
+/** Part of an image, in coordinates relative to its size (0-1) */
+export type ExtractionRegion =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: Array<{ x: number; y: number }> };
+
+export interface ImageGenerationOptions extends GenerationOptions {
+  algorithm?: ExtractionAlgorithm;
+  /** Only extract colors from these parts of the image */
+  regions?: ExtractionRegion[];
+  /** Skip the plain background around the subject */
+  excludeBackground?: boolean;
+  /** Weight eye-catching pixels above large plain areas when clustering */
+  saliency?: boolean;
+  /** Reserve the last color for the most salient hue the others miss */
+  accentSlot?: boolean;
+}
+
 export interface ImageGenerationRequest {
   image: File;
   userId?: string;
-  options?: GenerationOptions;
+  options?: ImageGenerationOptions;
+  /** Grayscale or transparent mask; colors are only taken where it is white or opaque */
+  mask?: File;
+}
+
+export interface ExtractedColor {
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  /** Percentage of the image's pixels closest to this color (0-100) */
+  coverage: number;
+  /** Added by the accent slot */
+  accent?: boolean;
+}
+
+export interface ImageGenerationResponse extends GenerationResponse {
+  imageMetadata?: {
+    originalSize: { width: number; height: number };
+    processedSize: { width: number; height: number };
+    format: string;
+    dominantColorCount: number;
+    algorithm: ExtractionAlgorithm;
+    /** Colors extracted from the image before enhancement, most used first */
+    colorCoverage: ExtractedColor[];
+    /** Percentage of the image's pixels colors were extracted from */
+    selectedArea: number;
+    /** Percentage of the image's pixels detected as background */
+    backgroundArea: number;
+    colorSpace: SourceColorSpace;
+    /** Description of the image's embedded ICC profile */
+    iccProfile?: string;
+    /** Whether some colors were outside sRGB and clipped to its edge */
+    gamutClipped: boolean;
+    /** Percentage of the image's pixels clipped to sRGB */
+    clippedArea: number;
+  };
+  /** Warnings about the image, such as a CMYK source */
+  warnings?: string[];
+}
+
+/** Regions, masks and the accent slot are per image, so mood boards do not take them */
+export type MoodBoardOptions = Omit<ImageGenerationOptions, 'regions' | 'accentSlot'>;
+
+export interface MoodBoardImage {
+  file: File;
+  /** Relative importance of the image in the palette; 1 when omitted */
+  weight?: number;
+}
+
+export interface MoodBoardColor {
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  /** Percentage of the whole board, with each image counted by its weight (0-100) */
+  coverage: number;
+  /** Images the color was found in, largest share first */
+  sources: Array<{
+    /** Index of the image in upload order */
+    image: number;
+    /** Percentage of that image closest to the color (0-100) */
+    coverage: number;
+    /** Percentage of the color's weight that came from that image (0-100) */
+    share: number;
+  }>;
+}
+
+export interface MoodBoardResponse extends GenerationResponse {
+  moodBoard: {
+    colors: MoodBoardColor[];
+    images: Array<{
+      name: string;
+      weight: number;
+      originalSize: { width: number; height: number };
+      format: string;
+      colorCoverage: ExtractedColor[];
+      selectedArea: number;
+      backgroundArea: number;
+      colorSpace: SourceColorSpace;
+      gamutClipped: boolean;
+    }>;
+  };
+  /** Warnings about the images, prefixed with the file name */
+  warnings?: string[];
 }
 
 export interface ImageUploadProgress {
@@ -118,6 +421,58 @@ export interface APIResponse<T = any> {
   message?: string;
 }
 
+export interface ColorVisionSimulation {
+  type: ColorBlindnessType;
+  severity: number;
+  colors: {
+    original: string;
+    simulated: string;
+  }[];
+}
+
+export interface SimulateColorVisionRequest {
+  colors: string[];
+  severity?: number;
+  types?: ColorBlindnessType[];
+}
+
+export interface ContrastPairing {
+  foreground: number;
+  background: number;
+}
+
+export interface FixContrastRequest {
+  colors: string[];
+  pairings: ContrastPairing[];
+  level?: 'AA' | 'AAA';
+  textSize?: 'normal' | 'large';
+  /** Indices of colors that must not change */
+  lockedColors?: number[];
+}
+
+export interface ContrastFixResult {
+  solved: boolean;
+  targetRatio: number;
+  totalDeltaE: number;
+  colors: {
+    index: number;
+    before: string;
+    after: string;
+    changed: boolean;
+    locked: boolean;
+    deltaE: number;
+    oklch: {
+      before: { l: number; c: number; h: number };
+      after: { l: number; c: number; h: number };
+    };
+  }[];
+  pairings: (ContrastPairing & {
+    ratioBefore: number;
+    ratioAfter: number;
+    passes: boolean;
+  })[];
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
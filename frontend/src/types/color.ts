@@ -26,12 +26,26 @@ export interface Color {
   };
 }
 
+export type ContrastModel = 'wcag2' | 'apca';
+
+export interface APCAFontRecommendation {
+  /** Lowest Lc magnitude for this recommendation */
+  minLc: number;
+  use: 'body' | 'content' | 'large' | 'spot' | 'non-text' | 'none';
+  description: string;
+  /** Minimum font size (px) for each font weight */
+  fonts: { size: number; weight: number }[];
+}
+
 export interface ContrastRatio {
   color1: string;
   color2: string;
   ratio: number;
   level: 'AA' | 'AAA' | 'FAIL';
   isTextReadable: boolean;
+  /** APCA lightness contrast with color1 as text on color2 */
+  apcaLc?: number;
+  apcaRecommendation?: APCAFontRecommendation;
 }
 
 export interface AccessibilityScore {
@@ -41,6 +55,8 @@ export interface AccessibilityScore {
   recommendations: string[];
   passedChecks: number;
   totalChecks: number;
+  /** Model used to grade the contrast levels, WCAG 2 when absent */
+  contrastModel?: ContrastModel;
 }
 
 export interface ColorPalette {
@@ -58,12 +74,21 @@ export interface GenerationOptions {
   colorCount: number;
   harmonyType: 'complementary' | 'triadic' | 'analogous' | 'monochromatic' | 'tetradic';
   accessibilityLevel: 'AA' | 'AAA';
+  /** How accessibilityLevel is checked: WCAG 2 ratios (4.5/7) or APCA Lc (60/75) */
+  contrastModel?: ContrastModel;
   includeNeutrals: boolean;
 }
 
-export type ColorBlindnessType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+export type ColorBlindnessType =
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia'
+  | 'protanomaly'
+  | 'deuteranomaly'
+  | 'tritanomaly'
+  | 'achromatopsia';
 
-export type ExportFormat = 'css' | 'scss' | 'json' | 'ase' | 'sketch' | 'figma' | 'tailwind';
+export type ExportFormat = 'css' | 'scss' | 'json' | 'ase' | 'sketch' | 'figma' | 'tailwind' | 'dtcg' | 'style-dictionary';
 
 export interface ExportData {
   format: ExportFormat;
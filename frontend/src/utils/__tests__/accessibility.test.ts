@@ -7,6 +7,8 @@ import {
   analyzeColorAccessibility,
   getAccessibilityStatusIcon,
   formatContrastRatio,
+  formatAPCAContrast,
+  calculateContrast,
   getColorBlindnessDescription,
   isTextReadable,
   getBestTextColor,
@@ -232,12 +234,30 @@ describe('Frontend Accessibility Utilities', () => {
     });
   });
 
+  describe('APCA contrast model', () => {
+    it('should format Lc values', () => {
+      expect(formatAPCAContrast(63.06)).toBe('Lc 63.1');
+      expect(formatAPCAContrast(-107.88)).toBe('Lc -107.9');
+    });
+
+    it('should grade pairs by Lc when the APCA model is selected', () => {
+      const wcag = calculateContrast('#888888', '#FFFFFF');
+      const apca = calculateContrast('#888888', '#FFFFFF', 'apca');
+
+      expect(wcag.level).toBe('FAIL');
+      expect(apca.level).toBe('AA');
+      expect(apca.apcaLc).toBeCloseTo(63.1, 1);
+      expect(apca.apcaRecommendation?.use).toBe('content');
+    });
+  });
+
   describe('getColorBlindnessDescription', () => {
     it('should return correct descriptions', () => {
       expect(getColorBlindnessDescription('protanopia')).toBe('Red-blind (Protanopia)');
       expect(getColorBlindnessDescription('deuteranopia')).toBe('Green-blind (Deuteranopia)');
       expect(getColorBlindnessDescription('tritanopia')).toBe('Blue-blind (Tritanopia)');
       expect(getColorBlindnessDescription('achromatopsia')).toBe('Complete color blindness (Achromatopsia)');
+      expect(getColorBlindnessDescription('deuteranomaly')).toBe('Green-weak (Deuteranomaly)');
     });
   });
 
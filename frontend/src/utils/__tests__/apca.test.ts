@@ -0,0 +1,29 @@
+// Unit tests for APCA contrast calculation
+
+import { describe, it, expect } from 'vitest';
+import { calculateAPCAContrast, getAPCAFontRecommendation, getAPCALevel } from '../apca';
+
+describe('APCA Contrast', () => {
+  // Same table as backend/src/utils/__tests__/apca.test.ts
+  const cases: [string, string, number][] = [
+    ['#000000', '#FFFFFF', 106.04],
+    ['#FFFFFF', '#000000', -107.88],
+    ['#888888', '#FFFFFF', 63.06],
+    ['#FFFFFF', '#888888', -68.54],
+  ];
+
+  it.each(cases)('should score %s text on %s as Lc %d', (text, background, expected) => {
+    expect(calculateAPCAContrast(text, background)).toBeCloseTo(expected, 1);
+  });
+
+  it('should return 0 for near-identical colors', () => {
+    expect(calculateAPCAContrast('#F0F0F0', '#FFFFFF')).toBe(0);
+  });
+
+  it('should look up font guidance and levels by Lc magnitude', () => {
+    expect(getAPCAFontRecommendation(-80).use).toBe('body');
+    expect(getAPCAFontRecommendation(50).fonts).toContainEqual({ size: 24, weight: 700 });
+    expect(getAPCALevel(63)).toBe('AA');
+    expect(getAPCALevel(-40)).toBe('FAIL');
+  });
+});
@@ -0,0 +1,40 @@
+// Unit tests for color vision deficiency simulation
+
+import { describe, it, expect } from 'vitest';
+import { simulateCVD, simulateCVDHex, COLOR_BLINDNESS_TYPES } from '../colorVision';
+
+describe('Color Vision Deficiency Simulation', () => {
+  describe('reference results', () => {
+    // Same table as backend/src/utils/__tests__/colorVision.test.ts
+    const cases: [string, 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia', string][] = [
+      ['#FF0000', 'protanopia', '#6D5F00'],
+      ['#00FF00', 'protanopia', '#FFE500'],
+      ['#FF0000', 'deuteranopia', '#A39000'],
+      ['#0000FF', 'deuteranopia', '#003DFB'],
+      ['#0000FF', 'tritanopia', '#006288'],
+      ['#00FF00', 'tritanopia', '#79E9FF'],
+      ['#FF0000', 'achromatopsia', '#7F7F7F'],
+    ];
+
+    it.each(cases)('should simulate %s under %s as %s', (hex, type, expected) => {
+      expect(simulateCVDHex(hex, type)).toBe(expected);
+    });
+  });
+
+  it('should leave neutrals unchanged for every type', () => {
+    COLOR_BLINDNESS_TYPES.forEach(type => {
+      ['#000000', '#808080', '#FFFFFF'].forEach(hex => {
+        expect(simulateCVDHex(hex, type, 1)).toBe(hex);
+      });
+    });
+  });
+
+  it('should match normal vision at severity 0 and dichromacy at severity 1', () => {
+    const red = { r: 255, g: 0, b: 0 };
+
+    expect(simulateCVD(red, 'protanomaly', 0)).toEqual(red);
+    expect(simulateCVD(red, 'protanomaly', 1)).toEqual(simulateCVD(red, 'protanopia'));
+    expect(simulateCVD(red, 'deuteranomaly', 1)).toEqual(simulateCVD(red, 'deuteranopia'));
+    expect(simulateCVD(red, 'tritanomaly', 1)).toEqual(simulateCVD(red, 'tritanopia'));
+  });
+});
@@ -0,0 +1,38 @@
+// Unit tests for extraction region geometry
+
+import { describe, it, expect } from 'vitest';
+import { closesPolygon, rectFromPoints, toRelativePoint, toSvgPoints } from '../regions';
+
+describe('regions', () => {
+  it('should convert pointer positions to clamped relative points', () => {
+    const box = { left: 100, top: 50, width: 200, height: 100 };
+
+    expect(toRelativePoint(150, 75, box)).toEqual({ x: 0.25, y: 0.25 });
+    expect(toRelativePoint(90, 200, box)).toEqual({ x: 0, y: 1 });
+  });
+
+  it('should build rectangles from corners dragged in any direction', () => {
+    expect(rectFromPoints({ x: 0.75, y: 0.5 }, { x: 0.25, y: 0.25 })).toEqual({
+      type: 'rect',
+      x: 0.25,
+      y: 0.25,
+      width: 0.5,
+      height: 0.25,
+    });
+    expect(rectFromPoints({ x: 0.5, y: 0.5 }, { x: 0.505, y: 0.7 })).toBeNull();
+  });
+
+  it('should close a polygon only with three points and a click near the first', () => {
+    const points = [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }];
+
+    expect(closesPolygon(points, { x: 0.11, y: 0.11 })).toBe(false);
+    expect(closesPolygon([...points, { x: 0.5, y: 0.5 }], { x: 0.11, y: 0.11 })).toBe(true);
+    expect(closesPolygon([...points, { x: 0.5, y: 0.5 }], { x: 0.2, y: 0.2 })).toBe(false);
+  });
+
+  it('should draw regions in a 0-100 viewBox', () => {
+    expect(toSvgPoints({ type: 'rect', x: 0.1, y: 0.2, width: 0.3, height: 0.4 })).toBe('10,20 40,20 40,60 10,60');
+    expect(toSvgPoints({ type: 'polygon', points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0.5, y: 1 }] }))
+      .toBe('0,0 100,0 50,100');
+  });
+});
@@ -0,0 +1,36 @@
+// Unit tests for Server-Sent Events parsing
+
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvents } from '../sse';
+
+describe('parseServerSentEvents', () => {
+  it('should parse complete events and keep the trailing partial event', () => {
+    const buffer =
+      'event: progress\ndata: {"stage":"context"}\n\n' +
+      'event: progress\ndata: {"stage":"colors"}\n\n' +
+      'event: complete\ndata: {"succ';
+
+    const { events, rest } = parseServerSentEvents(buffer);
+
+    expect(events).toEqual([
+      { event: 'progress', data: '{"stage":"context"}' },
+      { event: 'progress', data: '{"stage":"colors"}' },
+    ]);
+    expect(rest).toBe('event: complete\ndata: {"succ');
+  });
+
+  it('should reassemble events split across chunks', () => {
+    const first = parseServerSentEvents('event: progress\ndata: {"stage":');
+    const second = parseServerSentEvents(first.rest + '"harmony"}\n\n');
+
+    expect(first.events).toEqual([]);
+    expect(second.events).toEqual([{ event: 'progress', data: '{"stage":"harmony"}' }]);
+    expect(second.rest).toBe('');
+  });
+
+  it('should default the event name, join multi-line data and skip comments', () => {
+    const { events } = parseServerSentEvents(': keep-alive\n\ndata: line one\r\ndata: line two\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'line one\nline two' }]);
+  });
+});
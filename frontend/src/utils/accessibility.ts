@@ -4,7 +4,8 @@ import {
   Color, 
   AccessibilityScore, 
   ContrastRatio, 
-  ColorBlindnessType 
+  ColorBlindnessType,
+  ContrastModel
 } from '../types/color';
 import { 
   hexToRgb, 
@@ -12,12 +13,15 @@ import {
   getContrastRatio, 
   getWCAGLevel 
 } from './colorConversion';
+import { calculateAPCAContrast, getAPCAFontRecommendation, getAPCALevel, APCA_LEVEL_THRESHOLDS } from './apca';
+import { simulateCVDHex } from './colorVision';
 
 /**
  * Calculate accessibility score for a color palette (frontend version)
+ * Levels are graded by WCAG 2 contrast ratios or, for 'apca', by APCA Lc values
  */
-export function calculateAccessibilityScore(colors: Color[]): AccessibilityScore {
-  const contrastRatios = calculateAllContrastRatios(colors);
+export function calculateAccessibilityScore(colors: Color[], contrastModel: ContrastModel = 'wcag2'): AccessibilityScore {
+  const contrastRatios = calculateAllContrastRatios(colors, contrastModel);
   const colorBlindnessCompatible = checkColorBlindnessCompatibility(colors);
   const recommendations = generateAccessibilityRecommendations(colors, contrastRatios);
   
@@ -33,54 +37,50 @@ export function calculateAccessibilityScore(colors: Color[]): AccessibilityScore
     recommendations,
     passedChecks,
     totalChecks,
+    contrastModel,
   };
 }
 
 /**
  * Calculate contrast ratios between all color combinations
  */
-function calculateAllContrastRatios(colors: Color[]): ContrastRatio[] {
+function calculateAllContrastRatios(colors: Color[], contrastModel: ContrastModel): ContrastRatio[] {
   const ratios: ContrastRatio[] = [];
   
   // Test each color against white and black backgrounds
   colors.forEach(color => {
-    const whiteRatio = getContrastRatio(color.hex, '#FFFFFF');
-    const blackRatio = getContrastRatio(color.hex, '#000000');
-    
-    ratios.push({
-      color1: color.hex,
-      color2: '#FFFFFF',
-      ratio: whiteRatio,
-      level: getWCAGLevel(whiteRatio),
-      isTextReadable: whiteRatio >= 4.5,
-    });
-    
-    ratios.push({
-      color1: color.hex,
-      color2: '#000000',
-      ratio: blackRatio,
-      level: getWCAGLevel(blackRatio),
-      isTextReadable: blackRatio >= 4.5,
-    });
+    ratios.push(calculateContrast(color.hex, '#FFFFFF', contrastModel));
+    ratios.push(calculateContrast(color.hex, '#000000', contrastModel));
   });
   
   // Test color combinations within the palette
   for (let i = 0; i < colors.length; i++) {
     for (let j = i + 1; j < colors.length; j++) {
-      const ratio = getContrastRatio(colors[i].hex, colors[j].hex);
-      ratios.push({
-        color1: colors[i].hex,
-        color2: colors[j].hex,
-        ratio,
-        level: getWCAGLevel(ratio),
-        isTextReadable: ratio >= 4.5,
-      });
+      ratios.push(calculateContrast(colors[i].hex, colors[j].hex, contrastModel));
     }
   }
   
   return ratios;
 }
 
+/**
+ * Calculate WCAG 2 and APCA contrast for one pair, with color1 as text on color2
+ */
+export function calculateContrast(color1: string, color2: string, contrastModel: ContrastModel = 'wcag2'): ContrastRatio {
+  const ratio = getContrastRatio(color1, color2);
+  const apcaLc = Math.round(calculateAPCAContrast(color1, color2) * 10) / 10;
+  
+  return {
+    color1,
+    color2,
+    ratio,
+    level: contrastModel === 'apca' ? getAPCALevel(apcaLc) : getWCAGLevel(ratio),
+    isTextReadable: contrastModel === 'apca' ? Math.abs(apcaLc) >= APCA_LEVEL_THRESHOLDS.AA : ratio >= 4.5,
+    apcaLc,
+    apcaRecommendation: getAPCAFontRecommendation(apcaLc),
+  };
+}
+
 /**
  * Check if the palette is compatible with color blindness
  */
@@ -108,47 +108,10 @@ function checkColorBlindnessCompatibility(colors: Color[]): boolean {
 
 /**
  * Simulate color blindness for a given color
+ * Severity (0-1) applies to the anomalous trichromacies (protanomaly, deuteranomaly, tritanomaly)
  */
-export function simulateColorBlindness(hex: string, type: ColorBlindnessType): string {
-  const rgb = hexToRgb(hex);
-  let r = rgb.r / 255;
-  let g = rgb.g / 255;
-  let b = rgb.b / 255;
-  
-  // Apply color blindness transformation matrices
-  switch (type) {
-    case 'protanopia': // Red-blind
-      r = 0.567 * r + 0.433 * g;
-      g = 0.558 * r + 0.442 * g;
-      b = 0.242 * g + 0.758 * b;
-      break;
-      
-    case 'deuteranopia': // Green-blind
-      r = 0.625 * r + 0.375 * g;
-      g = 0.7 * r + 0.3 * g;
-      b = 0.3 * g + 0.7 * b;
-      break;
-      
-    case 'tritanopia': // Blue-blind
-      r = 0.95 * r + 0.05 * g;
-      g = 0.433 * g + 0.567 * b;
-      b = 0.475 * g + 0.525 * b;
-      break;
-      
-    case 'achromatopsia': // Complete color blindness (grayscale)
-      const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-      r = g = b = gray;
-      break;
-  }
-  
-  // Convert back to hex
-  const newRgb = {
-    r: Math.round(Math.max(0, Math.min(255, r * 255))),
-    g: Math.round(Math.max(0, Math.min(255, g * 255))),
-    b: Math.round(Math.max(0, Math.min(255, b * 255))),
-  };
-  
-  return `#${newRgb.r.toString(16).padStart(2, '0')}${newRgb.g.toString(16).padStart(2, '0')}${newRgb.b.toString(16).padStart(2, '0')}`;
+export function simulateColorBlindness(hex: string, type: ColorBlindnessType, severity?: number): string {
+  return simulateCVDHex(hex, type, severity);
 }
 
 /**
@@ -253,9 +216,11 @@ function generateAccessibilityRecommendations(
 /**
  * Get detailed accessibility analysis for a specific color
  */
-export function analyzeColorAccessibility(color: Color): {
+export function analyzeColorAccessibility(color: Color, contrastModel: ContrastModel = 'wcag2'): {
   contrastWithWhite: number;
   contrastWithBlack: number;
+  apcaLcOnWhite: number;
+  apcaLcOnBlack: number;
   wcagLevelWhite: 'AA' | 'AAA' | 'FAIL';
   wcagLevelBlack: 'AA' | 'AAA' | 'FAIL';
   luminance: number;
@@ -263,11 +228,13 @@ export function analyzeColorAccessibility(color: Color): {
 } {
   const rgb = hexToRgb(color.hex);
   const luminance = getRelativeLuminance(rgb);
-  const contrastWithWhite = getContrastRatio(color.hex, '#FFFFFF');
-  const contrastWithBlack = getContrastRatio(color.hex, '#000000');
+  const onWhite = calculateContrast(color.hex, '#FFFFFF', contrastModel);
+  const onBlack = calculateContrast(color.hex, '#000000', contrastModel);
   
-  const wcagLevelWhite = getWCAGLevel(contrastWithWhite);
-  const wcagLevelBlack = getWCAGLevel(contrastWithBlack);
+  const contrastWithWhite = onWhite.ratio;
+  const contrastWithBlack = onBlack.ratio;
+  const wcagLevelWhite = onWhite.level;
+  const wcagLevelBlack = onBlack.level;
   
   const recommendations: string[] = [];
   
@@ -288,6 +255,8 @@ export function analyzeColorAccessibility(color: Color): {
   return {
     contrastWithWhite,
     contrastWithBlack,
+    apcaLcOnWhite: onWhite.apcaLc as number,
+    apcaLcOnBlack: onBlack.apcaLc as number,
     wcagLevelWhite,
     wcagLevelBlack,
     luminance,
@@ -332,6 +301,13 @@ export function formatContrastRatio(ratio: number): string {
   return `${ratio.toFixed(2)}:1`;
 }
 
+/**
+ * Format an APCA lightness contrast value for display
+ */
+export function formatAPCAContrast(lc: number): string {
+  return `Lc ${lc.toFixed(1)}`;
+}
+
 /**
  * Get readable description of color blindness type
  */
@@ -343,6 +319,12 @@ export function getColorBlindnessDescription(type: ColorBlindnessType): string {
       return 'Green-blind (Deuteranopia)';
     case 'tritanopia':
       return 'Blue-blind (Tritanopia)';
+    case 'protanomaly':
+      return 'Red-weak (Protanomaly)';
+    case 'deuteranomaly':
+      return 'Green-weak (Deuteranomaly)';
+    case 'tritanomaly':
+      return 'Blue-weak (Tritanomaly)';
     case 'achromatopsia':
       return 'Complete color blindness (Achromatopsia)';
   }
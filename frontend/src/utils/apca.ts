@@ -0,0 +1,137 @@
+// APCA (Accessible Perceptual Contrast Algorithm) contrast, as drafted for WCAG 3
+//
+// Implements the APCA-W3 0.0.98G-4g constants. Lc values are signed: positive for
+// dark text on a light background, negative for light text on a dark background.
+//
+// Mirrors backend/src/utils/apca.ts; both are tested against the same reference values.
+
+import { APCAFontRecommendation } from '../types/color';
+import { hexToRgb } from './colorConversion';
+
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+};
+
+/**
+ * Lc thresholds standing in for the WCAG 2 AA and AAA levels when the APCA model is selected
+ */
+export const APCA_LEVEL_THRESHOLDS = {
+  AA: 60,
+  AAA: 75,
+} as const;
+
+// APCA "Bronze" conformance levels with minimum size/weight pairs (reference font Helvetica)
+const FONT_RECOMMENDATIONS: APCAFontRecommendation[] = [
+  {
+    minLc: 90,
+    use: 'body',
+    description: 'Preferred for body text and long-form reading',
+    fonts: [{ size: 14, weight: 400 }, { size: 18, weight: 300 }, { size: 24, weight: 200 }],
+  },
+  {
+    minLc: 75,
+    use: 'body',
+    description: 'Minimum for columns of body text',
+    fonts: [{ size: 14, weight: 700 }, { size: 16, weight: 500 }, { size: 18, weight: 400 }, { size: 24, weight: 300 }],
+  },
+  {
+    minLc: 60,
+    use: 'content',
+    description: 'Minimum for content text that is not body text',
+    fonts: [{ size: 16, weight: 700 }, { size: 18, weight: 600 }, { size: 21, weight: 500 }, { size: 24, weight: 400 }, { size: 36, weight: 300 }],
+  },
+  {
+    minLc: 45,
+    use: 'large',
+    description: 'Minimum for headlines and large, heavy text',
+    fonts: [{ size: 24, weight: 700 }, { size: 36, weight: 400 }],
+  },
+  {
+    minLc: 30,
+    use: 'spot',
+    description: 'Minimum for spot-readable text such as placeholders and disabled labels',
+    fonts: [{ size: 24, weight: 400 }],
+  },
+  {
+    minLc: 15,
+    use: 'non-text',
+    description: 'Minimum for discernible non-text elements; not suitable for text',
+    fonts: [],
+  },
+];
+
+function screenLuminance(hex: string): number {
+  const { r, g, b } = hexToRgb(hex);
+  const y =
+    APCA.sRco * Math.pow(r / 255, APCA.mainTRC) +
+    APCA.sGco * Math.pow(g / 255, APCA.mainTRC) +
+    APCA.sBco * Math.pow(b / 255, APCA.mainTRC);
+
+  // Soft clamp near black to account for flare
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+/**
+ * Calculate the APCA lightness contrast (Lc) of text on a background
+ */
+export function calculateAPCAContrast(textColor: string, backgroundColor: string): number {
+  const yText = screenLuminance(textColor);
+  const yBackground = screenLuminance(backgroundColor);
+
+  if (Math.abs(yBackground - yText) < APCA.deltaYmin) {
+    return 0;
+  }
+
+  let output: number;
+  if (yBackground > yText) {
+    // Dark text on a light background
+    const sapc = (Math.pow(yBackground, APCA.normBG) - Math.pow(yText, APCA.normTXT)) * APCA.scaleBoW;
+    output = sapc < APCA.loClip ? 0 : sapc - APCA.loBoWoffset;
+  } else {
+    // Light text on a dark background
+    const sapc = (Math.pow(yBackground, APCA.revBG) - Math.pow(yText, APCA.revTXT)) * APCA.scaleWoB;
+    output = sapc > -APCA.loClip ? 0 : sapc + APCA.loWoBoffset;
+  }
+
+  return output * 100;
+}
+
+/**
+ * Look up the text uses and minimum font size/weight combinations an Lc value supports
+ */
+export function getAPCAFontRecommendation(lc: number): APCAFontRecommendation {
+  const magnitude = Math.abs(lc);
+  const match = FONT_RECOMMENDATIONS.find(recommendation => magnitude >= recommendation.minLc);
+
+  return match || {
+    minLc: 0,
+    use: 'none',
+    description: 'Insufficient contrast for text or meaningful non-text elements',
+    fonts: [],
+  };
+}
+
+/**
+ * Map an Lc value onto the AA/AAA/FAIL scale used by the rest of the API
+ */
+export function getAPCALevel(lc: number): 'AA' | 'AAA' | 'FAIL' {
+  const magnitude = Math.abs(lc);
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.AAA) return 'AAA';
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.AA) return 'AA';
+  return 'FAIL';
+}
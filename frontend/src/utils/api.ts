@@ -1,5 +1,29 @@
 import axios, { AxiosResponse, AxiosError, AxiosRequestConfig } from 'axios';
-import { TextGenerationRequest, GenerationResponse, APIError, GenerationOptions, ColorPalette } from '../types/api';
+import {
+  TextGenerationRequest,
+  GenerationResponse,
+  APIError,
+  ColorPalette,
+  ColorVisionSimulation,
+  SimulateColorVisionRequest,
+  FixContrastRequest,
+  ContrastFixResult,
+  GenerationProgressEvent,
+  StreamGenerationHandlers,
+  RegenerateColorRequest,
+  ColorAlternativesResponse,
+  GenerationVariantsResponse,
+  RecipeReplayResponse,
+  GenerationContext,
+  SourceFormat,
+  SourceGenerationResponse,
+  ImageGenerationOptions,
+  ImageGenerationResponse,
+  MoodBoardImage,
+  MoodBoardOptions,
+  MoodBoardResponse,
+} from '../types/api';
+import { parseServerSentEvents } from './sse';
 
 // Retry configuration
 interface RetryConfig {
@@ -124,6 +148,20 @@ api.interceptors.response.use(
   }
 );
 
+// Normalize fetch failures while streaming into the APIError shape used by the axios interceptor
+const toStreamError = (error: unknown): APIError => {
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return { error: 'Generation cancelled', code: 'GENERATION_CANCELLED' };
+  }
+  if (error && typeof error === 'object' && 'error' in error) {
+    return error as APIError;
+  }
+  return {
+    error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    code: 'NETWORK_ERROR',
+  };
+};
+
 // Color generation API functions
 export const colorAPI = {
   /**
@@ -139,18 +177,119 @@ export const colorAPI = {
     }
   },
 
+  /**
+   * Generate several candidate palettes for one prompt, ranked best first and not yet saved
+   */
+  generateVariants: async (request: TextGenerationRequest, variants: number): Promise<GenerationVariantsResponse> => {
+    try {
+      const response = await api.post<{ success: boolean; data: GenerationVariantsResponse }>('/generate/text', {
+        ...request,
+        options: { ...request.options, variants },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Variant generation failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Generate color palette from text prompt, receiving each pipeline stage as it completes.
+   * Uses fetch rather than axios so the response can be read incrementally; there is no
+   * request timeout or retry, and aborting the signal cancels generation on the server.
+   */
+  generateFromTextStream: async (
+    request: TextGenerationRequest,
+    handlers: StreamGenerationHandlers = {}
+  ): Promise<GenerationResponse> => {
+    let response: Response;
+    try {
+      response = await fetch(`${api.defaults.baseURL}/generate/text/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(request),
+        signal: handlers.signal,
+      });
+    } catch (error) {
+      throw toStreamError(error);
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      const apiError: APIError = {
+        error: body.error || `Generation failed with status ${response.status}`,
+        code: body.code || 'UNKNOWN_ERROR',
+        details: body.details,
+      };
+      throw apiError;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseServerSentEvents(buffer);
+        buffer = parsed.rest;
+
+        for (const event of parsed.events) {
+          const data = JSON.parse(event.data);
+
+          if (event.event === 'progress') {
+            handlers.onProgress?.(data as GenerationProgressEvent);
+          } else if (event.event === 'complete') {
+            return {
+              ...data.data,
+              processingTime: data.processingTime,
+              explanation: data.explanation,
+              model: data.model,
+            };
+          } else if (event.event === 'error') {
+            const apiError: APIError = {
+              error: data.message || data.error || 'Color generation failed',
+              code: 'GENERATION_FAILED',
+            };
+            throw apiError;
+          }
+        }
+      }
+    } catch (error) {
+      throw toStreamError(error);
+    } finally {
+      reader.releaseLock();
+    }
+
+    const apiError: APIError = {
+      error: 'Generation stream ended before the palette was ready',
+      code: 'STREAM_INTERRUPTED',
+    };
+    throw apiError;
+  },
+
   /**
    * Generate color palette from uploaded image
    */
   generateFromImage: async (
     file: File, 
     userId?: string, 
-    options?: GenerationOptions,
-    onProgress?: (progress: number) => void
-  ): Promise<GenerationResponse> => {
+    options?: ImageGenerationOptions,
+    onProgress?: (progress: number) => void,
+    mask?: File
+  ): Promise<ImageGenerationResponse> => {
     try {
       const formData = new FormData();
       formData.append('image', file);
+      if (mask) {
+        formData.append('mask', mask);
+      }
       if (userId) {
         formData.append('userId', userId);
       }
@@ -158,7 +297,7 @@ export const colorAPI = {
         formData.append('options', JSON.stringify(options));
       }
 
-      const response = await api.post<GenerationResponse>('/generate/image', formData, {
+      const response = await api.post<ImageGenerationResponse>('/generate/image', formData, {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
@@ -177,6 +316,89 @@ export const colorAPI = {
     }
   },
 
+  /**
+   * Generate one palette from several reference images, each counted by its weight
+   */
+  generateFromMoodBoard: async (
+    images: MoodBoardImage[],
+    userId?: string,
+    options?: MoodBoardOptions,
+    onProgress?: (progress: number) => void
+  ): Promise<MoodBoardResponse> => {
+    try {
+      const formData = new FormData();
+      images.forEach(image => formData.append('images', image.file));
+      formData.append('weights', JSON.stringify(images.map(image => image.weight ?? 1)));
+      if (userId) {
+        formData.append('userId', userId);
+      }
+      if (options) {
+        formData.append('options', JSON.stringify(options));
+      }
+
+      const response = await api.post<MoodBoardResponse>('/generate/moodboard', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        onUploadProgress: (progressEvent) => {
+          if (progressEvent.total) {
+            onProgress?.(Math.round((progressEvent.loaded * 100) / progressEvent.total));
+          }
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Mood board generation failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Generate a palette from the colors declared in a stylesheet, SVG logo or saved HTML page
+   */
+  generateFromSource: async (
+    file: File,
+    userId?: string,
+    options?: { format?: SourceFormat; colorCount?: number }
+  ): Promise<SourceGenerationResponse> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (userId) {
+        formData.append('userId', userId);
+      }
+      if (options?.format) {
+        formData.append('format', options.format);
+      }
+      if (options?.colorCount) {
+        formData.append('colorCount', String(options.colorCount));
+      }
+
+      const response = await api.post<SourceGenerationResponse>('/generate/from-source', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Source generation failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Show what the prompt analyzer understands from a prompt, without generating
+   */
+  analyzePrompt: async (prompt: string): Promise<GenerationContext> => {
+    try {
+      const response = await api.post<{ success: boolean; data: GenerationContext }>('/generate/analyze-prompt', { prompt });
+      return response.data.data;
+    } catch (error) {
+      console.error('Prompt analysis failed:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get health check
    */
@@ -239,6 +461,55 @@ export const paletteAPI = {
     }
   },
 
+  /**
+   * Update a saved palette, e.g. after replacing one of its colors
+   */
+  update: async (
+    paletteId: string,
+    updates: Partial<Pick<ColorPalette, 'name' | 'prompt' | 'colors'>>
+  ): Promise<ColorPalette> => {
+    try {
+      const response = await api.put<ColorPalette>(`/palettes/${paletteId}`, updates);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update palette:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Suggest alternatives for one color of a saved palette; the palette itself is not changed
+   */
+  regenerateColor: async (
+    paletteId: string,
+    index: number,
+    request: RegenerateColorRequest = {}
+  ): Promise<ColorAlternativesResponse> => {
+    try {
+      const response = await api.post<ColorAlternativesResponse>(
+        `/palettes/${paletteId}/colors/${index}/regenerate`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Failed to regenerate color:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Re-run the generation recipe saved with a palette; the replayed palette is not saved
+   */
+  replay: async (paletteId: string): Promise<RecipeReplayResponse> => {
+    try {
+      const response = await api.post<RecipeReplayResponse>(`/palettes/${paletteId}/replay`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to replay palette:', error);
+      throw error;
+    }
+  },
+
   /**
    * Delete a color palette
    */
@@ -266,6 +537,29 @@ export const paletteAPI = {
     }
   },
 
+  /**
+   * Import a palette file (ASE, GPL, ACO, CSS or JSON) into the user's history
+   */
+  import: async (file: File, userId?: string): Promise<ColorPalette & { importedFormat: string; warnings: string[] }> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (userId) {
+        formData.append('userId', userId);
+      }
+
+      const response = await api.post('/palettes/import', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to import palette:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get a specific palette by ID
    */
@@ -280,4 +574,36 @@ export const paletteAPI = {
   },
 };
 
+// Accessibility API functions
+export const accessibilityAPI = {
+  /**
+   * Simulate colors under each color vision deficiency
+   */
+  simulate: async (request: SimulateColorVisionRequest): Promise<ColorVisionSimulation[]> => {
+    try {
+      const response = await api.post<{ success: boolean; data: { simulations: ColorVisionSimulation[] } }>(
+        '/accessibility/simulate',
+        request
+      );
+      return response.data.data.simulations;
+    } catch (error) {
+      console.error('Color vision simulation failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Adjust a palette with the smallest change so every pairing meets a WCAG contrast target
+   */
+  fixContrast: async (request: FixContrastRequest): Promise<ContrastFixResult> => {
+    try {
+      const response = await api.post<{ success: boolean; data: ContrastFixResult }>('/accessibility/fix', request);
+      return response.data.data;
+    } catch (error) {
+      console.error('Contrast fix failed:', error);
+      throw error;
+    }
+  },
+};
+
 export default api;
\ No newline at end of file
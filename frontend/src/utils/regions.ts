@@ -0,0 +1,73 @@
+// Geometry for drawing extraction regions over an image preview
+//
+// Regions use coordinates relative to the image (0-1), so they map onto the uploaded image
+// whatever size the preview is shown at.
+
+import { ExtractionRegion } from '../types/api';
+
+export interface RelativePoint {
+  x: number;
+  y: number;
+}
+
+/** Smallest rectangle side kept, so a click does not create a region */
+export const MIN_REGION_SIZE = 0.01;
+
+/** Distance from the first polygon point within which a click closes the polygon */
+export const CLOSE_DISTANCE = 0.03;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Position of a pointer relative to an element's box, clamped to its edges
+ */
+export function toRelativePoint(
+  clientX: number,
+  clientY: number,
+  box: { left: number; top: number; width: number; height: number }
+): RelativePoint {
+  return {
+    x: box.width > 0 ? clamp01((clientX - box.left) / box.width) : 0,
+    y: box.height > 0 ? clamp01((clientY - box.top) / box.height) : 0,
+  };
+}
+
+/**
+ * Rectangle spanning two corners in any order, or null when it is too small to be intended
+ */
+export function rectFromPoints(start: RelativePoint, end: RelativePoint): ExtractionRegion | null {
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) {
+    return null;
+  }
+  return {
+    type: 'rect',
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width,
+    height,
+  };
+}
+
+/**
+ * Whether a click should close a polygon in progress
+ */
+export function closesPolygon(points: RelativePoint[], point: RelativePoint): boolean {
+  return points.length >= 3 && Math.hypot(point.x - points[0].x, point.y - points[0].y) <= CLOSE_DISTANCE;
+}
+
+/**
+ * Region corners as an SVG points attribute in a 0-100 viewBox
+ */
+export function toSvgPoints(region: ExtractionRegion): string {
+  const points = region.type === 'rect'
+    ? [
+        { x: region.x, y: region.y },
+        { x: region.x + region.width, y: region.y },
+        { x: region.x + region.width, y: region.y + region.height },
+        { x: region.x, y: region.y + region.height },
+      ]
+    : region.points;
+  return points.map(point => `${+(point.x * 100).toFixed(2)},${+(point.y * 100).toFixed(2)}`).join(' ');
+}
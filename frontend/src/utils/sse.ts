@@ -0,0 +1,40 @@
+// Server-Sent Events parsing for streamed API responses read with fetch
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split buffered stream text into complete events, returning any trailing partial event
+ * so it can be prepended to the next chunk
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks
+    .map(block => {
+      let event = 'message';
+      const data: string[] = [];
+
+      block.split('\n').forEach(line => {
+        if (line.startsWith(':')) return; // Comment or keep-alive
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'event') {
+          event = value;
+        } else if (field === 'data') {
+          data.push(value);
+        }
+      });
+
+      return { event, data: data.join('\n') };
+    })
+    .filter(event => event.data !== '');
+
+  return { events, rest };
+}